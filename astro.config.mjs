@@ -25,6 +25,8 @@ export default defineConfig({
   integrations: [
     react(),
     sitemap({
+      // Offline fallback served by the service worker; not a page to index
+      filter: (page) => !page.includes('/en/offline'),
       serialize(item) {
         // Extract card ID from URL patterns like /cards/123 or /ja/cards/123
         const cardMatch = item.url.match(/\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?cards\/(\d+)\/?$/);
@@ -1,80 +1,570 @@
 /**
  * Service Worker for OtogiDB
- * Caches Cloudinary images to reduce bandwidth and improve repeat visit performance.
+ * Keeps the card database and calculator usable offline, and caches Cloudinary
+ * images to reduce bandwidth on repeat visits.
  *
  * Strategy:
  * - Cache-first for Cloudinary images (immutable by URL)
- * - Network-first for everything else (HTML, JSON, etc.)
+ * - Cache-first for /_astro/* bundles (content-hashed filenames). On activate,
+ *   bundles no cached page references any more are deleted
+ * - Network-first for pages, falling back to the cached copy, then /en/offline.
+ *   The main routes are precached on install; other pages are kept as visited,
+ *   up to MAX_RUNTIME_PAGES (least recently fetched dropped first)
+ * - Stale-while-revalidate for card data (cards_index, cards_skeleton,
+ *   skills.json, events.json, calendar.json): served from cache, then
+ *   refreshed in the background when /data/manifest.json reports a new data
+ *   version
+ * - Delta sync for the English cards index: an older cached copy is patched
+ *   with the RFC 6902 deltas listed in the manifest and checked against its
+ *   data_hash, falling back to a full download if anything doesn't line up.
+ *   Runs in the background refresh and when a page asks for an index that
+ *   isn't cached yet, so pages no longer patch on the main thread
+ * - Network-first for /data/manifest.json (cached copy used offline)
+ * - Network only for everything else
  */
 
-const CACHE_NAME = 'otogidb-images-v1';
+// JSON Patch for delta sync, built from the rfc6902 package
+// (src/pages/sw-rfc6902.js.ts). Without it every update is a full download.
+try {
+  importScripts('/sw-rfc6902.js');
+} catch (error) {
+  console.warn('SW: rfc6902 unavailable, delta sync disabled', error);
+}
+
+const IMAGE_CACHE = 'otogidb-images-v1';
+const SHELL_CACHE = 'otogidb-shell-v1';
+const DATA_CACHE = 'otogidb-data-v1';
+const CURRENT_CACHES = [IMAGE_CACHE, SHELL_CACHE, DATA_CACHE];
+
 const CLOUDINARY_HOST = 'res.cloudinary.com';
+const OFFLINE_PAGE = '/en/offline';
+const SHELL_ROUTES = [
+  '/en',
+  '/en/calculator',
+  '/en/compare',
+  '/en/calendar',
+  '/en/updates',
+  '/en/tools',
+  '/en/tools/watchlist',
+  OFFLINE_PAGE,
+];
+const DATA_MANIFEST = '/data/manifest.json';
+const PRECACHE_DATA = ['/data/skills.json', '/data/events.json', '/data/calendar.json'];
+const DATA_PATH_PATTERN =
+  /^\/data\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:cards_(?:index|skeleton)(?:\.[0-9a-f]+)?|skills|events|calendar)\.json$/;
+/** Deltas are computed on the English index, so only it can be patched */
+const DELTA_INDEX_PATTERN = /^\/data\/cards_index(?:\.[0-9a-f]+)?\.json$/;
+/** Header stored on cached data responses: the data version they were fetched for */
+const VERSION_HEADER = 'x-otogidb-data-version';
+/** Visited pages kept for offline use on top of SHELL_ROUTES */
+const MAX_RUNTIME_PAGES = 50;
+/** Don't ask for the manifest more often than this while serving from cache */
+const REVALIDATE_INTERVAL = 5 * 60 * 1000;
+
+let lastRevalidation = 0;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Pages are cached by path only: /en/tools/ and /en/tools?x=1 share an entry */
+function pageCacheKey(url) {
+  const { origin, pathname } = new URL(url);
+  const path = pathname.length > 1 ? pathname.replace(/\/$/, '') : pathname;
+  return `${origin}${path}`;
+}
+
+function isShellRoute(url) {
+  return SHELL_ROUTES.some((route) => pageCacheKey(new URL(route, self.location.origin).href) === url);
+}
+
+function isAssetUrl(url) {
+  return new URL(url).pathname.startsWith('/_astro/');
+}
+
+function dataCacheKey(url) {
+  const { origin, pathname } = new URL(url);
+  return `${origin}${pathname}`;
+}
+
+/**
+ * Copy a response so it can be stored and later served for a navigation.
+ * Browsers refuse to use a cached response that was redirected, and the
+ * version header lets data requests tell which deploy an entry came from.
+ */
+async function storableResponse(response, version) {
+  if (!response.redirected && version === undefined) return response;
+  const headers = new Headers(response.headers);
+  if (version !== undefined) headers.set(VERSION_HEADER, version);
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/** Bundles and stylesheets referenced by a page (island components included) */
+function extractAssetUrls(html) {
+  const urls = new Set();
+  const pattern = /(?:src|href|component-url|renderer-url)="(\/_astro\/[^"]+)"/g;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    urls.add(match[1]);
+  }
+  return [...urls];
+}
+
+/**
+ * The data version a data request is for. src/lib/cache.ts appends
+ * ?v=<data version>-<content hash>; cached entries carry the manifest's data
+ * version only.
+ */
+function requestedDataVersion(url) {
+  const v = url.searchParams.get('v');
+  return v ? v.split('-')[0] : null;
+}
+
+async function fetchManifest() {
+  const response = await fetch(DATA_MANIFEST, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Manifest fetch failed: ${response.status}`);
+  const cache = await caches.open(DATA_CACHE);
+  await cache.put(DATA_MANIFEST, response.clone());
+  return response.json();
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  for (const client of clients) {
+    client.postMessage(message);
+  }
+}
+
+// =============================================================================
+// Precache
+// =============================================================================
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const assets = new Set();
 
-// Install: Skip waiting to activate immediately
-self.addEventListener('install', () => {
-  self.skipWaiting();
+  await Promise.allSettled(SHELL_ROUTES.map(async (route) => {
+    const response = await fetch(route, { cache: 'no-cache' });
+    if (!response.ok) return;
+    const html = await response.clone().text();
+    extractAssetUrls(html).forEach((url) => assets.add(url));
+    await cache.put(pageCacheKey(new URL(route, self.location.origin).href), await storableResponse(response));
+  }));
+
+  await Promise.allSettled([...assets].map((url) => cache.add(url)));
+}
+
+async function precacheData() {
+  const manifest = await fetchManifest();
+  const cache = await caches.open(DATA_CACHE);
+  const indexPath = manifest.files?.en?.cards_index;
+  const paths = indexPath ? [indexPath, ...PRECACHE_DATA] : PRECACHE_DATA;
+
+  await Promise.allSettled(paths.map(async (path) => {
+    const response = await fetch(path);
+    if (response.ok) {
+      await cache.put(dataCacheKey(new URL(path, self.location.origin).href), await storableResponse(response, manifest.version));
+    }
+  }));
+}
+
+// =============================================================================
+// Shell cache housekeeping
+// =============================================================================
+
+/**
+ * Drop the least recently fetched visited pages beyond MAX_RUNTIME_PAGES.
+ * Cache keys come back in insertion order, and put() re-inserts an entry, so
+ * the oldest keys are the pages fetched longest ago.
+ */
+async function trimRuntimePages(cache) {
+  const keys = await cache.keys();
+  const pages = keys.filter((request) => !isAssetUrl(request.url) && !isShellRoute(request.url));
+  const excess = pages.length - MAX_RUNTIME_PAGES;
+  if (excess > 0) {
+    await Promise.all(pages.slice(0, excess).map((request) => cache.delete(request)));
+  }
+}
+
+/**
+ * Delete bundles left behind by earlier deploys: every /_astro/ entry that no
+ * cached page references. The shell is re-precached on install, so this keeps
+ * the current shell's bundles plus those of visited pages still within
+ * MAX_RUNTIME_PAGES (which would otherwise break offline).
+ */
+async function pruneAssets() {
+  const cache = await caches.open(SHELL_CACHE);
+  const keys = await cache.keys();
+  const referenced = new Set();
+
+  await Promise.all(keys.filter((request) => !isAssetUrl(request.url)).map(async (request) => {
+    const response = await cache.match(request);
+    if (response) extractAssetUrls(await response.text()).forEach((url) => referenced.add(url));
+  }));
+
+  await Promise.all(keys
+    .filter((request) => isAssetUrl(request.url) && !referenced.has(new URL(request.url).pathname))
+    .map((request) => cache.delete(request)));
+}
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+// Install: precache what's reachable, but never fail the install over it —
+// a partial precache still leaves runtime caching working
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.allSettled([precacheShell(), precacheData()]).then(() => self.skipWaiting())
+  );
 });
 
-// Activate: Clean up old caches
+// Activate: Clean up old caches and bundles from earlier deploys
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name.startsWith('otogidb-') && name !== CACHE_NAME)
+          .filter((name) => name.startsWith('otogidb-') && !CURRENT_CACHES.includes(name))
           .map((name) => caches.delete(name))
       );
-    }).then(() => {
+    }).then(() => pruneAssets().catch((error) => {
+      console.warn('SW: bundle cleanup failed', error);
+    })).then(() => {
       // Take control of all clients immediately
       return self.clients.claim();
     })
   );
 });
 
-// Fetch: Cache-first for Cloudinary images
-self.addEventListener('fetch', (event) => {
-  const url = new URL(event.request.url);
+// =============================================================================
+// Strategies
+// =============================================================================
 
-  // Only intercept Cloudinary image requests
-  if (url.hostname !== CLOUDINARY_HOST) {
-    return; // Let browser handle normally
+function handleImage(request) {
+  return caches.open(IMAGE_CACHE).then((cache) => {
+    return cache.match(request).then((cachedResponse) => {
+      if (cachedResponse) {
+        // Cache hit - return cached response
+        return cachedResponse;
+      }
+
+      // Cache miss - fetch from network and cache
+      return fetch(request).then((networkResponse) => {
+        // Only cache successful responses
+        if (networkResponse.ok) {
+          // Clone the response since we need to use it twice
+          cache.put(request, networkResponse.clone());
+        }
+        return networkResponse;
+      }).catch((error) => {
+        console.error('SW fetch failed:', error);
+        throw error;
+      });
+    });
+  });
+}
+
+async function handleAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function handlePage(request) {
+  const key = pageCacheKey(request.url);
+  const cache = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok && response.type === 'basic') {
+      storableResponse(response.clone())
+        .then((copy) => cache.put(key, copy))
+        .then(() => trimRuntimePages(cache));
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(key)) || (await cache.match(pageCacheKey(new URL(OFFLINE_PAGE, self.location.origin).href)));
+    if (cached) return cached;
+    throw error;
   }
+}
+
+/** Offline and this exact hashed index isn't cached: any cached version of the same file will do */
+async function matchOtherDataVersion(cache, pathname) {
+  const base = pathname.replace(/\.[0-9a-f]+\.json$/, '');
+  if (base === pathname) return undefined;
+  const keys = await cache.keys();
+  const other = keys.find((request) => {
+    const otherPath = new URL(request.url).pathname;
+    return otherPath.replace(/\.[0-9a-f]+\.json$/, '') === base;
+  });
+  return other ? cache.match(other) : undefined;
+}
 
-  // Only cache GET requests for images
-  if (event.request.method !== 'GET') {
+async function handleData(request) {
+  const url = new URL(request.url);
+  const key = dataCacheKey(request.url);
+  const cache = await caches.open(DATA_CACHE);
+  const cached = await cache.match(key);
+  // A hashed index path always holds the same content. Other files are
+  // checked against the version the page asked for: the IndexedDB layer
+  // (src/lib/cache.ts) stores what we return under that version, so an entry
+  // from an older deploy must not answer for a newer one while we're online
+  const requestedVersion = requestedDataVersion(url);
+  const cachedVersion = cached?.headers.get(VERSION_HEADER);
+  const hashed = /\.[0-9a-f]+\.json$/.test(url.pathname);
+
+  if (cached && (hashed || !requestedVersion || requestedVersion === cachedVersion)) {
+    revalidateData();
+    return cached;
+  }
+
+  if (DELTA_INDEX_PATTERN.test(url.pathname)) {
+    const patched = await patchToRequestedIndex(cache, url.pathname);
+    if (patched) return patched;
+  }
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      storableResponse(response.clone(), requestedVersion || cachedVersion || '').then((copy) => cache.put(key, copy));
+    }
+    return response;
+  } catch (error) {
+    const fallback = cached || (await matchOtherDataVersion(cache, url.pathname));
+    if (fallback) return fallback;
+    throw error;
+  }
+}
+
+async function handleManifest(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(DATA_CACHE);
+      cache.put(DATA_MANIFEST, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(DATA_MANIFEST, { cacheName: DATA_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// =============================================================================
+// Background revalidation
+// =============================================================================
+
+/**
+ * Check the manifest and bring cached data files from an older data version
+ * up to date: the English index by delta where possible, everything else by
+ * refetching. Hashed index files are replaced by the manifest's current path
+ * for their locale; the old hash is dropped once the new file is stored.
+ */
+function revalidateData() {
+  const now = Date.now();
+  if (now - lastRevalidation < REVALIDATE_INTERVAL) return;
+  lastRevalidation = now;
+
+  refreshStaleData().catch((error) => {
+    console.warn('SW data revalidation failed:', error);
+  });
+}
+
+async function refreshStaleData() {
+  const manifest = await fetchManifest();
+  const version = manifest.version;
+  if (!version) return;
+
+  const cache = await caches.open(DATA_CACHE);
+  const currentPaths = new Set();
+  for (const files of Object.values(manifest.files || {})) {
+    if (files.cards_index) currentPaths.add(files.cards_index);
+    if (files.cards_skeleton) currentPaths.add(files.cards_skeleton);
+  }
+
+  let updated = false;
+  for (const request of await cache.keys()) {
+    const pathname = new URL(request.url).pathname;
+    if (!DATA_PATH_PATTERN.test(pathname)) continue;
+
+    const cached = await cache.match(request);
+    if (cached?.headers.get(VERSION_HEADER) === version) continue;
+
+    const base = pathname.replace(/\.[0-9a-f]+\.json$/, '');
+    const hashed = base !== pathname;
+    const target = hashed
+      ? [...currentPaths].find((path) => path.replace(/\.[0-9a-f]+\.json$/, '') === base)
+      : pathname;
+    if (!target) continue;
+
+    const patched = DELTA_INDEX_PATTERN.test(pathname) && (await patchCachedIndex(cache, request, target, manifest));
+    if (!patched) {
+      const response = await fetch(target, { cache: 'no-cache' });
+      if (!response.ok) continue;
+      await cache.put(dataCacheKey(new URL(target, self.location.origin).href), await storableResponse(response, version));
+      if (target !== pathname) await cache.delete(request);
+    }
+    updated = true;
+  }
+
+  if (updated) notifyClients({ type: 'data-updated', version });
+}
+
+// =============================================================================
+// Delta sync
+// =============================================================================
+
+/**
+ * Walk sequential deltas (V1→V2, V2→V3, …) from one data_hash to another.
+ * Same as findDeltaChain in src/lib/delta.ts, over the manifest's entries.
+ */
+function findDeltaChain(deltas, from, to) {
+  if (from === to) return [];
+  const path = [];
+  const visited = new Set();
+  let current = from;
+  while (current !== to) {
+    if (visited.has(current)) return null;
+    visited.add(current);
+    const next = deltas.find((delta) => delta.from_version === current);
+    if (!next) return null;
+    path.push(next);
+    current = next.to_version;
+  }
+  return path;
+}
+
+/**
+ * Patch a cards index (in place) up to the manifest's data_hash.
+ * Returns null when there's no delta path, a hop fails to fetch or apply, or
+ * the result fails the integrity check — the caller downloads the full file.
+ */
+async function applyDeltaChain(index, manifest) {
+  const target = manifest.data_hash || manifest.version;
+  const from = index.data_hash ?? index.version;
+  const chain = target && from ? findDeltaChain(manifest.delta?.available_deltas || [], from, target) : null;
+  if (!chain) return null;
+
+  for (const hop of chain) {
+    // Delta files are immutable
+    const response = await fetch(hop.file || `/data/delta/${hop.from_version}_to_${hop.to_version}.json`, { cache: 'force-cache' });
+    if (!response.ok) return null;
+    const delta = await response.json();
+    // rfc6902 returns one entry per operation: null on success, an Error otherwise
+    const failures = self.rfc6902.applyPatch(index, delta.patch).filter((error) => error !== null);
+    if (failures.length > 0) {
+      console.warn(`SW delta ${hop.from_version} → ${hop.to_version} failed:`, failures.map(String));
+      return null;
+    }
+  }
+
+  // Every delta sets /data_hash to its to_version, so a partial apply or a
+  // corrupt cached copy shows up here
+  const finalHash = index.data_hash ?? index.version;
+  if (finalHash !== target) {
+    console.warn(`SW delta integrity check failed: expected ${target}, got ${finalHash}`);
+    return null;
+  }
+  const cardCount = Object.keys(index.cards || {}).length;
+  if (typeof index.total_cards === 'number' && index.total_cards !== cardCount) {
+    console.warn(`SW delta integrity check failed: ${index.total_cards} cards expected, ${cardCount} present`);
+    return null;
+  }
+  return index;
+}
+
+/**
+ * Patch the cached index under `sourceRequest` and store it at `targetPath`,
+ * dropping the source entry if the path changed. Returns the stored response,
+ * or null if the delta route didn't work out.
+ */
+async function patchCachedIndex(cache, sourceRequest, targetPath, manifest) {
+  if (!self.rfc6902) return null;
+  try {
+    const cached = await cache.match(sourceRequest);
+    const index = cached && (await applyDeltaChain(await cached.json(), manifest));
+    if (!index) return null;
+
+    const response = new Response(JSON.stringify(index), {
+      headers: { 'Content-Type': 'application/json', [VERSION_HEADER]: manifest.version },
+    });
+    const targetKey = dataCacheKey(new URL(targetPath, self.location.origin).href);
+    await cache.put(targetKey, response.clone());
+    if (dataCacheKey(sourceRequest.url) !== targetKey) await cache.delete(sourceRequest);
+    return response;
+  } catch (error) {
+    console.warn('SW delta sync failed, falling back to a full download:', error);
+    return null;
+  }
+}
+
+/**
+ * A page asked for an English index we don't have: if it's the manifest's
+ * current one and an older copy is cached, build it from that copy.
+ */
+async function patchToRequestedIndex(cache, pathname) {
+  if (!self.rfc6902) return null;
+  const keys = await cache.keys();
+  const source = keys.find((request) => DELTA_INDEX_PATTERN.test(new URL(request.url).pathname));
+  if (!source) return null;
+
+  try {
+    const manifest = await fetchManifest();
+    const en = manifest.files?.en;
+    if (pathname !== en?.cards_index && pathname !== en?.cards_index_base) return null;
+    return await patchCachedIndex(cache, source, pathname, manifest);
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Fetch routing
+// =============================================================================
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
     return;
   }
 
-  event.respondWith(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.match(event.request).then((cachedResponse) => {
-        if (cachedResponse) {
-          // Cache hit - return cached response
-          return cachedResponse;
-        }
+  const url = new URL(request.url);
 
-        // Cache miss - fetch from network and cache
-        return fetch(event.request).then((networkResponse) => {
-          // Only cache successful responses
-          if (networkResponse.ok) {
-            // Clone the response since we need to use it twice
-            cache.put(event.request, networkResponse.clone());
-          }
-          return networkResponse;
-        }).catch((error) => {
-          console.error('SW fetch failed:', error);
-          // Could return a placeholder here if desired
-          throw error;
-        });
-      });
-    })
-  );
+  if (url.hostname === CLOUDINARY_HOST) {
+    event.respondWith(handleImage(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) {
+    return; // Let browser handle normally
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handlePage(request));
+  } else if (url.pathname.startsWith('/_astro/')) {
+    event.respondWith(handleAsset(request));
+  } else if (url.pathname === DATA_MANIFEST) {
+    event.respondWith(handleManifest(request));
+  } else if (DATA_PATH_PATTERN.test(url.pathname)) {
+    event.respondWith(handleData(request));
+  }
 });
 
 // Optional: Listen for messages to clear cache
 self.addEventListener('message', (event) => {
   if (event.data === 'clearCache') {
-    caches.delete(CACHE_NAME).then(() => {
+    caches.delete(IMAGE_CACHE).then(() => {
       console.log('Image cache cleared');
     });
   }
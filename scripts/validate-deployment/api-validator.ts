@@ -5,6 +5,14 @@
 
 import { fetchWithRetry } from './retry.js';
 import type { ValidationResult } from './types.js';
+import {
+  API_BASE_PATH,
+  API_SCHEMA_NAMES,
+  API_SCHEMAS,
+  getApiSchemaPath,
+  validateJsonSchema,
+  type ApiSchemaName,
+} from '../../src/lib/publicApi.js';
 
 export interface ApiEndpoint {
   url: string;
@@ -13,6 +21,35 @@ export interface ApiEndpoint {
   validator?: (data: unknown) => { valid: boolean; error?: string };
 }
 
+function schemaValidator(name: ApiSchemaName): ApiEndpoint['validator'] {
+  return (data) => {
+    const errors = validateJsonSchema(data, API_SCHEMAS[name]);
+    if (errors.length > 0) {
+      const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : '';
+      return { valid: false, error: `Schema violation: ${errors.slice(0, 3).join('; ')}${more}` };
+    }
+    return { valid: true };
+  };
+}
+
+// Public API v1 (see src/lib/publicApi.ts). Responses are checked against the
+// schemas in the repo, and the published schemas must match them exactly, so
+// a change that would break third-party consumers fails the deployment.
+const PUBLIC_API_ENDPOINTS: ApiEndpoint[] = [
+  { url: `${API_BASE_PATH}/cards/1.json`, description: 'Public API: card', validator: schemaValidator('card') },
+  { url: `${API_BASE_PATH}/skills.json`, description: 'Public API: skills', validator: schemaValidator('skills') },
+  { url: `${API_BASE_PATH}/events.json`, description: 'Public API: events', validator: schemaValidator('events') },
+  { url: `${API_BASE_PATH}/calendar.json`, description: 'Public API: calendar', validator: schemaValidator('calendar') },
+  ...API_SCHEMA_NAMES.map((name): ApiEndpoint => ({
+    url: getApiSchemaPath(name),
+    description: `Public API: ${name} schema`,
+    validator: (data) =>
+      JSON.stringify(data) === JSON.stringify(API_SCHEMAS[name])
+        ? { valid: true }
+        : { valid: false, error: 'Published schema differs from src/lib/publicApi.ts' },
+  })),
+];
+
 // Define the data endpoints to validate
 export const DATA_ENDPOINTS: ApiEndpoint[] = [
   {
@@ -113,6 +150,7 @@ export const DATA_ENDPOINTS: ApiEndpoint[] = [
   //     return { valid: true };
   //   },
   // },
+  ...PUBLIC_API_ENDPOINTS,
 ];
 
 export interface ApiValidationResult extends ValidationResult {
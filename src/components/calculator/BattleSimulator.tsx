@@ -0,0 +1,306 @@
+/**
+ * Battle Simulator Component
+ * Time-stepped simulation of the current team: skill casts, buff windows,
+ * wave changes and a per-second damage timeline
+ */
+
+import { useState, useMemo, useEffect } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type {
+  TeamMemberState,
+  EnemyState,
+  RandomTargetMode,
+  BattleSimulationConfig,
+} from '../../lib/team-calc-types';
+import { MAIN_TEAM_SIZE, DEFAULT_SKILL_INTERVAL_SECONDS } from '../../lib/team-calc-types';
+import { simulateBattle } from '../../lib/battle-sim';
+
+interface BattleSimulatorProps {
+  members: TeamMemberState[];
+  enemy: EnemyState;
+  abilityTargetOverrides: Record<string, number[]>;
+  randomTargetMode: RandomTargetMode;
+}
+
+/**
+ * Storage format for the battle simulator
+ */
+interface StoredSimulatorState {
+  durationSeconds: number;
+  waveCount: number;
+  waveDurationSeconds: number;
+  skillIntervals: number[];
+}
+
+const SIMULATOR_STORAGE_KEY = 'otogidb-battle-simulator';
+
+const MEMBER_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6'];
+
+function createDefaultState(): StoredSimulatorState {
+  return {
+    durationSeconds: 180,
+    waveCount: 3,
+    waveDurationSeconds: 30,
+    skillIntervals: Array.from({ length: MAIN_TEAM_SIZE }, () => DEFAULT_SKILL_INTERVAL_SECONDS),
+  };
+}
+
+export function BattleSimulator({
+  members,
+  enemy,
+  abilityTargetOverrides,
+  randomTargetMode,
+}: BattleSimulatorProps) {
+  const [settings, setSettings] = useState<StoredSimulatorState>(createDefaultState);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [hasLoadedFromStorage, setHasLoadedFromStorage] = useState(false);
+
+  // Load from storage on mount
+  useEffect(() => {
+    if (hasLoadedFromStorage) return;
+
+    try {
+      const stored = localStorage.getItem(SIMULATOR_STORAGE_KEY);
+      if (stored) {
+        const data: Partial<StoredSimulatorState> = JSON.parse(stored);
+        setSettings(prev => ({ ...prev, ...data }));
+      }
+    } catch (e) {
+      console.warn('Failed to load battle simulator state:', e);
+    }
+    setHasLoadedFromStorage(true);
+  }, [hasLoadedFromStorage]);
+
+  // Save to storage when settings change
+  useEffect(() => {
+    if (!hasLoadedFromStorage) return;
+
+    try {
+      localStorage.setItem(SIMULATOR_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.warn('Failed to save battle simulator state:', e);
+    }
+  }, [settings, hasLoadedFromStorage]);
+
+  // Only simulate while the panel is open — the team recalculates on every edit
+  const result = useMemo(() => {
+    if (!isExpanded) return null;
+    const config: BattleSimulationConfig = {
+      ...settings,
+      abilityTargetOverrides,
+      randomTargetMode,
+    };
+    return simulateBattle(members, enemy, config);
+  }, [isExpanded, settings, members, enemy, abilityTargetOverrides, randomTargetMode]);
+
+  const chartData = useMemo(() => {
+    if (!result) return [];
+    return result.timeline.map(point => {
+      const row: Record<string, number> = { second: point.second };
+      point.memberDamage.forEach((dmg, i) => {
+        row[`m${i}`] = dmg;
+      });
+      return row;
+    });
+  }, [result]);
+
+  const setIntervalFor = (index: number, value: number) => {
+    setSettings(prev => {
+      const skillIntervals = [...prev.skillIntervals];
+      skillIntervals[index] = value;
+      return { ...prev, skillIntervals };
+    });
+  };
+
+  const formatNum = (n: number) => n.toLocaleString();
+  const formatDamage = (n: number) => {
+    if (n >= 1_000_000_000) return `${(n / 1_000_000_000).toFixed(2)}B`;
+    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+    if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+    return formatNum(Math.round(n));
+  };
+
+  const mainTeam = members.slice(0, MAIN_TEAM_SIZE);
+  const memberLabel = (index: number) =>
+    mainTeam[index]?.card?.name?.split(' ')[0] || `Slot ${index + 1}`;
+
+  return (
+    <details
+      className="bg-surface rounded-lg"
+      open={isExpanded}
+      onToggle={(e) => setIsExpanded((e.target as HTMLDetailsElement).open)}
+    >
+      <summary className="px-4 py-3 cursor-pointer text-sm font-medium text-primary hover:text-blue-400 flex items-center justify-between">
+        <span>Battle Simulator</span>
+        {result && (
+          <span className="text-xs text-secondary">
+            {formatDamage(result.totalDamage)} over {settings.durationSeconds}s
+          </span>
+        )}
+      </summary>
+
+      <div className="px-4 pb-4 space-y-4">
+        {/* Fight settings */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="text-sm text-secondary flex items-center gap-2">
+            Duration
+            <input
+              type="number"
+              value={settings.durationSeconds}
+              onChange={(e) => setSettings(prev => ({ ...prev, durationSeconds: Math.max(1, parseInt(e.target.value) || 0) }))}
+              className="w-20 px-2 py-1 bg-surface-hover border border-border rounded text-sm text-primary"
+              min={1}
+            />
+            <span className="text-xs">sec</span>
+          </label>
+          <label className="text-sm text-secondary flex items-center gap-2">
+            Waves
+            <input
+              type="number"
+              value={settings.waveCount}
+              onChange={(e) => setSettings(prev => ({ ...prev, waveCount: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) }))}
+              className="w-16 px-2 py-1 bg-surface-hover border border-border rounded text-sm text-primary"
+              min={1}
+              max={10}
+            />
+          </label>
+          <label className="text-sm text-secondary flex items-center gap-2">
+            Wave length
+            <input
+              type="number"
+              value={settings.waveDurationSeconds}
+              onChange={(e) => setSettings(prev => ({ ...prev, waveDurationSeconds: Math.max(1, parseInt(e.target.value) || 0) }))}
+              className="w-20 px-2 py-1 bg-surface-hover border border-border rounded text-sm text-primary"
+              min={1}
+              disabled={settings.waveCount <= 1}
+            />
+            <span className="text-xs">sec</span>
+          </label>
+        </div>
+
+        {/* Per-member skill timing */}
+        <div className="p-2 bg-surface-hover rounded border border-border">
+          <div className="text-xs text-tertiary mb-2">Skill cast interval (seconds, 0 = never)</div>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {mainTeam.map((member, index) => (
+              <label key={index} className="flex items-center gap-1 text-xs text-secondary">
+                <span className="truncate w-16" title={member.card?.name || ''}>
+                  {memberLabel(index)}
+                </span>
+                <input
+                  type="number"
+                  value={settings.skillIntervals[index] ?? 0}
+                  onChange={(e) => setIntervalFor(index, Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-14 px-1 py-0.5 bg-surface border border-border rounded text-xs text-primary text-center"
+                  min={0}
+                  disabled={!member.card?.skill}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-tertiary">
+            Buff windows use each skill's parsed duration. Wave Start abilities stack each wave; Final Wave abilities start with the last wave.
+          </p>
+        </div>
+
+        {result && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+              <div>
+                <div className="text-xs text-tertiary">Total Damage</div>
+                <div className="text-lg font-mono text-green-400">{formatDamage(result.totalDamage)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-tertiary">Avg DPS</div>
+                <div className="text-lg font-mono text-purple-400">{formatNum(result.averageDps)}/s</div>
+              </div>
+              <div>
+                <div className="text-xs text-tertiary">Skill Casts</div>
+                <div className="text-lg font-mono text-blue-400">{result.casts.length}</div>
+              </div>
+              <div>
+                <div className="text-xs text-tertiary">Skill Share</div>
+                <div className="text-lg font-mono text-primary">
+                  {result.totalDamage > 0
+                    ? `${((result.memberTotals.reduce((sum, m) => sum + m.skillDamage, 0) / result.totalDamage) * 100).toFixed(1)}%`
+                    : '-'}
+                </div>
+              </div>
+            </div>
+
+            {/* Per-second timeline */}
+            <div className="bg-surface-hover rounded-lg p-2">
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={chartData} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2} />
+                  <XAxis dataKey="second" tick={{ fontSize: 11 }} />
+                  <YAxis tickFormatter={formatDamage} tick={{ fontSize: 11 }} width={60} />
+                  <Tooltip
+                    formatter={(value, name) => [formatNum(Number(value)), memberLabel(parseInt(String(name).slice(1)))]}
+                    labelFormatter={(label) => `${label}s`}
+                  />
+                  {mainTeam.map((member, index) => member.card && (
+                    <Bar
+                      key={index}
+                      dataKey={`m${index}`}
+                      stackId="damage"
+                      fill={MEMBER_COLORS[index]}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Member totals */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-tertiary border-b border-border">
+                    <th className="text-left py-1">Member</th>
+                    <th className="text-right py-1">Attacks</th>
+                    <th className="text-right py-1">Normal</th>
+                    <th className="text-right py-1">Casts</th>
+                    <th className="text-right py-1">Skill</th>
+                    <th className="text-right py-1">Buff Uptime</th>
+                    <th className="text-right py-1">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.memberTotals.filter(t => mainTeam[t.memberIndex]?.card).map(totals => (
+                    <tr key={totals.memberIndex} className="border-b border-border/50">
+                      <td className="py-1">
+                        <span
+                          className="inline-block w-2 h-2 rounded-full mr-2"
+                          style={{ backgroundColor: MEMBER_COLORS[totals.memberIndex] }}
+                        />
+                        <span className="text-primary">{memberLabel(totals.memberIndex)}</span>
+                      </td>
+                      <td className="text-right font-mono text-secondary">{totals.attacks}</td>
+                      <td className="text-right font-mono text-primary">{formatDamage(totals.normalDamage)}</td>
+                      <td className="text-right font-mono text-secondary">{totals.casts}</td>
+                      <td className="text-right font-mono text-blue-400">{formatDamage(totals.skillDamage)}</td>
+                      <td className="text-right font-mono text-secondary">
+                        {mainTeam[totals.memberIndex]?.skillEffect ? `${(totals.buffUptime * 100).toFixed(0)}%` : '-'}
+                      </td>
+                      <td className="text-right font-mono text-green-400">{formatDamage(totals.totalDamage)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
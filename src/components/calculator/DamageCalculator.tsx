@@ -12,6 +12,7 @@ import {
   type StatComparison,
 } from '../../lib/damage-calc';
 import { HeatmapSection } from './StatHeatmap';
+import { DamageDistributionView } from './DamageDistribution';
 
 // Assist card definitions (bond bonuses - multiplicative to base stats)
 // attribute: 1=Divina, 2=Phantasma, 3=Anima, 4=Healer
@@ -428,6 +429,11 @@ export function DamageCalculator() {
   // UI state
   const [comparisonMode, setComparisonMode] = useState<'dps' | 'skill'>('dps');
 
+  // Monte Carlo distribution settings
+  const [distributionMode, setDistributionMode] = useState<'normal' | 'skill'>('normal');
+  const [distributionHits, setDistributionHits] = useState(1);
+  const [damageTarget, setDamageTarget] = useState(0);
+
   // Bond settings
   const [bondType, setBondType] = useState<'none' | 'atk15' | 'skill15' | 'atk10' | 'skill10' | 'split5' | 'split7'>('none');
   const [assistCard, setAssistCard] = useState<string>('none');
@@ -556,6 +562,15 @@ export function DamageCalculator() {
     return { result: calcResult, comparisons: statComparisons, calcInput: input, skillBaseDamage: calcResult.skillBaseDamage };
   }, [selectedCard, limitBreak, totalBuffs, enemyDebuff, ignoreShieldCap]);
 
+  // Sample crit/exceed rolls over N hits of the chosen attack
+  const distribution = useMemo(() => {
+    if (!calcInput) return null;
+    const sampled = calculateDamage(calcInput, distributionMode === 'normal'
+      ? { normalHits: distributionHits, skillHits: 0 }
+      : { normalHits: 0, skillHits: distributionHits });
+    return distributionMode === 'normal' ? sampled.normalDistribution : sampled.skillDistribution;
+  }, [calcInput, distributionMode, distributionHits]);
+
   // Feature flag check
   if (!isDev) {
     return (
@@ -719,6 +734,68 @@ export function DamageCalculator() {
             />
           </div>
 
+          {/* Damage Distribution */}
+          {distribution && (
+            <div className="bg-surface border border-border rounded-lg p-4">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-primary">Damage Distribution</h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setDistributionMode('normal')}
+                    className={`px-3 py-1 text-sm rounded ${
+                      distributionMode === 'normal'
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-surface-hover text-secondary'
+                    }`}
+                  >
+                    Normal Attack
+                  </button>
+                  <button
+                    onClick={() => setDistributionMode('skill')}
+                    className={`px-3 py-1 text-sm rounded ${
+                      distributionMode === 'skill'
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-surface-hover text-secondary'
+                    }`}
+                  >
+                    Skill
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-4 mb-4 text-sm text-secondary">
+                <label className="flex items-center gap-2">
+                  {distributionMode === 'normal' ? 'Attacks' : 'Casts'}
+                  <input
+                    type="number"
+                    value={distributionHits}
+                    onChange={(e) => setDistributionHits(Math.max(1, Math.min(1000, parseInt(e.target.value) || 1)))}
+                    className="w-20 px-2 py-1 bg-surface-hover border border-border rounded text-primary"
+                    min={1}
+                    max={1000}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Target damage
+                  <input
+                    type="number"
+                    value={damageTarget || ''}
+                    onChange={(e) => setDamageTarget(Math.max(0, parseInt(e.target.value) || 0))}
+                    placeholder="0"
+                    className="w-32 px-2 py-1 bg-surface-hover border border-border rounded text-primary"
+                    min={0}
+                  />
+                </label>
+              </div>
+              <div className="bg-surface-hover rounded-lg p-4">
+                <DamageDistributionView distribution={distribution} target={damageTarget} />
+              </div>
+              <p className="text-xs text-secondary mt-3">
+                {distribution.samples.toLocaleString()} seeded samples. Each hit rolls crit and a
+                Random(0, {limitBreak * 5}%) LB exceed bonus, capped per hit.
+              </p>
+            </div>
+          )}
+
           {/* Stat Adjustments */}
           <div className="bg-surface border border-border rounded-lg p-4">
             <h3 className="text-lg font-bold text-primary mb-1">Buff Settings</h3>
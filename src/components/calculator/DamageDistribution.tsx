@@ -0,0 +1,84 @@
+/**
+ * Damage Distribution Component
+ * Percentiles, histogram and target hit chance for a Monte Carlo damage distribution
+ */
+
+import {
+  probabilityOfReaching,
+  type DamageDistribution,
+} from '../../lib/damage-calc';
+
+interface DamageDistributionViewProps {
+  distribution: DamageDistribution;
+  target?: number; // Damage target; bins at or above it are highlighted
+  compact?: boolean; // Narrow layout for the team sidebar
+}
+
+export function DamageDistributionView({ distribution, target = 0, compact = false }: DamageDistributionViewProps) {
+  const formatNum = (n: number) => n.toLocaleString();
+  const formatDamage = (n: number) => {
+    if (n >= 1_000_000_000) return `${(n / 1_000_000_000).toFixed(2)}B`;
+    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+    if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+    return formatNum(n);
+  };
+  const format = compact ? formatDamage : formatNum;
+
+  const maxCount = Math.max(...distribution.histogram.map(bin => bin.count), 1);
+  const hitChance = target > 0 ? probabilityOfReaching(distribution, target) : null;
+
+  const chanceColor = (chance: number) => {
+    if (chance >= 0.9) return 'text-green-400';
+    if (chance >= 0.5) return 'text-yellow-400';
+    return 'text-red-400';
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Percentiles */}
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-surface rounded p-1">
+          <div className="text-xs text-tertiary">P10</div>
+          <div className="font-mono text-sm text-secondary">{format(distribution.p10)}</div>
+        </div>
+        <div className="bg-surface rounded p-1">
+          <div className="text-xs text-tertiary">P50</div>
+          <div className="font-mono text-sm text-primary font-bold">{format(distribution.p50)}</div>
+        </div>
+        <div className="bg-surface rounded p-1">
+          <div className="text-xs text-tertiary">P90</div>
+          <div className="font-mono text-sm text-secondary">{format(distribution.p90)}</div>
+        </div>
+      </div>
+
+      {/* Histogram */}
+      <div className="flex items-end gap-px h-16" aria-hidden="true">
+        {distribution.histogram.map((bin, i) => {
+          const reachesTarget = target > 0 && bin.min >= target;
+          return (
+            <div
+              key={i}
+              className={`flex-1 rounded-t ${reachesTarget ? 'bg-green-500/70' : 'bg-blue-500/60'}`}
+              style={{ height: `${(bin.count / maxCount) * 100}%` }}
+              title={`${formatNum(bin.min)} – ${formatNum(bin.max)}: ${bin.count} / ${distribution.samples}`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-tertiary font-mono">
+        <span>{format(distribution.min)}</span>
+        <span>mean {format(distribution.mean)}</span>
+        <span>{format(distribution.max)}</span>
+      </div>
+
+      {hitChance !== null && (
+        <div className="flex justify-between text-sm">
+          <span className="text-secondary">Chance to reach {format(target)}:</span>
+          <span className={`font-mono font-bold ${chanceColor(hitChance)}`}>
+            {(hitChance * 100).toFixed(1)}%
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
 interface EnemyConfigProps {
   enemy: EnemyState;
   onBaseShieldChange: (value: number) => void;
+  onBaseDefenseChange?: (value: number) => void;
   onAttributeChange: (value: EnemyAttribute) => void;
   onFinalWaveChange: (value: boolean) => void;
   onWaveCountChange: (value: number) => void;
@@ -35,6 +36,7 @@ interface EnemyConfigProps {
 export function EnemyConfig({
   enemy,
   onBaseShieldChange,
+  onBaseDefenseChange,
   onAttributeChange,
   onFinalWaveChange,
   onWaveCountChange,
@@ -122,6 +124,25 @@ export function EnemyConfig({
             </div>
           </div>
 
+          {/* Defense is only set by the World Boss Planner; show it so it can be cleared */}
+          {enemy.baseDefense > 0 && (
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-secondary">Boss Defense</span>
+              <span className="flex items-center gap-2">
+                <span className="font-mono text-primary">{(enemy.baseDefense * 100).toFixed(1)}%</span>
+                {onBaseDefenseChange && (
+                  <button
+                    type="button"
+                    onClick={() => onBaseDefenseChange(0)}
+                    className="text-xs text-secondary hover:text-primary"
+                  >
+                    Reset
+                  </button>
+                )}
+              </span>
+            </div>
+          )}
+
           {/* Enemy Attribute (Race Bonus) - RE Validated: optional feature */}
           <div>
             <div className="flex justify-between items-center text-sm mb-2">
@@ -10,6 +10,7 @@ import type {
   FightSnapshot,
   FightSnapshotMember,
   FightCalculationResult,
+  StoredFightState,
 } from '../../lib/team-calc-types';
 import { MAIN_TEAM_SIZE } from '../../lib/team-calc-types';
 
@@ -21,14 +22,8 @@ export interface FightCalculatorHandle {
   clearAll: () => void;
   exportFight: () => string;
   importFight: (json: string) => boolean;
-}
-
-/**
- * Storage format for fight calculator
- */
-interface StoredFightState {
-  fightDuration: number;
-  snapshots: FightSnapshot[];
+  getFightState: () => StoredFightState;
+  loadFightState: (data: StoredFightState) => void;
 }
 
 const FIGHT_STORAGE_KEY = 'otogidb-fight-calculator';
@@ -342,12 +337,25 @@ export const FightCalculator = forwardRef<FightCalculatorHandle, FightCalculator
     }
   }, []);
 
+  // Raw state access for share links
+  const getFightState = useCallback((): StoredFightState => ({
+    fightDuration,
+    snapshots,
+  }), [fightDuration, snapshots]);
+
+  const loadFightState = useCallback((data: StoredFightState) => {
+    setFightDuration(data.fightDuration);
+    setSnapshots(data.snapshots);
+  }, []);
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     clearAll: clearSnapshots,
     exportFight,
     importFight,
-  }), [clearSnapshots, exportFight, importFight]);
+    getFightState,
+    loadFightState,
+  }), [clearSnapshots, exportFight, importFight, getFightState, loadFightState]);
 
   const formatNum = (n: number) => n.toLocaleString();
   const formatDamage = (n: number) => {
@@ -0,0 +1,202 @@
+/**
+ * Team Baseline Diff Component
+ * Pin the current calculation and compare the live team against it per member and stat
+ */
+
+import { useMemo, useState } from 'react';
+import type { TeamCalculationResult, TeamMemberState } from '../../lib/team-calc-types';
+import { MAIN_TEAM_SIZE } from '../../lib/team-calc-types';
+import { diffTeamResults, type DiffStat, type DiffSource, type StatDelta } from '../../lib/team-diff';
+
+interface TeamBaselineDiffProps {
+  members: TeamMemberState[];
+  teamResult: TeamCalculationResult | null;
+}
+
+interface PinnedBaseline {
+  result: TeamCalculationResult;
+  cardNames: (string | null)[];
+  pinnedAt: number;
+}
+
+const STAT_LABELS: Record<DiffStat, string> = {
+  atk: 'ATK',
+  critRate: 'Crit Rate',
+  critDmg: 'Crit DMG',
+  skillDmg: 'Skill DMG%',
+  dps: 'DPS',
+  skillDamage: 'Skill Dmg',
+};
+
+const SOURCE_LABELS: Record<DiffSource, string> = {
+  base: 'Base',
+  bond: 'Bonds',
+  assist: 'Assist',
+  abilities: 'Abilities',
+};
+
+const formatNum = (n: number) => Math.round(n).toLocaleString();
+const formatPct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+// ATK and damage are absolute numbers; the rest are fractions
+const formatStat = (stat: DiffStat, n: number) =>
+  stat === 'atk' || stat === 'dps' || stat === 'skillDamage' ? formatNum(n) : formatPct(n);
+
+function formatSigned(stat: DiffStat, n: number): string {
+  return `${n > 0 ? '+' : '-'}${formatStat(stat, Math.abs(n))}`;
+}
+
+function sourceTooltip(delta: StatDelta): string | undefined {
+  const parts = (Object.keys(delta.sources) as DiffSource[])
+    .map(source => `${SOURCE_LABELS[source]}: ${formatSigned(delta.stat, delta.sources[source]!)}`);
+  return parts.length > 0 ? parts.join('\n') : undefined;
+}
+
+function DeltaCell({ delta }: { delta: StatDelta }) {
+  return (
+    <td className="py-1 px-2 text-right font-mono" title={sourceTooltip(delta)}>
+      <div className="text-primary">{formatStat(delta.stat, delta.live)}</div>
+      {delta.delta !== 0 ? (
+        <div className={`text-[10px] ${delta.delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {formatSigned(delta.stat, delta.delta)}
+          {delta.relative !== null && ` (${delta.relative > 0 ? '+' : ''}${(delta.relative * 100).toFixed(1)}%)`}
+        </div>
+      ) : (
+        <div className="text-[10px] text-tertiary">-</div>
+      )}
+    </td>
+  );
+}
+
+export function TeamBaselineDiff({ members, teamResult }: TeamBaselineDiffProps) {
+  const [baseline, setBaseline] = useState<PinnedBaseline | null>(null);
+
+  const diff = useMemo(
+    () => (baseline && teamResult ? diffTeamResults(baseline.result, teamResult) : null),
+    [baseline, teamResult]
+  );
+
+  const handlePin = () => {
+    if (!teamResult) return;
+    setBaseline({
+      result: teamResult,
+      cardNames: members.slice(0, MAIN_TEAM_SIZE).map(m => m.card?.name ?? null),
+      pinnedAt: Date.now(),
+    });
+  };
+
+  const memberName = (index: number) => members[index]?.card?.name ?? null;
+
+  return (
+    <details className="bg-surface rounded-lg">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-medium text-primary hover:text-blue-400">
+        Baseline Diff {baseline && <span className="text-xs text-tertiary ml-1">(pinned)</span>}
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handlePin}
+            disabled={!teamResult}
+            className="px-3 py-1.5 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {baseline ? 'Re-pin Baseline' : 'Pin Baseline'}
+          </button>
+          {baseline && (
+            <>
+              <button
+                type="button"
+                onClick={() => setBaseline(null)}
+                className="px-3 py-1.5 text-sm rounded bg-surface-hover text-secondary hover:text-primary transition-colors"
+              >
+                Clear
+              </button>
+              <span className="text-xs text-tertiary">
+                Pinned at {new Date(baseline.pinnedAt).toLocaleTimeString()}
+              </span>
+            </>
+          )}
+        </div>
+
+        {!baseline && (
+          <p className="text-xs text-secondary">
+            Pin the current team, then swap cards, bonds or enemy settings to see how every member's
+            stats and damage change against it.
+          </p>
+        )}
+
+        {diff && baseline && (
+          <>
+            {/* Team totals */}
+            <div className="flex flex-wrap gap-4 text-sm">
+              {diff.totals.map(total => (
+                <div key={total.stat}>
+                  <span className="text-secondary">Team {STAT_LABELS[total.stat]}: </span>
+                  <span className="font-mono text-primary">{formatStat(total.stat, total.live)}</span>
+                  {total.delta !== 0 && (
+                    <span className={`ml-1 font-mono text-xs ${total.delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatSigned(total.stat, total.delta)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Per-member deltas */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-secondary border-b border-border">
+                    <th className="py-1 px-2 text-left">Slot</th>
+                    {diff.members[0]?.stats.map(s => (
+                      <th key={s.stat} className="py-1 px-2 text-right">{STAT_LABELS[s.stat]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.members.map(member => {
+                    const before = baseline.cardNames[member.memberIndex];
+                    const after = memberName(member.memberIndex);
+                    const swapped = before !== after;
+                    return (
+                      <tr
+                        key={member.memberIndex}
+                        className={`border-b border-border/50 align-top ${member.changed ? '' : 'opacity-60'}`}
+                      >
+                        <td className="py-1 px-2">
+                          <div className="text-primary">
+                            #{member.memberIndex + 1} {after ?? <span className="italic text-secondary">Empty</span>}
+                          </div>
+                          {swapped && (
+                            <div className="text-[10px] text-yellow-400">was {before ?? 'Empty'}</div>
+                          )}
+                          {member.abilities.slice(0, 4).map(a => (
+                            <div
+                              key={`${a.abilityId}-${a.sourceMemberIndex}-${a.stat}`}
+                              className={`text-[10px] ${a.delta > 0 ? 'text-green-400' : 'text-red-400'}`}
+                            >
+                              {a.delta > 0 ? '+' : '-'}{formatPct(Math.abs(a.delta))} {a.stat} · {a.abilityName}
+                              <span className="text-tertiary"> (#{a.sourceMemberIndex + 1}{a.isFromAssist ? ' assist' : ''})</span>
+                            </div>
+                          ))}
+                          {member.abilities.length > 4 && (
+                            <div className="text-[10px] text-tertiary">+{member.abilities.length - 4} more ability changes</div>
+                          )}
+                        </td>
+                        {member.stats.map(s => <DeltaCell key={s.stat} delta={s} />)}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-tertiary">
+              Hover a value to see which sources (base, bonds, abilities) moved it.
+            </p>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -3,34 +3,72 @@
  * Main container component for the 5-member team + 2 reserve calculator
  */
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useTeamState } from './useTeamReducer';
+import { useCollection } from '../../hooks/useCollection';
 import { TeamTabs } from './TeamTabs';
 import { TeamMemberPanel } from './TeamMemberPanel';
 import { EnemyConfig } from './EnemyConfig';
 import { TeamSummary } from './TeamSummary';
 import { AbilityTargetOverrides } from './AbilityTargetOverrides';
 import { FightCalculator, type FightCalculatorHandle, FIGHT_STORAGE_KEY } from './FightCalculator';
+import { BattleSimulator } from './BattleSimulator';
+import { TeamOptimizer } from './TeamOptimizer';
+import { TeamPresets } from './TeamPresets';
+import { TeamBaselineDiff } from './TeamBaselineDiff';
+import { WorldBossPlanner } from './WorldBossPlanner';
+import {
+  encodeTeamShare,
+  decodeTeamShare,
+  buildTeamShareUrl,
+  TEAM_SHARE_PARAM,
+  type SharedTeam,
+} from '../../lib/team-share';
+import type { LineupSlot } from '../../lib/team-calc-types';
+
+const USE_BOX_LB_STORAGE_KEY = 'otogidb-use-box-lb';
 
 export function TeamDamageCalculator() {
   const [showImportModal, setShowImportModal] = useState(false);
   const [importText, setImportText] = useState('');
   const [importError, setImportError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [linkStatus, setLinkStatus] = useState<string | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  const [sharedTeam, setSharedTeam] = useState<SharedTeam | null>(null);
+  const hasCheckedShareLink = useRef(false);
+  const shareCodeRef = useRef<string | null>(null);
 
   const fightCalculatorRef = useRef<FightCalculatorHandle>(null);
 
+  // Personal collection: picking an owned card applies its LB / level bonus
+  const { owned } = useCollection();
+  const [useBoxLb, setUseBoxLb] = useState(true);
+
+  useEffect(() => {
+    setUseBoxLb(localStorage.getItem(USE_BOX_LB_STORAGE_KEY) !== 'false');
+  }, []);
+
+  const handleUseBoxLbChange = (checked: boolean) => {
+    setUseBoxLb(checked);
+    localStorage.setItem(USE_BOX_LB_STORAGE_KEY, String(checked));
+  };
+
   const {
     state,
+    cards,
+    cardsList,
     nonAssistCards,
     assistCards,
     setCard,
     setAssist,
     setLimitBreak,
+    setLevelBonus,
     setBondSlot,
     toggleSkill,
     setActiveTab,
     setEnemyBaseShield,
+    setEnemyBaseDefense,
     setEnemyAttribute,
     setFinalWave,
     setWaveCount,
@@ -40,12 +78,62 @@ export function TeamDamageCalculator() {
     setAbilityTargets,
     setRandomTargetMode,
     clearMember,
+    applyLineup,
     clearAll,
     exportTeam,
     importTeam,
+    exportTeamState,
+    importTeamState,
     calculationResults,
+    teamResult,
   } = useTeamState();
 
+  // Open a shared team from ?t= once card data has loaded. TeamPresets adds it
+  // as a new preset, so the saved team is kept; the param is then dropped so
+  // later edits are not overwritten on refresh.
+  useEffect(() => {
+    if (state.isLoading || hasCheckedShareLink.current) return;
+    hasCheckedShareLink.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get(TEAM_SHARE_PARAM);
+    if (!code) return;
+
+    const shared = decodeTeamShare(code);
+    if (shared) {
+      shareCodeRef.current = code;
+      setSharedTeam(shared);
+    } else {
+      setShareLinkError('This team link is invalid or from a newer version — your saved team was kept.');
+    }
+
+    params.delete(TEAM_SHARE_PARAM);
+    const query = params.toString();
+    window.history.replaceState({}, '', query ? `${window.location.pathname}?${query}` : window.location.pathname);
+  }, [state.isLoading]);
+
+  const handleSharedTeamOpened = useCallback((opened: boolean) => {
+    setSharedTeam(null);
+    if (opened || !shareCodeRef.current) return;
+    // Put the link back so a reload opens it once there is room
+    window.history.replaceState({}, '', buildTeamShareUrl(window.location.href, shareCodeRef.current));
+    setShareLinkError('The preset list is full — delete a preset, then reload to open the shared team.');
+  }, []);
+
+  const handleShareLink = async () => {
+    const code = encodeTeamShare(exportTeamState(), fightCalculatorRef.current?.getFightState());
+    const url = buildTeamShareUrl(window.location.href, code);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkStatus('Link copied!');
+    } catch {
+      // Clipboard blocked: put the link in the address bar so it can be copied by hand
+      window.history.replaceState({}, '', url);
+      setLinkStatus('Link in address bar');
+    }
+    setTimeout(() => setLinkStatus(null), 2000);
+  };
+
   const handleExport = async () => {
     // Combine team and fight data
     const teamJson = exportTeam();
@@ -102,6 +190,29 @@ export function TeamDamageCalculator() {
     }
   };
 
+  const handleSetCard = (memberIndex: number, cardId: string | null) => {
+    setCard(memberIndex, cardId);
+    const entry = cardId && useBoxLb ? owned.get(cardId) : undefined;
+    if (entry) {
+      setLimitBreak(memberIndex, entry.limitBreak);
+      setLevelBonus(memberIndex, entry.levelBonus);
+    }
+  };
+
+  // Cards the optimizer placed get the same owned LB / level bonus as hand-picked ones
+  const handleApplyLineup = (slots: LineupSlot[]) => {
+    applyLineup(slots);
+    if (!useBoxLb) return;
+    slots.forEach((slot, index) => {
+      if (!slot.cardId || slot.cardId === state.members[index]?.cardId) return;
+      const entry = owned.get(slot.cardId);
+      if (entry) {
+        setLimitBreak(index, entry.limitBreak);
+        setLevelBonus(index, entry.levelBonus);
+      }
+    });
+  };
+
   const handleResetAll = () => {
     clearAll();
     fightCalculatorRef.current?.clearAll();
@@ -156,6 +267,14 @@ export function TeamDamageCalculator() {
           </p>
         </div>
         <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleShareLink}
+            className="px-4 py-2 bg-purple-500/20 text-purple-400 rounded-lg hover:bg-purple-500/30 transition-colors"
+            title="Copy a link that restores this team, enemy settings and fight snapshots"
+          >
+            {linkStatus ?? 'Share Link'}
+          </button>
           <button
             type="button"
             onClick={handleExport}
@@ -180,6 +299,27 @@ export function TeamDamageCalculator() {
         </div>
       </div>
 
+      {shareLinkError && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3 text-sm text-red-400 flex items-center justify-between">
+          <span>{shareLinkError}</span>
+          <button type="button" onClick={() => setShareLinkError(null)} className="text-xs hover:text-red-300">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Named team presets */}
+      <TeamPresets
+        cards={cards}
+        randomTargetMode={state.randomTargetMode}
+        exportTeamState={exportTeamState}
+        importTeamState={importTeamState}
+        getFightState={() => fightCalculatorRef.current?.getFightState()}
+        loadFightState={(fight) => fightCalculatorRef.current?.loadFightState(fight)}
+        sharedTeam={sharedTeam}
+        onSharedTeamOpened={handleSharedTeamOpened}
+      />
+
       {/* Main layout */}
       <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
         {/* Left sidebar: Summary and Enemy */}
@@ -188,10 +328,14 @@ export function TeamDamageCalculator() {
             members={state.members}
             onSelectMember={setActiveTab}
             activeIndex={state.activeTabIndex}
+            enemy={state.enemy}
+            abilityTargetOverrides={state.abilityTargetOverrides}
+            randomTargetMode={state.randomTargetMode}
           />
           <EnemyConfig
             enemy={state.enemy}
             onBaseShieldChange={setEnemyBaseShield}
+            onBaseDefenseChange={setEnemyBaseDefense}
             onAttributeChange={setEnemyAttribute}
             onFinalWaveChange={setFinalWave}
             onWaveCountChange={setWaveCount}
@@ -225,17 +369,23 @@ export function TeamDamageCalculator() {
               memberIndex={state.activeTabIndex}
               nonAssistCards={nonAssistCards}
               assistCards={assistCards}
-              onSetCard={(cardId) => setCard(state.activeTabIndex, cardId)}
+              onSetCard={(cardId) => handleSetCard(state.activeTabIndex, cardId)}
               onSetAssist={(cardId) => setAssist(state.activeTabIndex, cardId)}
               onSetLimitBreak={(value) => setLimitBreak(state.activeTabIndex, value)}
               onSetBondSlot={(slot, value) => setBondSlot(state.activeTabIndex, slot, value)}
               onToggleSkill={() => toggleSkill(state.activeTabIndex)}
               onClear={() => clearMember(state.activeTabIndex)}
+              ownedEntry={activeMember.cardId ? owned.get(activeMember.cardId) : undefined}
+              useBoxLb={useBoxLb}
+              onUseBoxLbChange={handleUseBoxLbChange}
             />
           </div>
         </div>
       </div>
 
+      {/* Baseline diff (collapsible) */}
+      <TeamBaselineDiff members={state.members} teamResult={teamResult} />
+
       {/* Ability Target Overrides (collapsible) */}
       <AbilityTargetOverrides
         members={state.members}
@@ -243,9 +393,43 @@ export function TeamDamageCalculator() {
         onSetAbilityTargets={setAbilityTargets}
       />
 
+      {/* Team Optimizer (collapsible) */}
+      <TeamOptimizer
+        cards={cards}
+        cardsList={cardsList}
+        members={state.members}
+        enemy={state.enemy}
+        randomTargetMode={state.randomTargetMode}
+        ownedCards={owned}
+        useBoxLb={useBoxLb}
+        onApply={handleApplyLineup}
+      />
+
       {/* Fight Calculator (collapsible) */}
       <FightCalculator ref={fightCalculatorRef} members={state.members} />
 
+      {/* Battle Simulator (collapsible) */}
+      <BattleSimulator
+        members={state.members}
+        enemy={state.enemy}
+        abilityTargetOverrides={state.abilityTargetOverrides}
+        randomTargetMode={state.randomTargetMode}
+      />
+
+      {/* World Boss Planner (collapsible) */}
+      <WorldBossPlanner
+        members={state.members}
+        enemy={state.enemy}
+        abilityTargetOverrides={state.abilityTargetOverrides}
+        randomTargetMode={state.randomTargetMode}
+        onApplyEnemy={(bossEnemy) => {
+          setEnemyBaseDefense(bossEnemy.baseDefense);
+          setIgnoreShieldCap(bossEnemy.ignoreShieldCap);
+          setWaveCount(bossEnemy.waveCount);
+          setFinalWave(bossEnemy.isFinalWave);
+        }}
+      />
+
       {/* Formula reference (collapsible) */}
       <details className="bg-surface rounded-lg">
         <summary className="px-4 py-3 cursor-pointer text-sm text-secondary hover:text-primary">
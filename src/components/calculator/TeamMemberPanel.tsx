@@ -7,6 +7,7 @@ import type { Card } from '../../types/card';
 import type { TeamMemberState, BondSlotType, DamageBreakdown } from '../../lib/team-calc-types';
 import { BOND_SLOT_VALUES, BOND_SLOT_LABELS } from '../../lib/team-calc-types';
 import { STAT_CAPS } from '../../lib/damage-calc';
+import type { OwnedCard } from '../../lib/collection';
 import { CardSelector, AssistSelector } from './CardSelector';
 import { AbilityToggles } from './AbilityToggles';
 
@@ -21,6 +22,9 @@ interface TeamMemberPanelProps {
   onSetBondSlot: (slot: 1 | 2 | 3, value: BondSlotType) => void;
   onToggleSkill: () => void;
   onClear: () => void;
+  ownedEntry?: OwnedCard;      // Collection entry for the selected card, if owned
+  useBoxLb: boolean;           // Apply collection LB / level bonus when a card is picked
+  onUseBoxLbChange: (value: boolean) => void;
 }
 
 export function TeamMemberPanel({
@@ -34,6 +38,9 @@ export function TeamMemberPanel({
   onSetBondSlot,
   onToggleSkill,
   onClear,
+  ownedEntry,
+  useBoxLb,
+  onUseBoxLbChange,
 }: TeamMemberPanelProps) {
   const isReserve = member.isReserve;
 
@@ -79,6 +86,23 @@ export function TeamMemberPanel({
               label="Main Card"
               placeholder="Search cards..."
             />
+            <div className="mt-2 flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useBoxLb}
+                  onChange={(e) => onUseBoxLbChange(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+                <span className="text-xs text-secondary">Use my LB from collection</span>
+              </label>
+              {ownedEntry && (
+                <span className="text-xs text-green-400" title="Saved on the card page">
+                  Owned: LB{ownedEntry.limitBreak}
+                  {ownedEntry.levelBonus > 0 && ` +${ownedEntry.levelBonus} Lv`}
+                </span>
+              )}
+            </div>
           </div>
 
           {/* Assist selector */}
@@ -0,0 +1,242 @@
+/**
+ * Team Optimizer Component
+ * Searches the card pool for the best lineups against the current enemy
+ */
+
+import { useState } from 'react';
+import type { Card } from '../../types/card';
+import type {
+  TeamMemberState,
+  EnemyState,
+  RandomTargetMode,
+  LineupSlot,
+  MemberBuild,
+} from '../../lib/team-calc-types';
+import { MAIN_TEAM_SIZE } from '../../lib/team-calc-types';
+import { useTeamOptimizer } from '../../hooks/useTeamOptimizer';
+import { getAndroidImageWithFallback } from '../../lib/images';
+import type { OwnedCard } from '../../lib/collection';
+
+interface TeamOptimizerProps {
+  cards: Record<string, Card>;
+  cardsList: Card[];
+  members: TeamMemberState[];
+  enemy: EnemyState;
+  randomTargetMode: RandomTargetMode;
+  ownedCards: Map<string, OwnedCard>;
+  /** Evaluate owned cards at their collection LB / level bonus, as picking them by hand does */
+  useBoxLb: boolean;
+  onApply: (slots: LineupSlot[]) => void;
+}
+
+export function TeamOptimizer({
+  cards,
+  cardsList,
+  members,
+  enemy,
+  randomTargetMode,
+  ownedCards,
+  useBoxLb,
+  onApply,
+}: TeamOptimizerProps) {
+  const [lockedIndices, setLockedIndices] = useState<Set<number>>(new Set());
+  const [topN, setTopN] = useState(5);
+  const [scoreSeconds, setScoreSeconds] = useState(60);
+  const [ownedOnly, setOwnedOnly] = useState(false);
+  const { results, isRunning, error, run, cancel } = useTeamOptimizer();
+
+  const toggleLock = (index: number) => {
+    setLockedIndices(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const runOptimizer = () => {
+    const memberBuilds: Record<string, MemberBuild> = {};
+    if (useBoxLb) {
+      for (const [cardId, entry] of ownedCards) {
+        memberBuilds[cardId] = { limitBreak: entry.limitBreak, levelBonus: entry.levelBonus };
+      }
+    }
+
+    // Locked slots are kept as-is, build included
+    const lockedSlots: Record<number, LineupSlot> = {};
+    for (const index of lockedIndices) {
+      const member = members[index];
+      if (!member) continue;
+      lockedSlots[index] = { cardId: member.cardId, assistCardId: member.assistCardId };
+      if (member.cardId) memberBuilds[member.cardId] = { limitBreak: member.limitBreak, levelBonus: member.levelBonus };
+    }
+
+    run({
+      enemy,
+      cards: cardsList,
+      ownedCardIds: ownedOnly ? [...ownedCards.keys()] : undefined,
+      lockedSlots,
+      memberBuilds,
+      topN,
+      scoreSeconds,
+      randomTargetMode,
+    });
+  };
+
+  const formatNum = (n: number) => n.toLocaleString();
+
+  const slotLabel = (index: number) => (index < MAIN_TEAM_SIZE ? `#${index + 1}` : `R${index - MAIN_TEAM_SIZE + 1}`);
+
+  return (
+    <details className="bg-surface rounded-lg">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-medium text-primary hover:text-blue-400">
+        Team Optimizer
+      </summary>
+
+      <div className="px-4 pb-4 space-y-4">
+        <p className="text-xs text-secondary">
+          Searches main, reserve and assist cards for the highest expected damage against the current enemy
+          settings. Score = normal DPS × fight length + one cast of each damage skill (skills are not assumed active).
+        </p>
+
+        {/* Locked slots */}
+        <div className="p-2 bg-surface-hover rounded border border-border">
+          <div className="text-xs text-tertiary mb-2">Lock current slots (kept as-is)</div>
+          <div className="flex flex-wrap gap-2">
+            {members.map((member, index) => (
+              <label
+                key={index}
+                className={`flex items-center gap-1 text-xs px-2 py-1 rounded border ${
+                  lockedIndices.has(index) ? 'border-blue-500/50 bg-blue-500/20 text-primary' : 'border-border text-secondary'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={lockedIndices.has(index)}
+                  onChange={() => toggleLock(index)}
+                  className="w-3 h-3"
+                />
+                <span>{slotLabel(index)}</span>
+                <span className="truncate max-w-[100px]">{member.card?.name || 'Empty'}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Settings */}
+        <div className="flex flex-wrap items-center gap-4 text-sm text-secondary">
+          <label className="flex items-center gap-2">
+            Results
+            <input
+              type="number"
+              value={topN}
+              onChange={(e) => setTopN(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 bg-surface-hover border border-border rounded text-primary"
+              min={1}
+              max={10}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Fight length
+            <input
+              type="number"
+              value={scoreSeconds}
+              onChange={(e) => setScoreSeconds(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-20 px-2 py-1 bg-surface-hover border border-border rounded text-primary"
+              min={1}
+            />
+            <span className="text-xs">sec</span>
+          </label>
+          <label className="flex items-center gap-2" title="Only search cards marked as owned on their card pages">
+            <input
+              type="checkbox"
+              checked={ownedOnly}
+              onChange={(e) => setOwnedOnly(e.target.checked)}
+              disabled={ownedCards.size === 0}
+              className="w-4 h-4"
+            />
+            Owned cards only ({ownedCards.size})
+          </label>
+          <button
+            type="button"
+            onClick={runOptimizer}
+            disabled={isRunning || cardsList.length === 0}
+            className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? 'Searching...' : 'Find Best Teams'}
+          </button>
+          {isRunning && (
+            <button
+              type="button"
+              onClick={cancel}
+              className="px-4 py-2 bg-surface-hover text-secondary rounded-lg hover:text-primary transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {/* Results */}
+        {error && (
+          <div className="text-sm text-red-400">Search failed: {error}</div>
+        )}
+        {results && results.length === 0 && (
+          <div className="text-sm text-secondary italic">No lineup found — unlock some slots or widen the card pool.</div>
+        )}
+        {results && results.length > 0 && (
+          <div className="space-y-2">
+            {results.map((team, rank) => (
+              <div key={rank} className="p-3 bg-surface-hover rounded-lg border border-border">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm">
+                    <span className={`font-bold ${rank === 0 ? 'text-green-400' : 'text-primary'}`}>#{rank + 1}</span>
+                    <span className="ml-3 font-mono text-primary">{formatNum(team.score)}</span>
+                    <span className="ml-3 text-xs text-secondary">
+                      {formatNum(team.totalNormalDps)}/s · skills {formatNum(team.totalSkillDamage)}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onApply(team.slots)}
+                    className="px-3 py-1 text-xs bg-green-500/20 text-green-400 rounded hover:bg-green-500/30 transition-colors"
+                  >
+                    Apply
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+                  {team.slots.map((slot, index) => {
+                    const card = slot.cardId ? cards[slot.cardId] : null;
+                    const assist = slot.assistCardId ? cards[slot.assistCardId] : null;
+                    return (
+                      <div key={index} className="flex flex-col items-center text-center">
+                        <span className="text-[10px] text-tertiary">{slotLabel(index)}</span>
+                        {card ? (
+                          <img
+                            src={getAndroidImageWithFallback(card)}
+                            alt=""
+                            className="w-8 h-8 rounded-full object-cover"
+                            title={card.name || card.id}
+                          />
+                        ) : (
+                          <div className="w-8 h-8 rounded-full bg-surface" />
+                        )}
+                        <span className="text-[10px] text-secondary truncate w-full" title={card?.name || ''}>
+                          {card?.name?.split(' ')[0] || '-'}
+                        </span>
+                        {assist && (
+                          <span className="text-[10px] text-purple-300 truncate w-full" title={assist.name || ''}>
+                            +{assist.name?.split(' ')[0]}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,362 @@
+/**
+ * Team Presets Component
+ * Named saved teams (each with its own enemy settings and fight snapshots)
+ * plus a side-by-side comparison of two presets
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { Card } from '../../types/card';
+import type {
+  RandomTargetMode,
+  StoredTeamState,
+  StoredFightState,
+  StoredPresetState,
+  TeamCalculationResult,
+} from '../../lib/team-calc-types';
+import { MAIN_TEAM_SIZE } from '../../lib/team-calc-types';
+import {
+  MAX_PRESETS,
+  MAX_PRESET_NAME_LENGTH,
+  createInitialPresets,
+  addPreset,
+  duplicatePreset,
+  renamePreset,
+  deletePreset,
+  movePreset,
+  savePresetContent,
+  openSharedPreset,
+  setActivePreset,
+  loadPresets,
+  savePresets,
+} from '../../lib/team-presets';
+import type { SharedTeam } from '../../lib/team-share';
+import { calculateStoredTeam, createEmptyTeamState } from './useTeamReducer';
+
+interface TeamPresetsProps {
+  cards: Record<string, Card>;
+  randomTargetMode: RandomTargetMode;
+  exportTeamState: () => StoredTeamState;
+  importTeamState: (stored: StoredTeamState) => void;
+  getFightState: () => StoredFightState | undefined;
+  loadFightState: (fight: StoredFightState) => void;
+  /** Team from a ?t= share link, opened as a new preset once presets have loaded */
+  sharedTeam?: SharedTeam | null;
+  /** Called once the shared team is handled; false when the preset list was full */
+  onSharedTeamOpened?: (opened: boolean) => void;
+}
+
+// Matches the fight calculator's own defaults
+const EMPTY_FIGHT: StoredFightState = { fightDuration: 300, snapshots: [] };
+
+export function TeamPresets({
+  cards,
+  randomTargetMode,
+  exportTeamState,
+  importTeamState,
+  getFightState,
+  loadFightState,
+  sharedTeam = null,
+  onSharedTeamOpened,
+}: TeamPresetsProps) {
+  const [presets, setPresets] = useState<StoredPresetState | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [compareIds, setCompareIds] = useState<[string | null, string | null]>([null, null]);
+
+  // Load from storage on mount; first visit wraps the current team in "Team 1"
+  useEffect(() => {
+    if (presets) return;
+    setPresets(loadPresets() ?? createInitialPresets(exportTeamState()));
+  }, [presets, exportTeamState]);
+
+  // Save to storage when presets change
+  useEffect(() => {
+    if (presets) savePresets(presets);
+  }, [presets]);
+
+  // A shared link gets its own preset; the active one keeps the live content
+  const openedShareRef = useRef<SharedTeam | null>(null);
+  useEffect(() => {
+    if (!presets || !sharedTeam || openedShareRef.current === sharedTeam) return;
+    openedShareRef.current = sharedTeam;
+    const next = openSharedPreset(presets, { team: exportTeamState(), fight: getFightState() }, sharedTeam);
+    if (next) {
+      importTeamState(sharedTeam.team);
+      loadFightState(sharedTeam.fight ?? EMPTY_FIGHT);
+      setPresets(next);
+    }
+    onSharedTeamOpened?.(next !== null);
+  }, [presets, sharedTeam, exportTeamState, getFightState, importTeamState, loadFightState, onSharedTeamOpened]);
+
+  // Write the live calculator back into the active preset
+  const withLiveContent = (state: StoredPresetState) =>
+    savePresetContent(state, state.activePresetId, exportTeamState(), getFightState());
+
+  const loadPreset = (state: StoredPresetState, id: string) => {
+    const preset = state.presets.find(p => p.id === id);
+    if (!preset) return;
+    importTeamState(preset.team);
+    loadFightState(preset.fight ?? EMPTY_FIGHT);
+  };
+
+  const handleSwitch = (id: string) => {
+    if (!presets || id === presets.activePresetId) return;
+    const next = setActivePreset(withLiveContent(presets), id);
+    loadPreset(next, id);
+    setPresets(next);
+  };
+
+  const handleAdd = () => {
+    if (!presets) return;
+    const empty = createEmptyTeamState();
+    const next = addPreset(withLiveContent(presets), `Team ${presets.presets.length + 1}`, empty);
+    importTeamState(empty);
+    loadFightState(EMPTY_FIGHT);
+    setPresets(next);
+  };
+
+  const handleDuplicate = () => {
+    if (!presets) return;
+    // The copy holds the live content, so nothing needs to be reloaded
+    setPresets(duplicatePreset(withLiveContent(presets), presets.activePresetId));
+  };
+
+  const handleDelete = () => {
+    if (!presets || presets.presets.length <= 1) return;
+    const active = presets.presets.find(p => p.id === presets.activePresetId);
+    if (!window.confirm(`Delete preset "${active?.name}"?`)) return;
+    const next = deletePreset(presets, presets.activePresetId);
+    loadPreset(next, next.activePresetId);
+    setPresets(next);
+  };
+
+  const startRename = () => {
+    const active = presets?.presets.find(p => p.id === presets.activePresetId);
+    if (!active) return;
+    setRenamingId(active.id);
+    setRenameText(active.name);
+  };
+
+  const commitRename = () => {
+    if (presets && renamingId) setPresets(renamePreset(presets, renamingId, renameText));
+    setRenamingId(null);
+  };
+
+  // Comparison — the active preset is read live so unsaved edits are included
+  const comparison = useMemo(() => {
+    if (!isCompareOpen || !presets || Object.keys(cards).length === 0) return null;
+    const ids = [
+      compareIds[0] ?? presets.activePresetId,
+      compareIds[1] ?? presets.presets.find(p => p.id !== presets.activePresetId)?.id ?? presets.activePresetId,
+    ];
+    return ids.map(id => {
+      const preset = presets.presets.find(p => p.id === id) ?? presets.presets[0];
+      const team = preset.id === presets.activePresetId ? exportTeamState() : preset.team;
+      return {
+        preset,
+        team,
+        result: calculateStoredTeam(team, cards, randomTargetMode),
+      };
+    });
+  }, [isCompareOpen, presets, compareIds, cards, randomTargetMode, exportTeamState]);
+
+  if (!presets) return null;
+
+  const formatNum = (n: number) => Math.round(n).toLocaleString();
+  const formatPct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+  const activeIndex = presets.presets.findIndex(p => p.id === presets.activePresetId);
+
+  const diffCell = (a: number, b: number, format: (n: number) => string) => {
+    const diff = b - a;
+    if (Math.abs(diff) < 0.0005) return <span className="text-tertiary">-</span>;
+    return (
+      <span className={diff > 0 ? 'text-green-400' : 'text-red-400'}>
+        {diff > 0 ? '+' : '-'}{format(Math.abs(diff))}
+      </span>
+    );
+  };
+
+  const totalRows: Array<{ label: string; value: (r: TeamCalculationResult) => number; format: (n: number) => string }> = [
+    { label: 'Normal DPS', value: r => r.totalNormalDpsExpected, format: formatNum },
+    { label: 'Skill Damage', value: r => r.totalSkillDamageExpected, format: formatNum },
+    { label: 'Enemy Shield', value: r => r.effectiveEnemyShield, format: formatPct },
+    { label: 'Race Bonus', value: r => r.raceBonus, format: formatPct },
+  ];
+
+  return (
+    <div className="bg-surface rounded-lg p-3 space-y-3">
+      {/* Preset tabs */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-tertiary">Presets:</span>
+        {presets.presets.map(preset => {
+          const isActive = preset.id === presets.activePresetId;
+          if (isActive && renamingId === preset.id) {
+            return (
+              <input
+                key={preset.id}
+                autoFocus
+                value={renameText}
+                maxLength={MAX_PRESET_NAME_LENGTH}
+                onChange={(e) => setRenameText(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="px-2 py-1 text-sm w-36 bg-surface-hover border border-blue-500 rounded text-primary"
+              />
+            );
+          }
+          return (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => handleSwitch(preset.id)}
+              onDoubleClick={isActive ? startRename : undefined}
+              className={`px-3 py-1 text-sm rounded transition-colors ${
+                isActive ? 'bg-blue-500 text-white' : 'bg-surface-hover text-secondary hover:text-primary'
+              }`}
+              title={isActive ? 'Double-click to rename' : `Switch to ${preset.name}`}
+            >
+              {preset.name}
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={presets.presets.length >= MAX_PRESETS}
+          className="px-2 py-1 text-sm rounded bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors disabled:opacity-50"
+          title="New empty preset"
+        >
+          + New
+        </button>
+      </div>
+
+      {/* Active preset actions */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button type="button" onClick={startRename} className="px-2 py-1 rounded bg-surface-hover text-secondary hover:text-primary">
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={handleDuplicate}
+          disabled={presets.presets.length >= MAX_PRESETS}
+          className="px-2 py-1 rounded bg-surface-hover text-secondary hover:text-primary disabled:opacity-50"
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          onClick={() => setPresets(movePreset(presets, presets.activePresetId, -1))}
+          disabled={activeIndex <= 0}
+          className="px-2 py-1 rounded bg-surface-hover text-secondary hover:text-primary disabled:opacity-50"
+          aria-label="Move preset left"
+        >
+          ◀
+        </button>
+        <button
+          type="button"
+          onClick={() => setPresets(movePreset(presets, presets.activePresetId, 1))}
+          disabled={activeIndex >= presets.presets.length - 1}
+          className="px-2 py-1 rounded bg-surface-hover text-secondary hover:text-primary disabled:opacity-50"
+          aria-label="Move preset right"
+        >
+          ▶
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={presets.presets.length <= 1}
+          className="px-2 py-1 rounded bg-red-500/20 text-red-400 hover:bg-red-500/30 disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+
+      {/* Comparison */}
+      {presets.presets.length > 1 && (
+        <details
+          className="bg-surface-hover rounded-lg"
+          open={isCompareOpen}
+          onToggle={(e) => setIsCompareOpen((e.target as HTMLDetailsElement).open)}
+        >
+          <summary className="px-3 py-2 cursor-pointer text-sm font-medium text-primary hover:text-blue-400">
+            Compare Presets
+          </summary>
+
+          {comparison && (
+            <div className="px-3 pb-3 space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                {comparison.map((side, i) => (
+                  <select
+                    key={i}
+                    value={side.preset.id}
+                    onChange={(e) => {
+                      const id = e.target.value;
+                      setCompareIds(prev => (i === 0 ? [id, prev[1] ?? comparison[1].preset.id] : [prev[0] ?? comparison[0].preset.id, id]));
+                    }}
+                    className="px-2 py-1 bg-surface border border-border rounded text-sm text-primary"
+                  >
+                    {presets.presets.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-tertiary border-b border-border">
+                      <th className="text-left py-1" />
+                      <th className="text-right py-1">{comparison[0].preset.name}</th>
+                      <th className="text-right py-1">{comparison[1].preset.name}</th>
+                      <th className="text-right py-1">Diff</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {totalRows.map(row => {
+                      const a = row.value(comparison[0].result);
+                      const b = row.value(comparison[1].result);
+                      return (
+                        <tr key={row.label} className="border-b border-border/50">
+                          <td className="py-1 text-secondary">{row.label}</td>
+                          <td className="text-right font-mono text-primary">{row.format(a)}</td>
+                          <td className="text-right font-mono text-primary">{row.format(b)}</td>
+                          <td className="text-right font-mono">{diffCell(a, b, row.format)}</td>
+                        </tr>
+                      );
+                    })}
+                    {Array.from({ length: MAIN_TEAM_SIZE }, (_, slot) => {
+                      const name = (side: number) => {
+                        const cardId = comparison[side].team.members[slot]?.cardId;
+                        return cardId ? cards[cardId]?.name?.split(' ')[0] ?? cardId : '-';
+                      };
+                      const dps = (side: number) => comparison[side].result.members[slot]?.damageResult?.normalDps ?? 0;
+                      return (
+                        <tr key={slot} className="border-b border-border/50">
+                          <td className="py-1 text-tertiary">#{slot + 1} DPS</td>
+                          <td className="text-right font-mono text-secondary" title={name(0)}>
+                            <span className="text-tertiary mr-1">{name(0)}</span>{formatNum(dps(0))}
+                          </td>
+                          <td className="text-right font-mono text-secondary" title={name(1)}>
+                            <span className="text-tertiary mr-1">{name(1)}</span>{formatNum(dps(1))}
+                          </td>
+                          <td className="text-right font-mono">{diffCell(dps(0), dps(1), formatNum)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-tertiary">Each preset is calculated with its own enemy settings.</p>
+            </div>
+          )}
+        </details>
+      )}
+    </div>
+  );
+}
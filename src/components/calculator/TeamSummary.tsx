@@ -3,21 +3,51 @@
  * Displays aggregate damage for all team members
  */
 
-import type { TeamMemberState } from '../../lib/team-calc-types';
+import { useState, useMemo } from 'react';
+import type { TeamMemberState, EnemyState, RandomTargetMode } from '../../lib/team-calc-types';
 import { MAIN_TEAM_SIZE } from '../../lib/team-calc-types';
+import { calculateTeamDamage } from '../../lib/team-calc';
 import { getAndroidImageWithFallback } from '../../lib/images';
+import { DamageDistributionView } from './DamageDistribution';
+
+// The distribution is sampled on every input change: these keep it to a few
+// million rolls (like DamageCalculator's 1000-hit cap)
+const MAX_FIGHT_SECONDS = 300;
+const MAX_SKILL_CASTS = 100;
 
 interface TeamSummaryProps {
   members: TeamMemberState[];
   onSelectMember: (index: number) => void;
   activeIndex: number;
+  // Needed to re-run the team with Monte Carlo sampling
+  enemy: EnemyState;
+  abilityTargetOverrides: Record<string, number[]>;
+  randomTargetMode: RandomTargetMode;
 }
 
 export function TeamSummary({
   members,
   onSelectMember,
   activeIndex,
+  enemy,
+  abilityTargetOverrides,
+  randomTargetMode,
 }: TeamSummaryProps) {
+  const [showDistribution, setShowDistribution] = useState(false);
+  const [fightSeconds, setFightSeconds] = useState(60);
+  const [skillCasts, setSkillCasts] = useState(1);
+  const [damageTarget, setDamageTarget] = useState(0);
+
+  // Sample crit/exceed rolls for a whole fight (only while the panel is open)
+  const distribution = useMemo(() => {
+    if (!showDistribution) return null;
+    const result = calculateTeamDamage(members, enemy, abilityTargetOverrides, randomTargetMode, {
+      durationSeconds: fightSeconds,
+      skillHits: skillCasts,
+    });
+    return result.damageDistribution ?? null;
+  }, [showDistribution, members, enemy, abilityTargetOverrides, randomTargetMode, fightSeconds, skillCasts]);
+
   // Only show main team (not reserves)
   const mainTeam = members.slice(0, MAIN_TEAM_SIZE);
 
@@ -158,6 +188,62 @@ export function TeamSummary({
         </div>
       </div>
 
+      {/* Monte Carlo damage distribution */}
+      <details
+        className="mt-3 pt-3 border-t border-border"
+        open={showDistribution}
+        onToggle={(e) => setShowDistribution((e.target as HTMLDetailsElement).open)}
+      >
+        <summary className="text-xs text-secondary cursor-pointer hover:text-primary">
+          Damage Distribution
+        </summary>
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-3 gap-2 text-xs text-secondary">
+            <label className="flex flex-col gap-1">
+              Fight (s)
+              <input
+                type="number"
+                value={fightSeconds}
+                onChange={(e) => setFightSeconds(Math.max(1, Math.min(MAX_FIGHT_SECONDS, parseInt(e.target.value) || 0)))}
+                className="w-full px-1 py-0.5 bg-surface border border-border rounded text-primary"
+                min={1}
+                max={MAX_FIGHT_SECONDS}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Skill casts
+              <input
+                type="number"
+                value={skillCasts}
+                onChange={(e) => setSkillCasts(Math.max(0, Math.min(MAX_SKILL_CASTS, parseInt(e.target.value) || 0)))}
+                className="w-full px-1 py-0.5 bg-surface border border-border rounded text-primary"
+                min={0}
+                max={MAX_SKILL_CASTS}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Target
+              <input
+                type="number"
+                value={damageTarget || ''}
+                onChange={(e) => setDamageTarget(Math.max(0, parseInt(e.target.value) || 0))}
+                placeholder="0"
+                className="w-full px-1 py-0.5 bg-surface border border-border rounded text-primary"
+                min={0}
+              />
+            </label>
+          </div>
+          {distribution && distribution.max > 0 ? (
+            <DamageDistributionView distribution={distribution} target={damageTarget} compact />
+          ) : (
+            <div className="text-xs text-tertiary italic">Add a card to see the distribution</div>
+          )}
+          <p className="text-xs text-tertiary">
+            {formatNum(distribution?.samples ?? 0)} simulated fights. Each hit rolls crit and the LB exceed bonus; active skills stay up for the whole fight.
+          </p>
+        </div>
+      </details>
+
       {/* Team composition info */}
       <div className="mt-3 pt-3 border-t border-border">
         <div className="text-xs text-secondary">
@@ -0,0 +1,377 @@
+/**
+ * World Boss Planner Component
+ * Simulates the current team against a world boss level: boss defense, its
+ * skill rotation and the stuns/slows/crit debuffs those skills put on the team
+ */
+
+import { useState, useMemo, useEffect } from 'react';
+import type {
+  TeamMemberState,
+  EnemyState,
+  RandomTargetMode,
+} from '../../lib/team-calc-types';
+import { MAIN_TEAM_SIZE, DEFAULT_SKILL_INTERVAL_SECONDS } from '../../lib/team-calc-types';
+import type { WbSettingsEntry, WbSkillEntry, WbLevelEntry } from '../../types/worldBoss';
+import { parseAllBosses, getActiveBoss, formatHp } from '../../lib/worldBossParser';
+import { planBossFight, getBossEnemyState, type BossRotationKind } from '../../lib/world-boss-planner';
+import { simulateBattle } from '../../lib/battle-sim';
+
+interface WorldBossPlannerProps {
+  members: TeamMemberState[];
+  enemy: EnemyState;
+  abilityTargetOverrides: Record<string, number[]>;
+  randomTargetMode: RandomTargetMode;
+  onApplyEnemy: (enemy: EnemyState) => void;
+}
+
+/**
+ * Storage format for the planner
+ */
+interface StoredPlannerState {
+  bossId: string | null;
+  level: number;
+  rotation: BossRotationKind;
+  durationSeconds: number;
+  skillIntervals: number[];
+}
+
+interface WorldBossData {
+  settings: WbSettingsEntry[];
+  skills: WbSkillEntry[];
+  levels: WbLevelEntry[];
+}
+
+const PLANNER_STORAGE_KEY = 'otogidb-world-boss-planner';
+
+function createDefaultState(): StoredPlannerState {
+  return {
+    bossId: null,
+    level: 1,
+    rotation: 'normal',
+    durationSeconds: 60,
+    skillIntervals: Array.from({ length: MAIN_TEAM_SIZE }, () => DEFAULT_SKILL_INTERVAL_SECONDS),
+  };
+}
+
+export function WorldBossPlanner({
+  members,
+  enemy,
+  abilityTargetOverrides,
+  randomTargetMode,
+  onApplyEnemy,
+}: WorldBossPlannerProps) {
+  const [settings, setSettings] = useState<StoredPlannerState>(createDefaultState);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [hasLoadedFromStorage, setHasLoadedFromStorage] = useState(false);
+  const [data, setData] = useState<WorldBossData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Load from storage on mount
+  useEffect(() => {
+    if (hasLoadedFromStorage) return;
+
+    try {
+      const stored = localStorage.getItem(PLANNER_STORAGE_KEY);
+      if (stored) {
+        const parsed: Partial<StoredPlannerState> = JSON.parse(stored);
+        setSettings(prev => ({ ...prev, ...parsed }));
+      }
+    } catch (e) {
+      console.warn('Failed to load world boss planner state:', e);
+    }
+    setHasLoadedFromStorage(true);
+  }, [hasLoadedFromStorage]);
+
+  // Save to storage when settings change
+  useEffect(() => {
+    if (!hasLoadedFromStorage) return;
+
+    try {
+      localStorage.setItem(PLANNER_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.warn('Failed to save world boss planner state:', e);
+    }
+  }, [settings, hasLoadedFromStorage]);
+
+  // Fetch boss data the first time the panel is opened
+  useEffect(() => {
+    if (!isExpanded || data) return;
+    let cancelled = false;
+
+    async function loadData() {
+      try {
+        const [settingsRes, skillsRes, levelsRes] = await Promise.all([
+          fetch('/data/wbSettings.json'),
+          fetch('/data/wbSkill.json'),
+          fetch('/data/wbLv.json'),
+        ]);
+        if (!settingsRes.ok || !skillsRes.ok || !levelsRes.ok) {
+          throw new Error('Failed to fetch world boss data');
+        }
+        const [settingsData, skillsData, levelsData] = await Promise.all([
+          settingsRes.json(),
+          skillsRes.json(),
+          levelsRes.json(),
+        ]);
+        if (cancelled) return;
+        setData({ settings: settingsData, skills: skillsData, levels: levelsData });
+
+        // Default to the current (or next) boss
+        const active = getActiveBoss(settingsData);
+        if (active) {
+          setSettings(prev => (prev.bossId ? prev : { ...prev, bossId: active.bossId }));
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setLoadError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    }
+
+    loadData();
+    return () => { cancelled = true; };
+  }, [isExpanded, data]);
+
+  const bosses = useMemo(() => (data ? parseAllBosses(data.skills, data.levels) : []), [data]);
+  const boss = bosses.find(b => b.id === settings.bossId) ?? bosses[0];
+  const level = boss?.levels.find(l => l.level === settings.level) ?? boss?.levels[0];
+
+  const plan = useMemo(() => {
+    if (!isExpanded || !boss || !level) return null;
+    return planBossFight(boss, level, settings.rotation, members, enemy, settings.durationSeconds);
+  }, [isExpanded, boss, level, settings.rotation, settings.durationSeconds, members, enemy]);
+
+  const result = useMemo(() => {
+    if (!plan) return null;
+    return simulateBattle(members, plan.enemy, {
+      durationSeconds: settings.durationSeconds,
+      waveCount: 1,
+      waveDurationSeconds: 0,
+      skillIntervals: settings.skillIntervals,
+      abilityTargetOverrides,
+      randomTargetMode,
+      bossStatuses: plan.statuses,
+    });
+  }, [plan, members, settings.durationSeconds, settings.skillIntervals, abilityTargetOverrides, randomTargetMode]);
+
+  const killSecond = useMemo(() => {
+    if (!result || !level) return null;
+    const point = result.timeline.find(p => p.cumulativeDamage >= level.hp);
+    return point ? point.second + 1 : null;
+  }, [result, level]);
+
+  const setIntervalFor = (index: number, value: number) => {
+    setSettings(prev => {
+      const skillIntervals = [...prev.skillIntervals];
+      skillIntervals[index] = value;
+      return { ...prev, skillIntervals };
+    });
+  };
+
+  const formatNum = (n: number) => n.toLocaleString();
+  const formatDamage = (n: number) => {
+    if (n >= 1_000_000_000) return `${(n / 1_000_000_000).toFixed(2)}B`;
+    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+    if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+    return formatNum(Math.round(n));
+  };
+
+  const mainTeam = members.slice(0, MAIN_TEAM_SIZE);
+  const memberLabel = (index: number) =>
+    mainTeam[index]?.card?.name?.split(' ')[0] || `Slot ${index + 1}`;
+
+  return (
+    <details
+      className="bg-surface rounded-lg"
+      open={isExpanded}
+      onToggle={(e) => setIsExpanded((e.target as HTMLDetailsElement).open)}
+    >
+      <summary className="px-4 py-3 cursor-pointer text-sm font-medium text-primary hover:text-blue-400 flex items-center justify-between">
+        <span>World Boss Planner</span>
+        {result && boss && level && (
+          <span className="text-xs text-secondary">
+            {boss.name} Lv{level.level}: {formatDamage(result.totalDamage)} in {settings.durationSeconds}s
+          </span>
+        )}
+      </summary>
+
+      <div className="px-4 pb-4 space-y-4">
+        {loadError && <div className="text-sm text-red-400">Failed to load world boss data: {loadError}</div>}
+        {!data && !loadError && <div className="text-sm text-secondary">Loading world boss data...</div>}
+
+        {boss && level && (
+          <>
+            {/* Boss selection */}
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex gap-1">
+                {bosses.map(b => (
+                  <button
+                    key={b.id}
+                    type="button"
+                    onClick={() => setSettings(prev => ({ ...prev, bossId: b.id }))}
+                    className={`px-3 py-1 text-sm rounded transition-colors ${
+                      b.id === boss.id ? 'bg-blue-500 text-white' : 'bg-surface-hover text-secondary hover:text-primary'
+                    }`}
+                  >
+                    {b.name}
+                  </button>
+                ))}
+              </div>
+              <label className="text-sm text-secondary flex items-center gap-2">
+                Level
+                <select
+                  value={level.level}
+                  onChange={(e) => setSettings(prev => ({ ...prev, level: parseInt(e.target.value, 10) }))}
+                  className="px-2 py-1 bg-surface-hover border border-border rounded text-sm text-primary"
+                >
+                  {boss.levels.map(l => (
+                    <option key={l.level} value={l.level}>Lv {l.level} ({l.hpFormatted})</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-secondary flex items-center gap-2">
+                Rotation
+                <select
+                  value={settings.rotation}
+                  onChange={(e) => setSettings(prev => ({ ...prev, rotation: e.target.value as BossRotationKind }))}
+                  className="px-2 py-1 bg-surface-hover border border-border rounded text-sm text-primary"
+                >
+                  <option value="normal">Normal</option>
+                  <option value="kill">Kill</option>
+                </select>
+              </label>
+              <label className="text-sm text-secondary flex items-center gap-2">
+                Duration
+                <input
+                  type="number"
+                  value={settings.durationSeconds}
+                  onChange={(e) => setSettings(prev => ({ ...prev, durationSeconds: Math.max(1, Math.min(600, parseInt(e.target.value) || 0)) }))}
+                  className="w-20 px-2 py-1 bg-surface-hover border border-border rounded text-sm text-primary"
+                  min={1}
+                  max={600}
+                />
+                <span className="text-xs">sec</span>
+              </label>
+            </div>
+
+            {/* Enemy settings derived from the boss */}
+            <div className="flex flex-wrap items-center gap-3 text-xs text-secondary">
+              <span>HP <span className="font-mono text-primary">{formatHp(level.hp)}</span></span>
+              <span>Defense <span className="font-mono text-primary">{level.defense}</span>
+                {' '}(<span className="font-mono">{(getBossEnemyState(level, enemy).baseDefense * 100).toFixed(1)}%</span> reduction)
+              </span>
+              <span>Shield cap off</span>
+              <button
+                type="button"
+                onClick={() => onApplyEnemy(getBossEnemyState(level, enemy))}
+                className="px-2 py-1 rounded bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 transition-colors"
+                title="Set the calculator's enemy defense, shield cap and waves for this boss"
+              >
+                Use in calculator
+              </button>
+            </div>
+
+            {/* Per-member skill timing */}
+            <div className="p-2 bg-surface-hover rounded border border-border">
+              <div className="text-xs text-tertiary mb-2">Skill cast interval (seconds, 0 = never)</div>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                {mainTeam.map((member, index) => (
+                  <label key={index} className="flex items-center gap-1 text-xs text-secondary">
+                    <span className="truncate w-16" title={member.card?.name || ''}>
+                      {memberLabel(index)}
+                    </span>
+                    <input
+                      type="number"
+                      value={settings.skillIntervals[index] ?? 0}
+                      onChange={(e) => setIntervalFor(index, Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-14 px-1 py-0.5 bg-surface border border-border rounded text-xs text-primary text-center"
+                      min={0}
+                      disabled={!member.card?.skill}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {result && plan && (
+              <>
+                {/* Summary */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+                  <div>
+                    <div className="text-xs text-tertiary">Total Damage</div>
+                    <div className="text-lg font-mono text-green-400">{formatDamage(result.totalDamage)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-tertiary">Avg DPS</div>
+                    <div className="text-lg font-mono text-purple-400">{formatNum(result.averageDps)}/s</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-tertiary">Boss HP Dealt</div>
+                    <div className="text-lg font-mono text-primary">
+                      {((result.totalDamage / level.hp) * 100).toFixed(2)}%
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-tertiary">Kill Time</div>
+                    <div className="text-lg font-mono text-blue-400">{killSecond !== null ? `${killSecond}s` : '-'}</div>
+                  </div>
+                </div>
+
+                {/* Member totals */}
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-tertiary border-b border-border">
+                        <th className="text-left py-1">Member</th>
+                        <th className="text-right py-1">Attacks</th>
+                        <th className="text-right py-1">Casts</th>
+                        <th className="text-right py-1">Disabled</th>
+                        <th className="text-right py-1">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.memberTotals.filter(t => mainTeam[t.memberIndex]?.card).map(totals => (
+                        <tr key={totals.memberIndex} className="border-b border-border/50">
+                          <td className="py-1 text-primary">{memberLabel(totals.memberIndex)}</td>
+                          <td className="text-right font-mono text-secondary">{totals.attacks}</td>
+                          <td className="text-right font-mono text-secondary">{totals.casts}</td>
+                          <td className={`text-right font-mono ${totals.disabledTime > 0 ? 'text-yellow-400' : 'text-secondary'}`}>
+                            {totals.disabledTime > 0 ? `${totals.disabledTime.toFixed(1)}s` : '-'}
+                          </td>
+                          <td className="text-right font-mono text-green-400">{formatDamage(totals.totalDamage)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Boss cast timeline */}
+                <div>
+                  <div className="text-xs text-tertiary mb-1">Boss casts</div>
+                  <div className="max-h-48 overflow-y-auto space-y-0.5">
+                    {plan.casts.map((cast, i) => (
+                      <div key={i} className="flex gap-2 text-xs">
+                        <span className="w-10 text-right font-mono text-secondary">{cast.time}s</span>
+                        <span className="w-8 text-primary">S{cast.skill.id}</span>
+                        <span className="text-secondary flex-1">
+                          {cast.skill.effects.length > 0 ? cast.skill.effects.map(e => e.description).join(', ') : cast.skill.target.description}
+                        </span>
+                        <span className="text-tertiary">
+                          {cast.targets.length > 0 ? cast.targets.map(memberLabel).join(', ') : 'Self'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-tertiary">
+              Stuns, freezes, petrify and paralysis stop attacks and casts; silence delays casts; slows and crit
+              debuffs apply while active. Random targets are spread evenly and status effects are assumed to land.
+            </p>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
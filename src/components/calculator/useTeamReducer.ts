@@ -18,6 +18,8 @@ import {
   type StoredTeamState,
   type EnemyAttribute,
   type RandomTargetMode,
+  type LineupSlot,
+  type TeamCalculationResult,
   MAIN_TEAM_SIZE,
   TOTAL_SLOTS,
   DEFAULT_BOND_SLOT,
@@ -33,25 +35,28 @@ import {
 
 const STORAGE_KEY = 'otogidb-team-calculator';
 
+function toStoredState(state: TeamState): StoredTeamState {
+  return {
+    members: state.members.map(m => ({
+      cardId: m.cardId,
+      assistCardId: m.assistCardId,
+      limitBreak: m.limitBreak,
+      levelBonus: m.levelBonus,
+      bond1: m.bond1,
+      bond2: m.bond2,
+      bond3: m.bond3,
+      bondType: m.bondType,  // Legacy, kept for backwards compatibility
+      skillActive: m.skillActive,
+    })),
+    enemy: state.enemy,
+    activeTabIndex: state.activeTabIndex,
+    abilityTargetOverrides: state.abilityTargetOverrides,
+  };
+}
+
 function saveToStorage(state: TeamState): void {
   try {
-    const stored: StoredTeamState = {
-      members: state.members.map(m => ({
-        cardId: m.cardId,
-        assistCardId: m.assistCardId,
-        limitBreak: m.limitBreak,
-        levelBonus: m.levelBonus,
-        bond1: m.bond1,
-        bond2: m.bond2,
-        bond3: m.bond3,
-        bondType: m.bondType,  // Legacy, kept for backwards compatibility
-        skillActive: m.skillActive,
-      })),
-      enemy: state.enemy,
-      activeTabIndex: state.activeTabIndex,
-      abilityTargetOverrides: state.abilityTargetOverrides,
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toStoredState(state)));
   } catch (e) {
     console.warn('Failed to save team state:', e);
   }
@@ -504,6 +509,31 @@ function teamReducer(state: TeamState, action: TeamAction): TeamState {
       return { ...state, members: newMembers };
     }
 
+    case 'APPLY_LINEUP': {
+      // Swap cards/assists in one step (e.g. from the optimizer), keeping build settings
+      const newMembers = state.members.map((member, i) => {
+        const slot = action.slots[i];
+        if (!slot) return member;
+
+        const updated = { ...member };
+        if (slot.cardId !== member.cardId) {
+          updated.cardId = slot.cardId;
+          updated.card = null;
+          updated.skillActive = false;
+          updated.skillEffect = null;
+        }
+        if (slot.assistCardId !== member.assistCardId) {
+          updated.assistCardId = slot.assistCardId;
+          updated.assistCard = null;
+          if (slot.assistCardId) {
+            updated.bond3 = 'none';
+          }
+        }
+        return updated;
+      });
+      return { ...state, members: newMembers };
+    }
+
     case 'CLEAR_ALL': {
       return {
         ...createInitialState(),
@@ -575,6 +605,46 @@ function teamReducer(state: TeamState, action: TeamAction): TeamState {
   }
 }
 
+// ============================================================================
+// Offline Evaluation
+// ============================================================================
+
+/**
+ * Stored form of a blank calculator (new presets start from this)
+ */
+export function createEmptyTeamState(): StoredTeamState {
+  return toStoredState(createInitialState());
+}
+
+/**
+ * Calculate a stored team without loading it into the live calculator
+ * (used to compare presets). Mirrors the hook's update cycle: resolve cards,
+ * calculate for effective levels, parse skill effects at those levels, then
+ * calculate again so active skills apply.
+ */
+export function calculateStoredTeam(
+  stored: StoredTeamState,
+  cards: Record<string, Card>,
+  randomTargetMode: RandomTargetMode
+): TeamCalculationResult {
+  const loaded = teamReducer(createInitialState(), { type: 'LOAD_FROM_STORAGE', state: stored });
+  const members = loaded.members.map(member => ({
+    ...member,
+    card: member.cardId ? cards[member.cardId] || null : null,
+    assistCard: member.assistCardId ? cards[member.assistCardId] || null : null,
+  }));
+
+  const firstPass = calculateTeamDamage(members, loaded.enemy, loaded.abilityTargetOverrides, randomTargetMode);
+  const withSkills = members.map((member, index) => ({
+    ...member,
+    skillEffect: member.card
+      ? parseSkillEffect(member.card, firstPass.members[index].computedStats.effectiveLevel, member.assistCard)
+      : null,
+  }));
+
+  return calculateTeamDamage(withSkills, loaded.enemy, loaded.abilityTargetOverrides, randomTargetMode);
+}
+
 // ============================================================================
 // Hook
 // ============================================================================
@@ -638,9 +708,12 @@ export interface UseTeamStateResult {
   setAbilityTargets: (abilityId: string, targets: number[]) => void;
   setRandomTargetMode: (mode: RandomTargetMode) => void;
   clearMember: (memberIndex: number) => void;
+  applyLineup: (slots: LineupSlot[]) => void;
   clearAll: () => void;
   exportTeam: () => string;
   importTeam: (json: string) => boolean;
+  exportTeamState: () => StoredTeamState;
+  importTeamState: (stored: StoredTeamState) => void;
   // Calculation results
   calculationResults: {
     effectiveEnemyShield: number;
@@ -651,6 +724,8 @@ export interface UseTeamStateResult {
     enemyDebuffContributions: import('../../lib/team-calc-types').Phase3AbilityContribution[];
     raceBonus: number;
   } | null;
+  // Full result of the latest calculation (for pinning a baseline)
+  teamResult: TeamCalculationResult | null;
 }
 
 export function useTeamState(): UseTeamStateResult {
@@ -670,6 +745,7 @@ export function useTeamState(): UseTeamStateResult {
     enemyDebuffContributions: import('../../lib/team-calc-types').Phase3AbilityContribution[];
     raceBonus: number;
   } | null>(null);
+  const [teamResult, setTeamResult] = useState<TeamCalculationResult | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -789,6 +865,7 @@ export function useTeamState(): UseTeamStateResult {
       enemyDebuffContributions: result.enemyDebuffContributions,
       raceBonus: result.raceBonus,
     });
+    setTeamResult(result);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     // Serialize all member fields that affect calculation (auto-captures new fields like bond1/2/3)
@@ -905,6 +982,10 @@ export function useTeamState(): UseTeamStateResult {
     dispatch({ type: 'CLEAR_MEMBER', memberIndex });
   }, []);
 
+  const applyLineup = useCallback((slots: LineupSlot[]) => {
+    dispatch({ type: 'APPLY_LINEUP', slots });
+  }, []);
+
   const clearAll = useCallback(() => {
     dispatch({ type: 'CLEAR_ALL' });
     // Clear storage too
@@ -990,6 +1071,13 @@ export function useTeamState(): UseTeamStateResult {
     }
   }, []);
 
+  // Raw stored-state access for share links (see lib/team-share.ts)
+  const exportTeamState = useCallback((): StoredTeamState => toStoredState(state), [state]);
+
+  const importTeamState = useCallback((stored: StoredTeamState) => {
+    dispatch({ type: 'LOAD_FROM_STORAGE', state: stored });
+  }, []);
+
   return {
     state,
     cards,
@@ -1015,9 +1103,13 @@ export function useTeamState(): UseTeamStateResult {
     setAbilityTargets,
     setRandomTargetMode,
     clearMember,
+    applyLineup,
     clearAll,
     exportTeam,
     importTeam,
+    exportTeamState,
+    importTeamState,
     calculationResults,
+    teamResult,
   };
 }
@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Ability, Card } from '../../types/card';
+import { getFullCardsData, getSkillsData, type CardLocale } from '../../lib/cards';
+import { toLevelViewerSkill, type LevelViewerSkill } from '../../lib/cardLevels';
+import { getAndroidImageWithFallback } from '../../lib/images';
+import { buildCompareSections, parseCompareIds, MAX_COMPARE_CARDS } from '../../lib/cardCompare';
+import { CardSelector } from '../calculator/CardSelector';
+import { useCardsData } from './useCardsData';
+
+/**
+ * Side-by-side comparison of up to four cards, driven by ?ids=1,2,3.
+ * Best values are highlighted per row; rows where cards differ get an accent marker.
+ */
+export default function CardCompare() {
+  const { cards, locale } = useCardsData();
+  const [ids, setIds] = useState<string[]>([]);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [parsedAbilities, setParsedAbilities] = useState<Map<string, Ability[]> | null>(null);
+  const [levelSkills, setLevelSkills] = useState<Map<string, LevelViewerSkill> | null>(null);
+
+  // Read ?ids= on mount
+  useEffect(() => {
+    setIds(parseCompareIds(new URLSearchParams(window.location.search).get('ids')));
+  }, []);
+
+  // Keep the URL shareable
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (ids.length > 0) url.searchParams.set('ids', ids.join(','));
+    else url.searchParams.delete('ids');
+    window.history.replaceState({}, '', url.toString());
+  }, [ids]);
+
+  // Parsed ability effects and skill scaling live in the full cards.json only;
+  // per-LB skill text also needs skills.json, and falls back to LB0 / MLB without it
+  useEffect(() => {
+    let cancelled = false;
+    setParsedAbilities(null);
+    setLevelSkills(null);
+    Promise.all([
+      getFullCardsData({ locale: locale as CardLocale }),
+      getSkillsData().catch(e => {
+        console.warn('Failed to load skill data:', e);
+        return null;
+      }),
+    ])
+      .then(([data, skillsData]) => {
+        if (cancelled) return;
+        const fullCards = Object.values(data.cards);
+        setParsedAbilities(new Map(fullCards.map(card => [card.id, card.abilities || []])));
+        if (skillsData) {
+          setLevelSkills(new Map(fullCards.flatMap(card =>
+            card.skill ? [[card.id, toLevelViewerSkill(card.skill, skillsData.skills[card.skill.id])]] : []
+          )));
+        }
+      })
+      .catch(e => {
+        console.warn('Failed to load ability data:', e);
+      });
+    return () => { cancelled = true; };
+  }, [locale]);
+
+  const selectedCards = useMemo(
+    () => ids.map(id => cards[id]).filter((card): card is Card => !!card),
+    [ids, cards]
+  );
+
+  const pickableCards = useMemo(
+    () => Object.values(cards).filter(card => card.playable && !ids.includes(card.id)),
+    [cards, ids]
+  );
+
+  const sections = useMemo(
+    () => buildCompareSections(selectedCards, parsedAbilities, levelSkills),
+    [selectedCards, parsedAbilities, levelSkills]
+  );
+
+  const addCard = (id: string | null) => {
+    if (id && ids.length < MAX_COMPARE_CARDS && !ids.includes(id)) setIds([...ids, id]);
+  };
+  const removeCard = (id: string) => setIds(ids.filter(i => i !== id));
+
+  const cardsLoaded = Object.keys(cards).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Compare Cards</h1>
+          <p className="text-sm text-secondary">
+            Up to {MAX_COMPARE_CARDS} cards side by side. Best values are highlighted.
+          </p>
+        </div>
+        <label className="flex items-center gap-1.5 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+            className="rounded"
+          />
+          <span>Only differences</span>
+        </label>
+      </div>
+
+      {ids.length < MAX_COMPARE_CARDS && (
+        <div className="max-w-md">
+          <CardSelector
+            cards={pickableCards}
+            selectedId={null}
+            onSelect={addCard}
+            label="Add a card"
+            showClear={false}
+          />
+        </div>
+      )}
+
+      {!cardsLoaded && ids.length > 0 && (
+        <p className="text-sm text-secondary">Loading cards...</p>
+      )}
+
+      {selectedCards.length === 0 && cardsLoaded && (
+        <p className="text-sm text-secondary">
+          Pick cards above, or open Compare from a card's Similar Cards section.
+        </p>
+      )}
+
+      {selectedCards.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="w-32" />
+                {selectedCards.map(card => (
+                  <th key={card.id} className="p-2 align-top font-normal min-w-[160px]">
+                    <a href={`/en/cards/${card.id}`} className="block group">
+                      <img
+                        src={getAndroidImageWithFallback(card)}
+                        alt={card.name || `Card #${card.id}`}
+                        className="w-16 h-16 rounded-full mx-auto object-cover"
+                        loading="lazy"
+                      />
+                      <div className="mt-1 font-medium group-hover:text-accent">{card.name || `#${card.id}`}</div>
+                    </a>
+                    <button
+                      onClick={() => removeCard(card.id)}
+                      className="mt-1 text-xs text-secondary hover:text-primary"
+                    >
+                      Remove
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {sections.map(section => {
+              const rows = onlyDifferences ? section.rows.filter(row => row.differs) : section.rows;
+              if (rows.length === 0) return null;
+              return (
+                <tbody key={section.title}>
+                  <tr>
+                    <th
+                      colSpan={selectedCards.length + 1}
+                      className="pt-4 pb-1 text-left text-xs uppercase tracking-wide text-secondary border-b"
+                      style={{ borderColor: 'var(--color-border)' }}
+                    >
+                      {section.title}
+                    </th>
+                  </tr>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b" style={{ borderColor: 'var(--color-border)' }}>
+                      <th
+                        className="p-2 text-left align-top font-medium text-secondary border-l-2"
+                        style={{ borderLeftColor: row.differs ? 'var(--color-accent)' : 'transparent' }}
+                      >
+                        {row.label}
+                      </th>
+                      {row.values.map((value, i) => (
+                        <td
+                          key={selectedCards[i].id}
+                          className={`p-2 align-top whitespace-pre-line ${
+                            row.best.includes(i) ? 'text-accent font-semibold' : ''
+                          }`}
+                        >
+                          {value ?? <span className="text-tertiary">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              );
+            })}
+          </table>
+          {!parsedAbilities && (
+            <p className="mt-2 text-xs text-secondary">Loading ability effects and skill values...</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CardTableRow } from '../../types/card';
+import {
+  buildCardsCsv,
+  buildCardsJson,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  getExportFilename,
+  getExportHeader,
+  resolveExportColumns,
+  type ExportContext,
+  type ExportFormat,
+} from '../../lib/cardExport';
+
+interface CardExportMenuProps {
+  /** Current filtered + sorted view, read at download time */
+  getCards: () => CardTableRow[];
+  rowCount: number;
+  isMLB: boolean;
+  parsedAbilities: ExportContext['parsedAbilities'];
+  parsedAbilitiesLoading: boolean;
+  /** Parsed abilities could not be loaded, so effect columns can't be exported */
+  parsedAbilitiesFailed?: boolean;
+  onNeedParsedAbilities: () => void;
+}
+
+/**
+ * Export dropdown for the card table: format, column picker and download of
+ * every row matching the current filters (not just the visible page).
+ */
+export default function CardExportMenu({
+  getCards,
+  rowCount,
+  isMLB,
+  parsedAbilities,
+  parsedAbilitiesLoading,
+  parsedAbilitiesFailed = false,
+  onNeedParsedAbilities,
+}: CardExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [selected, setSelected] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const columns = resolveExportColumns(selected);
+  const needsParsed = columns.some(column => column.needsParsedAbilities);
+  const waitingForParsed = needsParsed && !parsedAbilities;
+
+  useEffect(() => {
+    if (isOpen && needsParsed) onNeedParsedAbilities();
+  }, [isOpen, needsParsed, onNeedParsedAbilities]);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const toggleColumn = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  const handleDownload = () => {
+    const ctx: ExportContext = { isMLB, parsedAbilities };
+    const cards = getCards();
+    const content = format === 'csv' ? buildCardsCsv(cards, columns, ctx) : buildCardsJson(cards, columns, ctx);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getExportFilename(format, isMLB);
+    a.click();
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
+  return (
+    <div
+      className="relative"
+      ref={menuRef}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsOpen(false);
+      }}
+    >
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="btn-secondary text-xs px-2 py-1 rounded inline-flex items-center gap-1"
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        title="Download the current view as CSV or JSON"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 z-50 mt-1 p-3 rounded-md shadow-lg border bg-primary w-64 max-h-[70vh] overflow-y-auto text-primary"
+          style={{ borderColor: 'var(--color-border)', maxWidth: 'calc(100vw - 2rem)' }}
+          role="dialog"
+          aria-label="Export cards"
+        >
+          <fieldset className="mb-3">
+            <legend className="text-xs font-semibold text-secondary mb-1">Format</legend>
+            <div className="flex gap-3 text-sm">
+              {(['csv', 'json'] as const).map(f => (
+                <label key={f} className="flex items-center gap-1.5 cursor-pointer">
+                  <input type="radio" name="card-export-format" checked={format === f} onChange={() => setFormat(f)} />
+                  {f.toUpperCase()}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="mb-3">
+            <div className="flex items-center justify-between mb-1">
+              <legend className="text-xs font-semibold text-secondary">Columns</legend>
+              <button
+                onClick={() => setSelected(selected.length === EXPORT_COLUMNS.length ? [] : EXPORT_COLUMNS.map(c => c.id))}
+                className="text-xs text-secondary hover:text-primary"
+              >
+                {selected.length === EXPORT_COLUMNS.length ? 'None' : 'All'}
+              </button>
+            </div>
+            {EXPORT_COLUMNS.map(column => (
+              <label key={column.id} className="flex items-center gap-2 py-0.5 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(column.id)}
+                  onChange={() => toggleColumn(column.id)}
+                  className="rounded"
+                />
+                {getExportHeader(column, isMLB)}
+              </label>
+            ))}
+          </fieldset>
+
+          <p className="text-xs text-secondary mb-2">
+            {rowCount} {rowCount === 1 ? 'card' : 'cards'} at {isMLB ? 'MLB' : 'LB0'}, in the current sort order.
+            {waitingForParsed && parsedAbilitiesLoading && ' Loading ability effects...'}
+            {waitingForParsed && parsedAbilitiesFailed && ' Ability effects unavailable; deselect the effect columns to export.'}
+          </p>
+
+          <button
+            onClick={handleDownload}
+            disabled={columns.length === 0 || rowCount === 0 || waitingForParsed}
+            className="btn-primary w-full text-sm px-3 py-1.5 rounded disabled:opacity-50"
+          >
+            Download {format.toUpperCase()}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
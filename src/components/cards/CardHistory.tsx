@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { formatDate } from '../../lib/formatters';
+import {
+  getChangedSeries,
+  HISTORY_CATEGORY_LABELS,
+  type HistoryPoint,
+  type HistorySeriesKey,
+  type TimelineEntry,
+} from '../../lib/cardHistory';
+
+interface CardHistoryProps {
+  timeline: TimelineEntry[];
+  points: HistoryPoint[];
+}
+
+const SERIES_META: Record<HistorySeriesKey, { label: string; color: string }> = {
+  atk: { label: 'Max ATK', color: '#f59e0b' },
+  hp: { label: 'Max HP', color: '#10b981' },
+  skill: { label: 'Skill value (MLB)', color: '#6366f1' },
+};
+
+/** Entries shown before "Show all". */
+const INITIAL_ENTRIES = 5;
+
+/**
+ * Per-card changelog: small charts for stats that changed, then a timeline of
+ * every version with formatted diffs and a link to that patch on /updates.
+ */
+export default function CardHistory({ timeline, points }: CardHistoryProps) {
+  const [showAll, setShowAll] = useState(false);
+  const changedSeries = useMemo(() => getChangedSeries(points), [points]);
+  const chartData = useMemo(
+    () => points.map(p => ({ ...p, label: formatDate(p.date) })),
+    [points]
+  );
+
+  if (timeline.length === 0) {
+    return <p className="text-xs sm:text-sm text-secondary">No changes since this card was added.</p>;
+  }
+
+  const visible = showAll ? timeline : timeline.slice(0, INITIAL_ENTRIES);
+
+  return (
+    <div className="space-y-4">
+      {changedSeries.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {changedSeries.map(key => (
+            <div key={key} className="p-2 rounded" style={{ backgroundColor: 'var(--color-surface)' }}>
+              <div className="text-[10px] sm:text-xs text-secondary mb-1">{SERIES_META[key].label}</div>
+              <ResponsiveContainer width="100%" height={100}>
+                <LineChart data={chartData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="label" hide />
+                  <YAxis domain={['auto', 'auto']} tick={{ fontSize: 10 }} width={44} />
+                  <Tooltip
+                    formatter={(value) => [Number(value).toLocaleString(), SERIES_META[key].label]}
+                    contentStyle={{ backgroundColor: 'var(--color-surface)', borderColor: 'var(--color-border)', fontSize: 12 }}
+                  />
+                  <Line
+                    type="stepAfter"
+                    dataKey={key}
+                    stroke={SERIES_META[key].color}
+                    strokeWidth={2}
+                    dot={{ r: 2 }}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ol className="relative border-l ml-1.5 space-y-4" style={{ borderColor: 'var(--color-border)' }}>
+        {visible.map(entry => (
+          <li key={entry.version} className="pl-4">
+            <span
+              className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: 'var(--color-accent)' }}
+            />
+            <div className="flex items-baseline gap-2 flex-wrap">
+              <span className="font-medium text-xs sm:text-sm">{formatDate(entry.date)}</span>
+              <a href={`/en/updates#${entry.version}`} className="text-[10px] sm:text-xs text-accent hover:underline">
+                Patch notes
+              </a>
+            </div>
+            <ul className="mt-1 space-y-0.5 text-xs sm:text-sm">
+              {entry.changes.map(change => (
+                <li key={change.field} className="flex items-baseline gap-1.5">
+                  <span className="text-[10px] px-1.5 rounded flex-shrink-0 text-secondary" style={{ backgroundColor: 'var(--color-surface)' }}>
+                    {HISTORY_CATEGORY_LABELS[change.category]}
+                  </span>
+                  <span>{change.text}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+
+      {timeline.length > INITIAL_ENTRIES && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-secondary hover:text-primary"
+        >
+          {showAll ? 'Show fewer' : `Show all ${timeline.length} versions`}
+        </button>
+      )}
+    </div>
+  );
+}
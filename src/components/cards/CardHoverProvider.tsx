@@ -1,6 +1,6 @@
 import type { Placement } from '@floating-ui/react';
 import { useFloating, offset, flip, shift, autoUpdate, FloatingPortal } from '@floating-ui/react';
-import type { Card } from '../../types/card';
+import type { Card, CardTableRow } from '../../types/card';
 import { useCardHover } from './useCardHover';
 import { useCardsData } from './useCardsData';
 import CardPreviewContent from './CardPreviewContent';
@@ -160,7 +160,7 @@ export function CardFloatingPopup({
   compact = true,
   locale = 'en',
 }: {
-  card: Card | null;
+  card: CardTableRow | null;
   isOpen: boolean;
   referenceElement: HTMLElement | null;
   skills?: Record<string, any>;
@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import {
+  clampLevelSettings,
+  computeCardLevelValues,
+  computeLimitBreakSteps,
+  getLevelCap,
+  type LevelSettings,
+  type LevelViewerSkill,
+  type LevelViewerStats,
+} from '../../lib/cardLevels';
+import { MAX_LIMIT_BREAK, MAX_LEVEL_BONUS } from '../../lib/collection';
+
+interface CardLevelViewerProps {
+  stats: LevelViewerStats;
+  skill: LevelViewerSkill | null;
+}
+
+const formatMult = (n: number) => `×${n.toFixed(3).replace(/0+$/, '').replace(/\.$/, '')}`;
+
+/**
+ * Level / limit break explorer for the card page.
+ * Shows ATK, HP and skill numbers at any level, LB and level bonus, plus the
+ * value at each LB step so readers can see what the next copy is worth.
+ */
+export default function CardLevelViewer({ stats, skill }: CardLevelViewerProps) {
+  const [settings, setSettings] = useState<LevelSettings>(() => ({
+    level: getLevelCap(stats, MAX_LIMIT_BREAK),
+    limitBreak: MAX_LIMIT_BREAK,
+    levelBonus: 0,
+  }));
+
+  const update = (patch: Partial<LevelSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      // Changing LB jumps to that LB's cap, the usual case when comparing steps
+      if (patch.limitBreak !== undefined && patch.level === undefined) {
+        next.level = getLevelCap(stats, patch.limitBreak);
+      }
+      return clampLevelSettings(stats, next);
+    });
+  };
+
+  const current = useMemo(() => computeCardLevelValues(stats, skill, settings), [stats, skill, settings]);
+  const steps = useMemo(
+    () => computeLimitBreakSteps(stats, skill, settings.levelBonus),
+    [stats, skill, settings.levelBonus]
+  );
+
+  const hasProbability = steps.some(s => s.probability);
+  const hasDelay = steps.some(s => s.delay);
+  const borderStyle = { borderColor: 'var(--color-border)' };
+
+  return (
+    <div className="space-y-3 text-xs sm:text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-0.5 px-0.5 py-0.5 rounded border" style={borderStyle}>
+          {Array.from({ length: MAX_LIMIT_BREAK + 1 }, (_, lb) => (
+            <button
+              key={lb}
+              type="button"
+              onClick={() => update({ limitBreak: lb })}
+              className={`px-2 py-0.5 rounded transition-colors ${settings.limitBreak === lb ? 'font-medium' : 'text-secondary hover:text-primary'}`}
+              style={settings.limitBreak === lb ? { backgroundColor: 'var(--color-accent)', color: 'white' } : {}}
+              aria-pressed={settings.limitBreak === lb}
+            >
+              LB{lb}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 flex-1 min-w-[180px]">
+          <span className="text-secondary whitespace-nowrap">Lv {settings.level}</span>
+          <input
+            type="range"
+            min={1}
+            max={current.levelCap}
+            value={settings.level}
+            onChange={(e) => update({ level: Number(e.target.value) })}
+            className="flex-1"
+            aria-label="Card level"
+          />
+          <span className="text-tertiary">/ {current.levelCap}</span>
+        </label>
+        <label className="flex items-center gap-1 text-secondary">
+          Lv bonus
+          <input
+            type="number"
+            value={settings.levelBonus}
+            onChange={(e) => update({ levelBonus: parseInt(e.target.value) || 0 })}
+            className="w-14 px-1 py-0.5 rounded border bg-primary text-center"
+            style={borderStyle}
+            min={0}
+            max={MAX_LEVEL_BONUS}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <div className="p-2 rounded" style={{ backgroundColor: 'var(--color-surface)' }}>
+          <div className="text-secondary text-[10px] sm:text-xs">Effective level</div>
+          <div className="font-mono font-bold">{current.effectiveLevel}</div>
+        </div>
+        <div className="p-2 rounded" style={{ backgroundColor: 'var(--color-surface)' }}>
+          <div className="text-secondary text-[10px] sm:text-xs">ATK</div>
+          <div className="font-mono font-bold">{current.atk.toLocaleString()}</div>
+        </div>
+        <div className="p-2 rounded" style={{ backgroundColor: 'var(--color-surface)' }}>
+          <div className="text-secondary text-[10px] sm:text-xs">HP</div>
+          <div className="font-mono font-bold">{current.hp.toLocaleString()}</div>
+        </div>
+        <div className="p-2 rounded" style={{ backgroundColor: 'var(--color-surface)' }}>
+          <div className="text-secondary text-[10px] sm:text-xs">LB damage roll</div>
+          <div className="font-mono font-bold">
+            {settings.limitBreak > 0 ? `${formatMult(1)}–${formatMult(current.exceedMax)}` : '—'}
+          </div>
+          {settings.limitBreak > 0 && (
+            <div className="text-[10px] text-secondary">avg {formatMult(current.exceedAverage)} per hit</div>
+          )}
+        </div>
+      </div>
+
+      {current.description && (
+        <div>
+          <p>{current.description}</p>
+          {current.skillMaxLevel !== null && current.effectiveLevel > current.skillMaxLevel && (
+            <p className="text-[10px] text-tertiary mt-0.5">
+              Skill level follows card level past the listed max ({current.skillMaxLevel}).
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-secondary">
+              <th className="text-left font-normal py-1 pr-2">LB</th>
+              <th className="text-right font-normal py-1 px-2">Lv</th>
+              <th className="text-right font-normal py-1 px-2">ATK</th>
+              <th className="text-right font-normal py-1 px-2">HP</th>
+              {skill && <th className="text-right font-normal py-1 px-2">Skill</th>}
+              {hasProbability && <th className="text-right font-normal py-1 px-2">Chance</th>}
+              {hasDelay && <th className="text-right font-normal py-1 px-2">Effect</th>}
+              <th className="text-right font-normal py-1 pl-2">Max roll</th>
+            </tr>
+          </thead>
+          <tbody>
+            {steps.map(step => (
+              <tr
+                key={step.limitBreak}
+                className={`border-t ${step.limitBreak === settings.limitBreak ? 'font-medium' : ''}`}
+                style={borderStyle}
+              >
+                <td className="py-1 pr-2">{step.limitBreak === MAX_LIMIT_BREAK ? 'MLB' : `LB${step.limitBreak}`}</td>
+                <td className="text-right font-mono py-1 px-2">{step.effectiveLevel}</td>
+                <td className="text-right font-mono py-1 px-2">{step.atk.toLocaleString()}</td>
+                <td className="text-right font-mono py-1 px-2">{step.hp.toLocaleString()}</td>
+                {skill && <td className="text-right font-mono py-1 px-2">{step.skillValue ?? '—'}</td>}
+                {hasProbability && <td className="text-right font-mono py-1 px-2">{step.probability ?? '—'}</td>}
+                {hasDelay && <td className="text-right font-mono py-1 px-2">{step.delay ?? '—'}</td>}
+                <td className="text-right font-mono py-1 pl-2">{formatMult(step.exceedMax)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-tertiary">
+        Each LB adds 5 levels. In battle, every hit also rolls a random bonus of up to 5% per LB.
+      </p>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { Card } from '../../types/card';
+import type { CardTableRow } from '../../types/card';
 import { getPopupImageUrl, PLACEHOLDER_IMAGE } from '../../lib/images';
 import { formatNumber, formatSkillDescription, formatDescription } from '../../lib/formatters';
 import { computeMlbStats, substituteSkillTemplate } from '../../lib/lb';
@@ -9,7 +9,7 @@ import type { SupportedLocale } from '../../lib/i18n';
 const LB_MODE_KEY = 'otogidb-lb-mode';
 
 interface CardPreviewContentProps {
-  card: Card;
+  card: CardTableRow;
   skills?: Record<string, any>;
   /** Compact mode uses smaller text and 4-column stats */
   compact?: boolean;
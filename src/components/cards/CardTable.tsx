@@ -7,26 +7,41 @@ interface ColumnMeta {
 import {
   useReactTable,
   getCoreRowModel,
-  getFilteredRowModel,
-  getSortedRowModel,
-  getPaginationRowModel,
   type SortingState,
-  type ColumnFiltersState,
   flexRender,
 } from '@tanstack/react-table';
-import type { Card } from '../../types/card';
-import { getCardsData, getCardsSkeleton, type CardLocale } from '../../lib/cards';
-import Fuse from 'fuse.js';
+import type { Ability, Card, CardTableRow } from '../../types/card';
+import { getFullCardsData, isSkeletonEntry, type CardLocale } from '../../lib/cards';
 import { AttributeIcon, TypeIcon, RarityStars } from './GameIcon';
 import CardPreviewContent from './CardPreviewContent';
-import TableSkeleton from './TableSkeleton';
-import { FilterInfoTooltip, FilterDropdown, GroupedTagDropdown } from './filters';
+import TableSkeleton, { SkeletonTableRow } from './TableSkeleton';
+import { FilterInfoTooltip, FilterDropdown, GroupedTagDropdown, StatRangeFilter, AbilityEffectFilterPanel } from './filters';
 import MobileCardGrid from './MobileCardGrid';
+import CardExportMenu from './CardExportMenu';
 import { getCardTableColumns } from './cardTableColumns';
 import { useFocusTrap } from '../../hooks/useFocusTrap';
+import { useCollection } from '../../hooks/useCollection';
 import { useCardFilterOptions } from '../../hooks/useCardFilterOptions';
-import { selectedEventCardIds, eventCardIdsMatchingQuery } from '../../lib/eventFilter';
-import { FUSE_OPTIONS } from '../../lib/cardSearch';
+import { useCardTableQuery } from '../../hooks/useCardTableQuery';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
+import { parseCardQuery } from '../../lib/cardQuery';
+import type { CardTableQuery } from '../../lib/cardTableQuery';
+import {
+  RANGE_STATS,
+  formatRangeParam,
+  isRangeActive,
+  type StatRanges,
+} from '../../lib/statRanges';
+import {
+  EMPTY_EFFECT_FILTER,
+  isEffectFilterEmpty,
+  findAbilityEffectMatches,
+  listEffectTypes,
+  parseEffectFilterParam,
+  formatEffectFilterParam,
+  type AbilityEffectFilter,
+  type AbilityEffectMatch,
+} from '../../lib/abilityEffectFilter';
 import type { EventEntry } from '../../lib/eventFilter';
 import {
   extractLocaleFromPath,
@@ -36,8 +51,10 @@ import {
 } from '../../lib/i18n';
 import {
   sanitizeSearchQuery,
+  sanitizeTagValue,
   parseAndValidateStringParam,
   parseAndValidateNumberParam,
+  parseAndValidateRangeParam,
   validateSortColumn,
   validateSortDirection,
   validateBooleanParam,
@@ -63,21 +80,11 @@ export default function CardTable({ initialCards }: CardTableProps) {
 
   const [locale, setLocale] = useState<SupportedLocale>('en');
 
-  // Lazy search index - only created when user starts searching
-  const searchIndexRef = useRef<Fuse<Card> | null>(null);
-
   // Helper to generate locale-aware card URLs
   const getCardUrl = useCallback((cardId: string) => {
     return `/${locale}/cards/${cardId}`;
   }, [locale]);
 
-  const [cards, setCards] = useState<Card[]>(initialCards || []);
-  const [loading, setLoading] = useState(!initialCards);
-  const [error, setError] = useState<string | null>(null);
-  // filtersReady is false while only skeleton data is loaded.
-  // Skill/ability/source filter dropdowns are disabled until full index arrives.
-  const [filtersReady, setFiltersReady] = useState(!!initialCards);
-
   // Detect locale on mount
   useEffect(() => {
     setLocale(detectLocale());
@@ -136,7 +143,6 @@ export default function CardTable({ initialCards }: CardTableProps) {
   // Table state
   const [sorting, setSorting] = useState<SortingState>([]);
   const [globalFilter, setGlobalFilter] = useState('');
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
 
   // Filter values
   const [attributeFilter, setAttributeFilter] = useState<string[]>([]);
@@ -147,9 +153,17 @@ export default function CardTable({ initialCards }: CardTableProps) {
   const [abilityTagFilter, setAbilityTagFilter] = useState<string[]>([]);
   const [sourceFilter, setSourceFilter] = useState<string[]>([]); // Acquisition sources: gacha, auction, exchange, event
   const [eventFilter, setEventFilter] = useState<string[]>([]); // Event names from events.json
+  const [statRanges, setStatRanges] = useState<StatRanges>({}); // Min/max for ATK, HP, speed, crit, cost
+  const [effectFilter, setEffectFilter] = useState<AbilityEffectFilter>(EMPTY_EFFECT_FILTER); // Parsed ability effects
+  // Parsed abilities by card ID, from the full cards.json (the index has no `parsed`)
+  const [parsedAbilities, setParsedAbilities] = useState<Map<string, Ability[]> | null>(null);
+  const [parsedAbilitiesLoading, setParsedAbilitiesLoading] = useState(false);
+  // Set when the full cards.json could not be fetched (e.g. offline); stops automatic retries
+  const [parsedAbilitiesFailed, setParsedAbilitiesFailed] = useState(false);
   // events.json is a list ordered newest-first; keep that order for the dropdown.
   const [events, setEvents] = useState<EventEntry[]>([]);
   const [availableOnly, setAvailableOnly] = useState(false); // Only show currently available cards
+  const [ownedOnly, setOwnedOnly] = useState(false); // Only show cards in the user's collection
   const [hideNonPlayable, setHideNonPlayable] = useState(true); // Hide NPC/enemy cards by default
   const [showBugs, setShowBugs] = useState<boolean>(false);
   const [bugsOnly, setBugsOnly] = useState(false);
@@ -160,7 +174,7 @@ export default function CardTable({ initialCards }: CardTableProps) {
   const [shareTooltip, setShareTooltip] = useState<string | null>(null);
 
   // Mobile preview state
-  const [mobilePreviewCard, setMobilePreviewCard] = useState<Card | null>(null);
+  const [mobilePreviewCard, setMobilePreviewCard] = useState<CardTableRow | null>(null);
   const closeMobilePreview = useCallback(() => setMobilePreviewCard(null), []);
   const mobilePreviewRef = useFocusTrap<HTMLDivElement>({
     isActive: mobilePreviewCard !== null,
@@ -210,8 +224,8 @@ export default function CardTable({ initialCards }: CardTableProps) {
     const skill = params.get('skill');
     if (skill) {
       const skillTags = skill.split(',')
-        .map(s => s.trim().slice(0, 50))
-        .filter(s => s && /^[a-zA-Z0-9\s]+$/.test(s));
+        .map(sanitizeTagValue)
+        .filter((s): s is string => s !== null);
       if (skillTags.length > 0) setSkillTagFilter(skillTags);
     }
 
@@ -219,8 +233,8 @@ export default function CardTable({ initialCards }: CardTableProps) {
     const ability = params.get('ability');
     if (ability) {
       const abilityTags = ability.split(',')
-        .map(s => s.trim().slice(0, 50))
-        .filter(s => s && /^[a-zA-Z0-9\s]+$/.test(s));
+        .map(sanitizeTagValue)
+        .filter((s): s is string => s !== null);
       if (abilityTags.length > 0) setAbilityTagFilter(abilityTags);
     }
 
@@ -239,11 +253,28 @@ export default function CardTable({ initialCards }: CardTableProps) {
       if (eventNames.length > 0) setEventFilter(eventNames);
     }
 
+    // Stat ranges - "min-max" with either side optional, validated as bounded integers
+    const rangeValues: StatRanges = {};
+    for (const { stat, param } of RANGE_STATS) {
+      const range = parseAndValidateRangeParam(params.get(param));
+      if (range) rangeValues[stat] = range;
+    }
+    if (Object.keys(rangeValues).length > 0) setStatRanges(rangeValues);
+
+    // Ability effect filter - keys and values validated in parseEffectFilterParam
+    const effectValue = parseEffectFilterParam(params.get('effect'));
+    if (effectValue) setEffectFilter(effectValue);
+
     // Available only filter - validate boolean
     if (validateBooleanParam(params.get('available'))) {
       setAvailableOnly(true);
     }
 
+    // Owned only filter - validate boolean
+    if (validateBooleanParam(params.get('owned'))) {
+      setOwnedOnly(true);
+    }
+
     // Sorting - validate column and direction
     const sortColumn = validateSortColumn(params.get('sort'));
     const sortDir = validateSortDirection(params.get('dir'));
@@ -283,7 +314,14 @@ export default function CardTable({ initialCards }: CardTableProps) {
       if (abilityTagFilter.length > 0) params.set('ability', abilityTagFilter.join(','));
       if (sourceFilter.length > 0) params.set('source', sourceFilter.join(','));
       if (eventFilter.length > 0) params.set('event', eventFilter.join('|'));
+      for (const { stat, param } of RANGE_STATS) {
+        const range = formatRangeParam(statRanges[stat]);
+        if (range) params.set(param, range);
+      }
+      const effect = formatEffectFilterParam(effectFilter);
+      if (effect) params.set('effect', effect);
       if (availableOnly) params.set('available', '1');
+      if (ownedOnly) params.set('owned', '1');
       if (sorting.length > 0) {
         params.set('sort', sorting[0].id);
         params.set('dir', sorting[0].desc ? 'desc' : 'asc');
@@ -299,7 +337,7 @@ export default function CardTable({ initialCards }: CardTableProps) {
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [globalFilter, attributeFilter, typeFilter, rarityFilter, bondFilter, skillTagFilter, abilityTagFilter, sourceFilter, eventFilter, availableOnly, sorting, hideNonPlayable, bugsOnly]);
+  }, [globalFilter, attributeFilter, typeFilter, rarityFilter, bondFilter, skillTagFilter, abilityTagFilter, sourceFilter, eventFilter, statRanges, effectFilter, availableOnly, ownedOnly, sorting, hideNonPlayable, bugsOnly]);
 
   // Close mobile preview when clicking outside
   useEffect(() => {
@@ -340,7 +378,8 @@ export default function CardTable({ initialCards }: CardTableProps) {
     { id: 'rarity', label: 'Rarity' },
     { id: 'attribute', label: 'Attribute' },
     { id: 'type', label: 'Type' },
-  ], []);
+    ...(isEffectFilterEmpty(effectFilter) ? [] : [{ id: 'effect', label: 'Effect' }]),
+  ], [effectFilter]);
 
   // Get current sort info for display
   const currentSort = useMemo(() => {
@@ -360,7 +399,7 @@ export default function CardTable({ initialCards }: CardTableProps) {
       setSorting([{ id: columnId, desc: !sorting[0].desc }]);
     } else {
       // Different column - default to descending for stats/ID (newer cards first), ascending for text
-      const defaultDescending = ['id', 'max_atk', 'max_hp', 'speed', 'rarity'].includes(columnId);
+      const defaultDescending = ['id', 'max_atk', 'max_hp', 'speed', 'rarity', 'effect'].includes(columnId);
       setSorting([{ id: columnId, desc: defaultDescending }]);
     }
     setSortDropdownOpen(false);
@@ -383,7 +422,10 @@ export default function CardTable({ initialCards }: CardTableProps) {
     abilityTagFilter.length > 0 ||
     sourceFilter.length > 0 ||
     eventFilter.length > 0 ||
+    RANGE_STATS.some(({ stat }) => isRangeActive(statRanges[stat])) ||
+    !isEffectFilterEmpty(effectFilter) ||
     availableOnly ||
+    ownedOnly ||
     !hideNonPlayable ||
     bugsOnly ||
     sorting.length > 0;
@@ -400,7 +442,10 @@ export default function CardTable({ initialCards }: CardTableProps) {
     setAbilityTagFilter([]);
     setSourceFilter([]);
     setEventFilter([]);
+    setStatRanges({});
+    setEffectFilter(EMPTY_EFFECT_FILTER);
     setAvailableOnly(false);
+    setOwnedOnly(false);
     setHideNonPlayable(true);
     setBugsOnly(false);
     setSorting([]);
@@ -486,151 +531,115 @@ export default function CardTable({ initialCards }: CardTableProps) {
     }
   }, []);
 
-  // Load cards - reload when locale changes.
-  // Two-stage loading: skeleton first (~100ms) → full index in background (~300ms).
-  // Note: skills.json is NOT loaded at runtime - skill descriptions in cards_index.json
-  // are pre-calculated at build time with {value}, {probability}, {delay1} substituted
-  useEffect(() => {
-    if (initialCards) return; // SSR-provided cards need no fetch
+  // Owned cards live in IndexedDB, so the filter only applies on the client
+  const { owned } = useCollection();
 
-    let cancelled = false;
-
-    async function loadData() {
-      setLoading(true);
-      setError(null);
-      setFiltersReady(false);
+  // Load parsed abilities on demand: when the effect panel opens or a filter arrives from the URL.
+  // After a failure only an explicit retry fetches again.
+  const loadParsedAbilities = useCallback(() => {
+    if (parsedAbilities || parsedAbilitiesLoading || parsedAbilitiesFailed) return;
+    setParsedAbilitiesLoading(true);
+    getFullCardsData({ locale: locale as CardLocale })
+      .then(data => {
+        setParsedAbilities(new Map(Object.values(data.cards).map(card => [card.id, card.abilities || []])));
+      })
+      .catch(e => {
+        console.warn('Failed to load ability data:', e);
+        setParsedAbilitiesFailed(true);
+      })
+      .finally(() => setParsedAbilitiesLoading(false));
+  }, [locale, parsedAbilities, parsedAbilitiesLoading, parsedAbilitiesFailed]);
 
-      // Stage 1: load skeleton for instant page-1 render
-      const skeletonPromise = getCardsSkeleton({ locale: locale as CardLocale });
+  useEffect(() => {
+    if (!isEffectFilterEmpty(effectFilter)) loadParsedAbilities();
+  }, [effectFilter, loadParsedAbilities]);
 
-      // Stage 2: start full index fetch in parallel (don't await yet)
-      const fullPromise = getCardsData({ locale: locale as CardLocale });
+  // Clearing the failure lets loadParsedAbilities (and the effect above) run again
+  const retryParsedAbilities = useCallback(() => setParsedAbilitiesFailed(false), []);
 
-      try {
-        const skeletonData = await skeletonPromise;
-        if (!cancelled && skeletonData) {
-          const skeletonList = Object.values(skeletonData.cards) as Card[];
-          setCards(skeletonList);
-          setLoading(false);
-          searchIndexRef.current = null;
-        }
-      } catch {
-        // Skeleton is optional — keep loading state until full index
-      }
-
-      try {
-        const cardsData = await fullPromise;
-        if (!cancelled) {
-          const cardList = Object.values(cardsData.cards);
-          setCards(cardList);
-          setFiltersReady(true);
-          setLoading(false);
-          searchIndexRef.current = null;
-        }
-      } catch (err) {
-        if (!cancelled) {
-          setError(err instanceof Error ? err.message : 'Failed to load cards');
-          setLoading(false);
-        }
-      }
-    }
+  // Ability names are localized, so refetch for a new locale
+  useEffect(() => {
+    setParsedAbilities(null);
+    setParsedAbilitiesFailed(false);
+  }, [locale]);
 
-    loadData();
-    return () => { cancelled = true; };
-  }, [initialCards, locale]);
+  const effectTypes = useMemo(
+    () => (parsedAbilities ? listEffectTypes(parsedAbilities.values()) : []),
+    [parsedAbilities]
+  );
 
-  // Update column filters when filter values change
-  useEffect(() => {
-    const filters: ColumnFiltersState = [];
-    if (attributeFilter.length > 0) {
-      filters.push({ id: 'attribute', value: attributeFilter });
-    }
-    if (typeFilter.length > 0) {
-      filters.push({ id: 'type', value: typeFilter });
-    }
-    if (rarityFilter.length > 0) {
-      filters.push({ id: 'rarity', value: rarityFilter });
-    }
-    if (bondFilter.length > 0) {
-      filters.push({ id: 'bonds', value: bondFilter });
-    }
-    if (skillTagFilter.length > 0) {
-      filters.push({ id: 'skillTags', value: skillTagFilter });
+  // Matching effects per card, largest first. Null while the filter is off. Empty while the
+  // data is loading or unavailable: an active filter must not fall back to every card.
+  const effectMatches = useMemo(() => {
+    if (isEffectFilterEmpty(effectFilter)) return null;
+    const matches = new Map<string, AbilityEffectMatch[]>();
+    if (!parsedAbilities) return matches;
+    for (const [cardId, abilities] of parsedAbilities) {
+      const found = findAbilityEffectMatches(abilities, effectFilter);
+      if (found.length > 0) matches.set(cardId, found);
     }
-    if (abilityTagFilter.length > 0) {
-      filters.push({ id: 'abilityTags', value: abilityTagFilter });
-    }
-    if (sourceFilter.length > 0) {
-      filters.push({ id: 'sources', value: sourceFilter });
-    }
-    if (availableOnly) {
-      filters.push({ id: 'available', value: true });
-    }
-    if (hideNonPlayable) {
-      filters.push({ id: 'playable', value: true });
-    }
-    setColumnFilters(filters);
-  }, [attributeFilter, typeFilter, rarityFilter, bondFilter, skillTagFilter, abilityTagFilter, sourceFilter, availableOnly, hideNonPlayable]);
-
-  // Get filter options and tag categories from hook
-  const { filterOptions, skillTagCategories, abilityTagCategories } = useCardFilterOptions(cards);
+    return matches;
+  }, [effectFilter, parsedAbilities]);
 
   // events.json is already ordered newest-first, so preserve it — do not sort.
   const eventNames = useMemo(() => events.map(e => e.name), [events]);
 
-  // Filter data based on global search - lazily creates search index on first search
-  const filteredData = useMemo(() => {
-    let filtered = cards;
+  // Split the search box into structured filters (attr:divina atk>5000 ...) and fuzzy text
+  const parsedQuery = useMemo(() => parseCardQuery(globalFilter), [globalFilter]);
 
-    // Apply bugs-only filter (only when showBugs is active)
-    if (showBugs && bugsOnly) {
-      filtered = filtered.filter(card => card.has_bugs === true);
-    }
-
-    // Event filter. Done here rather than as a TanStack column because event membership
-    // lives in events.json, not on the card — no column to filter on.
-    if (eventFilter.length > 0) {
-      const cardIds = selectedEventCardIds(events, eventFilter);
-      filtered = filtered.filter(card => cardIds.has(card.id));
-    }
-
-    if (!globalFilter.trim()) return filtered;
-
-    // Lazily create search index on first search
-    if (!searchIndexRef.current && cards.length > 0) {
-      searchIndexRef.current = new Fuse(cards, FUSE_OPTIONS);
-    }
+  // Best matching effect per card, for the effect filter and the Effect sort
+  const effectMagnitudes = useMemo(
+    () => (effectMatches ? Object.fromEntries([...effectMatches].map(([cardId, found]) => [cardId, found[0].magnitude])) : null),
+    [effectMatches]
+  );
 
-    if (!searchIndexRef.current) return filtered;
-
-    const results = searchIndexRef.current.search(globalFilter);
-    let searchResults = results.map(result => result.item);
-
-    // Also surface cards from events whose NAME matches the query ("anniversary",
-    // "halloween"). Event names are not in the card index, so Fuse cannot see them.
-    // Appended rather than merged by score: a card literally named X ranks above cards
-    // that merely came from an event called X.
-    const eventMatches = eventCardIdsMatchingQuery(events, globalFilter);
-    if (eventMatches.size > 0) {
-      const alreadyFound = new Set(searchResults.map(c => c.id));
-      searchResults = searchResults.concat(
-        cards.filter(c => eventMatches.has(c.id) && !alreadyFound.has(c.id))
-      );
-    }
+  const ownedIds = useMemo(() => (ownedOnly ? [...owned.keys()] : null), [ownedOnly, owned]);
+
+  // Search, filters and sort run in a worker (see useCardTableQuery); it hands back
+  // the rows in display order, so TanStack only renders them
+  const tableQuery = useMemo<CardTableQuery>(() => ({
+    search: globalFilter,
+    isMLB,
+    attributes: attributeFilter,
+    types: typeFilter,
+    rarities: rarityFilter,
+    bonds: bondFilter,
+    skillTags: skillTagFilter,
+    abilityTags: abilityTagFilter,
+    sources: sourceFilter,
+    events: eventFilter,
+    statRanges,
+    effectMagnitudes,
+    ownedIds,
+    availableOnly,
+    playableOnly: hideNonPlayable,
+    bugsOnly: showBugs && bugsOnly,
+    sort: sorting[0] ?? null,
+  }), [globalFilter, isMLB, attributeFilter, typeFilter, rarityFilter, bondFilter, skillTagFilter, abilityTagFilter, sourceFilter, eventFilter, statRanges, effectMagnitudes, ownedIds, availableOnly, hideNonPlayable, showBugs, bugsOnly, sorting]);
+
+  // The worker also loads the cards (skeleton first, then the full index; reloaded per
+  // locale) and sends back what the filters need to know about them
+  const { rows: filteredData, pending: queryPending, stage, summary, error } = useCardTableQuery(
+    locale as CardLocale,
+    initialCards,
+    events,
+    tableQuery
+  );
+  const loading = stage === null && !error;
+  // filtersReady is false while only skeleton data is loaded.
+  // Skill/ability/source filter dropdowns are disabled until full index arrives.
+  const filtersReady = stage === 'full';
 
-    // Intersect with pre-filtered results
-    if ((showBugs && bugsOnly) || eventFilter.length > 0) {
-      const filteredIds = new Set(filtered.map(c => c.id));
-      return searchResults.filter(c => filteredIds.has(c.id));
-    }
+  // Get filter options and tag categories from hook
+  const { filterOptions, skillTagCategories, abilityTagCategories } = useCardFilterOptions(summary.filterOptions);
 
-    return searchResults;
-  }, [cards, globalFilter, showBugs, bugsOnly, eventFilter, events]);
+  // Slider extents follow the LB toggle so the ATK/HP sliders span the values on screen
+  const statBounds = isMLB ? summary.statBounds.mlb : summary.statBounds.lb0;
 
   // Column definitions (extracted to cardTableColumns.tsx)
   const columns = useMemo(
-    () => getCardTableColumns({ getCardUrl, locale, showBugs, isMLB }),
-    [getCardUrl, locale, showBugs, isMLB]
+    () => getCardTableColumns({ getCardUrl, locale, showBugs, isMLB, effectMatches }),
+    [getCardUrl, locale, showBugs, isMLB, effectMatches]
   );
 
   // Create table instance
@@ -639,21 +648,35 @@ export default function CardTable({ initialCards }: CardTableProps) {
     columns,
     state: {
       sorting,
-      columnFilters,
     },
     onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
+    manualSorting: true,
     getCoreRowModel: getCoreRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    initialState: {
-      pagination: {
-        pageSize: 50,
-      },
-    },
+    // Card IDs, so virtualized rows keep their measured heights across sorts
+    getRowId: card => card.id,
+  });
+
+  // Every result is one scrolling list; only the rows near the viewport are rendered
+  const rows = table.getRowModel().rows;
+  const rowKeys = useMemo(() => rows.map(row => row.id), [rows]);
+  const rowsSettled = filtersReady && !queryPending;
+  const tableRows = useVirtualRows({
+    keys: rowKeys,
+    estimatedHeight: 73,
+    scrollContainer: true,
+    restoreKey: 'card-table',
+    restoreReady: rowsSettled,
   });
 
+  const visibleColumnCount = columns.filter(c => !(c.meta as ColumnMeta | undefined)?.hidden).length;
+
+  // Until the full index arrives, skeleton cards past the first 50 have no
+  // skill or abilities to show, so they render as placeholders
+  const isPlaceholder = useCallback(
+    (card: CardTableRow) => !filtersReady && isSkeletonEntry(card),
+    [filtersReady]
+  );
+
   // Loading state - use skeleton loader for better UX
   if (loading) {
     return <TableSkeleton rows={10} />;
@@ -686,10 +709,22 @@ export default function CardTable({ initialCards }: CardTableProps) {
             type="text"
             value={globalFilter}
             onChange={(e) => setGlobalFilter(e.target.value)}
-            placeholder={filtersReady ? "Search cards..." : "Loading data..."}
+            placeholder={filtersReady ? 'Search cards... (e.g. attr:divina atk>5000 skill:"Wave Start")' : "Loading data..."}
             className="w-full px-4 py-2 rounded-md border bg-primary"
-            style={{ borderColor: 'var(--color-border)' }}
+            style={{ borderColor: parsedQuery.errors.length > 0 ? 'rgb(248 113 113)' : 'var(--color-border)' }}
+            aria-describedby={parsedQuery.errors.length > 0 ? 'card-search-errors' : undefined}
           />
+          {parsedQuery.errors.length > 0 && (
+            <p id="card-search-errors" className="mt-1 text-xs text-red-400">
+              {parsedQuery.errors.join(' · ')}
+            </p>
+          )}
+          {parsedQuery.clauses.length > 0 && parsedQuery.errors.length === 0 && (
+            <p className="mt-1 text-xs text-tertiary">
+              {parsedQuery.clauses.length} filter{parsedQuery.clauses.length === 1 ? '' : 's'} from query
+              {parsedQuery.text && <> · searching for "{parsedQuery.text}"</>}
+            </p>
+          )}
         </div>
 
         {/* Filter Dropdowns - wrap on small screens */}
@@ -849,6 +884,18 @@ export default function CardTable({ initialCards }: CardTableProps) {
             />
             <FilterInfoTooltip text="Ability Tags: Finds cards where one ability has all selected tags." />
           </div>
+          <div className="flex items-center">
+            <AbilityEffectFilterPanel
+              filter={effectFilter}
+              onChange={setEffectFilter}
+              effectTypes={effectTypes}
+              loading={parsedAbilitiesLoading}
+              failed={parsedAbilitiesFailed}
+              onOpen={loadParsedAbilities}
+              onRetry={retryParsedAbilities}
+            />
+            <FilterInfoTooltip text="Effect: Finds abilities by what they actually do — effect, who it lands on, how big, and when. Sort by Effect to rank by size." />
+          </div>
           <div
             className={!filtersReady ? 'pointer-events-none' : ''}
           >
@@ -887,6 +934,14 @@ export default function CardTable({ initialCards }: CardTableProps) {
               <FilterInfoTooltip text="Event: Cards obtainable from an event, newest first. Includes rewards and helper cards." />
             </div>
           )}
+          <div className="flex items-center">
+            <StatRangeFilter
+              ranges={statRanges}
+              bounds={statBounds}
+              onChange={setStatRanges}
+            />
+            <FilterInfoTooltip text="Stats: Min/max ranges for ATK, HP, speed, crit and cost. ATK and HP follow the LB0/MLB toggle." />
+          </div>
           <div className="flex items-center">
             <label className="flex items-center gap-1.5 px-2 py-1 text-xs rounded border cursor-pointer hover:bg-surface transition-colors"
                    style={{ borderColor: availableOnly ? 'var(--color-accent)' : 'var(--color-border)' }}>
@@ -900,6 +955,19 @@ export default function CardTable({ initialCards }: CardTableProps) {
             </label>
             <FilterInfoTooltip text="Available Now: Some cards are day-limited or may be out of stock." />
           </div>
+          <div className="flex items-center">
+            <label className="flex items-center gap-1.5 px-2 py-1 text-xs rounded border cursor-pointer hover:bg-surface transition-colors"
+                   style={{ borderColor: ownedOnly ? 'var(--color-accent)' : 'var(--color-border)' }}>
+              <input
+                type="checkbox"
+                checked={ownedOnly}
+                onChange={(e) => setOwnedOnly(e.target.checked)}
+                className="rounded"
+              />
+              <span>Owned Only ({owned.size})</span>
+            </label>
+            <FilterInfoTooltip text='Owned Only: Cards marked "In my box" on their card page. Stored in this browser only.' />
+          </div>
           <div className="flex items-center gap-0.5 px-0.5 py-0.5 rounded border text-xs"
                style={{ borderColor: 'var(--color-border)' }}>
             <button
@@ -965,35 +1033,54 @@ export default function CardTable({ initialCards }: CardTableProps) {
 
       {/* Results count and actions */}
       <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-secondary">
-        <div aria-live="polite" aria-atomic="true">
-          Showing {table.getRowModel().rows.length} of {cards.length} cards
+        <div aria-live="polite" aria-atomic="true" aria-busy={queryPending}>
+          Showing {rows.length} of {summary.total} cards
+          {!isEffectFilterEmpty(effectFilter) && parsedAbilitiesFailed && (
+            <span className="text-red-400">
+              {' '}· effect data unavailable{' '}
+              <button onClick={retryParsedAbilities} className="underline hover:text-red-300">Retry</button>
+            </span>
+          )}
         </div>
 
-        {/* Share button */}
-        {hasActiveFilters && (
-          <div className="relative">
-            <button
-              onClick={handleShare}
-              className="btn-secondary text-xs px-2 py-1 rounded inline-flex items-center gap-1"
-              title="Copy link to current view"
-            >
-              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
-              </svg>
-              Share
-            </button>
-            {shareTooltip && (
-              <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 text-xs rounded whitespace-nowrap"
-                   style={{ backgroundColor: 'var(--color-surface)', border: '1px solid var(--color-border)' }}>
-                {shareTooltip}
-              </div>
-            )}
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {/* Share button */}
+          {hasActiveFilters && (
+            <div className="relative">
+              <button
+                onClick={handleShare}
+                className="btn-secondary text-xs px-2 py-1 rounded inline-flex items-center gap-1"
+                title="Copy link to current view"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                </svg>
+                Share
+              </button>
+              {shareTooltip && (
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 text-xs rounded whitespace-nowrap"
+                     style={{ backgroundColor: 'var(--color-surface)', border: '1px solid var(--color-border)' }}>
+                  {shareTooltip}
+                </div>
+              )}
+            </div>
+          )}
+
+          <CardExportMenu
+            getCards={() => rows.map(row => row.original)}
+            rowCount={rows.length}
+            isMLB={isMLB}
+            parsedAbilities={parsedAbilities}
+            parsedAbilitiesLoading={parsedAbilitiesLoading}
+            parsedAbilitiesFailed={parsedAbilitiesFailed}
+            onNeedParsedAbilities={loadParsedAbilities}
+          />
+        </div>
       </div>
 
-      {/* Desktop Table */}
-      <div className="hidden md:block overflow-x-auto">
+      {/* Desktop Table - scrolls inside its own box so the header can stay pinned;
+          the max height leaves room for the sticky site header */}
+      <div ref={tableRows.scrollerRef} className="hidden md:block overflow-auto max-h-[calc(100vh-4rem)]">
         <table className="data-table">
           <thead>
             {table.getHeaderGroups().map(headerGroup => (
@@ -1009,7 +1096,7 @@ export default function CardTable({ initialCards }: CardTableProps) {
                       scope="col"
                       onClick={header.column.getToggleSortingHandler()}
                       style={{ width: header.getSize() }}
-                      className={`${header.column.getCanSort() ? 'cursor-pointer select-none' : ''} ${hideOnSmall ? 'hidden xl:table-cell' : ''}`}
+                      className={`sticky top-0 z-10 shadow-[inset_0_-1px_0_var(--color-border)] ${header.column.getCanSort() ? 'cursor-pointer select-none' : ''} ${hideOnSmall ? 'hidden xl:table-cell' : ''}`}
                     >
                       <div className="flex items-center gap-1">
                         {flexRender(header.column.columnDef.header, header.getContext())}
@@ -1022,10 +1109,10 @@ export default function CardTable({ initialCards }: CardTableProps) {
               </tr>
             ))}
           </thead>
-          <tbody>
-            {table.getRowModel().rows.length === 0 ? (
+          <tbody ref={tableRows.listRef}>
+            {rows.length === 0 ? (
               <tr>
-                <td colSpan={columns.filter(c => !(c.meta as ColumnMeta | undefined)?.hidden).length} className="text-center py-8">
+                <td colSpan={visibleColumnCount} className="text-center py-8">
                   <div className="text-secondary">
                     <p className="text-lg font-medium">No cards found</p>
                     <p className="text-sm mt-1">Try adjusting your search or filters</p>
@@ -1033,21 +1120,33 @@ export default function CardTable({ initialCards }: CardTableProps) {
                 </td>
               </tr>
             ) : (
-              table.getRowModel().rows.map(row => (
-                <tr key={row.id} className="hover:bg-surface transition-colors" data-attribute={row.original.stats.attribute_name}>
-                  {row.getVisibleCells().map(cell => {
-                    const meta = cell.column.columnDef.meta as ColumnMeta | undefined;
-                    // Skip completely hidden columns
-                    if (meta?.hidden) return null;
-                    const hideOnSmall = meta?.hideOnSmall;
-                    return (
-                      <td key={cell.id} className={hideOnSmall ? 'hidden xl:table-cell' : ''} data-column={cell.column.id}>
-                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))
+              <>
+                {tableRows.paddingTop > 0 && (
+                  <tr aria-hidden="true" style={{ height: tableRows.paddingTop }} />
+                )}
+                {rows.slice(tableRows.start, tableRows.end).map(row => (
+                  isPlaceholder(row.original) ? (
+                    <SkeletonTableRow key={row.id} ref={tableRows.measureRow(row.id)} colSpan={visibleColumnCount} />
+                  ) : (
+                    <tr key={row.id} ref={tableRows.measureRow(row.id)} className="hover:bg-surface transition-colors" data-attribute={row.original.stats.attribute_name}>
+                      {row.getVisibleCells().map(cell => {
+                        const meta = cell.column.columnDef.meta as ColumnMeta | undefined;
+                        // Skip completely hidden columns
+                        if (meta?.hidden) return null;
+                        const hideOnSmall = meta?.hideOnSmall;
+                        return (
+                          <td key={cell.id} className={hideOnSmall ? 'hidden xl:table-cell' : ''} data-column={cell.column.id}>
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  )
+                ))}
+                {tableRows.paddingBottom > 0 && (
+                  <tr aria-hidden="true" style={{ height: tableRows.paddingBottom }} />
+                )}
+              </>
             )}
           </tbody>
         </table>
@@ -1055,36 +1154,16 @@ export default function CardTable({ initialCards }: CardTableProps) {
 
       {/* Mobile Card Grid */}
       <MobileCardGrid
-        rows={table.getRowModel().rows}
+        rows={rows}
         getCardUrl={getCardUrl}
         onPreviewCard={setMobilePreviewCard}
         showBugs={showBugs}
+        isMLB={isMLB}
+        rangeStats={RANGE_STATS.filter(({ stat }) => isRangeActive(statRanges[stat])).map(({ stat }) => stat)}
+        isPlaceholder={isPlaceholder}
+        restoreReady={rowsSettled}
       />
 
-      {/* Pagination */}
-      <div className="flex items-center justify-between">
-        <div className="text-sm text-secondary">
-          Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
-        </div>
-        <div className="flex gap-2">
-          <button
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
-            className="btn-secondary px-3 py-1 touch-target disabled:opacity-50"
-          >
-            Previous
-          </button>
-          <button
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage() || !filtersReady}
-            title={!filtersReady ? "Loading full data…" : undefined}
-            className="btn-secondary px-3 py-1 touch-target disabled:opacity-50"
-          >
-            Next
-          </button>
-        </div>
-      </div>
-
       {/* Mobile Preview Modal */}
       {mobilePreviewCard && (
         <div
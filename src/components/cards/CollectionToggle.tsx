@@ -0,0 +1,67 @@
+import { useCollection } from '../../hooks/useCollection';
+import { MAX_LIMIT_BREAK, MAX_LEVEL_BONUS } from '../../lib/collection';
+
+interface CollectionToggleProps {
+  cardId: string;
+}
+
+/**
+ * "In my box" control for the card page.
+ * Marks the card as owned and records its limit break and level bonus,
+ * which the card table and team calculator read back.
+ */
+export default function CollectionToggle({ cardId }: CollectionToggleProps) {
+  const { owned, loaded, setOwned, removeOwned } = useCollection();
+  const entry = owned.get(cardId);
+
+  // Avoid flashing "not owned" before IndexedDB answers
+  if (!loaded) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <label
+        className="flex items-center gap-1.5 px-2 py-1 rounded border cursor-pointer hover:bg-surface transition-colors"
+        style={{ borderColor: entry ? 'var(--color-accent)' : 'var(--color-border)' }}
+      >
+        <input
+          type="checkbox"
+          checked={!!entry}
+          onChange={(e) => (e.target.checked ? setOwned({ cardId }) : removeOwned(cardId))}
+          className="rounded"
+        />
+        <span>In my box</span>
+      </label>
+
+      {entry && (
+        <>
+          <div className="flex items-center gap-0.5 px-0.5 py-0.5 rounded border" style={{ borderColor: 'var(--color-border)' }}>
+            {Array.from({ length: MAX_LIMIT_BREAK + 1 }, (_, lb) => (
+              <button
+                key={lb}
+                type="button"
+                onClick={() => setOwned({ ...entry, limitBreak: lb })}
+                className={`px-2 py-0.5 rounded transition-colors ${entry.limitBreak === lb ? 'font-medium' : 'text-secondary hover:text-primary'}`}
+                style={entry.limitBreak === lb ? { backgroundColor: 'var(--color-accent)', color: 'white' } : {}}
+                title={`Limit break ${lb}`}
+              >
+                LB{lb}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1 text-secondary">
+            Lv bonus
+            <input
+              type="number"
+              value={entry.levelBonus}
+              onChange={(e) => setOwned({ ...entry, levelBonus: parseInt(e.target.value) || 0 })}
+              className="w-14 px-1 py-0.5 rounded border bg-primary text-center"
+              style={{ borderColor: 'var(--color-border)' }}
+              min={0}
+              max={MAX_LEVEL_BONUS}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,45 +1,55 @@
+import { useMemo } from 'react';
 import type { Row } from '@tanstack/react-table';
-import type { Card } from '../../types/card';
+import type { CardTableRow } from '../../types/card';
 import { getThumbnailUrl, PLACEHOLDER_IMAGE } from '../../lib/images';
 import { formatNumber } from '../../lib/formatters';
+import { getCardStat, RANGE_STATS, type RangeStat } from '../../lib/statRanges';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
 import { AttributeIcon, TypeIcon, RarityStars } from './GameIcon';
+import { SkeletonCardTile } from './TableSkeleton';
 
 interface MobileCardGridProps {
-  rows: Row<Card>[];
+  rows: Row<CardTableRow>[];
   getCardUrl: (id: string) => string;
-  onPreviewCard: (card: Card) => void;
+  onPreviewCard: (card: CardTableRow) => void;
   showBugs?: boolean;
+  /** Show MLB ATK/HP, matching the table's LB toggle (default true). */
+  isMLB?: boolean;
+  /** Stats with an active range filter; speed/crit/cost are shown so the filter is visible. */
+  rangeStats?: RangeStat[];
+  /** Cards to draw as placeholders (skeleton entries until the full index arrives). */
+  isPlaceholder?: (card: CardTableRow) => boolean;
+  /** Rows are final, so a saved scroll position can be restored (back navigation). */
+  restoreReady?: boolean;
 }
 
 interface CardRowProps {
-  row: Row<Card>;
+  row: Row<CardTableRow>;
   getCardUrl: (id: string) => string;
-  onPreviewCard: (card: Card) => void;
+  onPreviewCard: (card: CardTableRow) => void;
   showBugs?: boolean;
-  variant: 'xs' | 'sm';
+  isMLB: boolean;
+  extraStats: RangeStat[];
 }
 
-function CardRow({ row, getCardUrl, onPreviewCard, showBugs, variant }: CardRowProps) {
+/** One tile; below the xs breakpoint it drops the skill line and stats */
+function CardRow({ row, getCardUrl, onPreviewCard, showBugs, isMLB, extraStats }: CardRowProps) {
   const card = row.original;
   const imgUrl = getThumbnailUrl(card);
-  const isXs = variant === 'xs';
 
   return (
-    <div
-      key={row.id}
-      className={`card-grid-item flex items-center gap-3 ${isXs ? 'py-2' : ''}`}
-    >
+    <div className="card-grid-item flex items-center gap-3 py-2 xs:py-3">
       <a href={getCardUrl(card.id)} className="flex-shrink-0">
         <img
           src={imgUrl || PLACEHOLDER_IMAGE}
           alt={card.name || `Card #${card.id}`}
-          className={`${isXs ? 'w-10 h-10' : 'w-12 h-12'} rounded object-cover`}
+          className="w-10 h-10 xs:w-12 xs:h-12 rounded object-cover"
           loading="lazy"
         />
       </a>
       <a href={getCardUrl(card.id)} className="flex-1 min-w-0">
         <div className="flex items-center gap-1.5">
-          <span className={`font-medium truncate ${isXs ? 'text-sm' : ''}`}>
+          <span className="font-medium truncate text-sm xs:text-base">
             {card.name || `Card #${card.id}`}
           </span>
           {!card.playable && (
@@ -54,21 +64,24 @@ function CardRow({ row, getCardUrl, onPreviewCard, showBugs, variant }: CardRowP
             </span>
           )}
         </div>
-        <div className={`flex items-center ${isXs ? 'gap-1.5' : 'gap-2 text-sm'}`}>
+        <div className="flex items-center gap-1.5 xs:gap-2 xs:text-sm">
           <AttributeIcon value={card.stats.attribute_name} size="sm" />
           <TypeIcon value={card.stats.type_name} size="sm" />
           <RarityStars value={card.stats.rarity} size="sm" />
         </div>
-        {!isXs && card.skill && (
-          <div className="text-xs text-secondary truncate">{card.skill.name}</div>
+        {card.skill && (
+          <div className="hidden xs:block text-xs text-secondary truncate">{card.skill.name}</div>
         )}
       </a>
-      {!isXs && (
-        <div className="text-right text-sm mr-2">
-          <div>ATK: {formatNumber(card.stats.max_atk)}</div>
-          <div className="text-secondary">HP: {formatNumber(card.stats.max_hp)}</div>
-        </div>
-      )}
+      <div className="hidden xs:block text-right text-sm mr-2">
+        <div>ATK: {formatNumber(getCardStat(card, 'atk', isMLB))}</div>
+        <div className="text-secondary">HP: {formatNumber(getCardStat(card, 'hp', isMLB))}</div>
+        {extraStats.map(stat => (
+          <div key={stat} className="text-secondary text-xs">
+            {RANGE_STATS.find(r => r.stat === stat)?.label}: {formatNumber(getCardStat(card, stat, isMLB))}
+          </div>
+        ))}
+      </div>
       <button
         onClick={() => onPreviewCard(card)}
         className="p-2 rounded-full flex-shrink-0 touch-target"
@@ -85,17 +98,34 @@ function CardRow({ row, getCardUrl, onPreviewCard, showBugs, variant }: CardRowP
 }
 
 /**
- * Mobile card grid layouts for CardTable.
- * Renders two responsive variants:
+ * Mobile card grid for CardTable, one tile per row:
  * - Extra-small (360-480px): Minimal with image + name
  * - Small-medium (480-768px): More detail with stats
+ *
+ * Tiles are windowed against the page scroll (see useVirtualRows), so the whole
+ * result list can be shown without pagination.
  */
 export default function MobileCardGrid({
   rows,
   getCardUrl,
   onPreviewCard,
   showBugs,
+  isMLB = true,
+  rangeStats = [],
+  isPlaceholder,
+  restoreReady = true,
 }: MobileCardGridProps) {
+  // ATK and HP are always shown; only surface the other filtered stats
+  const extraStats = rangeStats.filter(stat => stat !== 'atk' && stat !== 'hp');
+
+  const rowKeys = useMemo(() => rows.map(row => row.id), [rows]);
+  const virtual = useVirtualRows({
+    keys: rowKeys,
+    estimatedHeight: 80,
+    restoreKey: 'card-grid',
+    restoreReady,
+  });
+
   if (rows.length === 0) {
     return (
       <div className="md:hidden text-center py-8">
@@ -108,20 +138,21 @@ export default function MobileCardGrid({
   }
 
   return (
-    <>
-      {/* Extra-Small Mobile (360-480px) - Minimal: Image + Name only */}
-      <div className="xs:hidden md:hidden grid grid-cols-1 gap-2">
-        {rows.map(row => (
-          <CardRow key={row.id} row={row} getCardUrl={getCardUrl} onPreviewCard={onPreviewCard} showBugs={showBugs} variant="xs" />
-        ))}
-      </div>
-
-      {/* Small-Medium Mobile (480-768px) - More detail */}
-      <div className="hidden xs:grid md:hidden grid-cols-1 gap-3">
-        {rows.map(row => (
-          <CardRow key={row.id} row={row} getCardUrl={getCardUrl} onPreviewCard={onPreviewCard} showBugs={showBugs} variant="sm" />
-        ))}
-      </div>
-    </>
+    <div
+      ref={virtual.listRef}
+      className="md:hidden"
+      style={{ paddingTop: virtual.paddingTop, paddingBottom: virtual.paddingBottom }}
+    >
+      {rows.slice(virtual.start, virtual.end).map(row => (
+        // Spacing is padding rather than a grid gap so it is part of each measured height
+        <div key={row.id} ref={virtual.measureRow(row.id)} className="pb-2 xs:pb-3">
+          {isPlaceholder?.(row.original) ? (
+            <SkeletonCardTile />
+          ) : (
+            <CardRow row={row} getCardUrl={getCardUrl} onPreviewCard={onPreviewCard} showBugs={showBugs} isMLB={isMLB} extraStats={extraStats} />
+          )}
+        </div>
+      ))}
+    </div>
   );
 }
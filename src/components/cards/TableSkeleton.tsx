@@ -1,3 +1,77 @@
+import type { Ref } from 'react';
+
+/** Placeholder cells matching a card table row */
+function TableRowPlaceholder() {
+  return (
+    <>
+      {/* Image */}
+      <div className="w-10 h-10 rounded bg-surface animate-pulse" />
+      {/* ID */}
+      <div className="w-10 h-4 rounded bg-surface animate-pulse" />
+      {/* Name */}
+      <div className="w-24 h-4 rounded bg-surface animate-pulse" />
+      {/* Attribute */}
+      <div className="w-6 h-6 rounded-full bg-surface animate-pulse" />
+      {/* Type */}
+      <div className="w-6 h-6 rounded-full bg-surface animate-pulse" />
+      {/* Rarity */}
+      <div className="w-16 h-4 rounded bg-surface animate-pulse" />
+      {/* Skill description */}
+      <div className="flex-1 space-y-1">
+        <div className="h-4 rounded bg-surface animate-pulse" />
+        <div className="h-4 w-3/4 rounded bg-surface animate-pulse" />
+      </div>
+    </>
+  );
+}
+
+/** Placeholder contents matching a mobile card tile */
+function CardTilePlaceholder() {
+  return (
+    <>
+      <div className="w-10 h-10 rounded bg-border animate-pulse flex-shrink-0" />
+      <div className="flex-1 space-y-2">
+        <div className="h-4 w-32 rounded bg-border animate-pulse" />
+        <div className="flex gap-2">
+          <div className="w-5 h-5 rounded-full bg-border animate-pulse" />
+          <div className="w-5 h-5 rounded-full bg-border animate-pulse" />
+          <div className="w-16 h-4 rounded bg-border animate-pulse" />
+        </div>
+      </div>
+      <div className="w-8 h-8 rounded-full bg-border animate-pulse flex-shrink-0" />
+    </>
+  );
+}
+
+/**
+ * A table row for a card that is only in the skeleton (no skill, abilities or
+ * sources yet), shown in the virtualized table until the full index arrives.
+ */
+export function SkeletonTableRow({ colSpan, ref }: { colSpan: number; ref?: Ref<HTMLTableRowElement> }) {
+  return (
+    <tr ref={ref} aria-hidden="true">
+      <td colSpan={colSpan}>
+        <div className="flex items-center gap-4">
+          <TableRowPlaceholder />
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+/** The mobile grid counterpart of SkeletonTableRow */
+export function SkeletonCardTile() {
+  return (
+    <div
+      className="flex items-center gap-3 p-3 rounded-lg border"
+      style={{ borderColor: 'var(--color-border)', backgroundColor: 'var(--color-surface)' }}
+      aria-hidden="true"
+    >
+      <CardTilePlaceholder />
+    </div>
+  );
+}
+
 /**
  * Skeleton loader component for the card table.
  * Displays animated placeholder rows while data is loading.
@@ -46,23 +120,7 @@ export default function TableSkeleton({ rows = 10 }: { rows?: number }) {
               className="flex items-center gap-4 px-3 py-2 border-b last:border-b-0"
               style={{ borderColor: 'var(--color-border)' }}
             >
-              {/* Image */}
-              <div className="w-10 h-10 rounded bg-surface animate-pulse" />
-              {/* ID */}
-              <div className="w-10 h-4 rounded bg-surface animate-pulse" />
-              {/* Name */}
-              <div className="w-24 h-4 rounded bg-surface animate-pulse" />
-              {/* Attribute */}
-              <div className="w-6 h-6 rounded-full bg-surface animate-pulse" />
-              {/* Type */}
-              <div className="w-6 h-6 rounded-full bg-surface animate-pulse" />
-              {/* Rarity */}
-              <div className="w-16 h-4 rounded bg-surface animate-pulse" />
-              {/* Skill description */}
-              <div className="flex-1 space-y-1">
-                <div className="h-4 rounded bg-surface animate-pulse" />
-                <div className="h-4 w-3/4 rounded bg-surface animate-pulse" />
-              </div>
+              <TableRowPlaceholder />
             </div>
           ))}
         </div>
@@ -71,33 +129,9 @@ export default function TableSkeleton({ rows = 10 }: { rows?: number }) {
       {/* Mobile skeleton */}
       <div className="md:hidden space-y-2">
         {Array.from({ length: rows }).map((_, i) => (
-          <div
-            key={i}
-            className="flex items-center gap-3 p-3 rounded-lg border"
-            style={{ borderColor: 'var(--color-border)', backgroundColor: 'var(--color-surface)' }}
-          >
-            <div className="w-10 h-10 rounded bg-border animate-pulse flex-shrink-0" />
-            <div className="flex-1 space-y-2">
-              <div className="h-4 w-32 rounded bg-border animate-pulse" />
-              <div className="flex gap-2">
-                <div className="w-5 h-5 rounded-full bg-border animate-pulse" />
-                <div className="w-5 h-5 rounded-full bg-border animate-pulse" />
-                <div className="w-16 h-4 rounded bg-border animate-pulse" />
-              </div>
-            </div>
-            <div className="w-8 h-8 rounded-full bg-border animate-pulse flex-shrink-0" />
-          </div>
+          <SkeletonCardTile key={i} />
         ))}
       </div>
-
-      {/* Pagination skeleton */}
-      <div className="flex items-center justify-between">
-        <div className="h-5 w-24 rounded bg-surface animate-pulse" />
-        <div className="flex gap-2">
-          <div className="w-20 h-8 rounded bg-surface animate-pulse" />
-          <div className="w-16 h-8 rounded bg-surface animate-pulse" />
-        </div>
-      </div>
     </div>
   );
 }
@@ -0,0 +1,41 @@
+import { useWatchlist } from '../../hooks/useWatchlist';
+
+interface WatchToggleProps {
+  cardId: string;
+}
+
+/**
+ * "Watch" control for the card page.
+ * Watched cards are checked on each visit; stat changes, auction listings,
+ * banners and exchanges show up in the watchlist digest.
+ */
+export default function WatchToggle({ cardId }: WatchToggleProps) {
+  const { watched, loaded, watch, unwatch } = useWatchlist();
+  const isWatched = watched.has(cardId);
+
+  // Avoid flashing "not watched" before localStorage is read
+  if (!loaded) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <label
+        className="flex items-center gap-1.5 px-2 py-1 rounded border cursor-pointer hover:bg-surface transition-colors"
+        style={{ borderColor: isWatched ? 'var(--color-accent)' : 'var(--color-border)' }}
+        title="Get a digest when this card's stats change or it shows up in auction, on a banner or in an exchange"
+      >
+        <input
+          type="checkbox"
+          checked={isWatched}
+          onChange={(e) => (e.target.checked ? watch(cardId) : unwatch(cardId))}
+          className="rounded"
+        />
+        <span>Watch</span>
+      </label>
+      {isWatched && (
+        <a href="/en/tools/watchlist" className="text-secondary hover:text-primary">
+          Watchlist
+        </a>
+      )}
+    </div>
+  );
+}
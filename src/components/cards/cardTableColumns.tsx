@@ -1,9 +1,10 @@
 import type { ColumnDef } from '@tanstack/react-table';
-import type { Card, AcquisitionSource } from '../../types/card';
+import type { CardTableRow } from '../../types/card';
 import type { SupportedLocale } from '../../lib/i18n';
 import { formatNumber, formatDescription } from '../../lib/formatters';
 import { computeMlbStats, substituteSkillTemplate } from '../../lib/lb';
 import { highlightHtml, highlightText } from '../../lib/highlightSkillText';
+import { formatEffectMatch, type AbilityEffectMatch } from '../../lib/abilityEffectFilter';
 import { AttributeIcon, TypeIcon, RarityStars } from './GameIcon';
 import { ImageCell } from './cells';
 
@@ -12,6 +13,8 @@ export interface ColumnOptions {
   locale: SupportedLocale;
   showBugs?: boolean;
   isMLB?: boolean;
+  /** Matches from the ability effect filter, by card ID. The Effect column shows only when set. */
+  effectMatches?: Map<string, AbilityEffectMatch[]> | null;
 }
 
 /**
@@ -23,7 +26,8 @@ export function getCardTableColumns({
   locale,
   showBugs,
   isMLB = true,
-}: ColumnOptions): ColumnDef<Card>[] {
+  effectMatches = null,
+}: ColumnOptions): ColumnDef<CardTableRow>[] {
   return [
     {
       id: 'image',
@@ -76,10 +80,6 @@ export function getCardTableColumns({
       cell: ({ row }) => (
         <AttributeIcon value={row.original.stats.attribute_name} size="md" />
       ),
-      filterFn: (row, _columnId, filterValue: string[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        return filterValue.includes(row.original.stats.attribute_name);
-      },
     },
     {
       id: 'type',
@@ -89,10 +89,6 @@ export function getCardTableColumns({
       cell: ({ row }) => (
         <TypeIcon value={row.original.stats.type_name} size="md" />
       ),
-      filterFn: (row, _columnId, filterValue: string[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        return filterValue.includes(row.original.stats.type_name);
-      },
     },
     {
       id: 'rarity',
@@ -102,10 +98,6 @@ export function getCardTableColumns({
       cell: ({ getValue }) => (
         <RarityStars value={getValue() as number} size="sm" />
       ),
-      filterFn: (row, _columnId, filterValue: number[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        return filterValue.includes(row.original.stats.rarity);
-      },
     },
     {
       id: 'sources',
@@ -148,13 +140,6 @@ export function getCardTableColumns({
           </div>
         );
       },
-      filterFn: (row, _columnId, filterValue: string[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        const cardSources = row.original.acquisition?.sources || [];
-        if (cardSources.length === 0) return false;
-        // Show card if it has ANY of the selected sources (OR logic)
-        return filterValue.some(f => cardSources.includes(f as AcquisitionSource));
-      },
     },
     {
       id: 'bonds',
@@ -192,84 +177,6 @@ export function getCardTableColumns({
           </div>
         );
       },
-      filterFn: (row, _columnId, filterValue: string[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        return filterValue.some(f => {
-          if (f === 'gives_special') return row.original.gives_special_bond === true;
-          if (f === 'receives_special') return row.original.receives_special_bond === true;
-          return (row.original.bonds || []).some(bond => bond.type === f);
-        });
-      },
-    },
-    {
-      id: 'skillTags',
-      accessorFn: (row) => row.skill?.tags || [],
-      header: 'Skill Tags',
-      size: 0,
-      enableSorting: false,
-      meta: { hidden: true },
-      filterFn: (row, _columnId, filterValue: string[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        const tags = row.original.skill?.tags || [];
-        if (tags.length === 0) return false;
-        // Check if ALL selected filter tags are present in the card's skill tags
-        return filterValue.every(f => tags.includes(f));
-      },
-    },
-    {
-      id: 'abilityTags',
-      accessorFn: (row) => {
-        const allTags: string[] = [];
-        row.abilities?.forEach(a => {
-          if (a.tags) allTags.push(...a.tags);
-        });
-        return allTags;
-      },
-      header: 'Ability Tags',
-      size: 0,
-      enableSorting: false,
-      meta: { hidden: true },
-      filterFn: (row, _columnId, filterValue: string[]) => {
-        if (!filterValue || filterValue.length === 0) return true;
-        const abilities = row.original.abilities || [];
-        if (abilities.length === 0) return false;
-        // Check if ANY single ability has ALL the selected filter tags
-        return abilities.some(ability => {
-          const tags = ability.tags || [];
-          return filterValue.every(f => tags.includes(f));
-        });
-      },
-    },
-    {
-      id: 'playable',
-      accessorFn: (row) => row.playable,
-      header: 'Playable',
-      size: 0,
-      enableSorting: false,
-      meta: { hidden: true },
-      filterFn: (row, _columnId, filterValue: boolean) => {
-        // When filter is true, only show playable cards
-        if (filterValue === true) {
-          return row.original.playable === true;
-        }
-        // When filter is false/undefined, show all cards
-        return true;
-      },
-    },
-    {
-      id: 'available',
-      accessorFn: (row) => row.acquisition?.currently_available || false,
-      header: 'Available',
-      size: 0,
-      enableSorting: false,
-      meta: { hidden: true },
-      filterFn: (row, _columnId, filterValue: boolean) => {
-        // When filter is true, only show currently available cards
-        if (filterValue === true) {
-          return row.original.acquisition?.currently_available === true;
-        }
-        return true;
-      },
     },
     {
       id: 'skill',
@@ -324,6 +231,27 @@ export function getCardTableColumns({
         );
       },
     },
+    {
+      id: 'effect',
+      // Best (largest) matching effect; cards without a match sort last
+      accessorFn: (row) => effectMatches?.get(row.id)?.[0]?.magnitude ?? -1,
+      header: 'Effect',
+      size: 120,
+      meta: { hidden: !effectMatches },
+      cell: ({ row }) => {
+        const matches = effectMatches?.get(row.original.id) || [];
+        if (matches.length === 0) return <span className="text-secondary text-sm">-</span>;
+        return (
+          <span
+            className="text-sm font-mono whitespace-nowrap"
+            title={matches.map(m => `${formatEffectMatch(m)} (${m.abilityName})`).join('\n')}
+          >
+            {formatEffectMatch(matches[0])}
+            {matches.length > 1 && <span className="text-secondary"> +{matches.length - 1}</span>}
+          </span>
+        );
+      },
+    },
     {
       id: 'max_atk',
       accessorFn: (row) => {
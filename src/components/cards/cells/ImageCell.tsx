@@ -1,12 +1,12 @@
 import { useState, useCallback } from 'react';
-import type { Card } from '../../../types/card';
+import type { CardTableRow } from '../../../types/card';
 import type { SkillData } from '../../../lib/formatters';
 import type { SupportedLocale } from '../../../lib/i18n';
 import { getThumbnailUrl, PLACEHOLDER_IMAGE } from '../../../lib/images';
 import { CardFloatingPopup } from '../CardHoverProvider';
 
 interface ImageCellProps {
-  card: Card;
+  card: CardTableRow;
   skills: Record<string, SkillData>;
   locale: SupportedLocale;
 }
@@ -0,0 +1,214 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  EFFECT_SCOPES,
+  EFFECT_TYPE_LABELS,
+  TRIGGER_LABELS,
+  EMPTY_EFFECT_FILTER,
+  isEffectFilterEmpty,
+  type AbilityEffectFilter,
+  type EffectScope,
+} from '../../../lib/abilityEffectFilter';
+
+interface AbilityEffectFilterPanelProps {
+  filter: AbilityEffectFilter;
+  onChange: (filter: AbilityEffectFilter) => void;
+  /** Effect types present in the loaded data; empty until parsed abilities arrive. */
+  effectTypes: string[];
+  /** Parsed ability data is still loading. */
+  loading: boolean;
+  /** Parsed ability data could not be loaded; the filter matches no cards until a retry succeeds. */
+  failed?: boolean;
+  /** Called the first time the panel opens, so the caller can start loading data. */
+  onOpen?: () => void;
+  onRetry?: () => void;
+  placeholder?: string;
+}
+
+const ATTRIBUTES = ['Divina', 'Phantasma', 'Anima'];
+
+/**
+ * Filter builder for parsed ability effects: effect type, target scope,
+ * target attribute, minimum value, trigger.
+ */
+export default function AbilityEffectFilterPanel({
+  filter,
+  onChange,
+  effectTypes,
+  loading,
+  failed = false,
+  onOpen,
+  onRetry,
+  placeholder = 'Effect',
+}: AbilityEffectFilterPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) onOpen?.();
+  }, [isOpen, onOpen]);
+
+  const active = !isEffectFilterEmpty(filter);
+  const update = (patch: Partial<AbilityEffectFilter>) => onChange({ ...filter, ...patch });
+
+  const toggleScope = (scope: EffectScope) => {
+    update({
+      scopes: filter.scopes.includes(scope)
+        ? filter.scopes.filter(s => s !== scope)
+        : [...filter.scopes, scope],
+    });
+  };
+
+  const selectClass = 'w-full px-2 py-1 text-xs rounded border bg-primary';
+  const borderStyle = { borderColor: 'var(--color-border)' };
+
+  return (
+    <div
+      className="relative"
+      ref={dropdownRef}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsOpen(false);
+      }}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1 text-xs rounded border bg-primary hover:bg-surface transition-colors"
+        style={{ borderColor: active ? 'var(--color-accent)' : 'var(--color-border)' }}
+        aria-expanded={isOpen}
+        suppressHydrationWarning
+      >
+        {active
+          ? `${filter.effectType ? (EFFECT_TYPE_LABELS[filter.effectType] ?? filter.effectType) : 'Any'} effect${filter.minValue !== null ? ` ≥ ${filter.minValue}` : ''}`
+          : placeholder}
+      </button>
+      {isOpen && (
+        <div
+          className="absolute left-0 z-50 mt-1 p-3 rounded-md shadow-lg border bg-primary w-[260px] space-y-2 text-xs"
+          style={{ ...borderStyle, maxWidth: 'calc(100vw - 2rem)' }}
+        >
+          {loading && <p className="text-secondary">Loading ability data...</p>}
+          {failed && !loading && (
+            <p className="text-red-400">
+              Effect data unavailable, so no cards match this filter.{' '}
+              {onRetry && (
+                <button onClick={onRetry} className="underline hover:text-red-300">Retry</button>
+              )}
+            </p>
+          )}
+
+          <label className="block">
+            <span className="text-secondary">Effect</span>
+            <select
+              value={filter.effectType ?? ''}
+              onChange={(e) => update({ effectType: e.target.value || null })}
+              className={selectClass}
+              style={borderStyle}
+              disabled={loading}
+            >
+              <option value="">Any effect</option>
+              {effectTypes.map(type => (
+                <option key={type} value={type}>{EFFECT_TYPE_LABELS[type] ?? type}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <span className="text-secondary">Lands on</span>
+            <div className="flex flex-wrap gap-1 mt-0.5">
+              {EFFECT_SCOPES.map(({ scope, label }) => (
+                <button
+                  key={scope}
+                  onClick={() => toggleScope(scope)}
+                  aria-pressed={filter.scopes.includes(scope)}
+                  className={`px-2 py-0.5 rounded border transition-colors ${
+                    filter.scopes.includes(scope) ? 'text-accent font-medium' : 'hover:bg-surface'
+                  }`}
+                  style={{ borderColor: filter.scopes.includes(scope) ? 'var(--color-accent)' : 'var(--color-border)' }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <label className="flex-1">
+              <span className="text-secondary">Target attribute</span>
+              <select
+                value={filter.attribute ?? ''}
+                onChange={(e) => update({ attribute: e.target.value || null })}
+                className={selectClass}
+                style={borderStyle}
+              >
+                <option value="">Any</option>
+                {ATTRIBUTES.map(attr => <option key={attr} value={attr}>{attr}</option>)}
+              </select>
+            </label>
+            <label className="w-20">
+              <span className="text-secondary">At least</span>
+              <input
+                type="number"
+                min={0}
+                value={filter.minValue ?? ''}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? null : Number(e.target.value);
+                  update({ minValue: value !== null && Number.isFinite(value) && value >= 0 ? value : null });
+                }}
+                placeholder="0"
+                className={selectClass}
+                style={borderStyle}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-secondary">Trigger</span>
+            <select
+              value={filter.trigger ?? ''}
+              onChange={(e) => update({ trigger: e.target.value || null })}
+              className={selectClass}
+              style={borderStyle}
+            >
+              <option value="">Any time</option>
+              {Object.entries(TRIGGER_LABELS).map(([trigger, label]) => (
+                <option key={trigger} value={trigger}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filter.unconditionalOnly}
+              onChange={(e) => update({ unconditionalOnly: e.target.checked })}
+              className="rounded"
+            />
+            <span>No synergy conditions</span>
+          </label>
+
+          <p className="text-[10px] text-tertiary">
+            Values are % except Defense (flat) and Level. Debuffs match by size, so Shield ≥ 20 finds -20% and beyond.
+          </p>
+
+          {active && (
+            <button
+              onClick={() => onChange({ ...EMPTY_EFFECT_FILTER, scopes: [] })}
+              className="text-xs text-secondary hover:text-primary w-full text-left"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef } from 'react';
+import { formatNumber } from '../../../lib/formatters';
+import {
+  RANGE_STATS,
+  isRangeActive,
+  type RangeStat,
+  type StatRange,
+  type StatRanges,
+} from '../../../lib/statRanges';
+
+interface StatRangeFilterProps {
+  ranges: StatRanges;
+  /** Slider extents per stat, from the loaded cards (already LB0/MLB adjusted). */
+  bounds: Record<RangeStat, { min: number; max: number }>;
+  onChange: (ranges: StatRanges) => void;
+  placeholder?: string;
+}
+
+/**
+ * Dropdown of min/max sliders for numeric stats.
+ * A slider pushed to its extent leaves that side open, so new cards with
+ * higher stats are not cut off by a bookmarked range.
+ */
+export default function StatRangeFilter({ ranges, bounds, onChange, placeholder = 'Stats' }: StatRangeFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const activeCount = RANGE_STATS.filter(({ stat }) => isRangeActive(ranges[stat])).length;
+
+  const updateRange = (stat: RangeStat, step: number, side: keyof StatRange, value: number) => {
+    const { min: lo, max: hi } = bounds[stat];
+    const current = ranges[stat] ?? { min: null, max: null };
+    const next: StatRange = { ...current };
+    if (side === 'min') {
+      const upper = current.max ?? hi;
+      next.min = value <= lo ? null : Math.min(value, upper);
+    } else {
+      const lower = current.min ?? lo;
+      // Sliders snap to lo + n*step, so the top notch may fall just short of hi
+      next.max = value > hi - step ? null : Math.max(value, lower);
+    }
+    const updated = { ...ranges };
+    if (isRangeActive(next)) updated[stat] = next;
+    else delete updated[stat];
+    onChange(updated);
+  };
+
+  const clearStat = (stat: RangeStat) => {
+    const updated = { ...ranges };
+    delete updated[stat];
+    onChange(updated);
+  };
+
+  return (
+    <div
+      className="relative"
+      ref={dropdownRef}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsOpen(false);
+      }}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1 text-xs rounded border bg-primary hover:bg-surface transition-colors"
+        style={{ borderColor: activeCount > 0 ? 'var(--color-accent)' : 'var(--color-border)' }}
+        aria-expanded={isOpen}
+        suppressHydrationWarning
+      >
+        {activeCount > 0 ? `${activeCount} range${activeCount === 1 ? '' : 's'}` : placeholder}
+      </button>
+      {isOpen && (
+        <div
+          className="absolute left-0 z-50 mt-1 p-3 rounded-md shadow-lg border bg-primary w-[260px] space-y-3"
+          style={{ borderColor: 'var(--color-border)', maxWidth: 'calc(100vw - 2rem)' }}
+        >
+          {RANGE_STATS.map(({ stat, label, step }) => {
+            const { min: lo, max: hi } = bounds[stat];
+            const range = ranges[stat];
+            const min = range?.min ?? lo;
+            const max = range?.max ?? hi;
+            return (
+              <div key={stat}>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="font-medium">{label}</span>
+                  <span className="font-mono text-secondary">
+                    {formatNumber(min)} – {formatNumber(max)}
+                    {isRangeActive(range) && (
+                      <button
+                        onClick={() => clearStat(stat)}
+                        className="ml-2 text-accent hover:underline"
+                        aria-label={`Clear ${label} range`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="range"
+                    min={lo}
+                    max={hi}
+                    step={step}
+                    value={min}
+                    onChange={(e) => updateRange(stat, step, 'min', Number(e.target.value))}
+                    aria-label={`Minimum ${label}`}
+                    className="flex-1 accent-[var(--color-accent)]"
+                    disabled={lo === hi}
+                  />
+                  <input
+                    type="range"
+                    min={lo}
+                    max={hi}
+                    step={step}
+                    value={max}
+                    onChange={(e) => updateRange(stat, step, 'max', Number(e.target.value))}
+                    aria-label={`Maximum ${label}`}
+                    className="flex-1 accent-[var(--color-accent)]"
+                    disabled={lo === hi}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          {activeCount > 0 && (
+            <button
+              onClick={() => onChange({})}
+              className="text-xs text-secondary hover:text-primary w-full text-left"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
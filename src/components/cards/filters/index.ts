@@ -1,3 +1,5 @@
 export { default as FilterInfoTooltip } from './FilterInfoTooltip';
 export { default as FilterDropdown } from './FilterDropdown';
 export { default as GroupedTagDropdown, type TagCategory } from './GroupedTagDropdown';
+export { default as StatRangeFilter } from './StatRangeFilter';
+export { default as AbilityEffectFilterPanel } from './AbilityEffectFilterPanel';
@@ -18,11 +18,16 @@ import {
   formatScore,
   buildTiers,
   buildChartData,
-  buildTrendData,
-  buildNextEventPredictions,
-  buildNextEventPredictionRanges,
+  buildModelTrendData,
+  buildModelPredictions,
+  backtestModels,
+  getCutoffModel,
+  CUTOFF_MODELS,
+  planScoreTarget,
+  compareWithPastEvents,
+  parseScoreInput,
 } from '../../lib/eventRankings';
-import type { EventCutoff, EventCutoffsData } from '../../lib/eventRankings';
+import type { EventCutoff, EventCutoffsData, Tier, PredictionRange, CutoffModelId } from '../../lib/eventRankings';
 
 // --- Constants ---
 
@@ -142,6 +147,159 @@ function CustomXTick({
   );
 }
 
+// --- Score target planner ---
+
+function ScoreTargetPlanner({
+  events,
+  period,
+  tiers,
+  ranges,
+  linear,
+}: {
+  events: EventCutoff[];
+  period: string;
+  tiers: Tier[];
+  ranges: Record<string, PredictionRange | null>;
+  linear: Record<string, number | null>;
+}) {
+  const [tierKey, setTierKey] = useState('');
+  const [scoreText, setScoreText] = useState('');
+  const [days, setDays] = useState(7);
+  const [dailyText, setDailyText] = useState('');
+
+  const tier = tiers.find(t => t.key === tierKey) ?? tiers.find(t => ranges[t.key] || linear[t.key]);
+  const currentScore = parseScoreInput(scoreText) ?? 0;
+  const dailyScore = dailyText.trim() ? parseScoreInput(dailyText) ?? undefined : undefined;
+
+  const plan = tier
+    ? planScoreTarget(ranges[tier.key], linear[tier.key], currentScore, days, dailyScore)
+    : null;
+  const past = tier && plan ? compareWithPastEvents(events, period, tier, plan.projected) : [];
+
+  if (!tier) return null;
+
+  const inputClass = 'px-2 py-1 rounded bg-surface border border-surface text-sm font-mono';
+
+  return (
+    <details className="card mt-4">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-medium hover:text-accent">
+        Score Target Planner
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-secondary text-xs">Target tier</span>
+            <select value={tier.key} onChange={e => setTierKey(e.target.value)} className={inputClass}>
+              {tiers.map(t => (
+                <option key={t.key} value={t.key}>{t.key} ({t.rangeLabel})</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-secondary text-xs">Current score</span>
+            <input
+              value={scoreText}
+              onChange={e => setScoreText(e.target.value)}
+              placeholder="e.g. 1.2B"
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-secondary text-xs">Days remaining</span>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={days}
+              onChange={e => setDays(Math.max(1, Math.min(60, parseInt(e.target.value) || 1)))}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-secondary text-xs">Your daily score (optional)</span>
+            <input
+              value={dailyText}
+              onChange={e => setDailyText(e.target.value)}
+              placeholder={plan ? formatScore(plan.requiredDaily) : ''}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+        </div>
+
+        {scoreText.trim() && parseScoreInput(scoreText) == null && (
+          <p className="text-xs text-red-400">Enter a score like 850000000, 850M or 0.85B.</p>
+        )}
+
+        {plan ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div>
+                <div className="text-xs text-secondary">Predicted {tier.key} cutoff</div>
+                <div className="font-mono font-medium">{formatScore(plan.predicted)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-secondary">Still needed</div>
+                <div className="font-mono font-medium">{formatScore(plan.remaining)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-secondary">Required per day</div>
+                <div className="font-mono font-medium text-accent">{formatScore(plan.requiredDaily)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-secondary">
+                  Chance at {dailyScore != null ? 'your pace' : 'that pace'}
+                </div>
+                <div className="font-mono font-medium">
+                  {plan.probability != null ? `${Math.round(plan.probability * 100)}%` : '—'}
+                </div>
+              </div>
+            </div>
+
+            {plan.levels.length > 0 && (
+              <div className="flex flex-wrap gap-4 text-xs text-secondary">
+                {plan.levels.map(level => (
+                  <span key={level.confidence}>
+                    {Math.round(level.confidence * 100)}% safe:{' '}
+                    <span className="font-mono text-primary">{formatScore(level.requiredDaily)}/day</span>
+                    {' '}(final {formatScore(level.target)})
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {past.length > 0 && (
+              <div>
+                <div className="text-xs text-secondary mb-1">
+                  Finishing at {formatScore(plan.projected)} in past events:
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {past.map(p => (
+                    <span
+                      key={p.event_id}
+                      className={`px-2 py-0.5 rounded text-xs ${p.reached ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}
+                      title={`${tier.key} cutoff: ${p.cutoff.toLocaleString()}`}
+                    >
+                      {p.reached ? '✓' : '✗'} {shortenName(p.event_name)} ({formatScore(p.cutoff)})
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-secondary">
+              {plan.stdDev != null
+                ? `The chance assumes the real cutoff lands around the prediction with the trend's historical spread (σ = ${formatScore(plan.stdDev)}).`
+                : 'Only two past events: the prediction is a straight-line projection, so no probability is shown.'}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-secondary">No prediction available for {tier.key} yet.</p>
+        )}
+      </div>
+    </details>
+  );
+}
+
 // --- Sub-chart (Conquest or Special Story) ---
 
 function RankingSubChart({
@@ -170,9 +328,21 @@ function RankingSubChart({
     [events, period, tiers],
   );
 
+  const [modelId, setModelId] = useState<CutoffModelId>('linear');
+  const model = getCutoffModel(modelId);
+  const participation = useMemo(() => events.map(e => e.participation), [events]);
+
+  const backtests = useMemo(
+    () => backtestModels(chartData, tiers, participation),
+    [chartData, tiers, participation],
+  );
+  const bestModelId = CUTOFF_MODELS
+    .filter(m => backtests[m.id] != null)
+    .sort((a, b) => backtests[a.id]!.mape - backtests[b.id]!.mape)[0]?.id;
+
   const trendData = useMemo(
-    () => buildTrendData(chartData, tiers, activeTiers),
-    [chartData, tiers, activeTiers],
+    () => buildModelTrendData(chartData, tiers, activeTiers, model, participation),
+    [chartData, tiers, activeTiers, model, participation],
   );
 
   const mergedData = useMemo(
@@ -180,14 +350,9 @@ function RankingSubChart({
     [chartData, trendData],
   );
 
-  const nextEventPredictions = useMemo(
-    () => buildNextEventPredictionRanges(chartData, tiers),
-    [chartData, tiers],
-  );
-
-  const nextEventLinear = useMemo(
-    () => buildNextEventPredictions(chartData, tiers),
-    [chartData, tiers],
+  const { ranges: nextEventPredictions, points: nextEventLinear } = useMemo(
+    () => buildModelPredictions(chartData, tiers, model, participation),
+    [chartData, tiers, model, participation],
   );
 
   // Footnote mode: does any tier use range (≥3 pts) or linear fallback (2 pts)?
@@ -236,6 +401,30 @@ function RankingSubChart({
         })}
       </div>
 
+      {/* Prediction model — trend lines, next-event row and planner all follow it */}
+      <div className="flex gap-2 mb-3 flex-wrap items-center text-xs">
+        <span className="text-secondary">Prediction model:</span>
+        {CUTOFF_MODELS.map(m => {
+          const backtest = backtests[m.id];
+          return (
+            <button
+              key={m.id}
+              onClick={() => setModelId(m.id)}
+              title={`${m.description}${backtest ? ` · backtest error ${(backtest.mape * 100).toFixed(1)}% over ${backtest.count} predictions` : ' · not enough events to backtest'}`}
+              className={`px-2 py-1 rounded border transition-colors ${
+                m.id === modelId ? 'border-accent text-accent' : 'border-surface text-secondary hover:text-primary'
+              }`}
+            >
+              {m.label}
+              <span className="ml-1 font-mono opacity-75">
+                {backtest ? `±${(backtest.mape * 100).toFixed(0)}%` : '—'}
+              </span>
+              {m.id === bestModelId && <span className="ml-1" aria-label="Lowest backtest error">★</span>}
+            </button>
+          );
+        })}
+      </div>
+
       <div className="card p-4">
         <ResponsiveContainer width="100%" height={400}>
           <LineChart data={mergedData} margin={{ top: 10, right: 20, left: 10, bottom: 80 }}>
@@ -342,11 +531,11 @@ function RankingSubChart({
                 return (
                   <td key={tier.key} className="text-right py-2 px-3 font-mono tabular-nums text-secondary italic">
                     {range != null ? (
-                      <span title={`±1 std dev over ${range.n} events (σ = ${formatScore(range.stdDev)})`}>
+                      <span title={`${model.label}: ±1 std dev over ${range.n} events (σ = ${formatScore(range.stdDev)})`}>
                         {formatScore(range.low)}–{formatScore(range.high)}
                       </span>
                     ) : linear != null ? (
-                      <span title="Linear trend projection from 2 data points">
+                      <span title={`${model.label} projection without enough events for a range`}>
                         ~{formatScore(linear)}
                       </span>
                     ) : (
@@ -363,12 +552,21 @@ function RankingSubChart({
       {(hasLinearPrediction || hasRangePrediction) && (
         <p className="text-xs text-secondary mt-2 leading-relaxed">
           {hasLinearPrediction && !hasRangePrediction
-            ? '* Linear trend projection from 2 data points — treat as a rough extrapolation only. Range estimate will appear once a 3rd event is recorded.'
+            ? `* ${model.label} projection from too few events for a range — treat as a rough extrapolation only. Range estimate will appear once another event is recorded.`
             : hasRangePrediction && !hasLinearPrediction
-              ? '* Predicted range is trend-line ± one standard deviation of historical residuals — for rough planning reference. With a small pool of events, the range may not capture outliers: exceptionally strong or weak reward cards can push actual cutoffs well outside these bounds.'
-              : '* Values prefixed ~ are linear trend projections (2 data points). Range estimates (low–high) use trend-line ± one standard deviation of historical residuals. Both are for rough planning reference only.'}
+              ? `* Predicted range is the ${model.label.toLowerCase()} model ± one standard deviation of historical residuals — for rough planning reference. With a small pool of events, the range may not capture outliers: exceptionally strong or weak reward cards can push actual cutoffs well outside these bounds.`
+              : `* Values prefixed ~ are ${model.label.toLowerCase()} projections from too few events for a range. Range estimates (low–high) use the model ± one standard deviation of historical residuals. Both are for rough planning reference only.`}
+          {' '}Backtest error (±%) is the average miss when each past event was predicted from the events before it.
         </p>
       )}
+
+      <ScoreTargetPlanner
+        events={events}
+        period={period}
+        tiers={tiers}
+        ranges={nextEventPredictions}
+        linear={nextEventLinear}
+      />
     </div>
   );
 }
@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import FilterDropdown from '../cards/filters/FilterDropdown';
+import { AttributeIcon, RarityStars } from '../cards/GameIcon';
+import { formatChangeDisplay } from '../../lib/changeFormatters';
+import { formatDate } from '../../lib/formatters';
+import { sanitizeSearchQuery } from '../../lib/security';
+import {
+  EMPTY_UPDATES_FILTER,
+  getCategoryColors,
+  getNewCardText,
+  getVersionsSince,
+  isUpdatesFilterEmpty,
+  matchesUpdateCard,
+  matchesUpdateChange,
+  mergePatchNotes,
+  NEW_CARD_CATEGORY,
+  UPDATE_CATEGORIES,
+  type MergedPatchNotes,
+  type PatchNotes,
+  type PatchVersion,
+  type UpdatesFilter,
+} from '../../lib/patchNotes';
+
+interface UpdatesBrowserProps {
+  /** Versions rendered on the page, newest first. */
+  versions: PatchVersion[];
+  /** Attribute per modified card id; patch notes only carry it for new cards. */
+  cardAttributes: Record<string, string>;
+}
+
+const ATTRIBUTES = ['Divina', 'Phantasma', 'Anima'];
+const RARITIES = [5, 4, 3, 2, 1];
+const CATEGORY_LABELS = Object.fromEntries(UPDATE_CATEGORIES.map(c => [c.id, c.label]));
+
+type SinceState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; merged: MergedPatchNotes };
+
+/**
+ * Show or hide the server-rendered patch notes to match the filter. Rows carry
+ * their category and display text in data attributes; cards, sections, versions
+ * and month groups hide once nothing inside them is left.
+ */
+function applyToStaticList(list: HTMLElement, filter: UpdatesFilter, defaultOpen: Map<HTMLDetailsElement, boolean>) {
+  const show = (el: HTMLElement, visible: boolean) => { el.style.display = visible ? '' : 'none'; };
+  const isShown = (el: HTMLElement) => el.style.display !== 'none';
+
+  list.querySelectorAll<HTMLElement>('[data-update-card]').forEach(card => {
+    const name = card.dataset.name ?? '';
+    const cardMatches = matchesUpdateCard({
+      name,
+      attribute: card.dataset.attribute || null,
+      rarity: Number(card.dataset.rarity),
+    }, filter);
+    // New-card rows are their own single change
+    const rows = card.hasAttribute('data-update-change')
+      ? [card]
+      : Array.from(card.querySelectorAll<HTMLElement>('[data-update-change]'));
+    let anyVisible = false;
+    for (const row of rows) {
+      const visible = cardMatches && matchesUpdateChange({
+        category: row.dataset.category ?? '',
+        text: row.dataset.text ?? '',
+      }, name, filter);
+      if (row !== card) show(row, visible);
+      anyVisible ||= visible;
+    }
+    show(card, anyVisible);
+  });
+
+  const hideWhenEmpty = (selector: string, childSelector: string) => {
+    list.querySelectorAll<HTMLElement>(selector).forEach(el => {
+      show(el, Array.from(el.querySelectorAll<HTMLElement>(childSelector)).some(isShown));
+    });
+  };
+  hideWhenEmpty('[data-update-section]', '[data-update-card]');
+  hideWhenEmpty('[data-update-version]', '[data-update-section]');
+  hideWhenEmpty('[data-update-month]', '[data-update-version]');
+
+  const filtering = !isUpdatesFilterEmpty(filter);
+  defaultOpen.forEach((open, details) => { details.open = filtering || open; });
+}
+
+async function fetchPatchNotes(version: string): Promise<PatchNotes> {
+  const response = await fetch(`/data/changes/patch_notes_${version}.json`, {
+    cache: 'force-cache' // Patch notes are immutable per version
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${version}`);
+  return response.json();
+}
+
+/**
+ * Filter bar for /updates: category, attribute, rarity and text filters over the
+ * rendered patch notes, plus a "since version" view that merges every newer
+ * patch into one change set.
+ */
+export default function UpdatesBrowser({ versions, cardAttributes }: UpdatesBrowserProps) {
+  const [filter, setFilter] = useState<UpdatesFilter>(EMPTY_UPDATES_FILTER);
+  const [sinceVersion, setSinceVersion] = useState('');
+  const [since, setSince] = useState<SinceState>({ status: 'idle' });
+  const defaultOpen = useRef(new Map<HTMLDetailsElement, boolean>());
+
+  const update = (patch: Partial<UpdatesFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+  // The input keeps the raw text so spaces between words survive typing
+  const appliedFilter = useMemo(
+    () => ({ ...filter, search: sanitizeSearchQuery(filter.search) }),
+    [filter]
+  );
+
+  // Remember which months started open so clearing the filter restores them
+  useEffect(() => {
+    document.querySelectorAll<HTMLDetailsElement>('[data-update-month]').forEach(details => {
+      defaultOpen.current.set(details, details.open);
+    });
+  }, []);
+
+  useEffect(() => {
+    const list = document.querySelector<HTMLElement>('[data-updates-list]');
+    if (!list) return;
+    list.style.display = sinceVersion ? 'none' : '';
+    if (!sinceVersion) applyToStaticList(list, appliedFilter, defaultOpen.current);
+  }, [appliedFilter, sinceVersion]);
+
+  useEffect(() => {
+    if (!sinceVersion) {
+      setSince({ status: 'idle' });
+      return;
+    }
+    let cancelled = false;
+    setSince({ status: 'loading' });
+    const newer = getVersionsSince(versions, sinceVersion);
+    Promise.all(newer.map(v => fetchPatchNotes(v.version)))
+      .then(notes => {
+        if (!cancelled) setSince({ status: 'ready', merged: mergePatchNotes(notes) });
+      })
+      .catch(error => {
+        console.warn('Failed to load patch notes for since view', error);
+        if (!cancelled) setSince({ status: 'error' });
+      });
+    return () => { cancelled = true; };
+  }, [sinceVersion, versions]);
+
+  const active = !isUpdatesFilterEmpty(appliedFilter) || sinceVersion !== '';
+  const borderStyle = { borderColor: 'var(--color-border)' };
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="card p-3 flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={filter.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Search cards or changes..."
+          className="flex-1 min-w-[180px] px-3 py-1.5 text-sm rounded-md border bg-primary"
+          style={borderStyle}
+          aria-label="Search updates"
+        />
+        <FilterDropdown
+          options={UPDATE_CATEGORIES.map(c => c.id)}
+          value={filter.categories}
+          onChange={(v) => update({ categories: v as string[] })}
+          placeholder="Category"
+          dropdownClassName="min-w-[150px]"
+          renderOption={(opt) => <span className="text-sm">{CATEGORY_LABELS[opt as string]}</span>}
+        />
+        <FilterDropdown
+          options={ATTRIBUTES}
+          value={filter.attributes}
+          onChange={(v) => update({ attributes: v as string[] })}
+          placeholder="Attribute"
+          dropdownClassName="min-w-[160px]"
+          renderOption={(opt) => (
+            <span className="flex items-center gap-2">
+              <span className="w-6 h-6 flex items-center justify-center flex-shrink-0">
+                <AttributeIcon value={opt as string} size="lg" />
+              </span>
+              <span className="text-sm">{opt}</span>
+            </span>
+          )}
+        />
+        <FilterDropdown
+          options={RARITIES}
+          value={filter.rarities}
+          onChange={(v) => update({ rarities: v as number[] })}
+          placeholder="Rarity"
+          renderOption={(opt) => <RarityStars value={opt as number} size="sm" />}
+        />
+        <label className="flex items-center gap-1.5 text-xs text-secondary">
+          Since
+          <select
+            value={sinceVersion}
+            onChange={(e) => setSinceVersion(e.target.value)}
+            className="px-2 py-1 text-xs rounded border bg-primary"
+            style={borderStyle}
+          >
+            <option value="">All versions</option>
+            {versions.slice(1).filter(v => v.date).map(v => (
+              <option key={v.version} value={v.version}>
+                {formatDate(v.date!)} ({v.version})
+              </option>
+            ))}
+          </select>
+        </label>
+        {active && (
+          <button
+            onClick={() => { setFilter(EMPTY_UPDATES_FILTER); setSinceVersion(''); }}
+            className="text-xs text-secondary hover:text-primary"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {since.status === 'loading' && (
+        <p className="text-sm text-secondary">Loading patch notes...</p>
+      )}
+      {since.status === 'error' && (
+        <p className="text-sm text-secondary">Could not load patch notes. Try again later.</p>
+      )}
+      {since.status === 'ready' && (
+        <MergedView merged={since.merged} filter={appliedFilter} cardAttributes={cardAttributes} />
+      )}
+    </div>
+  );
+}
+
+interface MergedViewProps {
+  merged: MergedPatchNotes;
+  filter: UpdatesFilter;
+  cardAttributes: Record<string, string>;
+}
+
+/** Consolidated change set for the "since version" view, with the same filters applied. */
+function MergedView({ merged, filter, cardAttributes }: MergedViewProps) {
+  const newCards = useMemo(
+    () => merged.new_cards.filter(card =>
+      matchesUpdateCard(card, filter) &&
+      matchesUpdateChange({ category: NEW_CARD_CATEGORY, text: getNewCardText(card) }, card.name, filter)
+    ),
+    [merged, filter]
+  );
+  const modifiedCards = useMemo(
+    () => merged.modified_cards
+      .filter(card => matchesUpdateCard({ ...card, attribute: cardAttributes[card.id] ?? null }, filter))
+      .map(card => ({
+        ...card,
+        changes: card.changes
+          .map(change => ({ change, text: formatChangeDisplay(change) }))
+          .filter(({ change, text }) => matchesUpdateChange({ category: change.category, text }, card.name, filter)),
+      }))
+      .filter(card => card.changes.length > 0),
+    [merged, filter, cardAttributes]
+  );
+
+  return (
+    <article className="card overflow-hidden">
+      <div className="p-4 md:p-6 border-b" style={{ borderColor: 'var(--color-border)' }}>
+        <h2 className="text-xl font-bold">
+          {merged.versions.length} {merged.versions.length === 1 ? 'update' : 'updates'} combined
+        </h2>
+        <p className="text-sm text-secondary mt-1">
+          {newCards.length} new {newCards.length === 1 ? 'card' : 'cards'}, {modifiedCards.length} changed.
+          Repeated changes show the starting and final values.
+        </p>
+      </div>
+
+      <div className="p-4 md:p-6 space-y-6">
+        {newCards.length === 0 && modifiedCards.length === 0 && (
+          <p className="text-sm text-secondary">No changes match these filters.</p>
+        )}
+
+        {newCards.length > 0 && (
+          <section>
+            <h3 className="text-lg font-semibold mb-3">New Cards</h3>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {newCards.map(card => (
+                <li key={card.id}>
+                  <a
+                    href={`/en/cards/${card.id}`}
+                    className="flex items-center gap-2 p-2 rounded-lg text-sm hover:underline"
+                    style={{ backgroundColor: 'var(--color-surface)' }}
+                  >
+                    <span className="font-medium truncate">{card.name}</span>
+                    <span className="text-xs text-secondary flex-shrink-0">{card.rarity}★ {card.attribute}</span>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {modifiedCards.length > 0 && (
+          <section>
+            <h3 className="text-lg font-semibold mb-3">Card Changes</h3>
+            <div className="space-y-3">
+              {modifiedCards.map(card => (
+                <div key={card.id} className="p-4 rounded-lg" style={{ backgroundColor: 'var(--color-surface)' }}>
+                  <a href={`/en/cards/${card.id}`} className="font-medium hover:underline">{card.name}</a>
+                  <ul className="mt-2 space-y-1">
+                    {card.changes.map(({ change, text }) => {
+                      const colors = getCategoryColors(change.category);
+                      return (
+                        <li key={change.field} className="text-sm flex items-start gap-2">
+                          <span
+                            className="inline-block px-1.5 py-0.5 rounded text-xs font-medium flex-shrink-0"
+                            style={{ backgroundColor: colors.background, color: colors.color }}
+                          >
+                            {change.category_label}
+                          </span>
+                          <span className="text-secondary">{text}</span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </article>
+  );
+}
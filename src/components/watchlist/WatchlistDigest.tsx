@@ -0,0 +1,64 @@
+import { useEffect, useMemo } from 'react';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { checkWatchlist, groupWatchEvents } from '../../lib/watchlist';
+
+interface WatchlistDigestProps {
+  watchlistHref: string;
+}
+
+/** Cards listed in the banner before "and N more" */
+const MAX_DIGEST_CARDS = 4;
+
+/**
+ * Site-wide banner listing what changed on watched cards since they were last
+ * checked. Runs the check on page load (throttled inside checkWatchlist) and
+ * renders nothing for readers without a watchlist.
+ */
+export default function WatchlistDigest({ watchlistHref }: WatchlistDigestProps) {
+  const { watchlist, dismissEvents } = useWatchlist();
+  const groups = useMemo(() => groupWatchEvents(watchlist.events), [watchlist.events]);
+
+  useEffect(() => {
+    checkWatchlist().catch(error => {
+      console.warn('[Watchlist] Check failed', error);
+    });
+  }, []);
+
+  // The watchlist page lists the same events in full
+  if (groups.length === 0 || window.location.pathname.startsWith(watchlistHref)) return null;
+
+  const shown = groups.slice(0, MAX_DIGEST_CARDS);
+
+  return (
+    <div className="container mx-auto px-4 pt-4">
+      <div
+        className="card p-3 text-sm border"
+        style={{ borderColor: 'var(--color-accent)' }}
+        role="status"
+      >
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="font-semibold">
+            Watchlist: {groups.length} {groups.length === 1 ? 'card has' : 'cards have'} updates
+          </span>
+          <div className="flex items-center gap-3 text-xs">
+            <a href={watchlistHref} className="link">View watchlist</a>
+            <button onClick={dismissEvents} className="text-secondary hover:text-primary">
+              Mark as seen
+            </button>
+          </div>
+        </div>
+        <ul className="mt-2 space-y-1 text-xs sm:text-sm">
+          {shown.map(group => (
+            <li key={group.cardId}>
+              <a href={`/en/cards/${group.cardId}`} className="font-medium hover:underline">{group.cardName}</a>
+              <span className="text-secondary">: {group.events.map(event => event.text).join('; ')}</span>
+            </li>
+          ))}
+        </ul>
+        {groups.length > shown.length && (
+          <p className="mt-1 text-xs text-secondary">and {groups.length - shown.length} more</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { useCardsData } from '../cards/useCardsData';
+import { CardSelector } from '../calculator/CardSelector';
+import { formatDate, formatDateTime } from '../../lib/formatters';
+import {
+  AUCTION_STOCK_LABELS,
+  groupWatchEvents,
+  MAX_WATCHED_CARDS,
+  WATCH_CHECK_INTERVAL,
+} from '../../lib/watchlist';
+
+/**
+ * Watchlist management: queued change digest, watched cards with their last
+ * known availability, and a picker to add more.
+ */
+export default function WatchlistPage() {
+  const { watchlist, watched, loaded, watch, unwatch, dismissEvents, checkNow } = useWatchlist();
+  const { cards } = useCardsData();
+  const [checking, setChecking] = useState(false);
+  const [checkFailed, setCheckFailed] = useState(false);
+
+  const groups = useMemo(() => groupWatchEvents(watchlist.events), [watchlist.events]);
+  const pickableCards = useMemo(
+    () => Object.values(cards).filter(card => card.playable && !watched.has(card.id)),
+    [cards, watched]
+  );
+
+  const runCheck = async () => {
+    setChecking(true);
+    setCheckFailed(false);
+    try {
+      await checkNow();
+    } catch (error) {
+      console.warn('[Watchlist] Check failed', error);
+      setCheckFailed(true);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  const borderStyle = { borderColor: 'var(--color-border)' };
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-4 space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[220px]">
+            {watchlist.cards.length < MAX_WATCHED_CARDS ? (
+              <CardSelector
+                cards={pickableCards}
+                selectedId={null}
+                onSelect={(id) => {
+                  if (!id) return;
+                  watch(id);
+                  // Take the new card's baseline right away so its status shows
+                  runCheck();
+                }}
+                label="Watch a card"
+                showClear={false}
+              />
+            ) : (
+              <p className="text-sm text-secondary">Watchlist is full ({MAX_WATCHED_CARDS} cards).</p>
+            )}
+          </div>
+          {watchlist.cards.length > 0 && (
+            <button
+              onClick={runCheck}
+              disabled={checking}
+              className="btn-secondary px-3 py-1.5 rounded-md text-sm disabled:opacity-50"
+            >
+              {checking ? 'Checking...' : 'Check now'}
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-secondary">
+          {watchlist.lastCheckedAt
+            ? `Last checked ${formatDateTime(new Date(watchlist.lastCheckedAt).toISOString())}. `
+            : ''}
+          Watched cards are checked when you open any page, at most every {WATCH_CHECK_INTERVAL / 60000} minutes.
+        </p>
+        {checkFailed && <p className="text-xs text-secondary">Could not load card data. Try again later.</p>}
+      </div>
+
+      <section className="card p-4">
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <h2 className="text-lg font-semibold">Updates</h2>
+          {groups.length > 0 && (
+            <button onClick={dismissEvents} className="text-xs text-secondary hover:text-primary">
+              Mark as seen
+            </button>
+          )}
+        </div>
+        {groups.length === 0 ? (
+          <p className="text-sm text-secondary">Nothing new on your watched cards.</p>
+        ) : (
+          <ul className="space-y-3">
+            {groups.map(group => (
+              <li key={group.cardId}>
+                <a href={`/en/cards/${group.cardId}`} className="font-medium hover:underline">{group.cardName}</a>
+                <ul className="mt-1 space-y-0.5 text-sm">
+                  {group.events.map((event, i) => (
+                    <li key={i} className="flex items-baseline gap-2">
+                      <span className="text-[10px] text-tertiary flex-shrink-0">
+                        {formatDate(new Date(event.detectedAt).toISOString())}
+                      </span>
+                      <span className="text-secondary">{event.text}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="card p-4">
+        <h2 className="text-lg font-semibold mb-3">Watched cards ({watchlist.cards.length})</h2>
+        {watchlist.cards.length === 0 ? (
+          <p className="text-sm text-secondary">
+            Nothing watched yet. Pick a card above or use Watch on any card page.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-secondary text-xs">
+                  <th className="text-left font-normal py-1 pr-2">Card</th>
+                  <th className="text-left font-normal py-1 px-2">Auction</th>
+                  <th className="text-left font-normal py-1 px-2">Banner</th>
+                  <th className="text-left font-normal py-1 px-2">Exchange</th>
+                  <th className="text-left font-normal py-1 px-2">Watching since</th>
+                  <th className="py-1 pl-2"><span className="sr-only">Remove</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {watchlist.cards.map(entry => {
+                  const snapshot = entry.snapshot;
+                  return (
+                    <tr key={entry.cardId} className="border-t" style={borderStyle}>
+                      <td className="py-1.5 pr-2">
+                        <a href={`/en/cards/${entry.cardId}`} className="hover:underline">
+                          {cards[entry.cardId]?.name ?? `#${entry.cardId}`}
+                        </a>
+                      </td>
+                      <td className="py-1.5 px-2 text-secondary">
+                        {snapshot?.auctionStock ? AUCTION_STOCK_LABELS[snapshot.auctionStock] : '—'}
+                      </td>
+                      <td className="py-1.5 px-2 text-secondary">
+                        {snapshot?.featuredBanners ? (snapshot.featuredBanners.length > 0 ? 'Featured' : 'No') : '—'}
+                      </td>
+                      <td className="py-1.5 px-2 text-secondary">
+                        {snapshot ? (snapshot.inExchange ? 'Yes' : 'No') : '—'}
+                      </td>
+                      <td className="py-1.5 px-2 text-secondary">
+                        {formatDate(new Date(entry.addedAt).toISOString())}
+                      </td>
+                      <td className="py-1.5 pl-2 text-right">
+                        <button
+                          onClick={() => unwatch(entry.cardId)}
+                          className="text-xs text-secondary hover:text-primary"
+                          aria-label={`Stop watching ${cards[entry.cardId]?.name ?? entry.cardId}`}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Card, CardTableRow } from '../types/card';
+import type { CardLocale } from '../lib/cards';
+import type { EventEntry } from '../lib/eventFilter';
+import {
+  createCardTableIndex,
+  loadCardTableCards,
+  runCardTableQuery,
+  summarizeCardTable,
+  type CardTableQuery,
+  type CardTableStage,
+  type CardTableSummary,
+  type CardTableWorkerRequest,
+  type CardTableWorkerResponse,
+} from '../lib/cardTableQuery';
+
+function postToWorker(worker: Worker | null, message: CardTableWorkerRequest): void {
+  worker?.postMessage(message);
+}
+
+const EMPTY_SUMMARY = summarizeCardTable([]);
+
+interface LoadedCards {
+  generation: number;
+  stage: CardTableStage;
+  summary: CardTableSummary;
+}
+
+export interface UseCardTableQueryResult {
+  /** Cards to show, in display order */
+  rows: CardTableRow[];
+  /** A newer query is still running in the worker; `rows` are from the previous one */
+  pending: boolean;
+  /** Which card list is loaded, null until the first one is in */
+  stage: CardTableStage | null;
+  /** Card count, filter options and slider bounds of the loaded list */
+  summary: CardTableSummary;
+  /** Why the cards could not be loaded, null otherwise */
+  error: string | null;
+}
+
+/**
+ * Hook to load the card table's cards and run its query in a Web Worker.
+ *
+ * The worker fetches and parses the locale's card index itself (or takes
+ * `initialCards`), so the full list never crosses to this thread: each list comes
+ * back as a summary, each query as ordered IDs plus the rows not sent before, which
+ * are kept here per list. Events are posted once per change, queries as they
+ * change; answers to superseded queries are dropped. Without workers, or once the
+ * worker fails, the worker is shut down and loading and querying run on the main
+ * thread instead.
+ */
+export function useCardTableQuery(
+  locale: CardLocale,
+  initialCards: Card[] | undefined,
+  events: EventEntry[],
+  query: CardTableQuery
+): UseCardTableQueryResult {
+  const workerRef = useRef<Worker | null>(null);
+  const latestIdRef = useRef(0);
+  const latestLoadRef = useRef(0);
+  const rowCacheRef = useRef<{ generation: number; rows: Map<string, CardTableRow> }>({ generation: 0, rows: new Map() });
+  // A new list is shown with its first result, so `stage` never runs ahead of `rows`
+  const incomingRef = useRef<LoadedCards | null>(null);
+  const [workerReady, setWorkerReady] = useState(false);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const [postedId, setPostedId] = useState(0);
+  const [loaded, setLoaded] = useState<LoadedCards | null>(null);
+  const [result, setResult] = useState<{ id: number; rows: CardTableRow[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setWorkerFailed(true);
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../lib/cardTableQuery.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('Card search worker unavailable, searching on the main thread:', error);
+      setWorkerFailed(true);
+      return;
+    }
+
+    const failWorker = (reason: unknown) => {
+      console.warn('Card search worker failed, searching on the main thread:', reason);
+      worker.terminate();
+      workerRef.current = null;
+      setWorkerFailed(true);
+    };
+
+    worker.onmessage = (event: MessageEvent<CardTableWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'cards':
+          if (message.loadId !== latestLoadRef.current) return;
+          incomingRef.current = { generation: message.generation, stage: message.stage, summary: message.summary };
+          break;
+        case 'loadError':
+          if (message.loadId !== latestLoadRef.current) return;
+          setError(message.message);
+          break;
+        case 'result': {
+          // Keep the rows of superseded answers too: the worker won't send them again
+          let cache = rowCacheRef.current;
+          if (cache.generation !== message.generation) {
+            cache = rowCacheRef.current = { generation: message.generation, rows: new Map() };
+          }
+          for (const row of message.rows) cache.rows.set(row.id, row);
+          if (message.id !== latestIdRef.current) return;
+          const rows = message.cardIds.flatMap(id => {
+            const row = cache.rows.get(id);
+            return row ? [row] : [];
+          });
+          setResult({ id: message.id, rows });
+          if (incomingRef.current?.generation === message.generation) {
+            setLoaded(incomingRef.current);
+            incomingRef.current = null;
+          }
+          break;
+        }
+        case 'error':
+          if (message.id === latestIdRef.current) failWorker(message.message);
+          break;
+      }
+    };
+    worker.onerror = (event) => failWorker(event.message);
+
+    workerRef.current = worker;
+    setWorkerReady(true);
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const workerActive = workerReady && !workerFailed;
+
+  // Effects run in order, so a new card list/events always reach the worker before the query that needs them
+  useEffect(() => {
+    if (!workerActive) return;
+    const loadId = ++latestLoadRef.current;
+    incomingRef.current = null;
+    setLoaded(null);
+    setError(null);
+    postToWorker(
+      workerRef.current,
+      initialCards
+        ? { type: 'cards', loadId, cards: initialCards }
+        : { type: 'load', loadId, locale, dataVersion: window.OTOGIDB_DATA_VERSION, dataPaths: window.OTOGIDB_DATA_PATHS }
+    );
+  }, [workerActive, locale, initialCards]);
+
+  useEffect(() => {
+    if (workerActive) postToWorker(workerRef.current, { type: 'events', events });
+  }, [workerActive, events]);
+
+  useEffect(() => {
+    if (!workerActive) return;
+    const id = ++latestIdRef.current;
+    postToWorker(workerRef.current, { type: 'query', id, query });
+    setPostedId(id);
+  }, [workerActive, events, query]);
+
+  // Main-thread path, only once the worker is out: load here, Fuse built lazily per card list
+  const [localCards, setLocalCards] = useState<{ cards: Card[]; stage: CardTableStage } | null>(null);
+
+  useEffect(() => {
+    if (!workerFailed) return;
+    if (initialCards) {
+      setLocalCards({ cards: initialCards, stage: 'full' });
+      return;
+    }
+
+    let cancelled = false;
+    setLocalCards(null);
+    setError(null);
+    loadCardTableCards(locale, (cards, stage) => {
+      if (!cancelled) setLocalCards({ cards, stage });
+    }).catch((err: unknown) => {
+      if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load cards');
+    });
+    return () => { cancelled = true; };
+  }, [workerFailed, locale, initialCards]);
+
+  const localIndex = useMemo(
+    () => (localCards ? createCardTableIndex(localCards.cards, events) : null),
+    [localCards, events]
+  );
+  const localSummary = useMemo(() => (localCards ? summarizeCardTable(localCards.cards) : null), [localCards]);
+  const localRows = useMemo(() => {
+    if (!localIndex) return [];
+    const byId = new Map(localIndex.cards.map(card => [card.id, card]));
+    return runCardTableQuery(localIndex, query).flatMap(id => {
+      const card = byId.get(id);
+      return card ? [card] : [];
+    });
+  }, [localIndex, query]);
+
+  if (workerFailed) {
+    return { rows: localRows, pending: false, stage: localCards?.stage ?? null, summary: localSummary ?? EMPTY_SUMMARY, error };
+  }
+  return {
+    rows: result?.rows ?? [],
+    pending: workerActive && result?.id !== postedId,
+    stage: loaded?.stage ?? null,
+    summary: loaded?.summary ?? EMPTY_SUMMARY,
+    error,
+  };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getOwnedCards,
+  setOwnedCard,
+  removeOwnedCard,
+  toOwnedMap,
+  COLLECTION_CHANGE_EVENT,
+  type OwnedCard,
+} from '../lib/collection';
+
+export interface UseCollectionResult {
+  owned: Map<string, OwnedCard>;
+  loaded: boolean;
+  setOwned: (entry: Partial<OwnedCard> & { cardId: string }) => Promise<void>;
+  removeOwned: (cardId: string) => Promise<void>;
+}
+
+const EMPTY_COLLECTION = new Map<string, OwnedCard>();
+
+/**
+ * Hook to read the personal card collection from IndexedDB.
+ * Reloads whenever any island on the page writes to the collection.
+ */
+export function useCollection(): UseCollectionResult {
+  const [owned, setOwnedMap] = useState<Map<string, OwnedCard>>(EMPTY_COLLECTION);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const reload = () => {
+      getOwnedCards().then(entries => {
+        if (cancelled) return;
+        setOwnedMap(toOwnedMap(entries));
+        setLoaded(true);
+      });
+    };
+
+    reload();
+    window.addEventListener(COLLECTION_CHANGE_EVENT, reload);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(COLLECTION_CHANGE_EVENT, reload);
+    };
+  }, []);
+
+  const setOwned = useCallback((entry: Partial<OwnedCard> & { cardId: string }) => setOwnedCard(entry), []);
+  const removeOwned = useCallback((cardId: string) => removeOwnedCard(cardId), []);
+
+  return { owned, loaded, setOwned, removeOwned };
+}
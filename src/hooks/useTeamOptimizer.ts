@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { OptimizedTeam, TeamOptimizerConfig } from '../lib/team-calc-types';
+import {
+  optimizeTeam,
+  type TeamOptimizerWorkerRequest,
+  type TeamOptimizerWorkerResponse,
+} from '../lib/team-optimizer';
+
+function postToWorker(worker: Worker, message: TeamOptimizerWorkerRequest): void {
+  worker.postMessage(message);
+}
+
+export interface UseTeamOptimizerResult {
+  /** Teams from the last finished search, null before the first */
+  results: OptimizedTeam[] | null;
+  isRunning: boolean;
+  /** Why the last search failed, null otherwise */
+  error: string | null;
+  /** Start a search, replacing any running one */
+  run: (config: TeamOptimizerConfig) => void;
+  /** Stop the running search; the previous results stay */
+  cancel: () => void;
+}
+
+/**
+ * Hook to run the team optimizer in a Web Worker.
+ *
+ * The worker is started on the first search and terminated to cancel one (a
+ * synchronous search can't be interrupted), then started again on the next.
+ * Answers to superseded searches are dropped. Without workers, or if the worker
+ * fails to load, searches run on the main thread and can't be cancelled once
+ * started. A search that throws is reported through `error`, wherever it ran.
+ */
+export function useTeamOptimizer(): UseTeamOptimizerResult {
+  const workerRef = useRef<Worker | null>(null);
+  const workerFailedRef = useRef(false);
+  const latestIdRef = useRef(0);
+  const localTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [results, setResults] = useState<OptimizedTeam[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const runLocally = useCallback((id: number, config: TeamOptimizerConfig) => {
+    // Yield a frame so the running state renders before the search blocks
+    localTimerRef.current = setTimeout(() => {
+      localTimerRef.current = null;
+      if (id !== latestIdRef.current) return;
+      try {
+        setResults(optimizeTeam(config));
+      } catch (err) {
+        console.warn('Team optimizer failed:', err);
+        setError(String(err));
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  }, []);
+
+  const getWorker = useCallback((): Worker | null => {
+    if (workerRef.current) return workerRef.current;
+    if (workerFailedRef.current || typeof Worker === 'undefined') return null;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../lib/team-optimizer.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('Team optimizer worker unavailable, searching on the main thread:', error);
+      workerFailedRef.current = true;
+      return null;
+    }
+    workerRef.current = worker;
+    return worker;
+  }, []);
+
+  const run = useCallback((config: TeamOptimizerConfig) => {
+    const id = ++latestIdRef.current;
+    setIsRunning(true);
+    setError(null);
+
+    const worker = getWorker();
+    if (!worker) {
+      runLocally(id, config);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<TeamOptimizerWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== latestIdRef.current) return;
+      if (message.type === 'result') {
+        setResults(message.teams);
+      } else {
+        // The search itself failed; the worker is fine, so keep it for the next one
+        console.warn('Team optimizer failed:', message.message);
+        setError(message.message);
+      }
+      setIsRunning(false);
+    };
+    // The worker script didn't load or crashed: search on the main thread from now on
+    worker.onerror = (event) => {
+      console.warn('Team optimizer worker failed, searching on the main thread:', event.message);
+      workerFailedRef.current = true;
+      stopWorker();
+      if (id === latestIdRef.current) runLocally(id, config);
+    };
+
+    postToWorker(worker, { type: 'run', id, config });
+  }, [getWorker, runLocally, stopWorker]);
+
+  const cancel = useCallback(() => {
+    latestIdRef.current++;
+    stopWorker();
+    if (localTimerRef.current) {
+      clearTimeout(localTimerRef.current);
+      localTimerRef.current = null;
+    }
+    setIsRunning(false);
+  }, [stopWorker]);
+
+  useEffect(() => () => {
+    stopWorker();
+    if (localTimerRef.current) clearTimeout(localTimerRef.current);
+  }, [stopWorker]);
+
+  return { results, isRunning, error, run, cancel };
+}
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  computeRowOffsets,
+  findRowAt,
+  findVisibleRange,
+  getRangePadding,
+  isBackForwardNavigation,
+  loadScrollAnchor,
+  saveScrollAnchor,
+  type VisibleRange,
+} from '../lib/virtualList';
+
+/** Rendered before the first measurement (and on the server) */
+const INITIAL_ROWS = 30;
+
+export interface UseVirtualRowsOptions {
+  /** One stable key per row (card ID), in display order */
+  keys: string[];
+  /** Height assumed for rows not rendered yet, in px */
+  estimatedHeight: number;
+  /** The list scrolls inside the element given to `scrollerRef` rather than with the page */
+  scrollContainer?: boolean;
+  /** Rows rendered past each edge of the viewport */
+  overscan?: number;
+  /** Save the scroll position under this key when leaving the page, and restore it on back navigation */
+  restoreKey?: string;
+  /** The rows are final (data loaded, query settled); restoring waits for this */
+  restoreReady?: boolean;
+}
+
+export interface VirtualRows {
+  /** First row to render */
+  start: number;
+  /** One past the last row to render */
+  end: number;
+  /** Spacer heights standing in for the rows before `start` and from `end` on */
+  paddingTop: number;
+  paddingBottom: number;
+  /** Ref for the element the rows are rendered into (tbody, grid) */
+  listRef: (element: HTMLElement | null) => void;
+  /** Ref for the scroll container, with `scrollContainer` */
+  scrollerRef: (element: HTMLElement | null) => void;
+  /** Ref for each rendered row, so its real height replaces the estimate */
+  measureRow: (key: string) => (element: HTMLElement | null) => void;
+}
+
+/** Viewport top relative to the start of the list, and viewport height */
+function getViewport(list: HTMLElement, scroller: HTMLElement | null): { top: number; height: number } {
+  const listTop = list.getBoundingClientRect().top;
+  if (scroller) return { top: scroller.getBoundingClientRect().top - listTop, height: scroller.clientHeight };
+  return { top: -listTop, height: window.innerHeight };
+}
+
+/** Both card layouts are always mounted; only the one CSS shows for this screen saves or restores */
+function isDisplayed(element: HTMLElement): boolean {
+  return element.getClientRects().length > 0;
+}
+
+function anchorStorageKey(restoreKey: string): string {
+  return `${restoreKey}:${window.location.pathname}${window.location.search}`;
+}
+
+/**
+ * Hook for windowed rendering of a long list of rows (see lib/virtualList).
+ *
+ * Tracks the window's scroll, or a scroll container's, and returns the slice of rows
+ * to render plus spacer heights for the rest. Heights measured through `measureRow`
+ * are kept per key, so re-sorting the same cards doesn't fall back to estimates.
+ */
+export function useVirtualRows({
+  keys,
+  estimatedHeight,
+  scrollContainer = false,
+  overscan = 8,
+  restoreKey,
+  restoreReady = true,
+}: UseVirtualRowsOptions): VirtualRows {
+  const [list, setList] = useState<HTMLElement | null>(null);
+  const [scroller, setScroller] = useState<HTMLElement | null>(null);
+  const [range, setRange] = useState<VisibleRange>({ start: 0, end: INITIAL_ROWS });
+  const [heights, setHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const pendingHeightsRef = useRef(new Map<string, number>());
+  const flushFrameRef = useRef(0);
+
+  const offsets = useMemo(
+    () => computeRowOffsets(keys, heights, estimatedHeight),
+    [keys, heights, estimatedHeight]
+  );
+
+  // Measurements are batched into one state update per frame
+  const measureRow = useCallback((key: string) => (element: HTMLElement | null) => {
+    if (!element) return;
+    const height = element.offsetHeight;
+    // Zero while this layout is hidden at the current breakpoint
+    if (height === 0) return;
+    pendingHeightsRef.current.set(key, height);
+    if (flushFrameRef.current) return;
+    flushFrameRef.current = requestAnimationFrame(() => {
+      flushFrameRef.current = 0;
+      const pending = pendingHeightsRef.current;
+      pendingHeightsRef.current = new Map();
+      setHeights(prev => {
+        let next: Map<string, number> | null = null;
+        for (const [rowKey, rowHeight] of pending) {
+          if (Math.abs((prev.get(rowKey) ?? -1) - rowHeight) < 1) continue;
+          next ??= new Map(prev);
+          next.set(rowKey, rowHeight);
+        }
+        return next ?? prev;
+      });
+    });
+  }, []);
+
+  useEffect(() => () => cancelAnimationFrame(flushFrameRef.current), []);
+
+  const activeScroller = scrollContainer ? scroller : null;
+  const attached = list !== null && (!scrollContainer || scroller !== null);
+
+  const updateRange = useCallback(() => {
+    if (!list) return;
+    const { top, height } = getViewport(list, activeScroller);
+    const next = findVisibleRange(offsets, top, top + height, overscan);
+    setRange(prev => (prev.start === next.start && prev.end === next.end ? prev : next));
+  }, [list, activeScroller, offsets, overscan]);
+
+  // Re-window whenever the rows or their heights change
+  useEffect(() => {
+    if (attached) updateRange();
+  }, [attached, updateRange]);
+
+  useEffect(() => {
+    if (!attached) return;
+    const target: HTMLElement | Window = activeScroller ?? window;
+    let frame = 0;
+    const onScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        updateRange();
+      });
+    };
+    target.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      target.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [attached, activeScroller, updateRange]);
+
+  // Save the row at the top of the viewport on the way out
+  useEffect(() => {
+    if (!restoreKey || !attached || !list) return;
+    const onPageHide = () => {
+      if (!isDisplayed(list) || keys.length === 0) return;
+      const { top } = getViewport(list, activeScroller);
+      const index = findRowAt(offsets, Math.max(0, top));
+      saveScrollAnchor(anchorStorageKey(restoreKey), {
+        rowKey: keys[index],
+        rowOffset: top - offsets[index],
+        windowY: window.scrollY,
+      });
+    };
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, [restoreKey, attached, list, activeScroller, keys, offsets]);
+
+  // ...and scroll back to it once, when the page was reached with Back/Forward
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (!restoreKey || !restoreReady || !attached || !list || restoredRef.current) return;
+    restoredRef.current = true;
+    if (!isBackForwardNavigation() || !isDisplayed(list)) return;
+
+    const anchor = loadScrollAnchor(anchorStorageKey(restoreKey));
+    const index = anchor ? keys.indexOf(anchor.rowKey) : -1;
+    if (!anchor || index < 0) return;
+
+    const rowTop = offsets[index] + anchor.rowOffset;
+    if (activeScroller) {
+      window.scrollTo(0, anchor.windowY);
+      const listTopInScroller = list.getBoundingClientRect().top - activeScroller.getBoundingClientRect().top + activeScroller.scrollTop;
+      activeScroller.scrollTop = listTopInScroller + rowTop;
+    } else {
+      window.scrollTo(0, list.getBoundingClientRect().top + window.scrollY + rowTop);
+    }
+  }, [restoreKey, restoreReady, attached, list, activeScroller, keys, offsets]);
+
+  const end = Math.min(range.end, keys.length);
+  const start = Math.min(range.start, end);
+  const padding = getRangePadding(offsets, { start, end });
+
+  return {
+    start,
+    end,
+    paddingTop: padding.top,
+    paddingBottom: padding.bottom,
+    listRef: setList,
+    scrollerRef: setScroller,
+    measureRow,
+  };
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  loadWatchlist,
+  watchCard,
+  unwatchCard,
+  dismissWatchEvents,
+  checkWatchlist,
+  EMPTY_WATCHLIST,
+  WATCHLIST_CHANGE_EVENT,
+  WATCHLIST_STORAGE_KEY,
+  type WatchlistState,
+} from '../lib/watchlist';
+
+export interface UseWatchlistResult {
+  watchlist: WatchlistState;
+  watched: Set<string>;
+  loaded: boolean;
+  watch: (cardId: string) => void;
+  unwatch: (cardId: string) => void;
+  dismissEvents: () => void;
+  /** Run a check now, ignoring the check interval */
+  checkNow: () => Promise<void>;
+}
+
+/**
+ * Hook to read the card watchlist from localStorage.
+ * Reloads whenever any island on the page, or another tab, writes to it.
+ */
+export function useWatchlist(): UseWatchlistResult {
+  const [watchlist, setWatchlist] = useState<WatchlistState>(EMPTY_WATCHLIST);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const reload = () => {
+      setWatchlist(loadWatchlist());
+      setLoaded(true);
+    };
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === WATCHLIST_STORAGE_KEY) reload();
+    };
+
+    reload();
+    window.addEventListener(WATCHLIST_CHANGE_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(WATCHLIST_CHANGE_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const watched = useMemo(() => new Set(watchlist.cards.map(card => card.cardId)), [watchlist.cards]);
+  const watch = useCallback((cardId: string) => watchCard(cardId), []);
+  const unwatch = useCallback((cardId: string) => unwatchCard(cardId), []);
+  const dismissEvents = useCallback(() => dismissWatchEvents(), []);
+  const checkNow = useCallback(async () => {
+    await checkWatchlist({ force: true });
+  }, []);
+
+  return {
+    watchlist,
+    watched,
+    loaded,
+    watch,
+    unwatch,
+    dismissEvents,
+    checkNow,
+  };
+}
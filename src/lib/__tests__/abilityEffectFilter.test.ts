@@ -0,0 +1,139 @@
+/**
+ * Ability Effect Filter Tests
+ *
+ * Tests for filtering cards by parsed ability effects:
+ * - Target scope classification
+ * - Effect type, scope, attribute, value, trigger and condition filters
+ * - Magnitude ordering and labels
+ * - URL param round trip
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_EFFECT_FILTER,
+  getEffectScope,
+  findAbilityEffectMatches,
+  listEffectTypes,
+  formatEffectMatch,
+  formatEffectFilterParam,
+  parseEffectFilterParam,
+  isEffectFilterEmpty,
+  type AbilityEffectFilter,
+} from '../abilityEffectFilter';
+import type { Ability, ParsedAbility } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function ability(id: string, parsed: ParsedAbility | undefined): Ability {
+  return { id, name: `Ability ${id}`, description: '', parsed };
+}
+
+const effect = (type: string, value: number, unit?: 'percent' | 'flat') =>
+  ({ stat: type, type, value, isPercent: unit !== 'flat', unit });
+
+const SELF_DMG = ability('self', {
+  target: { type: 'self_ime', count: 1 },
+  effects: [effect('ATK', 5)],
+  trigger: 'entry',
+});
+const TEAM_DMG = ability('team', {
+  target: { type: 'team', count: 0 },
+  effects: [effect('ATK', 30), effect('CHIT', 10)],
+  trigger: 'entry_wave',
+});
+const PHANTASMA_DMG = ability('phantasma', {
+  target: { type: 'attribute', count: 2, attribute: 'Phantasma' },
+  effects: [effect('ATK', 20)],
+  trigger: 'entry',
+  conditions: { mns_ids: ['123'] } as unknown as string[],
+});
+const SHIELD_DEBUFF = ability('shield', {
+  target: { type: 'enemy', count: 1, side: 'enemy' },
+  effects: [effect('SHIELD', -25), effect('DEFENSE', -400, 'flat')],
+  trigger: 'entry',
+});
+const UNPARSED = ability('unparsed', undefined);
+
+const ALL = [SELF_DMG, TEAM_DMG, PHANTASMA_DMG, SHIELD_DEBUFF, UNPARSED];
+
+const filter = (patch: Partial<AbilityEffectFilter>): AbilityEffectFilter => ({ ...EMPTY_EFFECT_FILTER, ...patch });
+const matchIds = (patch: Partial<AbilityEffectFilter>) =>
+  findAbilityEffectMatches(ALL, filter(patch)).map(m => `${m.abilityId}:${m.effectType}`);
+
+// =============================================================================
+// Scope
+// =============================================================================
+
+describe('ability effect filter: getEffectScope', () => {
+  it('collapses parsed targets into scopes', () => {
+    expect(getEffectScope(SELF_DMG.parsed!)).toBe('self');
+    expect(getEffectScope(TEAM_DMG.parsed!)).toBe('team');
+    expect(getEffectScope(PHANTASMA_DMG.parsed!)).toBe('attribute');
+    expect(getEffectScope(SHIELD_DEBUFF.parsed!)).toBe('enemy');
+    expect(getEffectScope({ target: { type: 'ranked', count: 1, side: 'enemy' } })).toBe('enemy');
+    expect(getEffectScope({ target: { type: 'self', count: 5 } })).toBe('team');
+    expect(getEffectScope({})).toBe('self');
+  });
+});
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+describe('ability effect filter: findAbilityEffectMatches', () => {
+  it('separates a small self buff from a big team buff with the same type', () => {
+    expect(matchIds({ effectType: 'ATK' })).toEqual(['team:ATK', 'phantasma:ATK', 'self:ATK']);
+    expect(matchIds({ effectType: 'ATK', scopes: ['team'], minValue: 15 })).toEqual(['team:ATK']);
+  });
+
+  it('matches enemy debuffs by magnitude', () => {
+    expect(matchIds({ effectType: 'SHIELD', scopes: ['enemy'] })).toEqual(['shield:SHIELD']);
+    expect(matchIds({ effectType: 'SHIELD', minValue: 30 })).toEqual([]);
+    const [defense] = findAbilityEffectMatches(ALL, filter({ effectType: 'DEFENSE' }));
+    expect(defense).toMatchObject({ value: -400, magnitude: 400, unit: 'flat' });
+  });
+
+  it('filters by target attribute, trigger and conditions', () => {
+    expect(matchIds({ attribute: 'Phantasma' })).toEqual(['phantasma:ATK']);
+    expect(matchIds({ trigger: 'entry_wave' })).toEqual(['team:ATK', 'team:CHIT']);
+    expect(matchIds({ effectType: 'ATK', unconditionalOnly: true })).toEqual(['team:ATK', 'self:ATK']);
+  });
+
+  it('skips abilities without parsed data', () => {
+    expect(findAbilityEffectMatches([UNPARSED], filter({}))).toEqual([]);
+  });
+});
+
+describe('ability effect filter: labels and options', () => {
+  it('lists effect types by frequency', () => {
+    expect(listEffectTypes([ALL, [SELF_DMG]])).toEqual(['ATK', 'CHIT', 'DEFENSE', 'SHIELD']);
+  });
+
+  it('formats matches with sign and unit', () => {
+    const labels = findAbilityEffectMatches(ALL, filter({})).map(formatEffectMatch);
+    expect(labels).toEqual(['-400 Defense', '+30% DMG', '-25% Shield', '+20% DMG', '+10% Crit Rate', '+5% DMG']);
+  });
+});
+
+// =============================================================================
+// URL Params
+// =============================================================================
+
+describe('ability effect filter: URL params', () => {
+  it('round-trips a filter', () => {
+    const original = filter({ effectType: 'ATK', scopes: ['team', 'attribute'], attribute: 'Divina', minValue: 15, trigger: 'entry', unconditionalOnly: true });
+    const param = formatEffectFilterParam(original);
+    expect(param).toBe('type:ATK;scope:team,attribute;attr:Divina;min:15;trigger:entry;plain:1');
+    expect(parseEffectFilterParam(param)).toEqual(original);
+  });
+
+  it('returns null for empty filters and drops invalid values', () => {
+    expect(formatEffectFilterParam(EMPTY_EFFECT_FILTER)).toBeNull();
+    expect(isEffectFilterEmpty(EMPTY_EFFECT_FILTER)).toBe(true);
+    expect(parseEffectFilterParam('type:<b>;scope:nowhere;min:-5')).toBeNull();
+    expect(parseEffectFilterParam('type:SHIELD;attr:divina;bogus:1')).toEqual(
+      filter({ effectType: 'SHIELD', attribute: 'Divina' })
+    );
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Battle Simulator Tests
+ *
+ * Tests for the time-stepped simulation:
+ * - Attack cadence and per-second bucketing
+ * - Skill cast timing and buff windows
+ * - Wave Start / Final Wave ability timing
+ * - Boss statuses (disable, silence, slow, crit debuffs)
+ */
+import { describe, it, expect } from 'vitest';
+import { simulateBattle, getWaveAt, getStatusModifiers, getCritScale } from '../battle-sim';
+import { calculateTeamDamage } from '../team-calc';
+import {
+  TOTAL_SLOTS,
+  MAIN_TEAM_SIZE,
+  type TeamMemberState,
+  type EnemyState,
+  type BattleSimulationConfig,
+  type ParsedSkillEffect,
+  type BossStatusWindow,
+} from '../team-calc-types';
+import type { Card, Ability } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createEmptyMemberState(isReserve = false): TeamMemberState {
+  return {
+    cardId: null,
+    card: null,
+    assistCardId: null,
+    assistCard: null,
+    limitBreak: 0,
+    levelBonus: 0,
+    bond1: 'none',
+    bond2: 'none',
+    bond3: 'none',
+    bondType: 'none',
+    skillActive: false,
+    isReserve,
+    computedStats: null,
+    damageResult: null,
+    abilityContributions: [],
+    skillEffect: null,
+  };
+}
+
+function createMockCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: '1001',
+    name: 'Test Card',
+    stats: {
+      attribute: 1,
+      attribute_name: 'Divina',
+      type: 1,
+      type_name: 'Melee',
+      rarity: 5,
+      base_atk: 1000,
+      max_atk: 10000,
+      base_hp: 500,
+      max_hp: 5000,
+      max_level: 70,
+      crit: 0,
+      speed: 150, // (150 + 750) / 900 = 1.0s interval
+      cost: 20,
+    },
+    abilities: [],
+    skill: null,
+    bonds: [],
+    ...overrides,
+  } as Card;
+}
+
+function createTeam(cards: Array<Card | null>, overrides: Partial<TeamMemberState>[] = []): TeamMemberState[] {
+  return Array.from({ length: TOTAL_SLOTS }, (_, i) => {
+    const base = createEmptyMemberState(i >= MAIN_TEAM_SIZE);
+    const card = cards[i] ?? null;
+    return {
+      ...base,
+      cardId: card?.id ?? null,
+      card,
+      ...(overrides[i] || {}),
+    };
+  });
+}
+
+const ENEMY: EnemyState = {
+  baseShield: 0,
+  baseDefense: 0,
+  isFinalWave: false,
+  waveCount: 1,
+  attribute: 'None',
+  ignoreShieldCap: false,
+  healersDontAttack: false,
+};
+
+function config(overrides: Partial<BattleSimulationConfig> = {}): BattleSimulationConfig {
+  return {
+    durationSeconds: 30,
+    waveCount: 1,
+    waveDurationSeconds: 0,
+    skillIntervals: [0, 0, 0, 0, 0],
+    ...overrides,
+  };
+}
+
+const DMG_BUFF_SKILL: ParsedSkillEffect = {
+  targetType: 'self',
+  targetCount: 1,
+  targetPriority: null,
+  buffs: {
+    dmgBonus: 1.0,
+    dmgReduction: 0,
+    dmgTakenDebuff: 0,
+    dmgDealtDebuff: 0,
+    critRateBonus: 0,
+    critDmgBonus: 0,
+    speedBonus: 0,
+    speedDebuff: 0,
+  },
+  duration: 5,
+};
+
+// =============================================================================
+// Wave Timing
+// =============================================================================
+
+describe('getWaveAt', () => {
+  it('single-wave fights are always on wave 1', () => {
+    expect(getWaveAt(0, { waveCount: 1, waveDurationSeconds: 30 })).toBe(1);
+    expect(getWaveAt(500, { waveCount: 1, waveDurationSeconds: 30 })).toBe(1);
+  });
+
+  it('advances one wave per waveDurationSeconds and stops at the last wave', () => {
+    const cfg = { waveCount: 3, waveDurationSeconds: 20 };
+    expect(getWaveAt(0, cfg)).toBe(1);
+    expect(getWaveAt(19.9, cfg)).toBe(1);
+    expect(getWaveAt(20, cfg)).toBe(2);
+    expect(getWaveAt(40, cfg)).toBe(3);
+    expect(getWaveAt(400, cfg)).toBe(3);
+  });
+});
+
+// =============================================================================
+// Normal Attacks
+// =============================================================================
+
+describe('Normal attack cadence', () => {
+  it('attacks once per attack interval and matches steady-state DPS', () => {
+    const members = createTeam([createMockCard()]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 30 }));
+    const steady = calculateTeamDamage(members, ENEMY);
+    const perHit = steady.members[0].damageResult!.normalDamageExpected;
+
+    // 1.0s interval, first hit at t=1 → hits at 1..29 inside a 30s fight
+    expect(result.memberTotals[0].attacks).toBe(29);
+    expect(result.totalDamage).toBe(perHit * 29);
+    expect(result.timeline).toHaveLength(30);
+    expect(result.timeline[0].totalDamage).toBe(0);
+    expect(result.timeline[1].totalDamage).toBe(perHit);
+  });
+
+  it('cumulative damage is the running sum of per-second damage', () => {
+    const members = createTeam([createMockCard(), createMockCard({ id: '1002' })]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 10 }));
+
+    let running = 0;
+    for (const point of result.timeline) {
+      running += point.totalDamage;
+      expect(point.cumulativeDamage).toBe(running);
+      expect(point.memberDamage.reduce((a, b) => a + b, 0)).toBe(point.totalDamage);
+    }
+    expect(result.totalDamage).toBe(running);
+  });
+
+  it('empty teams deal no damage', () => {
+    const result = simulateBattle(createTeam([]), ENEMY, config());
+    expect(result.totalDamage).toBe(0);
+    expect(result.averageDps).toBe(0);
+  });
+});
+
+// =============================================================================
+// Skills and Buff Windows
+// =============================================================================
+
+describe('Skill casts and buff windows', () => {
+  const skillCard = createMockCard({
+    skill: {
+      id: 's1',
+      name: 'Buff Skill',
+      description: '',
+      parsed: { slv1: 0, slvup: 0 },
+    },
+  });
+
+  it('casts every skill interval and records buff expiry', () => {
+    const members = createTeam([skillCard], [{ skillEffect: DMG_BUFF_SKILL }]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 30, skillIntervals: [10, 0, 0, 0, 0] }));
+
+    expect(result.casts.map(c => c.time)).toEqual([10, 20]);
+    expect(result.casts[0].buffEndsAt).toBe(15);
+    expect(result.memberTotals[0].casts).toBe(2);
+  });
+
+  it('buff is only active inside its duration window', () => {
+    const members = createTeam([skillCard], [{ skillEffect: DMG_BUFF_SKILL }]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 30, skillIntervals: [10, 0, 0, 0, 0] }));
+
+    expect(result.timeline[9].activeBuffs).toEqual([]);
+    expect(result.timeline[11].activeBuffs).toEqual([0]);
+    expect(result.timeline[14].activeBuffs).toEqual([0]);
+    expect(result.timeline[15].activeBuffs).toEqual([]);
+
+    // +100% DMG doubles hits landing inside the window
+    expect(result.timeline[12].normalDamage).toBe(result.timeline[5].normalDamage * 2);
+    // 10 of 30 seconds buffed (minus the tick the cast lands on)
+    expect(result.memberTotals[0].buffUptime).toBeGreaterThan(0.3);
+    expect(result.memberTotals[0].buffUptime).toBeLessThan(0.34);
+  });
+
+  it('ignores the steady-state skill toggle', () => {
+    const members = createTeam([skillCard], [{ skillEffect: DMG_BUFF_SKILL, skillActive: true }]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 5 }));
+    expect(result.timeline[2].activeBuffs).toEqual([]);
+  });
+
+  it('damage skills add their expected damage per cast', () => {
+    const nuker = createMockCard({
+      skill: {
+        id: 's2',
+        name: 'Nuke',
+        description: '',
+        parsed: { slv1: 1000, slvup: 10, immediate: { type: 'ATK', base: 1000, scale: 10 } },
+      },
+    });
+    const members = createTeam([nuker]);
+    const steady = calculateTeamDamage(members, ENEMY);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 30, skillIntervals: [15, 0, 0, 0, 0] }));
+
+    expect(result.memberTotals[0].casts).toBe(1);
+    expect(result.memberTotals[0].skillDamage).toBe(steady.members[0].damageResult!.skillDamageExpected);
+    expect(result.timeline[15].skillDamage).toBe(steady.members[0].damageResult!.skillDamageExpected);
+  });
+});
+
+// =============================================================================
+// Wave-Timed Abilities
+// =============================================================================
+
+describe('Wave-timed abilities', () => {
+  function abilityCard(trigger: string): Card {
+    const ability: Ability = {
+      id: `ab-${trigger}`,
+      name: trigger,
+      description: '',
+      unlock_level: 1,
+      tags: [],
+      parsed: {
+        target: { type: 'self', count: 1 },
+        effects: [{ stat: 'ATK', type: 'ATK', value: 100, isPercent: true }],
+        trigger,
+      },
+    };
+    return createMockCard({ abilities: [ability] });
+  }
+
+  it('Final Wave abilities switch on when the last wave starts', () => {
+    const members = createTeam([abilityCard('last_wave')]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 20, waveCount: 2, waveDurationSeconds: 10 }));
+
+    expect(result.timeline[5].wave).toBe(1);
+    expect(result.timeline[15].wave).toBe(2);
+    expect(result.timeline[15].normalDamage).toBe(result.timeline[5].normalDamage * 2);
+  });
+
+  it('Wave Start abilities stack with each wave reached', () => {
+    const members = createTeam([abilityCard('entry_wave')]);
+    const result = simulateBattle(members, ENEMY, config({ durationSeconds: 30, waveCount: 3, waveDurationSeconds: 10 }));
+
+    const w1 = result.timeline[5].normalDamage;
+    const w3 = result.timeline[25].normalDamage;
+    // +100% per wave: wave 1 = 2x base, wave 3 = 4x base
+    expect(w3 / w1).toBeCloseTo(2, 2);
+  });
+});
+
+// =============================================================================
+// Boss Statuses
+// =============================================================================
+
+describe('Boss statuses', () => {
+  const status = (kind: BossStatusWindow['kind'], start: number, end: number, value = 0): BossStatusWindow => ({
+    memberIndex: 0,
+    start,
+    end,
+    kind,
+    value,
+    source: 'test',
+  });
+
+  it('a disabled member neither attacks nor casts until the status ends', () => {
+    const members = createTeam([createMockCard()]);
+    const result = simulateBattle(members, ENEMY, config({
+      durationSeconds: 20,
+      bossStatuses: [status('disable', 5, 10)],
+    }));
+
+    expect(result.memberTotals[0].disabledTime).toBeCloseTo(5);
+    expect(result.timeline[7].totalDamage).toBe(0);
+    expect(result.timeline[12].totalDamage).toBeGreaterThan(0);
+    // 19 hits without the stun, minus the 5 seconds lost
+    expect(result.memberTotals[0].attacks).toBe(14);
+  });
+
+  it('silence holds skill casts but not attacks', () => {
+    const card = createMockCard({
+      skill: { id: 's1', name: 'Skill', description: '', parsed: { slv1: 0, slvup: 0 } },
+    });
+    const members = createTeam([card]);
+    const result = simulateBattle(members, ENEMY, config({
+      durationSeconds: 20,
+      skillIntervals: [5, 0, 0, 0, 0],
+      bossStatuses: [status('silence', 4, 8)],
+    }));
+
+    expect(result.casts.map(c => c.time)).toEqual([8, 13, 18]);
+    expect(result.memberTotals[0].attacks).toBe(19);
+  });
+
+  it('slows stretch the attack interval', () => {
+    const members = createTeam([createMockCard()]);
+    const result = simulateBattle(members, ENEMY, config({
+      durationSeconds: 21,
+      bossStatuses: [status('slow', 0, 21, -0.5)],
+    }));
+    // 2.0s interval: hits at 2, 4, ... 20
+    expect(result.memberTotals[0].attacks).toBe(10);
+  });
+
+  it('crit debuffs scale damage by the expected crit change', () => {
+    const base = createMockCard();
+    const card = createMockCard({ stats: { ...base.stats, crit: 5000 } });
+    const members = createTeam([card]);
+    const plain = simulateBattle(members, ENEMY, config({ durationSeconds: 10 }));
+    const debuffed = simulateBattle(members, ENEMY, config({
+      durationSeconds: 10,
+      bossStatuses: [status('critRate', 0, 10, -0.3)],
+    }));
+
+    // 50% crit at 2x → 1.5; 20% crit → 1.2
+    expect(debuffed.totalDamage / plain.totalDamage).toBeCloseTo(0.8, 5);
+  });
+
+  it('overlapping statuses keep the strongest value per kind', () => {
+    const mods = getStatusModifiers([status('slow', 0, 10, -0.2), status('slow', 2, 6, -0.5), status('disable', 8, 9)], 3);
+    expect(mods).toMatchObject({ speedChange: -0.5, disabled: false });
+    expect(getStatusModifiers([status('disable', 8, 9)], 8).disabled).toBe(true);
+    expect(getStatusModifiers([status('disable', 8, 9)], 9).disabled).toBe(false);
+  });
+
+  it('crit scale is 1 without changes and never drops crit below zero', () => {
+    expect(getCritScale(0.5, 2, 0, 0)).toBe(1);
+    expect(getCritScale(0.1, 2, -0.3, 0)).toBeCloseTo(1 / 1.1);
+  });
+});
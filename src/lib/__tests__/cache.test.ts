@@ -0,0 +1,52 @@
+/**
+ * Cache Integrity Tests
+ *
+ * Tests for the content hashing behind the IndexedDB cache:
+ * - SHA-256 of the stored payload
+ * - Verification of intact, altered and legacy entries
+ */
+import { describe, it, expect } from 'vitest';
+import { computeContentHash, verifyCachedPayload } from '../cache';
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+describe('cache: computeContentHash', () => {
+  it('hashes the JSON serialisation with SHA-256', async () => {
+    // sha256('{"a":1}')
+    expect(await computeContentHash({ a: 1 })).toBe(
+      'sha256:015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862'
+    );
+  });
+
+  it('changes when any value changes', async () => {
+    const before = await computeContentHash({ cards: { '1': { name: 'Kaguya' } } });
+    const after = await computeContentHash({ cards: { '1': { name: 'Kaguy' } } });
+    expect(before).not.toBe(after);
+  });
+});
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+describe('cache: verifyCachedPayload', () => {
+  it('accepts a payload that matches its stored hash', async () => {
+    const data = { version: 'v1', cards: {} };
+    expect(await verifyCachedPayload({ data, hash: await computeContentHash(data) })).toEqual({ status: 'valid' });
+  });
+
+  it('flags a payload that was altered after it was stored', async () => {
+    const data = { version: 'v1', cards: { '1': {} } };
+    const hash = await computeContentHash(data);
+    const check = await verifyCachedPayload({ data: { version: 'v1', cards: {} }, hash });
+    expect(check.status).toBe('corrupt');
+    expect(check.status === 'corrupt' && check.actualHash).toBe(await computeContentHash({ version: 'v1', cards: {} }));
+  });
+
+  it('leaves entries from the old hash format unverified', async () => {
+    expect(await verifyCachedPayload({ data: { a: 1 }, hash: '-3f2a91c' })).toEqual({ status: 'unverified' });
+    expect(await verifyCachedPayload({ data: { a: 1 }, hash: '' })).toEqual({ status: 'unverified' });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Card Compare Tests
+ *
+ * Tests for the side-by-side comparison page:
+ * - ?ids= parsing
+ * - Best-value and difference highlighting
+ * - Skill text at LB0 / MLB, and at every LB with level data
+ * - Parsed ability effect lines
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  parseCompareIds,
+  buildCompareSections,
+  getSkillText,
+  describeAbilityEffects,
+  type CompareSection,
+} from '../cardCompare';
+import type { LevelViewerSkill } from '../cardLevels';
+import type { Ability, Card } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createCard(id: string, overrides: Partial<Card> = {}, stats: Partial<Card['stats']> = {}): Card {
+  return {
+    id,
+    name: `Card ${id}`,
+    stats: {
+      attribute_name: 'Divina',
+      type_name: 'Melee',
+      rarity: 5,
+      max_level: 70,
+      base_atk: 1000,
+      max_atk: 6000,
+      base_hp: 1000,
+      max_hp: 4000,
+      speed: 150,
+      crit: 500,
+      cost: 20,
+      ...stats,
+    },
+    skill: {
+      name: 'Strike',
+      description: 'Deals {value} damage ({probability} chance)',
+      slv_lb0: '200%',
+      slv_mlb: '300%',
+      prob_lb0: '20%',
+      prob_mlb: '30%',
+      tags: ['Damage'],
+    },
+    abilities: [],
+    bonds: [],
+    acquisition: { sources: ['gacha'], currently_available: true },
+    ...overrides,
+  } as unknown as Card;
+}
+
+const row = (sections: CompareSection[], key: string) =>
+  sections.flatMap(s => s.rows).find(r => r.key === key)!;
+
+// =============================================================================
+// URL Params
+// =============================================================================
+
+describe('card compare: parseCompareIds', () => {
+  it('keeps valid unique IDs in order, up to four', () => {
+    expect(parseCompareIds('12, 5,12,abc,0,7,9,3')).toEqual(['12', '5', '7', '9']);
+  });
+
+  it('returns an empty list for a missing param', () => {
+    expect(parseCompareIds(null)).toEqual([]);
+    expect(parseCompareIds('')).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Rows
+// =============================================================================
+
+describe('card compare: buildCompareSections', () => {
+  const cards = [
+    createCard('1'),
+    createCard('2', {}, { max_atk: 7000, speed: 120, cost: 25 }),
+    createCard('3', {}, { max_atk: 7000, speed: 180, attribute_name: 'Anima' }),
+  ];
+  const sections = buildCompareSections(cards);
+
+  it('marks every card tied for the best value', () => {
+    expect(row(sections, 'atk_lb0').best).toEqual([1, 2]);
+    expect(row(sections, 'cost').best).toEqual([0, 2]);
+  });
+
+  it('treats lower speed as better', () => {
+    expect(row(sections, 'speed').best).toEqual([1]);
+  });
+
+  it('flags differences without picking a best on text rows', () => {
+    expect(row(sections, 'attribute')).toMatchObject({ differs: true, best: [] });
+    expect(row(sections, 'type')).toMatchObject({ differs: false, best: [] });
+    expect(row(sections, 'hp_lb0')).toMatchObject({ differs: false, best: [] });
+  });
+
+  it('formats crit in percent and MLB stats from computeMlbStats', () => {
+    expect(row(sections, 'crit').values[0]).toBe('5.0%');
+    expect(row(sections, 'atk_mlb').values[0]).toBe((7449).toLocaleString());
+  });
+
+  it('only adds the effects row once parsed abilities are available', () => {
+    expect(sections.some(s => s.rows.some(r => r.key === 'ability_effects'))).toBe(false);
+    const withParsed = buildCompareSections(cards, new Map());
+    expect(row(withParsed, 'ability_effects').values).toEqual([null, null, null]);
+  });
+
+  it('compares overlap against the first card only', () => {
+    expect(row(sections, 'shared_skill_tags').values).toEqual([null, 'Damage', 'Damage']);
+  });
+});
+
+// =============================================================================
+// Skill and Ability Text
+// =============================================================================
+
+describe('card compare: skill and ability text', () => {
+  it('substitutes LB0 and MLB skill values', () => {
+    const card = createCard('1');
+    expect(getSkillText(card, 'lb0')).toBe('Deals 200% damage (20% chance)');
+    expect(getSkillText(card, 'mlb')).toBe('Deals 300% damage (30% chance)');
+    expect(getSkillText(createCard('2', { skill: null }), 'mlb')).toBeNull();
+  });
+
+  it('shows skill text at every LB once level data is loaded', () => {
+    const levelSkills = new Map<string, LevelViewerSkill>([['1', {
+      description: 'Deals {value} damage ({probability} chance)',
+      slv1: 1000,
+      slvup: 29,
+      de: 'HIT<22.00%,0.64%>',
+    }]]);
+    const sections = buildCompareSections([createCard('1'), createCard('2')], null, levelSkills);
+    const skillRows = sections.find(s => s.title === 'Skill')!.rows.map(r => r.label);
+    expect(skillRows).toEqual(['Name', 'LB0', 'LB1', 'LB2', 'LB3', 'MLB', 'Tags']);
+    expect(row(sections, 'skill_lb0').values[0]).toBe('Deals 3,001 damage (66.16% chance)');
+    expect(row(sections, 'skill_lb2').values[0]).toBe('Deals 3,291 damage (72.56% chance)');
+    expect(row(sections, 'skill_mlb').values[0]).toBe('Deals 3,581 damage (78.96% chance)');
+    // Card 2 has no level data: index values at both ends only
+    expect(row(sections, 'skill_lb0').values[1]).toBe('Deals 200% damage (20% chance)');
+    expect(row(sections, 'skill_lb2').values[1]).toBeNull();
+    expect(row(sections, 'skill_mlb').values[1]).toBe('Deals 300% damage (30% chance)');
+  });
+
+  it('describes parsed effects with scope and trigger', () => {
+    const abilities: Ability[] = [{
+      id: 'a',
+      name: 'Rally',
+      description: '',
+      parsed: {
+        target: { type: 'team', count: 0 },
+        effects: [{ stat: 'ATK', type: 'ATK', value: 15, isPercent: true }],
+        trigger: 'entry_wave',
+      },
+    }];
+    expect(describeAbilityEffects(abilities)).toEqual(['+15% DMG (Team, Wave start)']);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Card Export Tests
+ *
+ * Tests for the card table CSV / JSON export:
+ * - LB0 vs MLB values and headers
+ * - CSV quoting and list flattening
+ * - Parsed ability effects in JSON and CSV
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildCardsCsv,
+  buildCardsJson,
+  getExportFilename,
+  resolveExportColumns,
+  type ExportContext,
+} from '../cardExport';
+import type { Ability, Card } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: '42',
+    name: 'Kaguya',
+    stats: {
+      attribute_name: 'Divina', type_name: 'Healer', rarity: 5, cost: 3,
+      base_atk: 2000, max_atk: 8000, base_hp: 3000, max_hp: 9000, speed: 1300, crit: 750,
+      max_level: 70,
+    },
+    skill: {
+      name: 'Moonlight', description: 'Heals {value} HP', slv_lb0: '300', slv_mlb: '400',
+      prob_lb0: null, prob_mlb: null, delay_lb0: null, delay_mlb: null, tags: ['heal'],
+    },
+    abilities: [
+      { name: 'Grace', description: 'Team DMG up, big', tags: ['dmg'] },
+    ],
+    acquisition: { sources: ['gacha', 'event'], currently_available: true },
+    ...overrides,
+  } as unknown as Card;
+}
+
+const LB0: ExportContext = { isMLB: false, parsedAbilities: null };
+const MLB: ExportContext = { isMLB: true, parsedAbilities: null };
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+describe('cardExport: CSV', () => {
+  it('labels LB-dependent headers and uses the matching skill value', () => {
+    const columns = resolveExportColumns(['skill', 'name']);
+    const [header, row] = buildCardsCsv([makeCard()], columns, LB0).replace('\uFEFF', '').split('\r\n');
+    expect(header).toBe('Name,Skill (LB0)');
+    expect(row).toBe('Kaguya,Heals 300 HP');
+    expect(buildCardsCsv([makeCard()], columns, MLB)).toContain('Heals 400 HP');
+  });
+
+  it('quotes fields with commas and quotes, and joins lists', () => {
+    const card = makeCard({ name: 'Kaguya "Moon", Princess' });
+    const csv = buildCardsCsv([card], resolveExportColumns(['name', 'ability1', 'sources']), LB0);
+    expect(csv.split('\r\n')[1]).toBe('"Kaguya ""Moon"", Princess","Team DMG up, big",gacha; event');
+  });
+
+  it('keeps row order as given', () => {
+    const csv = buildCardsCsv([makeCard({ id: '2' }), makeCard({ id: '1' })], resolveExportColumns(['id']), LB0);
+    expect(csv.split('\r\n').slice(1, 3)).toEqual(['2', '1']);
+  });
+});
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+describe('cardExport: JSON', () => {
+  const parsed: Ability[] = [{
+    name: 'Grace',
+    description: 'Team DMG up',
+    parsed: {
+      target: { type: 'team', count: 0 },
+      effects: [{ stat: 'ATK', type: 'ATK', value: 15, isPercent: true }],
+      trigger: 'entry_wave',
+    },
+  } as Ability];
+
+  it('keeps numbers and lists structured, with the LB mode', () => {
+    const json = JSON.parse(buildCardsJson([makeCard()], resolveExportColumns(['id', 'crit', 'sources', 'available']), LB0));
+    expect(json.lb_mode).toBe('lb0');
+    expect(json.columns).toEqual(['id', 'crit', 'sources', 'available']);
+    expect(json.cards[0]).toEqual({ id: '42', crit: 7.5, sources: ['gacha', 'event'], available: true });
+  });
+
+  it('exports parsed ability effects when loaded, and null otherwise', () => {
+    const columns = resolveExportColumns(['ability_effects']);
+    const ctx: ExportContext = { isMLB: true, parsedAbilities: new Map([['42', parsed]]) };
+    const effects = JSON.parse(buildCardsJson([makeCard()], columns, ctx)).cards[0].ability_effects;
+    expect(effects).toHaveLength(1);
+    expect(effects[0]).toMatchObject({ ability: 'Grace', value: 15, unit: 'percent' });
+    expect(JSON.parse(buildCardsJson([makeCard()], columns, MLB)).cards[0].ability_effects).toBeNull();
+    expect(buildCardsCsv([makeCard()], columns, ctx).split('\r\n')[1]).toContain('15%');
+  });
+});
+
+describe('cardExport: getExportFilename', () => {
+  it('includes the LB mode and date', () => {
+    expect(getExportFilename('csv', true, new Date('2026-10-19T12:00:00Z'))).toBe('otogidb-cards-mlb-2026-10-19.csv');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Card History Tests
+ *
+ * Tests for the card page's History section:
+ * - Field labels and categories for raw changelog paths
+ * - Timeline ordering and array-item collapsing
+ * - ATK / HP / skill value series reconstructed from the changelog
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getFieldLabel,
+  getHistoryCategory,
+  formatChangelogChange,
+  buildCardTimeline,
+  buildHistorySeries,
+  getChangedSeries,
+} from '../cardHistory';
+import type { CardHistory } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const HISTORY: CardHistory = {
+  first_seen: '2025-01-10',
+  first_seen_version: 'aaa1111',
+  last_modified: '2025-06-01',
+  last_modified_version: 'ccc3333',
+  changelog: [
+    {
+      version: 'ccc3333',
+      date: '2025-06-01',
+      changes: {
+        'skill.parsed.slv1': { old: 540, new: 587 },
+        'skill.tags': { old: ['DMG', 'DEF Down'], new: ['DMG', 'DEF Up'] },
+        'skill.tags.1': { old: 'DEF Down', new: 'DEF Up' },
+      },
+    },
+    {
+      version: 'bbb2222',
+      date: '2025-03-15',
+      changes: {
+        'acquisition.auction.available': { old: false, new: true },
+        'stats.max_atk': { old: 7500, new: 8600 },
+      },
+    },
+  ],
+};
+
+const CARD = {
+  stats: { max_atk: 8600, max_hp: 7000, rarity: 5, max_level: 70 },
+  skill: { parsed: { slv1: 587, slvup: 20 } },
+  history: HISTORY,
+};
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+describe('card history: formatting', () => {
+  it('labels and categorizes raw field paths', () => {
+    expect(getFieldLabel('stats.max_atk')).toBe('Max ATK');
+    expect(getFieldLabel('skill.tags.2')).toBe('Skill Tags');
+    expect(getFieldLabel('abilities.1.unlock_level')).toBe('Ability #2 Unlock Level');
+    expect(getHistoryCategory('abilities.0.parsed.effects.0.value')).toBe('ability');
+    expect(getHistoryCategory('meta.album')).toBe('other');
+  });
+
+  it('formats like patch notes, using the updates page formatter', () => {
+    expect(formatChangelogChange('stats.max_hp', 7000, 6600).text).toBe('Max HP: 7000 → 6600 (-400)');
+    expect(formatChangelogChange('skill.parsed.slv1', 540, 587).text).toBe('Skill Base: 540 → 587 (+47)');
+    expect(formatChangelogChange('acquisition.auction.available', false, true).text).toBe('Now available in Auction');
+    expect(formatChangelogChange('skill.description', 'a'.repeat(60), 'b'.repeat(60)).text).toBe('Skill Effect: Updated');
+  });
+});
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+describe('card history: buildCardTimeline', () => {
+  it('lists versions newest first with stats before acquisition', () => {
+    const timeline = buildCardTimeline(HISTORY);
+    expect(timeline.map(e => e.version)).toEqual(['ccc3333', 'bbb2222']);
+    expect(timeline[1].changes.map(c => c.category)).toEqual(['stats', 'acquisition']);
+  });
+
+  it('drops per-item array changes when the whole array changed', () => {
+    const fields = buildCardTimeline(HISTORY)[0].changes.map(c => c.field);
+    expect(fields).toEqual(['skill.parsed.slv1', 'skill.tags']);
+  });
+
+  it('handles missing history', () => {
+    expect(buildCardTimeline(undefined)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Series
+// =============================================================================
+
+describe('card history: buildHistorySeries', () => {
+  it('walks the changelog back to the first-seen values', () => {
+    const points = buildHistorySeries(CARD);
+    expect(points.map(p => p.version)).toEqual(['aaa1111', 'bbb2222', 'ccc3333']);
+    expect(points.map(p => p.atk)).toEqual([7500, 8600, 8600]);
+    expect(points.map(p => p.hp)).toEqual([7000, 7000, 7000]);
+    // MLB skill value: slv1 + 89 × 20
+    expect(points.map(p => p.skill)).toEqual([2320, 2320, 2367]);
+    expect(getChangedSeries(points)).toEqual(['atk', 'skill']);
+  });
+
+  it('does not add a starting point when the card first appeared in the oldest entry', () => {
+    const history = { ...HISTORY, first_seen_version: 'bbb2222', first_seen: '2025-03-15' };
+    expect(buildHistorySeries({ ...CARD, history }).map(p => p.version)).toEqual(['bbb2222', 'ccc3333']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Card Level Tests
+ *
+ * Tests for the card detail page's level / LB viewer:
+ * - Level caps and settings clamping
+ * - ATK, HP, skill value, proc chance and delay at any level
+ * - Agreement with the index's LB0 / MLB snapshots
+ * - LB exceed multipliers
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getLevelCap,
+  clampLevelSettings,
+  getSkillValueAtLevel,
+  computeCardLevelValues,
+  computeLimitBreakSteps,
+  type LevelViewerSkill,
+  type LevelViewerStats,
+} from '../cardLevels';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+// Song of Karmic Downfall: index has slv 3,001 → 3,581, prob 66.16% → 78.96%, delay 14.66% → 17.46%
+const STATS: LevelViewerStats = {
+  rarity: 5,
+  max_level: 70,
+  base_atk: 2400,
+  max_atk: 7200,
+  base_hp: 3265,
+  max_hp: 9800,
+};
+
+const SKILL: LevelViewerSkill = {
+  description: 'Deals {value} DMG, with a {probability} of inflicting Weak Poison ({delay1}).',
+  slv1: 1000,
+  slvup: 29,
+  ml: 70,
+  ie: 'ATK<1000,29>',
+  de: 'POISON<5.0%,0.14%,5>;HIT<22.00%,0.64%>',
+};
+
+// =============================================================================
+// Levels
+// =============================================================================
+
+describe('card levels: caps and clamping', () => {
+  it('adds five levels per LB up to the MLB level', () => {
+    expect([0, 1, 2, 3, 4].map(lb => getLevelCap(STATS, lb))).toEqual([70, 75, 80, 85, 90]);
+    expect(getLevelCap({ rarity: 4, max_level: 60 }, 4)).toBe(80);
+  });
+
+  it('clamps out-of-range settings', () => {
+    expect(clampLevelSettings(STATS, { level: 120, limitBreak: 9, levelBonus: -3 }))
+      .toEqual({ level: 90, limitBreak: 4, levelBonus: 0 });
+    expect(clampLevelSettings(STATS, { level: 88, limitBreak: 2, levelBonus: 10 }))
+      .toEqual({ level: 80, limitBreak: 2, levelBonus: 10 });
+    expect(clampLevelSettings(STATS, { level: 0, limitBreak: 0, levelBonus: 0 }).level).toBe(1);
+  });
+});
+
+// =============================================================================
+// Values
+// =============================================================================
+
+describe('card levels: computeCardLevelValues', () => {
+  it('matches the index LB0 and MLB snapshots', () => {
+    const [lb0, , , , mlb] = computeLimitBreakSteps(STATS, SKILL, 0);
+    expect(lb0).toMatchObject({ atk: 7200, hp: 9800, skillValue: '3,001', probability: '66.16%', delay: '14.66%' });
+    expect(mlb).toMatchObject({ effectiveLevel: 90, skillValue: '3,581', probability: '78.96%', delay: '17.46%' });
+  });
+
+  it('fills in the intermediate LB steps', () => {
+    const lb2 = computeCardLevelValues(STATS, SKILL, { level: 80, limitBreak: 2, levelBonus: 0 });
+    expect(lb2).toMatchObject({ atk: 7896, skillValue: '3,291', probability: '72.56%', delay: '16.06%' });
+    expect(lb2.description).toBe('Deals 3,291 DMG, with a 72.56% of inflicting Weak Poison (16.06%).');
+  });
+
+  it('adds level bonus on top of the LB cap', () => {
+    const boosted = computeCardLevelValues(STATS, SKILL, { level: 90, limitBreak: 4, levelBonus: 10 });
+    expect(boosted.effectiveLevel).toBe(100);
+    expect(boosted.skillValue).toBe('3,871');
+    expect(boosted.skillMaxLevel).toBe(70);
+  });
+
+  it('reports the exceed roll range for the LB', () => {
+    const values = computeLimitBreakSteps(STATS, null, 0);
+    expect(values.map(v => v.exceedMax)).toEqual([1, 1.05, 1.1, 1.15, 1.2]);
+    expect(values[4].exceedAverage).toBe(1.1);
+    expect(values[4].description).toBeNull();
+  });
+});
+
+describe('card levels: getSkillValueAtLevel', () => {
+  it('falls back to the immediate effect without slv1', () => {
+    expect(getSkillValueAtLevel({ description: '', ie: 'HEAL<290,10>' }, 11)).toBe('390');
+    expect(getSkillValueAtLevel({ description: '' }, 11)).toBeNull();
+  });
+});
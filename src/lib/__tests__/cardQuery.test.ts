@@ -0,0 +1,142 @@
+/**
+ * Card Query Tests
+ *
+ * Tests for the card table's structured search syntax:
+ * - Tokenizing fields, operators, quotes and negation
+ * - Validation against the security allow-lists
+ * - Matching cards, including the LB0/MLB stat toggle
+ */
+import { describe, it, expect } from 'vitest';
+import { parseCardQuery, matchesCardQuery } from '../cardQuery';
+import type { Card } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createCard(overrides: Partial<Card['stats']> = {}, extra: Partial<Card> = {}): Card {
+  return {
+    id: '1',
+    name: 'Test Card',
+    playable: true,
+    stats: {
+      attribute: 1,
+      attribute_name: 'Divina',
+      type: 2,
+      type_name: 'Ranged',
+      rarity: 5,
+      cost: 20,
+      max_level: 70,
+      speed: 150,
+      base_atk: 1000,
+      max_atk: 6000,
+      base_hp: 1000,
+      max_hp: 4000,
+      crit: 10,
+      ...overrides,
+    },
+    skill: { id: 's1', name: 'Skill', description: '', tags: ['AoE', 'DMG'] },
+    abilities: [
+      { id: 'a1', name: 'A1', description: '', tags: ['Wave Start', 'DMG Boost'] },
+    ],
+    bonds: [{ id: 'b', target_id: '2', type: 'Attack', effect: '', bonus_percent: 10, name: 'Bond' }],
+    acquisition: { sources: ['event'], currently_available: false },
+    ...extra,
+  } as Card;
+}
+
+const matches = (query: string, card: Card, isMLB = false) =>
+  matchesCardQuery(card, parseCardQuery(query).clauses, isMLB);
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('card query: parseCardQuery', () => {
+  it('leaves plain text for fuzzy search', () => {
+    expect(parseCardQuery('  krampus   claus ')).toEqual({ text: 'krampus claus', clauses: [], errors: [] });
+  });
+
+  it('parses the documented example', () => {
+    const query = parseCardQuery('attr:divina type:ranged atk>5000 skill:"Wave Start" -source:gacha momo');
+    expect(query.errors).toEqual([]);
+    expect(query.text).toBe('momo');
+    expect(query.clauses).toEqual([
+      { kind: 'term', field: 'attr', values: ['Divina'], negated: false },
+      { kind: 'term', field: 'type', values: ['Ranged'], negated: false },
+      { kind: 'numeric', field: 'atk', operator: '>', values: [5000], negated: false },
+      { kind: 'term', field: 'skill', values: ['Wave Start'], negated: false },
+      { kind: 'term', field: 'source', values: ['gacha'], negated: true },
+    ]);
+  });
+
+  it('supports aliases, comma lists and k suffixes', () => {
+    const query = parseCardQuery('attribute:anima,phantasma spd>=200 rarity:4,5 hp<1.5k');
+    expect(query.clauses).toEqual([
+      { kind: 'term', field: 'attr', values: ['Anima', 'Phantasma'], negated: false },
+      { kind: 'numeric', field: 'speed', operator: '>=', values: [200], negated: false },
+      { kind: 'numeric', field: 'rarity', operator: '=', values: [4, 5], negated: false },
+      { kind: 'numeric', field: 'hp', operator: '<', values: [1500], negated: false },
+    ]);
+  });
+
+  it('reports values outside the allow-lists and drops them', () => {
+    const query = parseCardQuery('attr:divna,anima type:tank skill:<script> atk>lots');
+    expect(query.clauses).toEqual([{ kind: 'term', field: 'attr', values: ['Anima'], negated: false }]);
+    expect(query.errors).toEqual([
+      'Unknown attr "divna"',
+      'Unknown type "tank"',
+      'Unknown skill "<script>"',
+      'atk needs a number, got "lots"',
+    ]);
+  });
+
+  it('rejects comparisons on text fields and empty values', () => {
+    expect(parseCardQuery('type>melee').errors).toEqual(['type cannot be compared with >']);
+    expect(parseCardQuery('attr:').errors).toEqual(['Missing value for attr']);
+    expect(parseCardQuery('atk>1,2').errors).toEqual(['atk> takes a single number']);
+  });
+
+  it('keeps unknown prefixes as free text', () => {
+    expect(parseCardQuery('Re:Zero -foo')).toEqual({ text: 'Re:Zero -foo', clauses: [], errors: [] });
+  });
+});
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+describe('card query: matchesCardQuery', () => {
+  const card = createCard();
+
+  it('matches terms case-insensitively and ANDs clauses', () => {
+    expect(matches('attr:divina type:ranged', card)).toBe(true);
+    expect(matches('attr:divina type:melee', card)).toBe(false);
+    expect(matches('type:melee,ranged', card)).toBe(true);
+  });
+
+  it('matches skill and ability tags, sources and bonds', () => {
+    expect(matches('skill:aoe ability:"wave start"', card)).toBe(true);
+    expect(matches('skill:"Wave Start"', card)).toBe(false);
+    expect(matches('source:event bond:attack', card)).toBe(true);
+    expect(matches('is:available', card)).toBe(false);
+    expect(matches('is:playable', card)).toBe(true);
+  });
+
+  it('negates clauses', () => {
+    expect(matches('-source:gacha', card)).toBe(true);
+    expect(matches('-source:event', card)).toBe(false);
+  });
+
+  it('compares numeric stats', () => {
+    expect(matches('atk>5000 speed<=150 crit=10 cost:20', card)).toBe(true);
+    expect(matches('atk>=6001', card)).toBe(false);
+    expect(matches('rarity:4,5', card)).toBe(true);
+  });
+
+  it('uses MLB ATK when the table shows MLB stats', () => {
+    // LB0 max 6000 at lv70, MLB extrapolates to lv90
+    expect(matches('atk>7000', card, false)).toBe(false);
+    expect(matches('atk>7000', card, true)).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Card Table Query Tests
+ *
+ * Tests for the search / filter / sort pass the card table runs in a worker:
+ * - Dropdown filters (any-of, all-of tag semantics, playable default)
+ * - Fuse relevance order, event-name matches appended after it
+ * - Sorting by column, with MLB stats and missing values last
+ * - The per-list summary and the trimmed rows the worker posts back
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CARD_TABLE_QUERY,
+  createCardTableIndex,
+  runCardTableQuery,
+  summarizeCardTable,
+  toCardTableRow,
+  type CardTableQuery,
+} from '../cardTableQuery';
+import type { Card } from '../../types/card';
+import type { EventEntry } from '../eventFilter';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function makeCard(id: string, name: string, overrides: Partial<Card> = {}): Card {
+  return {
+    id,
+    name,
+    playable: true,
+    stats: {
+      attribute_name: 'Divina', type_name: 'Healer', rarity: 5, cost: 3,
+      base_atk: 2000, max_atk: 8000, base_hp: 3000, max_hp: 9000, speed: 1300, crit: 750, max_level: 70,
+    },
+    skill: { name: 'Heal', description: 'Heals allies', tags: ['Heal'] },
+    abilities: [{ name: 'Grace', description: 'Team DMG up', tags: ['Team', 'DMG Boost'] }],
+    acquisition: { sources: ['gacha'] },
+    ...overrides,
+  } as unknown as Card;
+}
+
+const CARDS: Card[] = [
+  makeCard('1', 'Kaguya'),
+  makeCard('2', 'Momotaro', {
+    stats: { attribute_name: 'Anima', type_name: 'Melee', rarity: 4, cost: 2, max_atk: 9000, max_hp: 5000, speed: 1500, crit: 500 } as Card['stats'],
+    acquisition: { sources: ['event'] } as Card['acquisition'],
+  }),
+  makeCard('10', 'Kaguya (Summer)', { abilities: [{ name: 'Heat', description: 'Self ATK up', tags: ['Self'] }] as Card['abilities'] }),
+  makeCard('11', 'Oni Guard', { playable: false }),
+];
+
+const EVENTS: EventEntry[] = [{ name: 'Summer Festival', cards: ['2'] }];
+
+function run(overrides: Partial<CardTableQuery>, cards = CARDS): string[] {
+  return runCardTableQuery(createCardTableIndex(cards, EVENTS), { ...DEFAULT_CARD_TABLE_QUERY, ...overrides });
+}
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+describe('cardTableQuery: filters', () => {
+  it('hides non-playable cards by default and keeps index order', () => {
+    expect(run({})).toEqual(['1', '2', '10']);
+    expect(run({ playableOnly: false })).toEqual(['1', '2', '10', '11']);
+  });
+
+  it('matches any selected value within a dropdown, all dropdowns together', () => {
+    expect(run({ attributes: ['Divina', 'Anima'] })).toEqual(['1', '2', '10']);
+    expect(run({ attributes: ['Divina'], sources: ['event'] })).toEqual([]);
+  });
+
+  it('requires every selected ability tag on a single ability', () => {
+    expect(run({ abilityTags: ['Team', 'DMG Boost'] })).toEqual(['1', '2']);
+    expect(run({ abilityTags: ['Team', 'Self'] })).toEqual([]);
+  });
+
+  it('applies event, owned and effect filters by card ID', () => {
+    expect(run({ events: ['Summer Festival'] })).toEqual(['2']);
+    expect(run({ ownedIds: ['10', '1'] })).toEqual(['1', '10']);
+    expect(run({ effectMagnitudes: { '10': 20 } })).toEqual(['10']);
+  });
+
+  it('applies structured clauses from the search box', () => {
+    expect(run({ search: 'attr:anima' })).toEqual(['2']);
+  });
+});
+
+// =============================================================================
+// Search
+// =============================================================================
+
+describe('cardTableQuery: search', () => {
+  it('orders by relevance, then cards from events whose name matches', () => {
+    const ids = run({ search: 'summer' });
+    expect(ids[0]).toBe('10');
+    expect(ids).toContain('2');
+    expect(ids.indexOf('2')).toBeGreaterThan(ids.indexOf('10'));
+  });
+
+  it('still applies filters to search results', () => {
+    expect(run({ search: 'kaguya', attributes: ['Anima'] })).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+describe('cardTableQuery: sorting', () => {
+  it('sorts IDs naturally and names alphabetically', () => {
+    expect(run({ sort: { id: 'id', desc: true } })).toEqual(['10', '2', '1']);
+    expect(run({ sort: { id: 'name', desc: false } })).toEqual(['1', '10', '2']);
+  });
+
+  it('sorts ATK by the LB mode shown', () => {
+    // Kaguya's MLB ATK overtakes Momotaro's flat 9000 (no max_level, so no MLB value)
+    expect(run({ sort: { id: 'max_atk', desc: true }, isMLB: true })[0]).toBe('1');
+    expect(run({ sort: { id: 'max_atk', desc: true }, isMLB: false })[0]).toBe('2');
+  });
+
+  it('puts cards without a sort value last in either direction', () => {
+    const cards = [makeCard('1', 'Kaguya', { stats: { ...CARDS[0].stats, speed: undefined } as unknown as Card['stats'] }), CARDS[1]];
+    expect(run({ sort: { id: 'speed', desc: true } }, cards)).toEqual(['2', '1']);
+    expect(run({ sort: { id: 'speed', desc: false } }, cards)).toEqual(['2', '1']);
+  });
+});
+
+// =============================================================================
+// Summary and rows
+// =============================================================================
+
+describe('cardTableQuery: summary', () => {
+  it('counts the cards and collects their filter options', () => {
+    const summary = summarizeCardTable(CARDS);
+    expect(summary.total).toBe(4);
+    expect(summary.filterOptions.attributes).toEqual(['Divina', 'Anima']);
+    expect(summary.filterOptions.sources).toEqual(expect.arrayContaining(['gacha', 'event']));
+  });
+
+  it('gives slider bounds per LB mode', () => {
+    const { statBounds } = summarizeCardTable(CARDS);
+    expect(statBounds.lb0.atk).toEqual({ min: 8000, max: 9000 });
+    expect(statBounds.mlb.atk.max).toBeGreaterThan(9000);
+    expect(statBounds.mlb.speed).toEqual(statBounds.lb0.speed);
+  });
+
+  it('is empty for no cards', () => {
+    const summary = summarizeCardTable([]);
+    expect(summary.total).toBe(0);
+    expect(summary.statBounds.mlb.hp).toEqual({ min: 0, max: 0 });
+  });
+
+  it('drops the detail-page fields from rows', () => {
+    const card = makeCard('1', 'Kaguya', { description: 'Moon princess', meta: {} as Card['meta'], history: {} as Card['history'] });
+    const row = toCardTableRow(card);
+    expect(row).not.toHaveProperty('description');
+    expect(row).not.toHaveProperty('meta');
+    expect(row).not.toHaveProperty('history');
+    expect(row).toMatchObject({ id: '1', name: 'Kaguya', stats: card.stats, skill: card.skill });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeOwnedCard,
+  toOwnedMap,
+  getOwnedCards,
+  setOwnedCard,
+  MAX_LIMIT_BREAK,
+  MAX_LEVEL_BONUS,
+} from '../collection';
+
+describe('normalizeOwnedCard', () => {
+  it('defaults new entries to MLB with no level bonus', () => {
+    expect(normalizeOwnedCard({ cardId: '1770' }, 123)).toEqual({
+      cardId: '1770',
+      limitBreak: MAX_LIMIT_BREAK,
+      levelBonus: 0,
+      updatedAt: 123,
+    });
+  });
+
+  it('keeps valid values', () => {
+    const entry = normalizeOwnedCard({ cardId: '1', limitBreak: 2, levelBonus: 12, updatedAt: 5 });
+    expect(entry).toEqual({ cardId: '1', limitBreak: 2, levelBonus: 12, updatedAt: 5 });
+  });
+
+  it('clamps out-of-range and fractional values', () => {
+    const entry = normalizeOwnedCard({ cardId: '1', limitBreak: 9, levelBonus: -3 });
+    expect(entry.limitBreak).toBe(MAX_LIMIT_BREAK);
+    expect(entry.levelBonus).toBe(0);
+    expect(normalizeOwnedCard({ cardId: '1', levelBonus: 99 }).levelBonus).toBe(MAX_LEVEL_BONUS);
+    expect(normalizeOwnedCard({ cardId: '1', limitBreak: 1.6 }).limitBreak).toBe(2);
+  });
+
+  it('falls back to defaults for non-numeric values', () => {
+    const entry = normalizeOwnedCard({ cardId: '1', limitBreak: NaN, levelBonus: 'x' as unknown as number });
+    expect(entry.limitBreak).toBe(MAX_LIMIT_BREAK);
+    expect(entry.levelBonus).toBe(0);
+  });
+});
+
+describe('toOwnedMap', () => {
+  it('indexes entries by card id', () => {
+    const map = toOwnedMap([
+      normalizeOwnedCard({ cardId: 'a', limitBreak: 1 }),
+      normalizeOwnedCard({ cardId: 'b', limitBreak: 3 }),
+    ]);
+    expect(map.size).toBe(2);
+    expect(map.get('b')?.limitBreak).toBe(3);
+    expect(map.has('c')).toBe(false);
+  });
+});
+
+describe('collection storage without IndexedDB', () => {
+  it('reads an empty collection and ignores writes', async () => {
+    await expect(setOwnedCard({ cardId: '1' })).resolves.toBeUndefined();
+    await expect(getOwnedCards()).resolves.toEqual([]);
+  });
+});
@@ -19,6 +19,11 @@ import {
   calculateDamage,
   calcAtkAtLevel,
   getEffectiveLevel,
+  createSeededRandom,
+  getExceedRange,
+  rollHits,
+  summarizeDistribution,
+  probabilityOfReaching,
 } from '../damage-calc';
 import { RACE_BONUS_CONSTANTS } from '../team-calc-types';
 
@@ -1126,3 +1131,122 @@ describe('Multiplier Interaction Edge Cases', () => {
     expect(result.normalDamage).toBe(expected);
   });
 });
+
+// =============================================================================
+// Monte Carlo Distribution
+// Per-hit crit and Random(0, 5% × LB) exceed rolls
+// =============================================================================
+
+describe('Monte Carlo Distribution', () => {
+  const baseInput = {
+    baseAtk: 1000,
+    maxAtk: 10000,
+    maxLevel: 70,
+    baseCrit: 0,
+    baseSpeed: 150,
+    skillSlv1: 5000,
+    skillSlvup: 100,
+    skillMaxLevel: 70,
+    limitBreak: 0,
+    dmgPercent: 0,
+    normalDmgPercent: 0,
+    critRateBonus: 0,
+    critDmgBonus: 0,
+    skillDmgPercent: 0,
+    speedBonus: 0,
+    levelBonus: 0,
+    skillCritRateBonus: 0,
+    skillCritDmgBonus: 0,
+    enemyShieldDebuff: 0,
+  };
+
+  it('seeded RNG is deterministic and in [0, 1)', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    for (let i = 0; i < 100; i++) {
+      const value = a();
+      expect(value).toBe(b());
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('exceed range is 5% per LB', () => {
+    expect(getExceedRange(0)).toBeCloseTo(0, 10);
+    expect(getExceedRange(1)).toBeCloseTo(0.05, 10);
+    expect(getExceedRange(4)).toBeCloseTo(0.20, 10);
+  });
+
+  it('no calculateDamage distributions unless requested', () => {
+    const result = calculateDamage(baseInput);
+    expect(result.normalDistribution).toBeUndefined();
+    expect(result.skillDistribution).toBeUndefined();
+  });
+
+  it('LB0 with no crit collapses to the deterministic hit', () => {
+    const result = calculateDamage(baseInput, { samples: 200 });
+    const dist = result.normalDistribution!;
+    expect(dist.min).toBe(result.normalDamage);
+    expect(dist.max).toBe(result.normalDamage);
+    expect(dist.p10).toBe(dist.p90);
+    expect(dist.histogram).toHaveLength(1);
+    expect(dist.histogram[0].count).toBe(200);
+  });
+
+  it('exceed rolls stay within LB_EXCEED_MIN..MAX', () => {
+    const result = calculateDamage({ ...baseInput, limitBreak: 4 }, { samples: 2000 });
+    const dist = result.normalDistribution!;
+    const rawBase = calcAtkAtLevel(1000, 10000, 70, getEffectiveLevel(70, 4, 0)) / 10;
+
+    expect(dist.min).toBeGreaterThanOrEqual(Math.round(rawBase * LB_EXCEED_MIN[4]));
+    expect(dist.max).toBeLessThanOrEqual(Math.round(rawBase * LB_EXCEED_MAX[4]));
+    // Mean converges on the LB_EXCEED_AVERAGE used by the deterministic path
+    expect(dist.mean / result.normalDamage).toBeCloseTo(1, 2);
+  });
+
+  it('same seed gives the same distribution, different seed differs', () => {
+    const input = { ...baseInput, baseCrit: 5000, limitBreak: 3 };
+    const a = calculateDamage(input, { seed: 7, samples: 500 }).normalDistribution!;
+    const b = calculateDamage(input, { seed: 7, samples: 500 }).normalDistribution!;
+    const c = calculateDamage(input, { seed: 8, samples: 500 }).normalDistribution!;
+    expect(a.sorted).toEqual(b.sorted);
+    expect(a.sorted).not.toEqual(c.sorted);
+  });
+
+  it('crit rolls converge on the expected damage', () => {
+    const result = calculateDamage({ ...baseInput, baseCrit: 3000 }, { samples: 5000 });
+    const dist = result.normalDistribution!;
+    expect(dist.min).toBe(result.normalDamage);
+    expect(dist.max).toBe(result.normalDamageCrit);
+    expect(Math.abs(dist.mean - result.normalDamageExpected) / result.normalDamageExpected).toBeLessThan(0.02);
+  });
+
+  it('each hit is capped individually', () => {
+    const hit = rollHits(
+      { base: 80000, critRate: 1, critMult: 2, exceedRange: 0.2, cap: DAMAGE_CAPS.normal, hits: 10 },
+      createSeededRandom(1)
+    );
+    expect(hit).toBe(DAMAGE_CAPS.normal * 10);
+  });
+
+  it('durationSeconds derives the normal hit count from attack interval', () => {
+    // speed 150 → 1.0s interval → 30 hits in 30s
+    const result = calculateDamage(baseInput, { samples: 10, durationSeconds: 30 });
+    expect(result.normalDistribution!.p50).toBe(result.normalDamage * 30);
+  });
+
+  it('summarizes percentiles, histogram and target probability', () => {
+    const totals = Array.from({ length: 100 }, (_, i) => i + 1); // 1..100
+    const dist = summarizeDistribution(totals, 10);
+
+    expect(dist.p10).toBe(10);
+    expect(dist.p50).toBe(50);
+    expect(dist.p90).toBe(90);
+    expect(dist.histogram).toHaveLength(10);
+    expect(dist.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(100);
+
+    expect(probabilityOfReaching(dist, 0)).toBe(1);
+    expect(probabilityOfReaching(dist, 91)).toBeCloseTo(0.1, 10);
+    expect(probabilityOfReaching(dist, 101)).toBe(0);
+  });
+});
@@ -4,9 +4,20 @@ import {
   buildTiers,
   buildChartData,
   linearRegression,
-  buildTrendData,
+  parseScoreInput,
+  normalCdf,
+  planScoreTarget,
+  compareWithPastEvents,
+  weightedLinearRegression,
+  getCutoffModel,
+  getTierPoints,
+  buildModelPredictions,
+  buildModelTrendData,
+  backtestModel,
+  backtestModels,
+  CUTOFF_MODELS,
 } from '../eventRankings';
-import type { EventCutoff } from '../eventRankings';
+import type { EventCutoff, PredictionRange } from '../eventRankings';
 
 // --- Fixtures ---
 
@@ -257,10 +268,10 @@ describe('linearRegression', () => {
 });
 
 // =============================================================================
-// buildTrendData
+// buildModelTrendData
 // =============================================================================
 
-describe('buildTrendData', () => {
+describe('buildModelTrendData', () => {
   it('produces trend values for active tiers', () => {
     const event = makeEvent('A', 'tower', { overall: TOWER_CUTOFFS });
     const tiers = buildTiers([event, makeEvent('B', 'tower', { overall: [
@@ -277,7 +288,7 @@ describe('buildTrendData', () => {
     );
 
     const activeTiers = new Set(['T1']);
-    const trends = buildTrendData(chartData, tiers, activeTiers);
+    const trends = buildModelTrendData(chartData, tiers, activeTiers, getCutoffModel('linear'));
 
     expect(trends).toHaveLength(2);
     expect(trends[0]).toHaveProperty('trend_T1');
@@ -290,7 +301,208 @@ describe('buildTrendData', () => {
     const tiers = buildTiers([event], 'overall');
     const chartData = buildChartData([event], 'overall', tiers);
 
-    const trends = buildTrendData(chartData, tiers, new Set<string>());
+    const trends = buildModelTrendData(chartData, tiers, new Set<string>(), getCutoffModel('linear'));
     expect(Object.keys(trends[0])).toHaveLength(0);
   });
 });
+
+// =============================================================================
+// parseScoreInput
+// =============================================================================
+
+describe('parseScoreInput', () => {
+  it('parses plain numbers with or without commas', () => {
+    expect(parseScoreInput('850000000')).toBe(850_000_000);
+    expect(parseScoreInput(' 1,234,567 ')).toBe(1_234_567);
+  });
+
+  it('parses K/M/B suffixes in either case', () => {
+    expect(parseScoreInput('1.5B')).toBe(1_500_000_000);
+    expect(parseScoreInput('300m')).toBe(300_000_000);
+    expect(parseScoreInput('12.5 K')).toBe(12_500);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseScoreInput('')).toBeNull();
+    expect(parseScoreInput('-5')).toBeNull();
+    expect(parseScoreInput('1.5T')).toBeNull();
+    expect(parseScoreInput('abc')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Score target planning
+// =============================================================================
+
+describe('normalCdf', () => {
+  it('matches standard normal values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1)).toBeCloseTo(0.8413, 4);
+    expect(normalCdf(-1.6449)).toBeCloseTo(0.05, 4);
+  });
+});
+
+describe('planScoreTarget', () => {
+  const range: PredictionRange = { predicted: 1_000_000, low: 900_000, high: 1_100_000, stdDev: 100_000, n: 5 };
+
+  it('computes the remaining and required daily score', () => {
+    const plan = planScoreTarget(range, null, 300_000, 7)!;
+    expect(plan.remaining).toBe(700_000);
+    expect(plan.requiredDaily).toBe(100_000);
+    expect(plan.projected).toBe(1_000_000);
+    expect(plan.probability).toBeCloseTo(0.5, 6);
+  });
+
+  it('gives the probability of making the tier at a planned pace', () => {
+    const plan = planScoreTarget(range, null, 300_000, 7, 700_000 / 7 + 100_000 / 7)!;
+    expect(plan.projected).toBeCloseTo(1_100_000);
+    expect(plan.probability).toBeCloseTo(0.8413, 3);
+  });
+
+  it('lists the daily score needed per confidence level', () => {
+    const plan = planScoreTarget(range, null, 0, 10)!;
+    expect(plan.levels.map(l => l.confidence)).toEqual([0.5, 0.8, 0.95]);
+    expect(plan.levels[0].requiredDaily).toBe(100_000);
+    expect(plan.levels[2].target).toBe(1_164_490);
+  });
+
+  it('needs nothing once the score is already above the cutoff', () => {
+    const plan = planScoreTarget(range, null, 2_000_000, 3)!;
+    expect(plan.remaining).toBe(0);
+    expect(plan.requiredDaily).toBe(0);
+    expect(plan.probability).toBeGreaterThan(0.99);
+  });
+
+  it('falls back to a linear projection without a probability', () => {
+    const plan = planScoreTarget(null, 500_000, 100_000, 0)!;
+    expect(plan.requiredDaily).toBe(400_000); // at least one day
+    expect(plan.probability).toBeNull();
+    expect(plan.levels).toEqual([]);
+  });
+
+  it('returns null without any prediction', () => {
+    expect(planScoreTarget(null, null, 0, 5)).toBeNull();
+  });
+});
+
+describe('compareWithPastEvents', () => {
+  it('checks the projected score against each past cutoff, newest first', () => {
+    const older = { ...makeEvent('Old', 'tower', { overall: TOWER_CUTOFFS }), start_date: '2025-01-01' };
+    const newer = {
+      ...makeEvent('New', 'tower', { overall: TOWER_CUTOFFS.map(c => ({ ...c, cutoff_score: c.cutoff_score * 2 })) }),
+      start_date: '2025-06-01',
+    };
+    const missing = makeEvent('Missing', 'tower', { first_half: TOWER_CUTOFFS });
+    const tier = buildTiers([older], 'overall')[2]; // #81–160 at 3B / 6B
+
+    const result = compareWithPastEvents([older, newer, missing], 'overall', tier, 4_000_000_000);
+    expect(result.map(r => [r.event_name, r.cutoff, r.reached])).toEqual([
+      ['New', 6_000_000_000, false],
+      ['Old', 3_000_000_000, true],
+    ]);
+  });
+});
+
+// =============================================================================
+// Prediction models
+// =============================================================================
+
+/** Chart rows for one tier key from a list of scores (null = missing). */
+function rows(scores: (number | null)[]): Record<string, string | number>[] {
+  return scores.map((score, i): Record<string, string | number> =>
+    score == null ? { name: `E${i}` } : { name: `E${i}`, T1: score }
+  );
+}
+
+const T1 = [{ key: 'T1', rank_min: 1, rank_max: 40, rangeLabel: '#1–40' }];
+
+describe('weightedLinearRegression', () => {
+  it('matches ordinary regression with equal weights', () => {
+    const points = [{ x: 0, y: 1 }, { x: 1, y: 4 }, { x: 2, y: 5 }];
+    const weighted = weightedLinearRegression(points.map(p => ({ ...p, w: 1 })))!;
+    const plain = linearRegression(points)!;
+    expect(weighted.slope).toBeCloseTo(plain.slope);
+    expect(weighted.intercept).toBeCloseTo(plain.intercept);
+  });
+
+  it('returns null without spread in x', () => {
+    expect(weightedLinearRegression([{ x: 1, y: 1, w: 1 }, { x: 1, y: 2, w: 1 }])).toBeNull();
+  });
+});
+
+describe('cutoff models', () => {
+  it('linear model extrapolates the regression with a ±1 residual std dev range', () => {
+    // y = 41x + 98; residuals 2, 1, −10, 9, −2 → std dev √(190 / 3) ≈ 7.96
+    const data = rows([100, 140, 170, 230, 260]);
+    const { points, ranges } = buildModelPredictions(data, T1, getCutoffModel('linear'));
+    expect(points).toEqual({ T1: 303 });
+    expect(ranges).toEqual({ T1: { predicted: 303, low: 295, high: 311, stdDev: 8, n: 5 } });
+  });
+
+  it('log model follows steady percentage growth', () => {
+    const data = rows([100, 200, 400, 800]);
+    expect(buildModelPredictions(data, T1, getCutoffModel('log')).points.T1).toBe(1600);
+    // A straight line falls well short of the curve
+    expect(buildModelPredictions(data, T1, getCutoffModel('linear')).points.T1).toBe(950);
+  });
+
+  it('recency model leans towards recent events', () => {
+    const data = rows([1000, 1000, 1000, 1000, 500, 500]);
+    const recency = buildModelPredictions(data, T1, getCutoffModel('recency')).points.T1!;
+    const linear = buildModelPredictions(data, T1, getCutoffModel('linear')).points.T1!;
+    expect(recency).toBeLessThan(linear);
+  });
+
+  it('participation model scales score per participant', () => {
+    const data = rows([1000, 2000, 3000]);
+    const participation = [100, 200, 300]; // 10 points per participant every time
+    const { points } = buildModelPredictions(data, T1, getCutoffModel('participation'), participation);
+    expect(points.T1).toBe(3000); // flat 10/participant × latest 300 participants
+  });
+
+  it('participation model needs participation data', () => {
+    const { points } = buildModelPredictions(rows([1000, 2000, 3000]), T1, getCutoffModel('participation'));
+    expect(points.T1).toBeNull();
+  });
+
+  it('recent mean averages the last events with one fewer parameter', () => {
+    const data = rows([100, 900, 300, 600]);
+    const { points, ranges } = buildModelPredictions(data, T1, getCutoffModel('recent_mean'));
+    expect(points.T1).toBe(600);
+    expect(ranges.T1?.n).toBe(4);
+  });
+
+  it('skips missing values when collecting points', () => {
+    expect(getTierPoints(rows([100, null, 300]), 'T1', [5, 6, 7])).toEqual([
+      { x: 0, y: 100, participation: 5 },
+      { x: 2, y: 300, participation: 7 },
+    ]);
+  });
+
+  it('draws trend lines only for active tiers', () => {
+    const trend = buildModelTrendData(rows([100, 200, 400]), T1, new Set(['T1']), getCutoffModel('log'));
+    expect(trend[2].trend_T1).toBeCloseTo(400, 0);
+    expect(buildModelTrendData(rows([100, 200]), T1, new Set(), getCutoffModel('log'))[0]).toEqual({});
+  });
+
+  it('every model has a unique id', () => {
+    expect(new Set(CUTOFF_MODELS.map(m => m.id)).size).toBe(CUTOFF_MODELS.length);
+  });
+});
+
+describe('backtesting', () => {
+  it('scores each event after the second from the events before it', () => {
+    const points = getTierPoints(rows([100, 200, 300, 400]), 'T1');
+    expect(backtestModel(points, getCutoffModel('linear'))).toEqual([0, 0]);
+    // Mean of [100, 200] = 150 vs 300; mean of [100, 200, 300] = 200 vs 400
+    expect(backtestModel(points, getCutoffModel('recent_mean'))).toEqual([0.5, 0.5]);
+  });
+
+  it('pools errors across tiers and reports null when nothing can be scored', () => {
+    const results = backtestModels(rows([100, 200, 400, 800]), T1);
+    expect(results.log).toEqual({ mape: expect.closeTo(0, 6), count: 2 });
+    expect(results.linear!.mape).toBeGreaterThan(0);
+    expect(results.participation).toBeNull();
+    expect(backtestModels(rows([100, 200]), T1).linear).toBeNull();
+  });
+});
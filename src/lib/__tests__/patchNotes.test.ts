@@ -0,0 +1,185 @@
+/**
+ * Patch Notes Tests
+ *
+ * Tests for the updates page filters and the "since version" merge:
+ * - Card (attribute / rarity) and change (category / text) matching
+ * - Version ranges for the since view
+ * - Merging several patch notes into one change set
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_UPDATES_FILTER,
+  getCategoryColors,
+  getNewCardText,
+  getVersionsSince,
+  isUpdatesFilterEmpty,
+  matchesUpdateCard,
+  matchesUpdateChange,
+  mergePatchNotes,
+  type PatchChange,
+  type PatchNotes,
+} from '../patchNotes';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function change(field: string, oldVal: unknown, newVal: unknown, category = 'stats'): PatchChange {
+  return {
+    category,
+    category_label: category,
+    field,
+    field_label: field === 'stats.max_atk' ? 'Max ATK' : field,
+    old: oldVal,
+    new: newVal,
+    display: `${field}: ${oldVal} → ${newVal}`,
+  };
+}
+
+function notes(version: string, date: string, partial: Partial<PatchNotes>): PatchNotes {
+  return {
+    version,
+    version_date: date,
+    previous_version: null,
+    summary: { new_cards: 0, modified_cards: 0 },
+    new_cards: [],
+    modified_cards: [],
+    ...partial,
+  };
+}
+
+const NEW_CARD = { id: '900', name: 'Momotaro', rarity: 5, attribute: 'Divina', type: 'Melee', image_url: null };
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+describe('patch notes: matching', () => {
+  it('treats the empty filter as matching everything', () => {
+    expect(isUpdatesFilterEmpty(EMPTY_UPDATES_FILTER)).toBe(true);
+    expect(isUpdatesFilterEmpty({ ...EMPTY_UPDATES_FILTER, search: '  ' })).toBe(true);
+    expect(matchesUpdateCard({ name: 'Nue', attribute: null, rarity: 3 }, EMPTY_UPDATES_FILTER)).toBe(true);
+  });
+
+  it('filters cards by attribute and rarity', () => {
+    const filter = { ...EMPTY_UPDATES_FILTER, attributes: ['Divina'], rarities: [5] };
+    expect(matchesUpdateCard({ name: 'A', attribute: 'Divina', rarity: 5 }, filter)).toBe(true);
+    expect(matchesUpdateCard({ name: 'A', attribute: 'Anima', rarity: 5 }, filter)).toBe(false);
+    expect(matchesUpdateCard({ name: 'A', attribute: 'Divina', rarity: 4 }, filter)).toBe(false);
+    // Unknown attribute never matches an attribute filter
+    expect(matchesUpdateCard({ name: 'A', attribute: null, rarity: 5 }, filter)).toBe(false);
+  });
+
+  it('filters changes by category and searches name or change text', () => {
+    const filter = { ...EMPTY_UPDATES_FILTER, categories: ['skill'], search: 'base' };
+    expect(matchesUpdateChange({ category: 'skill', text: 'Skill Base: 540 → 587' }, 'Nue', filter)).toBe(true);
+    expect(matchesUpdateChange({ category: 'stats', text: 'Base ATK: 1 → 2' }, 'Nue', filter)).toBe(false);
+    expect(matchesUpdateChange({ category: 'skill', text: 'Skill Tags: Updated' }, 'Baseball Nue', filter)).toBe(true);
+    expect(matchesUpdateChange({ category: 'skill', text: 'Skill Tags: Updated' }, 'Nue', filter)).toBe(false);
+  });
+
+  it('builds searchable text for new cards and falls back to grey chips', () => {
+    expect(getNewCardText(NEW_CARD)).toBe('Momotaro Divina Melee');
+    expect(getCategoryColors('skill').color).toBe('rgb(168, 85, 247)');
+    expect(getCategoryColors('unknown').color).toBe('rgb(156, 163, 175)');
+  });
+});
+
+// =============================================================================
+// Version ranges
+// =============================================================================
+
+describe('patch notes: getVersionsSince', () => {
+  const versions = [
+    { version: 'ccc', date: '2025-06-01' },
+    { version: 'nodate', date: null },
+    { version: 'aaa', date: '2025-01-01' },
+    { version: 'bbb', date: '2025-03-01' },
+  ];
+
+  it('returns newer versions oldest first, undated last', () => {
+    expect(getVersionsSince(versions, 'aaa').map(v => v.version)).toEqual(['bbb', 'ccc', 'nodate']);
+  });
+
+  it('returns nothing for unknown or undated starting versions', () => {
+    expect(getVersionsSince(versions, 'zzz')).toEqual([]);
+    expect(getVersionsSince(versions, 'nodate')).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+describe('patch notes: mergePatchNotes', () => {
+  it('keeps the first old and last new value and rebuilds the display', () => {
+    const merged = mergePatchNotes([
+      notes('bbb', '2025-03-01', {
+        modified_cards: [{ id: '1', name: 'Nue', rarity: 5, image_url: null, changes: [change('stats.max_atk', 7000, 7500)] }],
+      }),
+      notes('ccc', '2025-06-01', {
+        modified_cards: [{ id: '1', name: 'Nue', rarity: 5, image_url: null, changes: [change('stats.max_atk', 7500, 8000)] }],
+      }),
+    ]);
+    expect(merged.versions).toEqual(['bbb', 'ccc']);
+    expect(merged.modified_cards).toHaveLength(1);
+    const [atk] = merged.modified_cards[0].changes;
+    expect([atk.old, atk.new]).toEqual([7000, 8000]);
+    expect(atk.display).toBe('Max ATK: 7000 → 8000 (+1000)');
+  });
+
+  it('keeps single-step display strings from the pipeline', () => {
+    const merged = mergePatchNotes([
+      notes('bbb', '2025-03-01', {
+        modified_cards: [{ id: '1', name: 'Nue', rarity: 5, image_url: null, changes: [change('stats.max_hp', 1, 2)] }],
+      }),
+    ]);
+    expect(merged.modified_cards[0].changes[0].display).toBe('stats.max_hp: 1 → 2');
+  });
+
+  it('drops changes that were reverted and cards left with none', () => {
+    const merged = mergePatchNotes([
+      notes('bbb', '2025-03-01', {
+        modified_cards: [{ id: '1', name: 'Nue', rarity: 5, image_url: null, changes: [change('skill.tags', ['A'], ['B'], 'skill')] }],
+      }),
+      notes('ccc', '2025-06-01', {
+        modified_cards: [{ id: '1', name: 'Nue', rarity: 5, image_url: null, changes: [change('skill.tags', ['B'], ['A'], 'skill')] }],
+      }),
+    ]);
+    expect(merged.modified_cards).toEqual([]);
+  });
+
+  it('folds edits to cards added inside the range into the new card', () => {
+    const merged = mergePatchNotes([
+      notes('bbb', '2025-03-01', { new_cards: [NEW_CARD] }),
+      notes('ccc', '2025-06-01', {
+        modified_cards: [{ id: '900', name: 'Momotaro', rarity: 5, image_url: null, changes: [change('stats.max_atk', 1, 2)] }],
+      }),
+    ]);
+    expect(merged.new_cards.map(c => c.id)).toEqual(['900']);
+    expect(merged.modified_cards).toEqual([]);
+  });
+
+  it('applies later edits to the new card entry', () => {
+    const merged = mergePatchNotes([
+      notes('bbb', '2025-03-01', { new_cards: [NEW_CARD] }),
+      notes('ccc', '2025-06-01', {
+        modified_cards: [{
+          id: '900',
+          name: 'Momotaro (Festival)',
+          rarity: 5,
+          image_url: 'https://example.com/900.png',
+          changes: [change('name', 'Momotaro', 'Momotaro (Festival)'), change('stats.attribute', 1, 3), change('stats.type', 1, 3)],
+        }],
+      }),
+    ]);
+    expect(merged.new_cards).toEqual([{
+      ...NEW_CARD,
+      name: 'Momotaro (Festival)',
+      attribute: 'Anima',
+      type: 'Healer',
+      image_url: 'https://example.com/900.png',
+    }]);
+    expect(merged.modified_cards).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Public API Tests
+ *
+ * Tests for the /api/v1 response builders and schemas:
+ * - Card mapping from the index (MLB stats, skill text at LB0/MLB)
+ * - Responses validate against their published schemas
+ * - The validator catches missing, unexpected and mistyped fields
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  API_SCHEMAS,
+  buildCalendarResponse,
+  buildCardResponse,
+  buildEventsResponse,
+  buildSkillsResponse,
+  validateJsonSchema,
+  type IndexSource,
+} from '../publicApi';
+import type { CardSkeleton } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function makeCard(id: string, overrides: Partial<CardSkeleton> = {}): CardSkeleton {
+  return {
+    id,
+    asset_id: `10${id}`,
+    name: 'Kaguya',
+    playable: true,
+    stats: {
+      attribute_name: 'Divina', type_name: 'Healer', rarity: 5, cost: 3,
+      base_atk: 2000, max_atk: 8000, base_hp: 3000, max_hp: 9000, max_level: 70, speed: 1300, crit: 750,
+    },
+    image_urls: { android: 'a.png', hd: 'hd.png' },
+    skill: {
+      name: 'Moonlight', description: 'Heals {value} HP', slv_lb0: '300', slv_mlb: '400',
+      prob_lb0: null, prob_mlb: null, delay_lb0: null, delay_mlb: null, tags: ['Heal'],
+    },
+    abilities: [{ name: 'Grace', description: 'Team DMG up', tags: ['DMG Boost'] }],
+    bonds: [{ type: 'Attack' }],
+    acquisition: { sources: ['gacha'], has_tower_drops: false },
+    ...overrides,
+  };
+}
+
+const INDEX: IndexSource = {
+  version: 'abc123',
+  cards: { '10': makeCard('10'), '2': makeCard('2'), '3': makeCard('3', { playable: false }) },
+};
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+describe('publicApi: cards', () => {
+  it('maps an index card to the stable shape', () => {
+    const response = buildCardResponse(makeCard('42'), 'abc123');
+    expect(response).toMatchObject({ api_version: 'v1', data_version: 'abc123', schema: '/api/v1/schemas/card.json' });
+    expect(response.card.stats).toEqual({
+      base_atk: 2000, base_hp: 3000, max_atk: 8000, max_hp: 9000, mlb_atk: 9739, mlb_hp: 10739,
+    });
+    expect(response.card.skill).toEqual({
+      name: 'Moonlight', description_lb0: 'Heals 300 HP', description_mlb: 'Heals 400 HP', tags: ['Heal'],
+    });
+    expect(response.card.crit_percent).toBe(7.5);
+    expect(response.card.abilities[0].unlock_level).toBeNull();
+    expect(validateJsonSchema(response, API_SCHEMAS.card)).toEqual([]);
+  });
+
+  it('fills missing stats and skill with null', () => {
+    const sparse = makeCard('5', { skill: null });
+    sparse.stats = { ...sparse.stats, base_atk: undefined, base_hp: undefined, max_level: undefined };
+    const response = buildCardResponse(sparse, 'abc123');
+    expect(response.card.skill).toBeNull();
+    expect(response.card.stats.mlb_atk).toBeNull();
+    expect(validateJsonSchema(response, API_SCHEMAS.card)).toEqual([]);
+  });
+});
+
+describe('publicApi: collections', () => {
+  it('lists skills of playable cards by numeric ID', () => {
+    const response = buildSkillsResponse(INDEX);
+    expect(response.skills.map(s => s.card_id)).toEqual(['2', '10']);
+    expect(validateJsonSchema(response, API_SCHEMAS.skills)).toEqual([]);
+  });
+
+  it('builds events and calendar responses that match their schemas', () => {
+    const events = buildEventsResponse([{ name: 'Tanabata', date: '', cards: ['1'] }], 'abc123');
+    expect(events.events[0]).toEqual({ name: 'Tanabata', date: null, card_ids: ['1'] });
+    expect(validateJsonSchema(events, API_SCHEMAS.events)).toEqual([]);
+
+    const calendar = buildCalendarResponse({
+      generated_at: '2026-08-22T07:02:39Z',
+      banners: [{ banner_id: '302', start: 's', end: 'e', cards: [{ id: '1051' }], pity_step: 70 }],
+      exchanges: [{ type: 'permanent_exchange', exchange_id: '9', currency: 'gold', price: 100, limit: 1 }],
+    }, 'abc123');
+    expect(calendar.exchanges[0]).toMatchObject({ permanent: true, start: null, card_id: null });
+    expect(calendar.conquests).toEqual([]);
+    expect(validateJsonSchema(calendar, API_SCHEMAS.calendar)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+describe('publicApi: validateJsonSchema', () => {
+  it('reports missing, unexpected and mistyped fields with their paths', () => {
+    const response = buildEventsResponse([{ name: 'A', cards: [] }], 'v');
+    const broken = { ...response, extra: 1, events: [{ name: 5, card_ids: [] }] };
+    expect(validateJsonSchema(broken, API_SCHEMAS.events)).toEqual([
+      '$.events[0]: missing date',
+      '$.events[0].name: expected string, got integer',
+      '$: unexpected extra',
+    ]);
+  });
+
+  it('rejects a different api_version', () => {
+    const response = { ...buildEventsResponse([], 'v'), api_version: 'v2' };
+    expect(validateJsonSchema(response, API_SCHEMAS.events)).toEqual(['$.api_version: expected "v1"']);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Stat Range Tests
+ *
+ * Tests for the card table's numeric range filters:
+ * - LB0/MLB stat values
+ * - Slider bounds
+ * - Range matching
+ * - URL param round trip
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getCardStat,
+  getStatBounds,
+  matchesStatRanges,
+  formatRangeParam,
+  isRangeActive,
+} from '../statRanges';
+import { parseAndValidateRangeParam } from '../security';
+import type { Card } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createCard(id: string, stats: Partial<Card['stats']> = {}): Card {
+  return {
+    id,
+    name: `Card ${id}`,
+    stats: {
+      rarity: 5,
+      max_level: 70,
+      base_atk: 1000,
+      max_atk: 6000,
+      base_hp: 1000,
+      max_hp: 4000,
+      speed: 150,
+      crit: 10,
+      cost: 20,
+      ...stats,
+    },
+  } as Card;
+}
+
+const CARDS = [
+  createCard('1'),
+  createCard('2', { max_atk: 3000, speed: 200, crit: 5, cost: 12 }),
+  createCard('3', { max_atk: 8000, speed: 120, cost: 30 }),
+];
+
+// =============================================================================
+// Stat Values and Bounds
+// =============================================================================
+
+describe('stat ranges: getCardStat', () => {
+  it('uses LB0 max stats or extrapolated MLB stats for ATK and HP', () => {
+    const card = CARDS[0];
+    expect(getCardStat(card, 'atk', false)).toBe(6000);
+    // lv70 -> lv90: 1000 + 5000 * 89/69
+    expect(getCardStat(card, 'atk', true)).toBe(7449);
+    expect(getCardStat(card, 'hp', true)).toBe(4870);
+  });
+
+  it('ignores the LB toggle for other stats', () => {
+    expect(getCardStat(CARDS[1], 'speed', true)).toBe(200);
+    expect(getCardStat(CARDS[1], 'cost', false)).toBe(12);
+  });
+});
+
+describe('stat ranges: getStatBounds', () => {
+  it('spans the loaded cards', () => {
+    expect(getStatBounds(CARDS, 'speed', false)).toEqual({ min: 120, max: 200 });
+    expect(getStatBounds(CARDS, 'atk', false)).toEqual({ min: 3000, max: 8000 });
+  });
+
+  it('returns zeros for no cards', () => {
+    expect(getStatBounds([], 'crit', true)).toEqual({ min: 0, max: 0 });
+  });
+});
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+describe('stat ranges: matchesStatRanges', () => {
+  const ids = (ranges: Parameters<typeof matchesStatRanges>[1], isMLB = false) =>
+    CARDS.filter(card => matchesStatRanges(card, ranges, isMLB)).map(card => card.id);
+
+  it('keeps every card with no active ranges', () => {
+    expect(ids({})).toEqual(['1', '2', '3']);
+    expect(ids({ speed: { min: null, max: null } })).toEqual(['1', '2', '3']);
+  });
+
+  it('applies inclusive and open-ended bounds together', () => {
+    expect(ids({ speed: { min: 150, max: null } })).toEqual(['1', '2']);
+    expect(ids({ speed: { min: 150, max: null }, cost: { min: null, max: 20 } })).toEqual(['1', '2']);
+    expect(ids({ atk: { min: 4000, max: 6000 } })).toEqual(['1']);
+  });
+
+  it('follows the LB toggle for ATK', () => {
+    expect(ids({ atk: { min: 7000, max: null } }, false)).toEqual(['3']);
+    expect(ids({ atk: { min: 7000, max: null } }, true)).toEqual(['1', '3']);
+  });
+});
+
+// =============================================================================
+// URL Params
+// =============================================================================
+
+describe('stat ranges: URL params', () => {
+  it('round-trips through format and parse', () => {
+    for (const range of [{ min: 5000, max: 9000 }, { min: 5000, max: null }, { min: null, max: 180 }]) {
+      expect(parseAndValidateRangeParam(formatRangeParam(range))).toEqual(range);
+    }
+    expect(formatRangeParam({ min: null, max: null })).toBeNull();
+    expect(isRangeActive(undefined)).toBe(false);
+  });
+
+  it('swaps reversed bounds and rejects malformed values', () => {
+    expect(parseAndValidateRangeParam('900-100')).toEqual({ min: 100, max: 900 });
+    expect(parseAndValidateRangeParam('-')).toBeNull();
+    expect(parseAndValidateRangeParam('abc-5')).toBeNull();
+    expect(parseAndValidateRangeParam('1.5-2')).toBeNull();
+    expect(parseAndValidateRangeParam('99999999-')).toBeNull();
+    expect(parseAndValidateRangeParam(null)).toBeNull();
+  });
+});
@@ -6,6 +6,7 @@
  * - Race bonus calculation
  * - Ability targeting resolution
  * - Team context building
+ * - Monte Carlo damage distribution
  */
 import { describe, it, expect } from 'vitest';
 import {
@@ -13,6 +14,7 @@ import {
   calculatePhase2TeamContext,
   calculatePhase3ApplyAbilities,
   calculateRaceBonus,
+  calculateTeamDamage,
 } from '../team-calc';
 import {
   RACE_BONUS_CONSTANTS,
@@ -768,3 +770,54 @@ describe('Phase 3: Enemy Debuff Contribution Tracking', () => {
     expect(shieldContribs[1].effects[0].value).toBeCloseTo(0.15, 5);
   });
 });
+
+// =============================================================================
+// Monte Carlo Team Distribution
+// =============================================================================
+
+describe('calculateTeamDamage: Monte Carlo distribution', () => {
+  const team = () => buildTeam({
+    0: { card: createMockCard({ id: '1000' }) },
+    1: { card: createMockCard({ id: '1001' }) },
+  }).map((m, i) => (i < 2 ? { ...m, limitBreak: 4 } : m));
+
+  it('omits distributions unless requested', () => {
+    const result = calculateTeamDamage(team(), createDefaultEnemy());
+    expect(result.damageDistribution).toBeUndefined();
+    expect(result.members[0].damageResult?.normalDistribution).toBeUndefined();
+  });
+
+  it('team total is the per-outcome sum of member rolls', () => {
+    const result = calculateTeamDamage(team(), createDefaultEnemy(), undefined, 'best', { samples: 1000, seed: 3 });
+    const dist = result.damageDistribution!;
+    const m0 = result.members[0].damageResult!;
+    const m1 = result.members[1].damageResult!;
+
+    expect(dist.samples).toBe(1000);
+    expect(m0.normalDistribution!.samples).toBe(1000);
+    // Means add exactly (up to per-distribution rounding)
+    const memberMeans = [m0, m1].reduce(
+      (sum, r) => sum + r.normalDistribution!.mean + r.skillDistribution!.mean, 0
+    );
+    expect(Math.abs(dist.mean - memberMeans)).toBeLessThanOrEqual(4);
+    // Every team outcome is bounded by the members' own extremes
+    expect(dist.min).toBeGreaterThanOrEqual(m0.normalDistribution!.min + m1.normalDistribution!.min);
+    expect(dist.max).toBeLessThanOrEqual(m0.normalDistribution!.max + m1.normalDistribution!.max);
+  });
+
+  it('is reproducible for a given seed', () => {
+    const a = calculateTeamDamage(team(), createDefaultEnemy(), undefined, 'best', { samples: 200, seed: 9 });
+    const b = calculateTeamDamage(team(), createDefaultEnemy(), undefined, 'best', { samples: 200, seed: 9 });
+    expect(a.damageDistribution!.sorted).toEqual(b.damageDistribution!.sorted);
+  });
+
+  it('skips healers that do not attack', () => {
+    const members = team();
+    members[1] = { ...members[1], card: createMockCard({ id: '1001', stats: { ...createMockCard().stats, type: 3 } }) };
+    const result = calculateTeamDamage(
+      members, { ...createDefaultEnemy(), healersDontAttack: true }, undefined, 'best', { samples: 100 }
+    );
+    expect(result.members[1].damageResult?.normalDistribution).toBeUndefined();
+    expect(result.damageDistribution!.mean).toBe(result.members[0].damageResult!.normalDistribution!.mean);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Team Diff Tests
+ *
+ * Tests for comparing a pinned baseline against the live team:
+ * - Per-stat deltas and relative change
+ * - Breakdown source attribution
+ * - Ability contributions gained, lost and changed
+ * - Team totals
+ */
+import { describe, it, expect } from 'vitest';
+import { diffMember, diffTeamResults, DIFF_STATS } from '../team-diff';
+import type {
+  Phase4Result,
+  Phase3AbilityContribution,
+  TeamCalculationResult,
+  MemberDamageResult,
+} from '../team-calc-types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+interface MemberOptions {
+  atk?: number;
+  atkBond?: number;
+  critRate?: number;
+  critRateAbilities?: number;
+  dps?: number;
+  skillDamage?: number;
+  contributions?: Phase3AbilityContribution[];
+}
+
+function memberResult(memberIndex: number, options: MemberOptions = {}): Phase4Result {
+  const {
+    atk = 10000,
+    atkBond = 0,
+    critRate = 0.1,
+    critRateAbilities = 0,
+    dps = 5000,
+    skillDamage = 20000,
+    contributions = [],
+  } = options;
+  return {
+    memberIndex,
+    computedStats: {
+      effectiveLevel: 70,
+      displayAtk: atk + atkBond,
+      effectiveSpeed: 150,
+      effectiveCritRate: critRate + critRateAbilities,
+      effectiveCritDmg: 2,
+      dmgBonus: 0,
+      skillDmgBonus: 0,
+      attackInterval: 1,
+      breakdown: {
+        level: { base: 70, limitBreak: 0, bonus: 0, abilities: 0, total: 70 },
+        atk: { base: atk, bond: atkBond, assist: 0, abilities: 0, total: atk + atkBond },
+        critRate: { base: critRate, bond: 0, assist: 0, abilities: critRateAbilities, total: critRate + critRateAbilities },
+        critDmg: { base: 2, bond: 0, assist: 0, abilities: 0, total: 2 },
+        dmg: { abilities: 0, total: 0 },
+        skillDmg: { bond: 0, assist: 0, abilities: 0, total: 0 },
+        speed: { base: 150, bond: 0, assist: 0, abilities: 0, total: 150 },
+      },
+    },
+    damageResult: { normalDps: dps, skillDamageExpected: skillDamage } as MemberDamageResult,
+    abilityContributions: contributions,
+  };
+}
+
+function contribution(abilityId: string, stat: string, value: number, sourceMemberIndex = 0): Phase3AbilityContribution {
+  return {
+    abilityId,
+    abilityName: `Ability ${abilityId}`,
+    sourceCardId: '1',
+    sourceMemberIndex,
+    isFromAssist: false,
+    effects: [{ stat, value }],
+  };
+}
+
+function teamResult(members: Phase4Result[]): TeamCalculationResult {
+  return {
+    members,
+    totalNormalDpsExpected: members.reduce((sum, m) => sum + (m.damageResult?.normalDps ?? 0), 0),
+    totalSkillDamageExpected: members.reduce((sum, m) => sum + (m.damageResult?.skillDamageExpected ?? 0), 0),
+  } as TeamCalculationResult;
+}
+
+const stat = (diff: ReturnType<typeof diffMember>, name: string) => diff.stats.find(s => s.stat === name)!;
+
+// =============================================================================
+// Member Diff
+// =============================================================================
+
+describe('team diff: diffMember', () => {
+  it('reports every stat and no change for identical members', () => {
+    const diff = diffMember(memberResult(0), memberResult(0));
+    expect(diff.stats.map(s => s.stat)).toEqual(DIFF_STATS);
+    expect(diff.changed).toBe(false);
+    expect(diff.stats.every(s => s.delta === 0)).toBe(true);
+  });
+
+  it('computes absolute and relative deltas', () => {
+    const diff = diffMember(memberResult(0, { dps: 4000 }), memberResult(0, { dps: 5000 }));
+    expect(stat(diff, 'dps')).toMatchObject({ baseline: 4000, live: 5000, delta: 1000, relative: 0.25 });
+    expect(diff.changed).toBe(true);
+  });
+
+  it('returns null relative change from a zero baseline', () => {
+    const diff = diffMember(memberResult(0, { skillDamage: 0 }), memberResult(0, { skillDamage: 100 }));
+    expect(stat(diff, 'skillDamage').relative).toBeNull();
+  });
+
+  it('attributes stat changes to breakdown sources', () => {
+    const diff = diffMember(
+      memberResult(0, { atkBond: 0, critRateAbilities: 0 }),
+      memberResult(0, { atkBond: 1500, critRateAbilities: 0.05 })
+    );
+    expect(stat(diff, 'atk').sources).toEqual({ bond: 1500 });
+    expect(stat(diff, 'critRate').sources.abilities).toBeCloseTo(0.05);
+    expect(stat(diff, 'dps').sources).toEqual({});
+  });
+});
+
+// =============================================================================
+// Ability Contributions
+// =============================================================================
+
+describe('team diff: abilities', () => {
+  it('lists gained, lost and changed ability effects', () => {
+    const baseline = memberResult(2, {
+      contributions: [contribution('a', 'dmg', 0.1), contribution('b', 'critRate', 0.2, 1)],
+    });
+    const live = memberResult(2, {
+      contributions: [contribution('a', 'dmg', 0.15), contribution('c', 'skillDmg', 0.3, 3)],
+    });
+    const abilities = diffMember(baseline, live).abilities;
+
+    expect(abilities.map(a => [a.abilityId, a.delta])).toEqual([
+      ['c', 0.3],
+      ['b', -0.2],
+      ['a', expect.closeTo(0.05)],
+    ]);
+    expect(abilities[1]).toMatchObject({ sourceMemberIndex: 1, baseline: 0.2, live: 0 });
+  });
+
+  it('sums repeated effects from the same ability and ignores unchanged ones', () => {
+    const doubled = [contribution('a', 'dmg', 0.1), contribution('a', 'dmg', 0.1)];
+    const diff = diffMember(
+      memberResult(0, { contributions: doubled }),
+      memberResult(0, { contributions: [contribution('a', 'dmg', 0.2)] })
+    );
+    expect(diff.abilities).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Team Diff
+// =============================================================================
+
+describe('team diff: diffTeamResults', () => {
+  it('diffs the main team only and reports totals', () => {
+    const baseline = teamResult(Array.from({ length: 7 }, (_, i) => memberResult(i)));
+    const live = teamResult(Array.from({ length: 7 }, (_, i) => memberResult(i, { dps: i === 2 ? 8000 : 5000 })));
+    const diff = diffTeamResults(baseline, live);
+
+    expect(diff.members).toHaveLength(5);
+    expect(diff.members.filter(m => m.changed).map(m => m.memberIndex)).toEqual([2]);
+    expect(diff.totals.find(t => t.stat === 'dps')!.delta).toBe(3000);
+    expect(diff.totals.find(t => t.stat === 'skillDamage')!.delta).toBe(0);
+  });
+});
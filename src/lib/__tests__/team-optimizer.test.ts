@@ -0,0 +1,191 @@
+/**
+ * Team Optimizer Tests
+ *
+ * Tests for the pruned lineup search:
+ * - Ranking and top-N output
+ * - Owned-card and locked-slot constraints
+ * - Synergy partners surviving the shortlist
+ * - Reserve and assist filling
+ */
+import { describe, it, expect } from 'vitest';
+import { optimizeTeam, getSynergyPartnerIds } from '../team-optimizer';
+import { ASSIST_TYPE, type EnemyState } from '../team-calc-types';
+import type { Card, Ability } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockCard(id: string, maxAtk: number, overrides: Partial<Card> = {}): Card {
+  return {
+    id,
+    name: `Card ${id}`,
+    playable: true,
+    stats: {
+      attribute: 1,
+      attribute_name: 'Divina',
+      type: 1,
+      type_name: 'Melee',
+      rarity: 5,
+      base_atk: maxAtk / 10,
+      max_atk: maxAtk,
+      base_hp: 500,
+      max_hp: 5000,
+      max_level: 70,
+      crit: 0,
+      speed: 150,
+      cost: 20,
+    },
+    abilities: [],
+    skill: null,
+    bonds: [],
+    ...overrides,
+  } as Card;
+}
+
+function teamAtkAbility(id: string, value: number, synergyPartners?: string[]): Ability {
+  return {
+    id,
+    name: `Team ATK ${id}`,
+    description: '',
+    unlock_level: 1,
+    synergy_partners: synergyPartners,
+    parsed: {
+      target: { type: 'team', count: 0 },
+      effects: [{ stat: 'ATK', type: 'ATK', value, isPercent: true }],
+    },
+  };
+}
+
+function createAssistCard(id: string, atkBondPercent: number): Card {
+  return createMockCard(id, 1000, {
+    stats: { ...createMockCard(id, 1000).stats, type: ASSIST_TYPE, type_name: 'Assist' },
+    bonds: [{ id: `b${id}`, target_id: '', type: 'Attack', effect: '', bonus_percent: atkBondPercent, name: 'Bond' }],
+  });
+}
+
+const ENEMY: EnemyState = {
+  baseShield: 0,
+  baseDefense: 0,
+  isFinalWave: false,
+  waveCount: 1,
+  attribute: 'None',
+  ignoreShieldCap: false,
+  healersDontAttack: false,
+};
+
+// 10 plain attackers with ATK 10000, 11000, ... 19000
+const POOL = Array.from({ length: 10 }, (_, i) => createMockCard(String(100 + i), 10000 + i * 1000));
+
+// =============================================================================
+// Ranking
+// =============================================================================
+
+describe('optimizeTeam: ranking', () => {
+  it('picks the five strongest attackers for the best team', () => {
+    const [best] = optimizeTeam({ enemy: ENEMY, cards: POOL });
+    const mainIds = best.slots.slice(0, 5).map(s => s.cardId).sort();
+    expect(mainIds).toEqual(['105', '106', '107', '108', '109']);
+  });
+
+  it('returns up to topN unique teams, best first', () => {
+    const teams = optimizeTeam({ enemy: ENEMY, cards: POOL, topN: 3 });
+    expect(teams).toHaveLength(3);
+    for (let i = 1; i < teams.length; i++) {
+      expect(teams[i - 1].score).toBeGreaterThanOrEqual(teams[i].score);
+    }
+    const keys = teams.map(t => JSON.stringify(t.slots));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('never places a card twice in a lineup', () => {
+    for (const team of optimizeTeam({ enemy: ENEMY, cards: POOL, topN: 5 })) {
+      const ids = team.slots.flatMap(s => [s.cardId, s.assistCardId]).filter(Boolean);
+      expect(new Set(ids).size).toBe(ids.length);
+    }
+  });
+
+  it('returns nothing when the pool cannot fill the open slots', () => {
+    expect(optimizeTeam({ enemy: ENEMY, cards: POOL.slice(0, 3) })).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Constraints
+// =============================================================================
+
+describe('optimizeTeam: constraints', () => {
+  it('only uses owned cards when an owned list is given', () => {
+    const owned = ['100', '101', '102', '103', '104'];
+    const [best] = optimizeTeam({ enemy: ENEMY, cards: POOL, ownedCardIds: owned });
+    const mainIds = best.slots.slice(0, 5).map(s => s.cardId).sort();
+    expect(mainIds).toEqual(owned);
+  });
+
+  it('evaluates cards at their given build instead of MLB', () => {
+    // The strongest card is only owned at LB0, so the sixth-strongest at MLB beats it
+    const [best] = optimizeTeam({
+      enemy: ENEMY,
+      cards: POOL,
+      memberBuilds: { '109': { limitBreak: 0, levelBonus: 0 } },
+    });
+    const mainIds = best.slots.slice(0, 5).map(s => s.cardId).sort();
+    expect(mainIds).toEqual(['104', '105', '106', '107', '108']);
+  });
+
+  it('keeps locked slots and does not reuse their cards', () => {
+    const [best] = optimizeTeam({
+      enemy: ENEMY,
+      cards: POOL,
+      lockedSlots: { 0: { cardId: '100', assistCardId: null } },
+    });
+    expect(best.slots[0].cardId).toBe('100');
+    const others = best.slots.slice(1, 5).map(s => s.cardId).sort();
+    expect(others).toEqual(['106', '107', '108', '109']);
+  });
+
+  it('skips non-playable cards', () => {
+    const npc = createMockCard('999', 99000, { playable: false });
+    const [best] = optimizeTeam({ enemy: ENEMY, cards: [...POOL, npc] });
+    expect(best.slots.map(s => s.cardId)).not.toContain('999');
+  });
+});
+
+// =============================================================================
+// Synergy, Reserves and Assists
+// =============================================================================
+
+describe('optimizeTeam: synergy and support', () => {
+  it('collects synergy partners from card and ability data', () => {
+    const card = createMockCard('1', 1000, {
+      synergies: ['2'],
+      abilities: [teamAtkAbility('a1', 10, ['3', '1'])],
+    });
+    expect(getSynergyPartnerIds(card).sort()).toEqual(['2', '3']);
+  });
+
+  it('pulls in a weak partner whose presence unlocks a team buff', () => {
+    const carry = createMockCard('200', 19500, {
+      abilities: [teamAtkAbility('carry-synergy', 100, ['201'])],
+    });
+    const partner = createMockCard('201', 1000); // Far too weak to rank on its own
+    const [best] = optimizeTeam({ enemy: ENEMY, cards: [...POOL, carry, partner] });
+    const mainIds = best.slots.slice(0, 5).map(s => s.cardId);
+    expect(mainIds).toContain('200');
+    expect(mainIds).toContain('201');
+  });
+
+  it('fills a reserve slot with a card whose ability buffs the team', () => {
+    const support = createMockCard('300', 1000, { abilities: [teamAtkAbility('support', 30)] });
+    const [best] = optimizeTeam({ enemy: ENEMY, cards: [...POOL, support] });
+    const placed = best.slots.map(s => s.cardId);
+    expect(placed).toContain('300');
+  });
+
+  it('assigns assists that raise damage', () => {
+    const assist = createAssistCard('400', 10);
+    const [best] = optimizeTeam({ enemy: ENEMY, cards: [...POOL, assist] });
+    expect(best.slots.slice(0, 5).map(s => s.assistCardId)).toContain('400');
+    expect(best.slots.map(s => s.cardId)).not.toContain('400');
+  });
+});
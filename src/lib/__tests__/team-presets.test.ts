@@ -0,0 +1,183 @@
+/**
+ * Team Preset Tests
+ *
+ * Tests for the pure preset list operations:
+ * - Create, duplicate, rename, delete and reorder
+ * - Active preset bookkeeping
+ * - Parsing of stored presets
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialPresets,
+  addPreset,
+  duplicatePreset,
+  renamePreset,
+  deletePreset,
+  movePreset,
+  savePresetContent,
+  openSharedPreset,
+  setActivePreset,
+  uniquePresetName,
+  getActivePreset,
+  parseStoredPresets,
+  MAX_PRESETS,
+  MAX_PRESET_NAME_LENGTH,
+} from '../team-presets';
+import type { StoredTeamState, StoredPresetState } from '../team-calc-types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function team(cardId: string | null, waveCount = 1): StoredTeamState {
+  return {
+    members: [{
+      cardId,
+      assistCardId: null,
+      limitBreak: 4,
+      levelBonus: 0,
+      bondType: 'atk15',
+      skillActive: false,
+    }],
+    enemy: { baseShield: 0, isFinalWave: false, waveCount },
+    activeTabIndex: 0,
+  };
+}
+
+function threePresets(): StoredPresetState {
+  let state = createInitialPresets(team('1'), undefined, 'Tower');
+  state = addPreset(state, 'World Boss', team('2'));
+  state = addPreset(state, 'Story', team('3'));
+  return state;
+}
+
+const names = (state: StoredPresetState) => state.presets.map(p => p.name);
+
+// =============================================================================
+// Create and Duplicate
+// =============================================================================
+
+describe('team presets: create and duplicate', () => {
+  it('starts with one active preset', () => {
+    const state = createInitialPresets(team('1'));
+    expect(state.presets).toHaveLength(1);
+    expect(getActivePreset(state)?.name).toBe('Team 1');
+  });
+
+  it('appends new presets and activates them', () => {
+    const state = threePresets();
+    expect(names(state)).toEqual(['Tower', 'World Boss', 'Story']);
+    expect(getActivePreset(state)?.name).toBe('Story');
+    expect(new Set(state.presets.map(p => p.id)).size).toBe(3);
+  });
+
+  it('keeps names unique', () => {
+    const state = addPreset(threePresets(), 'Tower', team(null));
+    expect(names(state)).toContain('Tower 2');
+    expect(uniquePresetName(state, 'Tower')).toBe('Tower 3');
+  });
+
+  it('stops adding at the preset limit', () => {
+    let state = createInitialPresets(team('1'));
+    for (let i = 0; i < MAX_PRESETS + 5; i++) state = addPreset(state, 'T', team(null));
+    expect(state.presets).toHaveLength(MAX_PRESETS);
+  });
+
+  it('duplicates next to the original with an independent copy', () => {
+    const initial = threePresets();
+    const state = setActivePreset(initial, initial.presets[0].id);
+    const next = duplicatePreset(state, state.presets[0].id);
+    expect(names(next)).toEqual(['Tower', 'Tower copy', 'World Boss', 'Story']);
+    expect(getActivePreset(next)?.name).toBe('Tower copy');
+    next.presets[1].team.members[0].cardId = '99';
+    expect(next.presets[0].team.members[0].cardId).toBe('1');
+  });
+});
+
+// =============================================================================
+// Rename, Delete and Reorder
+// =============================================================================
+
+describe('team presets: edit', () => {
+  it('renames with trimming and a length cap, ignoring blank names', () => {
+    const state = threePresets();
+    const id = state.presets[0].id;
+    expect(renamePreset(state, id, '  Abyss  ').presets[0].name).toBe('Abyss');
+    expect(renamePreset(state, id, '   ').presets[0].name).toBe('Tower');
+    expect(renamePreset(state, id, 'x'.repeat(100)).presets[0].name).toHaveLength(MAX_PRESET_NAME_LENGTH);
+  });
+
+  it('activates the neighbour when the active preset is deleted', () => {
+    const state = threePresets();
+    const next = deletePreset(state, state.activePresetId);
+    expect(names(next)).toEqual(['Tower', 'World Boss']);
+    expect(getActivePreset(next)?.name).toBe('World Boss');
+  });
+
+  it('keeps the active preset when another is deleted', () => {
+    const state = threePresets();
+    const next = deletePreset(state, state.presets[0].id);
+    expect(getActivePreset(next)?.name).toBe('Story');
+  });
+
+  it('never deletes the last preset', () => {
+    const state = createInitialPresets(team('1'));
+    expect(deletePreset(state, state.activePresetId)).toBe(state);
+  });
+
+  it('moves presets within bounds', () => {
+    const state = threePresets();
+    const storyId = state.presets[2].id;
+    expect(names(movePreset(state, storyId, -1))).toEqual(['Tower', 'Story', 'World Boss']);
+    expect(movePreset(state, storyId, 1)).toBe(state);
+  });
+
+  it('saves content into one preset only', () => {
+    const state = threePresets();
+    const next = savePresetContent(state, state.presets[1].id, team('7', 3), { fightDuration: 120, snapshots: [] });
+    expect(next.presets[1].team.enemy.waveCount).toBe(3);
+    expect(next.presets[1].fight?.fightDuration).toBe(120);
+    expect(next.presets[0]).toBe(state.presets[0]);
+  });
+
+  it('opens a shared team as a new preset, keeping the active one', () => {
+    const state = threePresets();
+    const activeId = state.activePresetId;
+    const next = openSharedPreset(state, { team: team('8', 2) }, { team: team('9') })!;
+    expect(names(next)).toEqual(['Tower', 'World Boss', 'Story', 'Shared team']);
+    expect(getActivePreset(next)?.team.members[0].cardId).toBe('9');
+    // The previous preset holds the live edits, not the shared team
+    const previous = next.presets.find(p => p.id === activeId)!;
+    expect(previous.team.members[0].cardId).toBe('8');
+    expect(previous.team.enemy.waveCount).toBe(2);
+  });
+
+  it('does not open a shared team when the list is full', () => {
+    let state = createInitialPresets(team('1'));
+    for (let i = 1; i < MAX_PRESETS; i++) state = addPreset(state, 'Team', team(null));
+    expect(openSharedPreset(state, { team: team('1') }, { team: team('9') })).toBeNull();
+  });
+});
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+describe('team presets: parseStoredPresets', () => {
+  it('round-trips stored presets', () => {
+    const state = threePresets();
+    expect(parseStoredPresets(JSON.stringify(state))).toEqual(state);
+  });
+
+  it('repairs a dangling active preset id', () => {
+    const state = { ...threePresets(), activePresetId: 'gone' };
+    expect(parseStoredPresets(JSON.stringify(state))?.activePresetId).toBe(state.presets[0].id);
+  });
+
+  it('rejects missing, malformed and empty data', () => {
+    expect(parseStoredPresets(null)).toBeNull();
+    expect(parseStoredPresets('{oops')).toBeNull();
+    expect(parseStoredPresets(JSON.stringify({ version: 1, activePresetId: 'a', presets: [] }))).toBeNull();
+    expect(parseStoredPresets(JSON.stringify({ version: 1, activePresetId: 'a', presets: [{ id: 'a' }] }))).toBeNull();
+  });
+});
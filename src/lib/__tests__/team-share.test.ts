@@ -0,0 +1,177 @@
+/**
+ * Team Share Link Tests
+ *
+ * Tests for the compact URL encoding of calculator state:
+ * - Round-tripping team, enemy, overrides and fight snapshots
+ * - URL safety and size
+ * - Rejection of malformed or out-of-range codes
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  encodeTeamShare,
+  decodeTeamShare,
+  buildTeamShareUrl,
+  TEAM_SHARE_PARAM,
+} from '../team-share';
+import type { StoredTeamState, StoredMemberState, StoredFightState } from '../team-calc-types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function member(overrides: Partial<StoredMemberState> = {}): StoredMemberState {
+  return {
+    cardId: null,
+    assistCardId: null,
+    limitBreak: 4,
+    levelBonus: 0,
+    bond1: 'none',
+    bond2: 'none',
+    bond3: 'none',
+    bondType: 'atk15',
+    skillActive: false,
+    ...overrides,
+  };
+}
+
+const TEAM: StoredTeamState = {
+  members: [
+    member({ cardId: '1770', limitBreak: 2, levelBonus: 10, bond1: 'atk7', bond2: 'skill5', skillActive: true }),
+    member({ cardId: '583', assistCardId: '744', bond1: 'skill7' }),
+    member({ cardId: '671', bond3: 'atk5' }),
+    member(),
+    member({ cardId: '12' }),
+    member({ cardId: '634' }),
+    member(),
+  ],
+  enemy: {
+    baseShield: -0.25,
+    baseDefense: 0.3,
+    isFinalWave: true,
+    waveCount: 3,
+    attribute: 'Phantasma',
+    ignoreShieldCap: true,
+    healersDontAttack: false,
+  },
+  activeTabIndex: 0,
+  abilityTargetOverrides: { '101': [0, 2] },
+};
+
+const FIGHT: StoredFightState = {
+  fightDuration: 180,
+  snapshots: [
+    {
+      id: 'snap_1',
+      name: 'Base 九尾',
+      members: [{
+        memberIndex: 0,
+        cardName: 'Tamamo',
+        dps: 12345.6,
+        dpsMin: 10000,
+        dpsMax: 15000,
+        hasDamageSkill: true,
+        skillDamage: 500000,
+        skillDamageMin: 400000,
+        skillDamageMax: 600000,
+        skillCasts: 2,
+      }],
+      totalDps: 12345.6,
+      totalDpsMin: 10000,
+      totalDpsMax: 15000,
+      durationSeconds: 0,
+      isBase: true,
+    },
+  ],
+};
+
+// =============================================================================
+// Round Trip
+// =============================================================================
+
+describe('team share: round trip', () => {
+  it('restores members, enemy and overrides', () => {
+    const shared = decodeTeamShare(encodeTeamShare(TEAM));
+    expect(shared).not.toBeNull();
+    expect(shared!.team).toEqual(TEAM);
+    expect(shared!.fight).toBeUndefined();
+  });
+
+  it('restores fight snapshots with rounded damage values', () => {
+    const shared = decodeTeamShare(encodeTeamShare(TEAM, FIGHT));
+    const snapshot = shared!.fight!.snapshots[0];
+    expect(shared!.fight!.fightDuration).toBe(180);
+    expect(snapshot.name).toBe('Base 九尾');
+    expect(snapshot.isBase).toBe(true);
+    expect(snapshot.totalDps).toBe(12346);
+    expect(snapshot.members[0]).toMatchObject({ cardName: 'Tamamo', skillCasts: 2, hasDamageSkill: true });
+  });
+
+  it('forces bond 3 to none when an assist is set', () => {
+    const team = { ...TEAM, members: TEAM.members.map((m, i) => (i === 1 ? { ...m, bond3: 'atk7' as const } : m)) };
+    expect(decodeTeamShare(encodeTeamShare(team))!.team.members[1].bond3).toBe('none');
+  });
+
+  it('omits empty fight data', () => {
+    const shared = decodeTeamShare(encodeTeamShare(TEAM, { fightDuration: 300, snapshots: [] }));
+    expect(shared!.fight).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// URL Format
+// =============================================================================
+
+describe('team share: URL format', () => {
+  it('produces a URL-safe code shorter than the JSON export', () => {
+    const code = encodeTeamShare(TEAM, FIGHT);
+    expect(code).toMatch(/^[\w-]+$/);
+    expect(code.length).toBeLessThan(JSON.stringify({ ...TEAM, fight: FIGHT }, null, 2).length / 2);
+  });
+
+  it('builds a link that replaces any existing query', () => {
+    const url = buildTeamShareUrl('https://otogidb.com/en/calculator?foo=1#x', 'abc');
+    expect(url).toBe(`https://otogidb.com/en/calculator?${TEAM_SHARE_PARAM}=abc`);
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function encodeRaw(payload: unknown): string {
+  return btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('team share: validation', () => {
+  const validEnemy = [0, 0, 0, 1, 0, 0, 0];
+  const emptyMembers = [0, 0, 0, 0, 0, 0, 0];
+
+  it('accepts a minimal payload', () => {
+    expect(decodeTeamShare(encodeRaw([1, emptyMembers, validEnemy, 0, 0]))).not.toBeNull();
+  });
+
+  it('rejects empty, garbage and non-base64 input', () => {
+    expect(decodeTeamShare(null)).toBeNull();
+    expect(decodeTeamShare('')).toBeNull();
+    expect(decodeTeamShare('not base64!')).toBeNull();
+    expect(decodeTeamShare(encodeRaw({ hello: 'world' }))).toBeNull();
+  });
+
+  it('rejects unknown versions', () => {
+    expect(decodeTeamShare(encodeRaw([2, emptyMembers, validEnemy, 0, 0]))).toBeNull();
+  });
+
+  it('rejects out-of-range member values', () => {
+    const badLb = [['1', '', 9, 0, 0, 0, 0, 0], 0, 0, 0, 0, 0, 0];
+    const badBond = [['1', '', 4, 0, 7, 0, 0, 0], 0, 0, 0, 0, 0, 0];
+    const badId = [['<script>', '', 4, 0, 0, 0, 0, 0], 0, 0, 0, 0, 0, 0];
+    for (const members of [badLb, badBond, badId]) {
+      expect(decodeTeamShare(encodeRaw([1, members, validEnemy, 0, 0]))).toBeNull();
+    }
+  });
+
+  it('rejects out-of-range enemy values and bad override targets', () => {
+    expect(decodeTeamShare(encodeRaw([1, emptyMembers, [2000, 0, 0, 1, 0, 0, 0], 0, 0]))).toBeNull();
+    expect(decodeTeamShare(encodeRaw([1, emptyMembers, validEnemy, { '101': [9] }, 0]))).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Virtual List Tests
+ *
+ * Tests for the windowing math behind the card table and mobile grid:
+ * - Row offsets from measured heights, estimates for the rest
+ * - Visible range with overscan, clamped to the list
+ * - Spacer heights for the rows left out
+ * - Saved scroll anchors (sessionStorage round trip, malformed values)
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  computeRowOffsets,
+  findRowAt,
+  findVisibleRange,
+  getRangePadding,
+  saveScrollAnchor,
+  loadScrollAnchor,
+} from '../virtualList';
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+describe('virtualList: layout', () => {
+  const keys = ['a', 'b', 'c', 'd', 'e'];
+
+  it('uses measured heights where known and the estimate elsewhere', () => {
+    const offsets = computeRowOffsets(keys, new Map([['b', 100], ['d', 20]]), 50);
+    expect(offsets).toEqual([0, 50, 150, 200, 220, 270]);
+    expect(computeRowOffsets([], new Map(), 50)).toEqual([0]);
+  });
+
+  it('finds the row containing a position, clamped to the list', () => {
+    const offsets = computeRowOffsets(keys, new Map(), 50);
+    expect(findRowAt(offsets, 0)).toBe(0);
+    expect(findRowAt(offsets, 49)).toBe(0);
+    expect(findRowAt(offsets, 50)).toBe(1);
+    expect(findRowAt(offsets, -100)).toBe(0);
+    expect(findRowAt(offsets, 10_000)).toBe(4);
+  });
+
+  it('widens the visible rows by the overscan without leaving the list', () => {
+    const offsets = computeRowOffsets(keys, new Map(), 50);
+    expect(findVisibleRange(offsets, 100, 150, 0)).toEqual({ start: 2, end: 3 });
+    expect(findVisibleRange(offsets, 100, 151, 1)).toEqual({ start: 1, end: 5 });
+    expect(findVisibleRange(offsets, 0, 1000, 3)).toEqual({ start: 0, end: 5 });
+    expect(findVisibleRange([0], 0, 500, 3)).toEqual({ start: 0, end: 0 });
+  });
+
+  it('pads for the rows before and after the range', () => {
+    const offsets = computeRowOffsets(keys, new Map(), 50);
+    expect(getRangePadding(offsets, { start: 1, end: 3 })).toEqual({ top: 50, bottom: 100 });
+    expect(getRangePadding(offsets, { start: 0, end: 5 })).toEqual({ top: 0, bottom: 0 });
+  });
+});
+
+// =============================================================================
+// Scroll restoration
+// =============================================================================
+
+describe('virtualList: scroll anchors', () => {
+  const store = new Map<string, string>();
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips an anchor per key', () => {
+    saveScrollAnchor('card-table:/en/cards?attr=Divina', { rowKey: '412', rowOffset: 12, windowY: 300 });
+    expect(loadScrollAnchor('card-table:/en/cards?attr=Divina')).toEqual({ rowKey: '412', rowOffset: 12, windowY: 300 });
+    expect(loadScrollAnchor('card-table:/en/cards')).toBeNull();
+  });
+
+  it('ignores malformed entries', () => {
+    store.set('otogidb-scroll:bad-json', '{');
+    store.set('otogidb-scroll:bad-shape', JSON.stringify({ rowKey: 412 }));
+    expect(loadScrollAnchor('bad-json')).toBeNull();
+    expect(loadScrollAnchor('bad-shape')).toBeNull();
+  });
+});
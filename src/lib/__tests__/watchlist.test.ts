@@ -0,0 +1,167 @@
+/**
+ * Watchlist Tests
+ *
+ * Tests for the card watchlist digest:
+ * - Snapshots of stats and availability
+ * - Events for stat changes, auction listings, banners and exchanges
+ * - Check state: baselines, carried-over availability, event queue
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  addWatchedCard,
+  applyWatchCheck,
+  buildWatchSnapshot,
+  diffWatchSnapshots,
+  EMPTY_WATCHLIST,
+  groupWatchEvents,
+  isWatchCheckDue,
+  normalizeWatchlist,
+  removeWatchedCard,
+  WATCH_CHECK_INTERVAL,
+  type WatchlistState,
+} from '../watchlist';
+import type { CardAvailability } from '../availability';
+import type { Card } from '../../types/card';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function makeCard(overrides: { max_atk?: number; sources?: string[]; slv_mlb?: string } = {}): Card {
+  return {
+    id: '42',
+    name: 'Kaguya',
+    stats: { base_atk: 2000, max_atk: overrides.max_atk ?? 8000, base_hp: 3000, max_hp: 9000, speed: 1300, crit: 750, cost: 3 },
+    skill: { slv_mlb: overrides.slv_mlb ?? '400' },
+    acquisition: { sources: overrides.sources ?? ['auction'] },
+  } as unknown as Card;
+}
+
+function availability(stock: 'high' | 'medium' | 'low' | 'unavailable', banners: string[] = []): CardAvailability {
+  return {
+    currently_available: stock !== 'unavailable',
+    auction: {
+      available: stock !== 'unavailable',
+      price_min: null,
+      price_max: null,
+      last_seen: null,
+      last_count: null,
+      stock_level: stock,
+    },
+    gacha: { featured_banners: banners },
+  };
+}
+
+const NOW = 1_750_000_000_000;
+
+// =============================================================================
+// Snapshots and diffs
+// =============================================================================
+
+describe('watchlist: snapshots', () => {
+  it('captures stats, skill value and availability', () => {
+    const snapshot = buildWatchSnapshot(makeCard(), availability('low', ['b']), 'v1');
+    expect(snapshot.stats.max_atk).toBe(8000);
+    expect(snapshot.skillValue).toBe('400');
+    expect(snapshot.auctionStock).toBe('low');
+    expect(snapshot.featuredBanners).toEqual(['b']);
+    expect(snapshot.inExchange).toBe(false);
+  });
+
+  it('treats a card missing from the availability file as unlisted, and a failed fetch as unknown', () => {
+    expect(buildWatchSnapshot(makeCard(), null, 'v1').auctionStock).toBe('unavailable');
+    expect(buildWatchSnapshot(makeCard(), undefined, 'v1').auctionStock).toBeNull();
+  });
+
+  it('reports stat changes, auction listings, banners and exchanges', () => {
+    const prev = buildWatchSnapshot(makeCard(), availability('unavailable'), 'v1');
+    const next = buildWatchSnapshot(
+      makeCard({ max_atk: 8600, sources: ['auction', 'exchange'] }),
+      availability('medium', ['2025-07-01 00:00:00_2025-07-15 00:00:00']),
+      'v2'
+    );
+    expect(diffWatchSnapshots(prev, next)).toEqual([
+      { kind: 'stats', text: 'Max ATK: 8000 → 8600 (+600)' },
+      { kind: 'auction', text: 'Listed in auction: Available' },
+      { kind: 'banner', text: 'Featured on a gacha banner until 2025-07-15' },
+      { kind: 'exchange', text: 'Added to an exchange' },
+    ]);
+  });
+
+  it('does not report leaving auction or unknown availability', () => {
+    const listed = buildWatchSnapshot(makeCard(), availability('high'), 'v1');
+    expect(diffWatchSnapshots(listed, buildWatchSnapshot(makeCard(), availability('unavailable'), 'v2'))).toEqual([]);
+    const unknown = buildWatchSnapshot(makeCard(), undefined, 'v1');
+    expect(diffWatchSnapshots(unknown, listed)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+describe('watchlist: applyWatchCheck', () => {
+  const watching = addWatchedCard(EMPTY_WATCHLIST, '42', NOW);
+
+  it('takes a baseline without events on the first check', () => {
+    const state = applyWatchCheck(watching, {
+      version: 'v1',
+      cards: { '42': makeCard() },
+      availability: { '42': availability('unavailable') },
+    }, NOW);
+    expect(state.events).toEqual([]);
+    expect(state.cards[0].snapshot?.dataVersion).toBe('v1');
+    expect(state.lastCheckedAt).toBe(NOW);
+  });
+
+  it('queues events newest first and keeps availability through a failed fetch', () => {
+    let state = applyWatchCheck(watching, {
+      version: 'v1',
+      cards: { '42': makeCard() },
+      availability: { '42': availability('unavailable') },
+    }, NOW);
+    state = applyWatchCheck(state, { version: 'v2', cards: { '42': makeCard({ max_atk: 8500 }) }, availability: null }, NOW + 1);
+    expect(state.cards[0].snapshot?.auctionStock).toBe('unavailable');
+    state = applyWatchCheck(state, {
+      version: 'v3',
+      cards: { '42': makeCard({ max_atk: 8500 }) },
+      availability: { '42': availability('low') },
+    }, NOW + 2);
+
+    expect(state.events.map(e => e.text)).toEqual(['Listed in auction: Rarely Listed', 'Max ATK: 8000 → 8500 (+500)']);
+    expect(state.events[0]).toMatchObject({ cardId: '42', cardName: 'Kaguya', dataVersion: 'v3' });
+    expect(groupWatchEvents(state.events)).toHaveLength(1);
+  });
+
+  it('decides when a check is due', () => {
+    expect(isWatchCheckDue(EMPTY_WATCHLIST, NOW)).toBe(false);
+    expect(isWatchCheckDue(watching, NOW)).toBe(true);
+    const checked = applyWatchCheck(watching, { version: 'v1', cards: { '42': makeCard() }, availability: null }, NOW);
+    expect(isWatchCheckDue(checked, NOW + 1000)).toBe(false);
+    expect(isWatchCheckDue(checked, NOW + WATCH_CHECK_INTERVAL)).toBe(true);
+  });
+});
+
+// =============================================================================
+// List operations
+// =============================================================================
+
+describe('watchlist: list operations', () => {
+  it('adds once and removes a card with its events', () => {
+    const state: WatchlistState = {
+      ...addWatchedCard(addWatchedCard(EMPTY_WATCHLIST, '1', NOW), '1', NOW),
+      events: [{ cardId: '1', cardName: 'A', kind: 'auction', text: 'x', detectedAt: NOW, dataVersion: 'v1' }],
+    };
+    expect(state.cards).toHaveLength(1);
+    expect(removeWatchedCard(state, '1')).toEqual({ ...state, cards: [], events: [] });
+  });
+
+  it('drops malformed stored data', () => {
+    expect(normalizeWatchlist('nope')).toEqual(EMPTY_WATCHLIST);
+    expect(normalizeWatchlist({ cards: [{ cardId: '1' }, { id: 2 }], events: [{}] })).toEqual({
+      cards: [{ cardId: '1', addedAt: 0, snapshot: null }],
+      events: [],
+      lastCheckedAt: null,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * World Boss Planner Tests
+ *
+ * Tests for turning boss data into calculator inputs:
+ * - Boss level to EnemyState
+ * - Rotation looping
+ * - Target selection
+ * - Effect to status window mapping
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getBossEnemyState,
+  expandRotation,
+  resolveBossTargets,
+  effectToStatus,
+  planBossFight,
+} from '../world-boss-planner';
+import { parseWorldBoss, parseEffect, parseTarget } from '../worldBossParser';
+import { TOTAL_SLOTS, MAIN_TEAM_SIZE, type TeamMemberState, type EnemyState } from '../team-calc-types';
+import type { Card } from '../../types/card';
+import type { WbSkillEntry, WbLevelEntry } from '../../types/worldBoss';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const SKILLS: WbSkillEntry[] = [
+  { descId: '1', skillId: 1, bid: '1', ie: 'ATK<900,0>', ts: 'enemy;range_front<2.1>', de: 'STUN<5>;HIT<10.00%,0.55%>', ul: 0, sts: 0, stc: 0 },
+  { descId: '3', skillId: 3, bid: '1', ie: 'ATK<1200,0>', ts: 'enemy;count<5>', de: 'SPD<-50.00%,-2.63%,8>', ul: 0, sts: 0, stc: 0 },
+  { descId: '5', skillId: 5, bid: '1', ie: 'none', ts: 'self_ime', de: 'ATK<30.00%,0.99%,15>', ul: 0, sts: 0, stc: 0 },
+];
+
+const LEVELS: WbLevelEntry[] = [
+  { descId: '1', bossLv: 1, bossId: '1', hp: 1050000000, defense: 110, s: '5,1;10,3;15,5;20,1', ks: '5,3;10,3', rl: '' },
+];
+
+const BOSS = parseWorldBoss('1', SKILLS, LEVELS);
+
+const ENEMY: EnemyState = {
+  baseShield: 0.3,
+  baseDefense: 0,
+  isFinalWave: false,
+  waveCount: 3,
+  attribute: 'Divina',
+  ignoreShieldCap: false,
+  healersDontAttack: false,
+};
+
+function createTeam(cards: Array<{ type: number; atk: number; hp: number } | null>): TeamMemberState[] {
+  return Array.from({ length: TOTAL_SLOTS }, (_, i) => {
+    const spec = cards[i] ?? null;
+    const card = spec
+      ? ({ id: String(100 + i), name: `Card ${i}`, stats: { type: spec.type, max_hp: spec.hp } } as Card)
+      : null;
+    return {
+      cardId: card?.id ?? null,
+      card,
+      assistCardId: null,
+      assistCard: null,
+      limitBreak: 4,
+      levelBonus: 0,
+      bond1: 'none',
+      bond2: 'none',
+      bond3: 'none',
+      bondType: 'none',
+      skillActive: false,
+      isReserve: i >= MAIN_TEAM_SIZE,
+      computedStats: spec ? ({ displayAtk: spec.atk } as TeamMemberState['computedStats']) : null,
+      damageResult: null,
+      abilityContributions: [],
+      skillEffect: null,
+    };
+  });
+}
+
+const FULL_TEAM = createTeam([
+  { type: 1, atk: 10000, hp: 9000 },
+  { type: 3, atk: 30000, hp: 5000 },
+  { type: 2, atk: 20000, hp: 7000 },
+  null,
+  { type: 1, atk: 15000, hp: 3000 },
+]);
+
+// =============================================================================
+// Enemy State and Rotation
+// =============================================================================
+
+describe('world boss planner: enemy state', () => {
+  it('applies boss defense, lifts the shield cap and keeps other settings', () => {
+    const enemy = getBossEnemyState(BOSS.levels[0], ENEMY);
+    expect(enemy.baseDefense).toBeCloseTo(0.011);
+    expect(enemy).toMatchObject({ ignoreShieldCap: true, waveCount: 1, isFinalWave: true, baseShield: 0.3, attribute: 'Divina' });
+  });
+});
+
+describe('world boss planner: expandRotation', () => {
+  it('loops the rotation until the fight ends', () => {
+    const rotation = [{ time: 5, skillId: 1 }, { time: 10, skillId: 2 }];
+    expect(expandRotation(rotation, 32).map(e => e.time)).toEqual([5, 10, 15, 20, 25, 30]);
+    expect(expandRotation(rotation, 32).map(e => e.skillId)).toEqual([1, 2, 1, 2, 1, 2]);
+  });
+
+  it('returns nothing for an empty rotation', () => {
+    expect(expandRotation([], 60)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Targeting
+// =============================================================================
+
+describe('world boss planner: resolveBossTargets', () => {
+  const targets = (ts: string, cursor = { value: 0 }) => resolveBossTargets(parseTarget(ts), ts, FULL_TEAM, cursor);
+
+  it('skips self buffs and empty slots', () => {
+    expect(targets('self_ime')).toEqual([]);
+    expect(targets('enemy;count<5>')).toEqual([0, 1, 2, 4]);
+  });
+
+  it('picks the front, highest ATK and lowest HP members', () => {
+    expect(targets('enemy;range_front<2.1>')).toEqual([0, 1]);
+    expect(targets('enemy;count<1>;max_atk')).toEqual([1]);
+    expect(targets('enemy;count<2>;min_hp')).toEqual([1, 4]);
+  });
+
+  it('follows type priority', () => {
+    expect(targets('enemy;count<1>;prof<2,3,1>')).toEqual([2]);
+    expect(targets('enemy;count<2>;prof<3,2,1>')).toEqual([1, 2]);
+  });
+
+  it('spreads random targets round-robin', () => {
+    const cursor = { value: 0 };
+    expect(targets('enemy;count<2>', cursor)).toEqual([0, 1]);
+    expect(targets('enemy;count<2>', cursor)).toEqual([2, 4]);
+    expect(targets('enemy;count<2>', cursor)).toEqual([0, 1]);
+  });
+});
+
+// =============================================================================
+// Status Windows
+// =============================================================================
+
+describe('world boss planner: statuses', () => {
+  it('maps disabling, silencing and stat effects', () => {
+    expect(effectToStatus(parseEffect('STUN<5>')!)).toEqual({ kind: 'disable', value: 0, duration: 5 });
+    expect(effectToStatus(parseEffect('SILENCE<8>')!)).toEqual({ kind: 'silence', value: 0, duration: 8 });
+    expect(effectToStatus(parseEffect('SPD<-50.00%,-2.63%,8>')!)).toEqual({ kind: 'slow', value: -0.5, duration: 8 });
+    expect(effectToStatus(parseEffect('CHIT<-30.00%,0%,10>')!)).toEqual({ kind: 'critRate', value: -0.3, duration: 10 });
+    expect(effectToStatus(parseEffect('CHIT_ATK<-10.00%,0%,5>')!)!.value).toBeCloseTo(-0.2);
+  });
+
+  it('ignores effects that do not change damage dealt', () => {
+    expect(effectToStatus(parseEffect('POISON<5.0%,0.50%,5>')!)).toBeNull();
+    expect(effectToStatus(parseEffect('DEFENSE<-400,-10,10>')!)).toBeNull();
+    expect(effectToStatus(parseEffect('HIT<10.00%,0.55%>')!)).toBeNull();
+  });
+
+  it('plans casts and status windows over the rotation', () => {
+    const plan = planBossFight(BOSS, BOSS.levels[0], 'normal', FULL_TEAM, ENEMY, 30);
+
+    expect(plan.casts.map(c => [c.time, c.skill.id])).toEqual([[5, 1], [10, 3], [15, 5], [20, 1], [25, 1]]);
+    expect(plan.casts[2].targets).toEqual([]);
+
+    const stuns = plan.statuses.filter(s => s.kind === 'disable');
+    expect(stuns.map(s => [s.memberIndex, s.start, s.end])).toEqual([
+      [0, 5, 10], [1, 5, 10], [0, 20, 25], [1, 20, 25], [0, 25, 30], [1, 25, 30],
+    ]);
+    const slows = plan.statuses.filter(s => s.kind === 'slow');
+    expect(slows).toHaveLength(4);
+    expect(slows[0]).toMatchObject({ start: 10, end: 18, value: -0.5, source: 'Kinoe S3: Speed -50.00% (8s)' });
+  });
+
+  it('uses the kill rotation when asked', () => {
+    const plan = planBossFight(BOSS, BOSS.levels[0], 'kill', FULL_TEAM, ENEMY, 20);
+    expect(plan.casts.every(c => c.skill.id === 3)).toBe(true);
+  });
+});
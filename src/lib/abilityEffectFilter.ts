@@ -0,0 +1,271 @@
+/**
+ * Effect-level ability filter for the card table.
+ *
+ * Ability tags lump very different abilities together ("DMG Boost" covers a 5% self
+ * buff and a 30% team buff). This filter queries the pipeline's ParsedAbility instead:
+ * effect type, who it lands on, how big it is, and when it triggers.
+ *
+ * cards_index.json does not carry `parsed`, so CardTable loads the full cards.json
+ * (the calculator's data) the first time an effect filter is set, and passes those
+ * abilities in by card ID.
+ *
+ * Values are compared by magnitude in the effect's own unit: percent for most effects,
+ * flat points for DEFENSE, levels for LEVEL. A SHIELD -30 debuff has magnitude 30.
+ */
+
+import type { Ability, ParsedAbility, ParsedAbilityEffect } from '../types/card';
+import { ALLOWED_FILTER_VALUES, MAX_FILTER_VALUE_LENGTH, matchAllowedValue } from './security';
+
+// --- Types ---
+
+/** Who an ability's effects land on, collapsed from ParsedAbilityTarget. */
+export type EffectScope = 'self' | 'team' | 'attribute' | 'ranked' | 'enemy';
+
+export interface AbilityEffectFilter {
+  /** Parsed effect type ('ATK', 'SHIELD', ...); null matches any. */
+  effectType: string | null;
+  /** Empty matches any scope. */
+  scopes: EffectScope[];
+  /** Only effects aimed at members of this attribute. */
+  attribute: string | null;
+  /** Minimum magnitude, in the effect's own unit. */
+  minValue: number | null;
+  /** Parsed trigger ('entry', 'entry_wave', ...); null matches any. */
+  trigger: string | null;
+  /** Skip abilities with synergy or other conditions. */
+  unconditionalOnly: boolean;
+}
+
+export interface AbilityEffectMatch {
+  abilityId: string;
+  abilityName: string;
+  effectType: string;
+  value: number;
+  magnitude: number;
+  unit: 'percent' | 'flat';
+  scope: EffectScope;
+  trigger: string | null;
+}
+
+// --- Constants ---
+
+export const EMPTY_EFFECT_FILTER: AbilityEffectFilter = {
+  effectType: null,
+  scopes: [],
+  attribute: null,
+  minValue: null,
+  trigger: null,
+  unconditionalOnly: false,
+};
+
+export const EFFECT_SCOPES: { scope: EffectScope; label: string }[] = [
+  { scope: 'self', label: 'Self' },
+  { scope: 'team', label: 'Team' },
+  { scope: 'attribute', label: 'Attribute allies' },
+  { scope: 'ranked', label: 'Top-N allies' },
+  { scope: 'enemy', label: 'Enemy' },
+];
+
+/** Display names for parsed effect types. Unlisted types show as-is. */
+export const EFFECT_TYPE_LABELS: Record<string, string> = {
+  ATK: 'DMG',
+  SKILL_ATK: 'Skill DMG',
+  NORM_ATK: 'Normal DMG',
+  CHIT: 'Crit Rate',
+  CHIT_ATK: 'Crit DMG',
+  SPD: 'Speed',
+  SHIELD: 'Shield',
+  DEFENSE: 'Defense',
+  LEVEL: 'Level',
+  HP: 'Max HP',
+  HEAL: 'Heal',
+  HEAL_DOT: 'Regen',
+  HPP_IN: 'HP Restore',
+  VAMP: 'Lifesteal',
+  REVENGE: 'Counter',
+  IMMUNE: 'Immunity',
+  TIME: 'Skill Cooldown',
+  EXP: 'EXP',
+  COIN: 'Coins',
+  ITEM: 'Drops',
+};
+
+export const TRIGGER_LABELS: Record<string, string> = {
+  entry: 'Battle start',
+  entry_wave: 'Wave start',
+  last_wave: 'Final wave',
+  entry_leader: 'Leader',
+  attack_normal: 'On attack',
+  attack_skill: 'On skill',
+};
+
+const EFFECT_SCOPE_VALUES = EFFECT_SCOPES.map(s => s.scope);
+const KNOWN_ATTRIBUTES = ALLOWED_FILTER_VALUES.attributes.filter(a => a !== 'Neutral');
+
+// --- Classification ---
+
+/** Collapse a parsed target into the scope the filter offers. */
+export function getEffectScope(parsed: ParsedAbility): EffectScope {
+  const target = parsed.target;
+  if (!target) return 'self';
+  if (target.side === 'enemy' || target.type === 'enemy' || target.type === 'current_target') return 'enemy';
+  switch (target.type) {
+    case 'attribute':
+      return 'attribute';
+    case 'ranked':
+      return 'ranked';
+    case 'self':
+    case 'self_ime':
+      // Same promotion as team-calc: a "self" target hitting several members is a team buff
+      return target.count > 1 ? 'team' : 'self';
+    default:
+      return 'team';
+  }
+}
+
+/** Percent unless the pipeline says flat. DEFENSE is the flat one in practice. */
+function getEffectUnit(effect: ParsedAbilityEffect): 'percent' | 'flat' {
+  return effect.unit ?? (effect.type === 'DEFENSE' ? 'flat' : 'percent');
+}
+
+/**
+ * Conditions arrive as a string list in the type but as `{ mns_ids }` from the
+ * pipeline (see team-calc), so accept either.
+ */
+function hasConditions(parsed: ParsedAbility): boolean {
+  const conditions = parsed.conditions as unknown;
+  if (Array.isArray(conditions)) return conditions.length > 0;
+  if (conditions && typeof conditions === 'object') {
+    return Object.values(conditions).some(v => (Array.isArray(v) ? v.length > 0 : !!v));
+  }
+  return false;
+}
+
+// --- Matching ---
+
+/** True when no part of the filter is set. */
+export function isEffectFilterEmpty(filter: AbilityEffectFilter): boolean {
+  return filter.effectType === null &&
+    filter.scopes.length === 0 &&
+    filter.attribute === null &&
+    filter.minValue === null &&
+    filter.trigger === null &&
+    !filter.unconditionalOnly;
+}
+
+/**
+ * Every ability effect that satisfies the filter, largest magnitude first.
+ * Abilities without parsed data never match.
+ */
+export function findAbilityEffectMatches(abilities: Ability[], filter: AbilityEffectFilter): AbilityEffectMatch[] {
+  const matches: AbilityEffectMatch[] = [];
+
+  for (const ability of abilities) {
+    const parsed = ability.parsed;
+    if (!parsed) continue;
+
+    const scope = getEffectScope(parsed);
+    const trigger = parsed.trigger ?? null;
+    if (filter.scopes.length > 0 && !filter.scopes.includes(scope)) continue;
+    if (filter.attribute !== null && parsed.target?.attribute !== filter.attribute) continue;
+    if (filter.trigger !== null && trigger !== filter.trigger) continue;
+    if (filter.unconditionalOnly && hasConditions(parsed)) continue;
+
+    for (const effect of parsed.effects || []) {
+      if (filter.effectType !== null && effect.type !== filter.effectType) continue;
+      const magnitude = Math.abs(effect.value);
+      if (filter.minValue !== null && magnitude < filter.minValue) continue;
+      matches.push({
+        abilityId: ability.id,
+        abilityName: ability.name,
+        effectType: effect.type,
+        value: effect.value,
+        magnitude,
+        unit: getEffectUnit(effect),
+        scope,
+        trigger,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.magnitude - a.magnitude);
+}
+
+/** Effect types present in the data, most common first, for the type dropdown. */
+export function listEffectTypes(abilityLists: Iterable<Ability[]>): string[] {
+  const counts = new Map<string, number>();
+  for (const abilities of abilityLists) {
+    for (const ability of abilities) {
+      for (const effect of ability.parsed?.effects || []) {
+        counts.set(effect.type, (counts.get(effect.type) ?? 0) + 1);
+      }
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([type]) => type);
+}
+
+/** "+15% DMG", "-30% Shield", "-400 Defense" */
+export function formatEffectMatch(match: AbilityEffectMatch): string {
+  const sign = match.value > 0 ? '+' : match.value < 0 ? '-' : '';
+  const amount = match.unit === 'percent' ? `${match.magnitude}%` : `${match.magnitude}`;
+  return `${sign}${amount} ${EFFECT_TYPE_LABELS[match.effectType] ?? match.effectType}`;
+}
+
+// --- URL params ---
+
+/**
+ * Serialize a filter as "key:value" pairs joined by ";", e.g.
+ * "type:ATK;scope:team;min:15". Returns null for an empty filter.
+ */
+export function formatEffectFilterParam(filter: AbilityEffectFilter): string | null {
+  if (isEffectFilterEmpty(filter)) return null;
+  const parts: string[] = [];
+  if (filter.effectType) parts.push(`type:${filter.effectType}`);
+  if (filter.scopes.length > 0) parts.push(`scope:${filter.scopes.join(',')}`);
+  if (filter.attribute) parts.push(`attr:${filter.attribute}`);
+  if (filter.minValue !== null) parts.push(`min:${filter.minValue}`);
+  if (filter.trigger) parts.push(`trigger:${filter.trigger}`);
+  if (filter.unconditionalOnly) parts.push('plain:1');
+  return parts.join(';');
+}
+
+/**
+ * Parse and validate an ?effect= param. Unknown keys and invalid values are
+ * dropped; effect types and triggers are open vocabularies, so they are only
+ * checked for shape. Returns null when nothing valid is left.
+ */
+export function parseEffectFilterParam(param: string | null): AbilityEffectFilter | null {
+  if (!param) return null;
+  const filter: AbilityEffectFilter = { ...EMPTY_EFFECT_FILTER, scopes: [] };
+
+  for (const part of param.split(';')) {
+    const [key, rawValue = ''] = part.split(':', 2);
+    const value = rawValue.trim().slice(0, MAX_FILTER_VALUE_LENGTH);
+    switch (key) {
+      case 'type':
+        if (/^[A-Z_]+$/.test(value)) filter.effectType = value;
+        break;
+      case 'scope':
+        filter.scopes = value.split(',')
+          .map(s => matchAllowedValue(s, EFFECT_SCOPE_VALUES))
+          .filter((s): s is EffectScope => s !== null);
+        break;
+      case 'attr':
+        filter.attribute = matchAllowedValue(value, KNOWN_ATTRIBUTES);
+        break;
+      case 'min': {
+        const min = Number(value);
+        if (value && Number.isFinite(min) && min >= 0) filter.minValue = min;
+        break;
+      }
+      case 'trigger':
+        if (/^[a-z_]+$/.test(value)) filter.trigger = value;
+        break;
+      case 'plain':
+        filter.unconditionalOnly = value === '1';
+        break;
+    }
+  }
+
+  return isEffectFilterEmpty(filter) ? null : filter;
+}
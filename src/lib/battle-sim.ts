@@ -0,0 +1,284 @@
+/**
+ * Battle Simulator
+ * Time-stepped simulation on top of the team damage calculator.
+ *
+ * calculateTeamDamage() answers "what does this team do with these skills up";
+ * the simulator answers "what does this team do over a fight" by replaying
+ * attacks, skill casts, buff expiry and wave changes on a fixed tick and
+ * re-running the team calculation whenever the set of active buffs or the wave
+ * changes.
+ *
+ * Model:
+ * - Normal attacks land every `attackInterval` seconds (the speed formula in
+ *   damage-calc: interval = (speed + ATTACK_INTERVAL_OFFSET) / ATTACK_INTERVAL_DIVISOR),
+ *   re-read each tick so speed buffs take effect while they are up.
+ * - Skills cast every `skillIntervals[i]` seconds. A cast deals its expected
+ *   damage immediately (with the buffs active at cast time, not its own) and
+ *   opens a buff window of `skillEffect.duration` seconds. Skills with buffs
+ *   but no parsed duration keep them up for the rest of the fight.
+ * - Wave Start abilities stack once per wave reached; Final Wave abilities
+ *   switch on when the last wave starts.
+ * - Optional boss statuses (config.bossStatuses) act per member: a disabled
+ *   member's attack and cast timers are held until the status ends, silence
+ *   holds only casts, slows stretch the attack interval and crit debuffs scale
+ *   expected damage by the change in expected crit multiplier.
+ */
+
+import {
+  type TeamMemberState,
+  type EnemyState,
+  type TeamCalculationResult,
+  type BattleSimulationConfig,
+  type BattleSimulationResult,
+  type BattleSkillCast,
+  type BattleTimelinePoint,
+  type BattleMemberTotals,
+  type BossStatusWindow,
+  MAIN_TEAM_SIZE,
+  SIM_TICK_SECONDS,
+} from './team-calc-types';
+import { calculateTeamDamage } from './team-calc';
+
+// Float slack so 0.1-second ticks don't drift an event into the wrong tick
+const EPSILON = 1e-9;
+
+/**
+ * Get the 1-based wave number at a point in the fight.
+ * Every wave before the last lasts `waveDurationSeconds`; the last wave runs to the end.
+ */
+export function getWaveAt(time: number, config: Pick<BattleSimulationConfig, 'waveCount' | 'waveDurationSeconds'>): number {
+  const waveCount = Math.max(1, Math.floor(config.waveCount));
+  if (waveCount === 1 || config.waveDurationSeconds <= 0) return waveCount;
+  const wave = Math.floor((time + EPSILON) / config.waveDurationSeconds) + 1;
+  return Math.min(wave, waveCount);
+}
+
+interface StatusModifiers {
+  disabled: boolean;
+  silenced: boolean;
+  speedChange: number;
+  critRate: number;
+  critDmg: number;
+}
+
+/**
+ * Combine the boss statuses active on one member at a point in time.
+ * Re-applied debuffs refresh rather than stack, so the strongest value of
+ * each kind wins.
+ */
+export function getStatusModifiers(statuses: BossStatusWindow[], time: number): StatusModifiers {
+  const mods: StatusModifiers = { disabled: false, silenced: false, speedChange: 0, critRate: 0, critDmg: 0 };
+  const strongest = (current: number, value: number) => (Math.abs(value) > Math.abs(current) ? value : current);
+
+  for (const status of statuses) {
+    if (time + EPSILON < status.start || time + EPSILON >= status.end) continue;
+    switch (status.kind) {
+      case 'disable': mods.disabled = true; break;
+      case 'silence': mods.silenced = true; break;
+      case 'slow': mods.speedChange = strongest(mods.speedChange, status.value); break;
+      case 'critRate': mods.critRate = strongest(mods.critRate, status.value); break;
+      case 'critDmg': mods.critDmg = strongest(mods.critDmg, status.value); break;
+    }
+  }
+  return mods;
+}
+
+/**
+ * Ratio of expected crit multipliers after and before a crit rate / crit
+ * multiplier change (1 when nothing changes)
+ */
+export function getCritScale(critRate: number, critMult: number, rateChange: number, multChange: number): number {
+  if (rateChange === 0 && multChange === 0) return 1;
+  const clampRate = (rate: number) => Math.max(0, Math.min(1, rate));
+  const before = 1 + clampRate(critRate) * (critMult - 1);
+  const after = 1 + clampRate(critRate + rateChange) * (Math.max(1, critMult + multChange) - 1);
+  return before > 0 ? after / before : 1;
+}
+
+/**
+ * Run a time-stepped simulation of the main team over a fight.
+ *
+ * @param members - Resolved team members (cards and skillEffect populated, as in the reducer state)
+ * @param enemy - Base enemy state; `waveCount` and `isFinalWave` are driven by the simulation
+ * @param config - Fight length, wave timing and per-member skill cast intervals
+ */
+export function simulateBattle(
+  members: TeamMemberState[],
+  enemy: EnemyState,
+  config: BattleSimulationConfig
+): BattleSimulationResult {
+  const duration = Math.max(0, config.durationSeconds);
+  const totalTicks = Math.round(duration / SIM_TICK_SECONDS);
+  const ticksPerSecond = Math.round(1 / SIM_TICK_SECONDS);
+  const seconds = Math.ceil(duration - EPSILON);
+  const waveCount = Math.max(1, Math.floor(config.waveCount));
+  const randomTargetMode = config.randomTargetMode ?? 'best';
+
+  // One team calculation per (wave, active buff set) — at most waves × 2^5
+  const stateCache = new Map<string, TeamCalculationResult>();
+  const getState = (wave: number, activeMask: boolean[]): TeamCalculationResult => {
+    const key = `${wave}:${activeMask.map(a => (a ? 1 : 0)).join('')}`;
+    let result = stateCache.get(key);
+    if (!result) {
+      const stateMembers = members.map((m, i) => ({
+        ...m,
+        skillActive: i < MAIN_TEAM_SIZE && activeMask[i],
+      }));
+      const stateEnemy: EnemyState = {
+        ...enemy,
+        waveCount: wave,
+        isFinalWave: wave === waveCount,
+      };
+      result = calculateTeamDamage(stateMembers, stateEnemy, config.abilityTargetOverrides, randomTargetMode);
+      stateCache.set(key, result);
+    }
+    return result;
+  };
+
+  const timeline: BattleTimelinePoint[] = Array.from({ length: seconds }, (_, second) => ({
+    second,
+    wave: getWaveAt(second, config),
+    normalDamage: 0,
+    skillDamage: 0,
+    totalDamage: 0,
+    cumulativeDamage: 0,
+    memberDamage: Array.from({ length: MAIN_TEAM_SIZE }, () => 0),
+    activeBuffs: [],
+  }));
+
+  const memberTotals: BattleMemberTotals[] = Array.from({ length: MAIN_TEAM_SIZE }, (_, i) => ({
+    memberIndex: i,
+    normalDamage: 0,
+    skillDamage: 0,
+    totalDamage: 0,
+    attacks: 0,
+    casts: 0,
+    buffUptime: 0,
+    disabledTime: 0,
+  }));
+
+  const casts: BattleSkillCast[] = [];
+  const buffEndsAt: number[] = Array.from({ length: MAIN_TEAM_SIZE }, () => -1);
+  const buffTicks: number[] = Array.from({ length: MAIN_TEAM_SIZE }, () => 0);
+  const disabledTicks: number[] = Array.from({ length: MAIN_TEAM_SIZE }, () => 0);
+  const memberStatuses: BossStatusWindow[][] = Array.from({ length: MAIN_TEAM_SIZE }, (_, i) =>
+    (config.bossStatuses ?? []).filter(status => status.memberIndex === i)
+  );
+  const nextAttackAt: Array<number | null> = Array.from({ length: MAIN_TEAM_SIZE }, () => null);
+  const nextCastAt: Array<number | null> = Array.from({ length: MAIN_TEAM_SIZE }, (_, i) => {
+    const interval = config.skillIntervals[i] ?? 0;
+    return members[i]?.card?.skill && interval > 0 ? interval : null;
+  });
+
+  const addDamage = (time: number, memberIndex: number, amount: number, kind: 'normal' | 'skill') => {
+    if (amount <= 0) return;
+    const point = timeline[Math.min(Math.floor(time + EPSILON), seconds - 1)];
+    if (!point) return;
+    point.memberDamage[memberIndex] += amount;
+    if (kind === 'normal') {
+      point.normalDamage += amount;
+      memberTotals[memberIndex].normalDamage += amount;
+    } else {
+      point.skillDamage += amount;
+      memberTotals[memberIndex].skillDamage += amount;
+    }
+  };
+
+  for (let tick = 0; tick < totalTicks; tick++) {
+    const t = tick * SIM_TICK_SECONDS;
+    const tEnd = Math.min(t + SIM_TICK_SECONDS, duration);
+    const wave = getWaveAt(t, config);
+
+    const activeMask = buffEndsAt.map(end => t + EPSILON < end);
+    const state = getState(wave, activeMask);
+
+    if (tick % ticksPerSecond === 0) {
+      const point = timeline[Math.floor(t + EPSILON)];
+      if (point) {
+        point.activeBuffs = activeMask.flatMap((active, i) => (active ? [i] : []));
+      }
+    }
+
+    for (let i = 0; i < MAIN_TEAM_SIZE; i++) {
+      const member = members[i];
+      const damage = state.members[i]?.damageResult;
+      if (!member?.card || !damage) continue;
+
+      if (activeMask[i]) buffTicks[i]++;
+
+      // Boss statuses: while disabled, hold both timers until the tick ends
+      const baseInterval = state.members[i].computedStats.attackInterval;
+      const mods = getStatusModifiers(memberStatuses[i], t);
+      if (mods.disabled) {
+        disabledTicks[i]++;
+        if (nextCastAt[i] !== null) nextCastAt[i] = Math.max(nextCastAt[i]!, tEnd);
+        nextAttackAt[i] = Math.max(nextAttackAt[i] ?? baseInterval, tEnd);
+        continue;
+      }
+
+      // Skill casts due this tick (silence holds them until it ends)
+      const skillInterval = config.skillIntervals[i] ?? 0;
+      let castAt = nextCastAt[i];
+      if (mods.silenced && castAt !== null) castAt = Math.max(castAt, tEnd);
+      const skillCritScale = getCritScale(
+        damage.breakdown?.skillCritRate ?? state.members[i].computedStats.effectiveCritRate,
+        damage.breakdown?.skillCritDmg ?? state.members[i].computedStats.effectiveCritDmg,
+        mods.critRate,
+        mods.critDmg
+      );
+      while (castAt !== null && castAt < tEnd - EPSILON) {
+        const castDamage = damage.skillDamageExpected * skillCritScale;
+        addDamage(castAt, i, castDamage, 'skill');
+        memberTotals[i].casts++;
+
+        let endsAt: number | null = null;
+        if (member.skillEffect) {
+          endsAt = Math.min(castAt + (member.skillEffect.duration ?? Infinity), duration);
+          buffEndsAt[i] = Math.max(buffEndsAt[i], endsAt);
+        }
+        casts.push({ memberIndex: i, time: castAt, damage: castDamage, buffEndsAt: endsAt });
+        castAt += skillInterval;
+      }
+      nextCastAt[i] = castAt;
+
+      // Normal attacks due this tick (interval re-read so speed buffs and slows apply while up)
+      const attackInterval = baseInterval / Math.max(0.1, 1 + mods.speedChange);
+      if (attackInterval <= 0 || damage.normalDamageExpected <= 0) continue;
+      const normalCritScale = getCritScale(
+        state.members[i].computedStats.effectiveCritRate,
+        state.members[i].computedStats.effectiveCritDmg,
+        mods.critRate,
+        mods.critDmg
+      );
+      let attackAt = nextAttackAt[i] ?? attackInterval;
+      while (attackAt < tEnd - EPSILON) {
+        addDamage(attackAt, i, damage.normalDamageExpected * normalCritScale, 'normal');
+        memberTotals[i].attacks++;
+        attackAt += attackInterval;
+      }
+      nextAttackAt[i] = attackAt;
+    }
+  }
+
+  let cumulative = 0;
+  for (const point of timeline) {
+    point.totalDamage = point.normalDamage + point.skillDamage;
+    cumulative += point.totalDamage;
+    point.cumulativeDamage = cumulative;
+  }
+
+  for (let i = 0; i < MAIN_TEAM_SIZE; i++) {
+    const totals = memberTotals[i];
+    totals.totalDamage = totals.normalDamage + totals.skillDamage;
+    totals.buffUptime = totalTicks > 0 ? buffTicks[i] / totalTicks : 0;
+    totals.disabledTime = disabledTicks[i] * SIM_TICK_SECONDS;
+  }
+
+  return {
+    timeline,
+    casts,
+    memberTotals,
+    totalDamage: cumulative,
+    averageDps: duration > 0 ? Math.round(cumulative / duration) : 0,
+  };
+}
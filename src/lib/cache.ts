@@ -1,8 +1,24 @@
 /**
  * JSON data caching with hash validation
  * Uses IndexedDB for storage to handle large JSON files
+ *
+ * Every entry carries a SHA-256 of its payload, re-checked before a cached
+ * copy is served. Entries that fail are moved to a quarantine store (kept for
+ * inspection, never served) and refetched.
+ *
+ * The hash is computed here, when an entry is written, so it catches a payload
+ * that changed in storage — not one that was already wrong when stored. The
+ * manifest's `data_hash` can't stand in for it: the pipeline publishes it as an
+ * opaque version ID, not a digest of the content, so it can't be recomputed from
+ * a fetched or delta-patched index. Patched indexes are checked structurally in
+ * delta.ts before they are stored.
+ *
+ * Each entry is hashed once per write and at most once per page session on
+ * read; later hits on an entry already verified in this session skip the hash.
  */
 
+import { logger } from './logger';
+
 // Get data version and paths from global (set at build time in BaseLayout)
 declare global {
   interface Window {
@@ -15,25 +31,32 @@ declare global {
   }
 }
 
+// Read off globalThis rather than window so a worker that loads data can set them on self
 function getDataVersion(): string {
-  if (typeof window !== 'undefined' && window.OTOGIDB_DATA_VERSION) {
-    return window.OTOGIDB_DATA_VERSION;
-  }
-  return '';
+  const globals = globalThis as Partial<Pick<Window, 'OTOGIDB_DATA_VERSION'>>;
+  return globals.OTOGIDB_DATA_VERSION || '';
 }
 
 export const DB_NAME = 'otogidb-cache';
-export const DB_VERSION = 2; // Bumped from 1 → forces onupgradeneeded to recreate missing object store
+export const DB_VERSION = 3; // 2 → 3 adds the quarantine store
 export const STORE_NAME = 'json-cache';
+const QUARANTINE_STORE = 'quarantine';
 
-interface CacheEntry {
+export interface CacheEntry {
   key: string;
   data: unknown;
   version: string;
+  /** `sha256:<hex>` of the payload; older entries hold a 32-bit string hash */
   hash: string;
   cachedAt: number;
 }
 
+interface QuarantinedEntry extends CacheEntry {
+  reason: string;
+  actualHash: string | null;
+  quarantinedAt: number;
+}
+
 /**
  * Open IndexedDB connection
  */
@@ -42,13 +65,23 @@ function openDB(): Promise<IDBDatabase> {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    // Another tab still holds the old version open: skip the cache rather than wait
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'key' });
       }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'key' });
+      }
     };
   });
 }
@@ -85,7 +118,82 @@ async function setCache(entry: CacheEntry): Promise<void> {
       const request = store.put(entry);
 
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        // Hashed from this very object just now, so no need to re-hash it on the next read
+        verifiedEntries.set(entry.key, entry.cachedAt);
+        resolve();
+      };
+    });
+  } catch (error) {
+    console.warn('[Cache] IndexedDB operation failed', { key: entry.key, error: String(error) });
+  }
+}
+
+// =============================================================================
+// Content hashing and quarantine
+// =============================================================================
+
+const SHA256_PREFIX = 'sha256:';
+
+/** Key → `cachedAt` of entries verified (or written) in this page session */
+const verifiedEntries = new Map<string, number>();
+
+/**
+ * SHA-256 (Web Crypto) of a payload's JSON serialisation, which is what can be
+ * recomputed from the stored object later. Returns '' where Web Crypto isn't
+ * available (insecure origins), leaving the entry unverified.
+ */
+export async function computeContentHash(data: unknown): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return '';
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${SHA256_PREFIX}${hex}`;
+}
+
+export type PayloadCheck =
+  | { status: 'valid' }
+  | { status: 'corrupt'; actualHash: string }
+  | { status: 'unverified' };
+
+/**
+ * Re-hash a cached payload and compare it with the hash stored next to it.
+ * Entries without a SHA-256 hash (written by an older build, or without Web
+ * Crypto) can't be checked and are reported as unverified.
+ */
+export async function verifyCachedPayload(entry: Pick<CacheEntry, 'data' | 'hash'>): Promise<PayloadCheck> {
+  if (!entry.hash?.startsWith(SHA256_PREFIX)) return { status: 'unverified' };
+  const actualHash = await computeContentHash(entry.data);
+  if (!actualHash) return { status: 'unverified' };
+  return actualHash === entry.hash ? { status: 'valid' } : { status: 'corrupt', actualHash };
+}
+
+/**
+ * Move an entry out of the cache into the quarantine store, and report it.
+ * Quarantined entries are kept (one per key) for debugging but never served.
+ */
+async function quarantineEntry(entry: CacheEntry, reason: string, actualHash: string | null = null): Promise<void> {
+  logger.warn('Cache', 'Quarantined corrupted cache entry, refetching', {
+    event: 'cache_quarantine',
+    key: entry.key,
+    reason,
+    version: entry.version,
+    expectedHash: entry.hash,
+    actualHash,
+  });
+
+  verifiedEntries.delete(entry.key);
+  const quarantined: QuarantinedEntry = { ...entry, reason, actualHash, quarantinedAt: Date.now() };
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, QUARANTINE_STORE], 'readwrite');
+      transaction.objectStore(QUARANTINE_STORE).put(quarantined);
+      transaction.objectStore(STORE_NAME).delete(entry.key);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
     });
   } catch (error) {
     console.warn('[Cache] IndexedDB operation failed', { key: entry.key, error: String(error) });
@@ -93,16 +201,54 @@ async function setCache(entry: CacheEntry): Promise<void> {
 }
 
 /**
- * Calculate simple hash of JSON string for comparison
+ * Verify a cache hit before serving it; a corrupted entry is quarantined and
+ * the caller falls through to a fresh fetch.
  */
-function calculateHash(data: string): string {
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
+async function isIntact(entry: CacheEntry): Promise<boolean> {
+  if (verifiedEntries.get(entry.key) === entry.cachedAt) return true;
+  const check = await verifyCachedPayload(entry);
+  if (check.status !== 'corrupt') {
+    verifiedEntries.set(entry.key, entry.cachedAt);
+    return true;
   }
-  return hash.toString(16);
+  await quarantineEntry(entry, 'content hash mismatch', check.actualHash);
+  return false;
+}
+
+/**
+ * Quarantine whatever is cached under `key`, e.g. when a delta patched from it
+ * failed its integrity check. The next fetchWithCache call downloads it again.
+ */
+export async function quarantineCached(key: string, reason: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  const cached = await getCached(key);
+  if (cached) await quarantineEntry(cached, reason);
+}
+
+/**
+ * Store data produced on the client (a delta-patched index) under `key`,
+ * hashed like a fetched payload and tagged with the current build version.
+ */
+export async function storeCached(key: string, data: unknown): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  await setCache({
+    key,
+    data,
+    version: getDataVersion() || (data as Record<string, unknown>).version as string || '',
+    hash: await computeContentHash(data),
+    cachedAt: Date.now(),
+  });
+}
+
+/**
+ * Last-resort read when the network fails: ignores version and expiry, but
+ * still never returns a payload that fails its hash.
+ */
+export async function getStaleCached<T>(key: string): Promise<T | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  const cached = await getCached(key);
+  if (!cached?.data || !(await isIntact(cached))) return null;
+  return cached.data as T;
 }
 
 /**
@@ -112,7 +258,8 @@ function calculateHash(data: string): string {
  * 1. If build version (window.OTOGIDB_DATA_VERSION) doesn't match cached version -> refetch
  * 2. If forceRefresh is true -> refetch
  * 3. If cache is older than maxAge -> refetch
- * 4. Otherwise -> use cache
+ * 4. If the cached payload no longer matches its SHA-256 -> quarantine and refetch
+ * 5. Otherwise -> use cache
  *
  * @param url - URL to fetch
  * @param options - Caching options
@@ -157,22 +304,30 @@ export async function fetchWithCache<T>(
       }
       // If we have expected version/hash, validate against it
       else if (expectedVersion && cached.version === expectedVersion) {
-        if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (version match: ${expectedVersion})`);
-        return cached.data as T;
+        if (await isIntact(cached)) {
+          if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (version match: ${expectedVersion})`);
+          return cached.data as T;
+        }
       }
       else if (expectedHash && cached.hash === expectedHash) {
-        if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (hash match: ${expectedHash})`);
-        return cached.data as T;
+        if (await isIntact(cached)) {
+          if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (hash match: ${expectedHash})`);
+          return cached.data as T;
+        }
       }
       // Build version matches cached version - use cache if not expired
       else if (buildVersion && cached.version === buildVersion) {
-        if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (build version match: ${buildVersion})`);
-        return cached.data as T;
+        if (await isIntact(cached)) {
+          if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (build version match: ${buildVersion})`);
+          return cached.data as T;
+        }
       }
       // No build version set and not expired, use cache
       else if (!buildVersion && !expectedVersion && !expectedHash && !isExpired) {
-        if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (not expired, age: ${Math.round(age / 1000)}s)`);
-        return cached.data as T;
+        if (await isIntact(cached)) {
+          if (import.meta.env.DEV) console.log(`[Cache] Hit: ${url} (not expired, age: ${Math.round(age / 1000)}s)`);
+          return cached.data as T;
+        }
       }
       else {
         if (import.meta.env.DEV) console.log(`[Cache] Stale: ${url} (age: ${Math.round(age / 1000)}s, expired: ${isExpired})`);
@@ -189,11 +344,10 @@ export async function fetchWithCache<T>(
     throw new Error(`Failed to fetch ${url}: ${response.status}`);
   }
 
-  const text = await response.text();
-  const data = JSON.parse(text) as T;
+  const data = await response.json() as T;
 
   // Calculate hash and extract version if available
-  const hash = calculateHash(text);
+  const hash = await computeContentHash(data);
   // Use build version as the cached version (so we can detect version changes)
   const dataVersion = buildVersion || (data as Record<string, unknown>).version as string || '';
 
@@ -216,15 +370,16 @@ export async function fetchWithCache<T>(
  * Clear all cached data
  */
 export async function clearCache(): Promise<void> {
+  verifiedEntries.clear();
   try {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.clear();
+      const transaction = db.transaction([STORE_NAME, QUARANTINE_STORE], 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      transaction.objectStore(QUARANTINE_STORE).clear();
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   } catch (error) {
     console.warn('Cache clear error:', error);
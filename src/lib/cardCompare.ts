@@ -0,0 +1,245 @@
+/**
+ * Side-by-side comparison of 2–4 cards for the /compare page.
+ *
+ * Builds display rows (one value per card) grouped into sections, and marks which
+ * rows differ and which card is best on rows where "better" is meaningful.
+ *
+ * - Stats use LB0 max and the extrapolated MLB values from computeMlbStats
+ * - Skill text at each LB (level cap of LB0–LB4) from cardLevels, once the full
+ *   card data and skills.json are loaded; until then the index's LB0 / MLB values
+ * - Ability effects come from the pipeline's ParsedAbility (full cards.json), shown
+ *   with the same labels as the card table's effect filter
+ * - Overlap with the first card reuses getSimilarityDetails
+ *
+ * Speed is an attack-interval stat (interval = (speed + 750) / 900), so lower is better.
+ */
+
+import type { Ability, Card } from '../types/card';
+import { computeMlbStats, substituteSkillTemplate } from './lb';
+import { computeLimitBreakSteps, type LevelViewerSkill } from './cardLevels';
+import { MAX_LB } from './damage-calc';
+import { findAbilityEffectMatches, formatEffectMatch, EMPTY_EFFECT_FILTER, TRIGGER_LABELS } from './abilityEffectFilter';
+import { getSimilarityDetails } from './similarity';
+import { validateCardId } from './security';
+
+// --- Types ---
+
+export type CompareBetter = 'higher' | 'lower' | null;
+
+export interface CompareRow {
+  key: string;
+  label: string;
+  /** Display value per card, in card order; null = not applicable. */
+  values: (string | null)[];
+  /** Indices of the best card(s); empty when the row has no "better" or all tie. */
+  best: number[];
+  /** True when not every card shows the same value. */
+  differs: boolean;
+}
+
+export interface CompareSection {
+  title: string;
+  rows: CompareRow[];
+}
+
+// --- Constants ---
+
+export const MAX_COMPARE_CARDS = 4;
+
+const SOURCE_LABELS: Record<string, string> = {
+  gacha: 'Gacha',
+  exchange: 'Exchange',
+  auction: 'Auction',
+  event: 'Event',
+  daily: 'Daily Dungeon',
+};
+
+// --- URL params ---
+
+/**
+ * Parse ?ids= into valid, unique card IDs, keeping order and the first
+ * MAX_COMPARE_CARDS.
+ */
+export function parseCompareIds(param: string | null): string[] {
+  if (!param) return [];
+  const ids: string[] = [];
+  for (const part of param.split(',')) {
+    const id = validateCardId(part.trim());
+    if (id === null) continue;
+    const key = String(id);
+    if (!ids.includes(key)) ids.push(key);
+    if (ids.length === MAX_COMPARE_CARDS) break;
+  }
+  return ids;
+}
+
+// --- Rows ---
+
+function textRow(key: string, label: string, values: (string | null)[]): CompareRow {
+  const present = values.map(v => v ?? '');
+  return { key, label, values, best: [], differs: new Set(present).size > 1 };
+}
+
+function numberRow(
+  key: string,
+  label: string,
+  numbers: (number | null)[],
+  better: CompareBetter,
+  format: (n: number) => string = n => n.toLocaleString()
+): CompareRow {
+  const values = numbers.map(n => (n === null ? null : format(n)));
+  const known = numbers.filter((n): n is number => n !== null);
+  const differs = new Set(numbers).size > 1;
+
+  let best: number[] = [];
+  if (better && differs && known.length > 1) {
+    const target = better === 'higher' ? Math.max(...known) : Math.min(...known);
+    best = numbers.flatMap((n, i) => (n === target ? [i] : []));
+  }
+  return { key, label, values, best, differs };
+}
+
+/** Skill description at LB0 or MLB, from the index's pre-computed values. */
+export function getSkillText(card: Pick<Card, 'skill'>, lb: 'lb0' | 'mlb'): string | null {
+  const skill = card.skill;
+  if (!skill) return null;
+  return substituteSkillTemplate(skill.description, lb === 'lb0'
+    ? { value: skill.slv_lb0, probability: skill.prob_lb0, delay1: skill.delay_lb0 }
+    : { value: skill.slv_mlb, probability: skill.prob_mlb, delay1: skill.delay_mlb });
+}
+
+/**
+ * Skill rows: one per LB when level data is available for the cards, otherwise
+ * LB0 and MLB from the index.
+ */
+function skillTextRows(cards: Card[], levelSkills: Map<string, LevelViewerSkill> | null): CompareRow[] {
+  if (!levelSkills) {
+    return [
+      textRow('skill_lb0', 'LB0', cards.map(c => getSkillText(c, 'lb0'))),
+      textRow('skill_mlb', 'MLB', cards.map(c => getSkillText(c, 'mlb'))),
+    ];
+  }
+
+  const steps = cards.map(card => {
+    const skill = levelSkills.get(card.id);
+    return skill ? computeLimitBreakSteps(card.stats, skill, 0) : null;
+  });
+  return Array.from({ length: MAX_LB + 1 }, (_, lb) =>
+    textRow(lb === MAX_LB ? 'skill_mlb' : `skill_lb${lb}`, lb === MAX_LB ? 'MLB' : `LB${lb}`, cards.map((card, i) => {
+      const step = steps[i];
+      if (step) return step[lb].description;
+      // No level data for this card: the index still has both ends
+      if (lb === 0) return getSkillText(card, 'lb0');
+      return lb === MAX_LB ? getSkillText(card, 'mlb') : null;
+    }))
+  );
+}
+
+/** One line per parsed ability effect, e.g. "+15% DMG (Team, Wave start)". */
+export function describeAbilityEffects(abilities: Ability[]): string[] {
+  return abilities.flatMap(ability => {
+    const matches = findAbilityEffectMatches([ability], EMPTY_EFFECT_FILTER);
+    return matches.map(match => {
+      const trigger = match.trigger ? TRIGGER_LABELS[match.trigger] ?? match.trigger : null;
+      const where = [match.scope === 'self' ? 'Self' : match.scope[0].toUpperCase() + match.scope.slice(1), trigger]
+        .filter(Boolean)
+        .join(', ');
+      return `${formatEffectMatch(match)} (${where})`;
+    });
+  });
+}
+
+/**
+ * Build all comparison sections for the given cards.
+ *
+ * @param parsedAbilities - Abilities with `parsed` by card ID (from cards.json);
+ *   the effects section is left out until it is available
+ * @param levelSkills - Skills by card ID with per-level scaling (cards.json plus
+ *   skills.json, see toLevelViewerSkill); without it skills show LB0 / MLB only
+ */
+export function buildCompareSections(
+  cards: Card[],
+  parsedAbilities: Map<string, Ability[]> | null = null,
+  levelSkills: Map<string, LevelViewerSkill> | null = null
+): CompareSection[] {
+  const mlb = cards.map(card => computeMlbStats(card.stats));
+  const sections: CompareSection[] = [];
+
+  sections.push({
+    title: 'Basics',
+    rows: [
+      textRow('attribute', 'Attribute', cards.map(c => c.stats.attribute_name)),
+      textRow('type', 'Type', cards.map(c => c.stats.type_name)),
+      numberRow('rarity', 'Rarity', cards.map(c => c.stats.rarity), 'higher', n => '★'.repeat(n)),
+      numberRow('cost', 'Cost', cards.map(c => c.stats.cost), 'lower'),
+    ],
+  });
+
+  sections.push({
+    title: 'Stats',
+    rows: [
+      numberRow('atk_lb0', 'ATK (LB0)', cards.map(c => c.stats.max_atk), 'higher'),
+      numberRow('atk_mlb', 'ATK (MLB)', mlb.map(m => m?.mlb_atk ?? null), 'higher'),
+      numberRow('hp_lb0', 'HP (LB0)', cards.map(c => c.stats.max_hp), 'higher'),
+      numberRow('hp_mlb', 'HP (MLB)', mlb.map(m => m?.mlb_hp ?? null), 'higher'),
+      numberRow('speed', 'Speed (lower is faster)', cards.map(c => c.stats.speed), 'lower'),
+      numberRow('crit', 'Crit Rate', cards.map(c => c.stats.crit), 'higher', n => `${(n / 100).toFixed(1)}%`),
+    ],
+  });
+
+  sections.push({
+    title: 'Skill',
+    rows: [
+      textRow('skill_name', 'Name', cards.map(c => c.skill?.name ?? null)),
+      ...skillTextRows(cards, levelSkills),
+      textRow('skill_tags', 'Tags', cards.map(c => (c.skill?.tags || []).join(', ') || null)),
+    ],
+  });
+
+  const abilityCount = Math.max(0, ...cards.map(c => c.abilities?.length ?? 0));
+  const abilityRows: CompareRow[] = [];
+  for (let i = 0; i < abilityCount; i++) {
+    abilityRows.push(textRow(`ability_${i}`, `Ability ${i + 1}`, cards.map(c => {
+      const ability = c.abilities?.[i];
+      return ability ? `${ability.name}: ${ability.description}` : null;
+    })));
+  }
+  if (parsedAbilities) {
+    abilityRows.push(textRow('ability_effects', 'Effects', cards.map(c => {
+      const lines = describeAbilityEffects(parsedAbilities.get(c.id) || []);
+      return lines.length > 0 ? lines.join('\n') : null;
+    })));
+  }
+  sections.push({ title: 'Abilities', rows: abilityRows });
+
+  sections.push({
+    title: 'Bonds & Sources',
+    rows: [
+      textRow('bonds', 'Bond', cards.map(c => [...new Set((c.bonds || []).map(b => b.type))].join(', ') || null)),
+      textRow('special_bond', 'Special bond', cards.map(c =>
+        [c.gives_special_bond && 'Gives', c.receives_special_bond && 'Receives'].filter(Boolean).join(' & ') || null
+      )),
+      textRow('sources', 'Sources', cards.map(c =>
+        (c.acquisition?.sources || []).map(s => SOURCE_LABELS[s] ?? s).join(', ') || null
+      )),
+      textRow('available', 'Available now', cards.map(c => (c.acquisition?.currently_available ? 'Yes' : 'No'))),
+    ],
+  });
+
+  if (cards.length > 1) {
+    const [first, ...rest] = cards;
+    sections.push({
+      title: `Overlap with ${first.name || `#${first.id}`}`,
+      rows: [
+        textRow('shared_skill_tags', 'Shared skill tags', [null, ...rest.map(c =>
+          getSimilarityDetails(first, c).matchingSkillTags.join(', ') || 'None'
+        )]),
+        textRow('shared_ability_tags', 'Shared ability tags', [null, ...rest.map(c =>
+          getSimilarityDetails(first, c).matchingAbilityTags.join(', ') || 'None'
+        )]),
+      ],
+    });
+  }
+
+  return sections;
+}
@@ -0,0 +1,161 @@
+/**
+ * Card table export (CSV / JSON)
+ *
+ * Serializes the table's current view — filtered, sorted, with ATK / HP and
+ * skill values at the LB0 or MLB level on screen — for spreadsheets. JSON keeps
+ * numbers, lists and parsed ability effects structured; CSV flattens lists
+ * with "; " so each card stays on one row.
+ */
+
+import type { Ability, CardTableRow } from '../types/card';
+import { computeMlbStats } from './lb';
+import { EMPTY_EFFECT_FILTER, findAbilityEffectMatches } from './abilityEffectFilter';
+import { describeAbilityEffects, getSkillText } from './cardCompare';
+
+// --- Types ---
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportValue = string | number | boolean | null | string[] | ExportedEffect[];
+
+export interface ExportedEffect {
+  ability: string;
+  type: string;
+  value: number;
+  unit: 'percent' | 'flat';
+  scope: string;
+  trigger: string | null;
+}
+
+export interface ExportContext {
+  isMLB: boolean;
+  /** Abilities with `parsed` by card ID (from cards.json); null until loaded */
+  parsedAbilities: Map<string, Ability[]> | null;
+}
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  /** Value depends on the LB0 / MLB toggle; the header says which */
+  lbDependent?: boolean;
+  /** Needs parsed abilities from cards.json */
+  needsParsedAbilities?: boolean;
+  value: (card: CardTableRow, ctx: ExportContext) => ExportValue;
+  /** CSV text when it differs from the flattened JSON value */
+  text?: (card: CardTableRow, ctx: ExportContext) => string;
+}
+
+// --- Columns ---
+
+function statAtLevel(card: CardTableRow, stat: 'atk' | 'hp', isMLB: boolean): number {
+  const base = stat === 'atk' ? card.stats.max_atk : card.stats.max_hp;
+  if (!isMLB) return base;
+  const mlb = computeMlbStats(card.stats);
+  return (stat === 'atk' ? mlb?.mlb_atk : mlb?.mlb_hp) ?? base;
+}
+
+function parsedAbilitiesFor(card: CardTableRow, ctx: ExportContext): Ability[] | null {
+  return ctx.parsedAbilities?.get(card.id) ?? null;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'id', label: 'ID', value: card => card.id },
+  { id: 'name', label: 'Name', value: card => card.name },
+  { id: 'attribute', label: 'Attribute', value: card => card.stats.attribute_name },
+  { id: 'type', label: 'Type', value: card => card.stats.type_name },
+  { id: 'rarity', label: 'Rarity', value: card => card.stats.rarity },
+  { id: 'cost', label: 'Cost', value: card => card.stats.cost },
+  { id: 'atk', label: 'ATK', lbDependent: true, value: (card, ctx) => statAtLevel(card, 'atk', ctx.isMLB) },
+  { id: 'hp', label: 'HP', lbDependent: true, value: (card, ctx) => statAtLevel(card, 'hp', ctx.isMLB) },
+  { id: 'speed', label: 'Speed', value: card => card.stats.speed },
+  { id: 'crit', label: 'Crit %', value: card => card.stats.crit / 100 },
+  { id: 'skill_name', label: 'Skill Name', value: card => card.skill?.name ?? null },
+  { id: 'skill', label: 'Skill', lbDependent: true, value: (card, ctx) => getSkillText(card, ctx.isMLB ? 'mlb' : 'lb0') },
+  { id: 'skill_tags', label: 'Skill Tags', value: card => card.skill?.tags ?? [] },
+  { id: 'ability1', label: 'Ability 1', value: card => card.abilities?.[0]?.description ?? null },
+  { id: 'ability2', label: 'Ability 2', value: card => card.abilities?.[1]?.description ?? null },
+  {
+    id: 'ability_tags',
+    label: 'Ability Tags',
+    value: card => [...new Set((card.abilities ?? []).flatMap(a => a.tags ?? []))],
+  },
+  {
+    id: 'ability_effects',
+    label: 'Ability Effects',
+    needsParsedAbilities: true,
+    value: (card, ctx) => {
+      const abilities = parsedAbilitiesFor(card, ctx);
+      if (!abilities) return null;
+      return findAbilityEffectMatches(abilities, EMPTY_EFFECT_FILTER).map(match => ({
+        ability: match.abilityName,
+        type: match.effectType,
+        value: match.value,
+        unit: match.unit,
+        scope: match.scope,
+        trigger: match.trigger,
+      }));
+    },
+    text: (card, ctx) => describeAbilityEffects(parsedAbilitiesFor(card, ctx) ?? []).join('; '),
+  },
+  { id: 'bond', label: 'Bond', value: card => card.bonds?.[0]?.type ?? null },
+  { id: 'sources', label: 'Sources', value: card => card.acquisition?.sources ?? [] },
+  { id: 'available', label: 'Available Now', value: card => card.acquisition?.currently_available ?? false },
+];
+
+/** Columns checked when the export menu first opens */
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id', 'name', 'attribute', 'type', 'rarity', 'atk', 'hp', 'speed', 'skill', 'ability1', 'ability2', 'sources',
+];
+
+/** Keep known IDs in table order */
+export function resolveExportColumns(ids: string[]): ExportColumn[] {
+  return EXPORT_COLUMNS.filter(column => ids.includes(column.id));
+}
+
+export function getExportHeader(column: ExportColumn, isMLB: boolean): string {
+  return column.lbDependent ? `${column.label} (${isMLB ? 'MLB' : 'LB0'})` : column.label;
+}
+
+// --- Serialization ---
+
+function escapeCsvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvText(value: ExportValue): string {
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'string' ? item : JSON.stringify(item))).join('; ');
+  return String(value);
+}
+
+/**
+ * RFC 4180 CSV with a UTF-8 BOM, so Excel reads Japanese / Korean names correctly
+ */
+export function buildCardsCsv(cards: CardTableRow[], columns: ExportColumn[], ctx: ExportContext): string {
+  const lines = [columns.map(column => escapeCsvField(getExportHeader(column, ctx.isMLB))).join(',')];
+  for (const card of cards) {
+    lines.push(columns.map(column => {
+      const text = column.text ? column.text(card, ctx) : toCsvText(column.value(card, ctx));
+      return escapeCsvField(text);
+    }).join(','));
+  }
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function buildCardsJson(
+  cards: CardTableRow[],
+  columns: ExportColumn[],
+  ctx: ExportContext,
+  exportedAt: Date = new Date()
+): string {
+  return JSON.stringify({
+    exported_at: exportedAt.toISOString(),
+    lb_mode: ctx.isMLB ? 'mlb' : 'lb0',
+    columns: columns.map(column => column.id),
+    cards: cards.map(card => Object.fromEntries(columns.map(column => [column.id, column.value(card, ctx)]))),
+  }, null, 2);
+}
+
+export function getExportFilename(format: ExportFormat, isMLB: boolean, date: Date = new Date()): string {
+  return `otogidb-cards-${isMLB ? 'mlb' : 'lb0'}-${date.toISOString().slice(0, 10)}.${format}`;
+}
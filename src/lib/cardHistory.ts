@@ -0,0 +1,212 @@
+/**
+ * Per-card change history for the card page's History section.
+ *
+ * `Card.history.changelog` stores raw `{ old, new }` values keyed by field path
+ * ("stats.max_atk", "skill.parsed.slv1", "abilities.0.tags.2"). Patch notes carry a
+ * category and a display string per change; the changelog does not, so both are
+ * rebuilt here and then passed through formatChangeDisplay like the updates page.
+ *
+ * The stat series walks the changelog backwards from the card's current values,
+ * restoring each change's `old` value, to recover ATK / HP / skill value per version.
+ */
+
+import type { CardHistory, CardStats, ChangelogEntry, Skill } from '../types/card';
+import { formatChangeDisplay, formatRawChangeDisplay, type CardChange } from './changeFormatters';
+import { MLB_MAX_LEVELS } from './lb';
+
+// --- Types ---
+
+export type HistoryCategory = 'stats' | 'skill' | 'ability' | 'bond' | 'synergy' | 'acquisition' | 'other';
+
+export interface TimelineChange {
+  field: string;
+  category: HistoryCategory;
+  text: string;
+}
+
+export interface TimelineEntry {
+  version: string;
+  date: string;
+  changes: TimelineChange[];
+}
+
+export interface HistoryPoint {
+  version: string;
+  date: string;
+  atk: number | null;
+  hp: number | null;
+  /** Skill value at MLB level: slv1 + (mlbLevel - 1) × slvup. */
+  skill: number | null;
+}
+
+export type HistorySeriesKey = 'atk' | 'hp' | 'skill';
+
+// --- Constants ---
+
+export const HISTORY_CATEGORY_LABELS: Record<HistoryCategory, string> = {
+  stats: 'Stats',
+  skill: 'Skill',
+  ability: 'Ability',
+  bond: 'Bond',
+  synergy: 'Synergy',
+  acquisition: 'Acquisition',
+  other: 'Other',
+};
+
+const CATEGORY_ORDER = Object.keys(HISTORY_CATEGORY_LABELS) as HistoryCategory[];
+
+const CATEGORY_BY_ROOT: Record<string, HistoryCategory> = {
+  stats: 'stats',
+  skill: 'skill',
+  abilities: 'ability',
+  ability: 'ability',
+  bonds: 'bond',
+  bond: 'bond',
+  synergies: 'synergy',
+  acquisition: 'acquisition',
+};
+
+/** Same labels the pipeline writes into patch notes. */
+const FIELD_LABELS: Record<string, string> = {
+  'stats.base_atk': 'Base ATK',
+  'stats.max_atk': 'Max ATK',
+  'stats.base_hp': 'Base HP',
+  'stats.max_hp': 'Max HP',
+  'stats.crit': 'Crit',
+  'stats.speed': 'Speed',
+  'stats.cost': 'Cost',
+  'stats.rarity': 'Rarity',
+  'stats.attribute': 'Attribute',
+  'stats.type': 'Type',
+  'skill.name': 'Skill Name',
+  'skill.description': 'Skill Effect',
+  'skill.tags': 'Skill Tags',
+  'skill.parsed.slv1': 'Skill Base Damage',
+  'skill.parsed.slvup': 'Skill Level Scaling',
+  'skill.parsed.ml': 'Skill Max Level',
+  'skill.parsed.target.count': 'Target Count',
+  'skill.parsed.target.type': 'Target Type',
+  synergies: 'Synergies',
+};
+
+/** Changelog fields that feed the stat series. */
+const SERIES_FIELDS = {
+  atk: 'stats.max_atk',
+  hp: 'stats.max_hp',
+  slv1: 'skill.parsed.slv1',
+  slvup: 'skill.parsed.slvup',
+} as const;
+
+// --- Formatting ---
+
+export function getHistoryCategory(field: string): HistoryCategory {
+  return CATEGORY_BY_ROOT[field.split('.')[0]] ?? 'other';
+}
+
+/** Patch-notes style label: known fields, else the last named segment in title case. */
+export function getFieldLabel(field: string): string {
+  const known = FIELD_LABELS[field] ?? FIELD_LABELS[field.replace(/\.\d+$/, '')];
+  if (known) return known;
+
+  const named = field.split('.').filter(part => !/^\d+$/.test(part));
+  const last = named[named.length - 1] ?? field;
+  const label = last.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  const ability = field.match(/^abilities\.(\d+)\./);
+  return ability ? `Ability #${parseInt(ability[1], 10) + 1} ${label}` : label;
+}
+
+/** Format one changelog field the way the updates page formats patch-note changes. */
+export function formatChangelogChange(field: string, oldVal: unknown, newVal: unknown): TimelineChange {
+  const category = getHistoryCategory(field);
+  const label = getFieldLabel(field);
+  const change: CardChange = {
+    category,
+    field,
+    field_label: label,
+    old: oldVal,
+    new: newVal,
+    display: formatRawChangeDisplay(label, oldVal, newVal),
+  };
+  return { field, category, text: formatChangeDisplay(change) };
+}
+
+// --- Timeline ---
+
+function sortChronologically(changelog: ChangelogEntry[]): ChangelogEntry[] {
+  return [...changelog].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Changelog as timeline entries, newest first. Per-item array changes
+ * ("skill.tags.1") are dropped when the whole array ("skill.tags") changed too.
+ */
+export function buildCardTimeline(history: Pick<CardHistory, 'changelog'> | null | undefined): TimelineEntry[] {
+  const changelog = history?.changelog ?? [];
+  return sortChronologically(changelog).reverse().map(entry => {
+    const fields = Object.keys(entry.changes);
+    const changes = fields
+      .filter(field => {
+        const parent = field.replace(/\.\d+$/, '');
+        return parent === field || !fields.includes(parent);
+      })
+      .map(field => formatChangelogChange(field, entry.changes[field].old, entry.changes[field].new))
+      .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category));
+    return { version: entry.version, date: entry.date, changes };
+  }).filter(entry => entry.changes.length > 0);
+}
+
+// --- Stat series ---
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * ATK / HP / MLB skill value after each version, oldest first, starting at
+ * first_seen. Values a version did not touch carry over from the previous point.
+ */
+export function buildHistorySeries(card: {
+  stats: Pick<CardStats, 'max_atk' | 'max_hp' | 'rarity' | 'max_level'>;
+  skill: Pick<Skill, 'slv1' | 'slvup' | 'parsed'> | null;
+  history: CardHistory | null | undefined;
+}): HistoryPoint[] {
+  if (!card.history) return [];
+
+  const mlbLevel = MLB_MAX_LEVELS[card.stats.rarity] ?? card.stats.max_level;
+  const current = {
+    atk: asNumber(card.stats.max_atk),
+    hp: asNumber(card.stats.max_hp),
+    slv1: asNumber(card.skill?.parsed?.slv1 ?? card.skill?.slv1),
+    slvup: asNumber(card.skill?.parsed?.slvup ?? card.skill?.slvup),
+  };
+  const point = (version: string, date: string): HistoryPoint => ({
+    version,
+    date,
+    atk: current.atk,
+    hp: current.hp,
+    skill: current.slv1 !== null ? Math.round(current.slv1 + (mlbLevel - 1) * (current.slvup ?? 0)) : null,
+  });
+
+  const points: HistoryPoint[] = [];
+  const newestFirst = sortChronologically(card.history.changelog ?? []).reverse();
+  for (const entry of newestFirst) {
+    points.push(point(entry.version, entry.date));
+    for (const [key, field] of Object.entries(SERIES_FIELDS) as [keyof typeof current, string][]) {
+      if (field in entry.changes) current[key] = asNumber(entry.changes[field].old);
+    }
+  }
+  // Skip the starting point when the oldest entry is the card's first appearance
+  if (newestFirst[newestFirst.length - 1]?.version !== card.history.first_seen_version) {
+    points.push(point(card.history.first_seen_version, card.history.first_seen));
+  }
+
+  return points.reverse();
+}
+
+/** Series that changed at least once; flat lines are not worth a chart. */
+export function getChangedSeries(points: HistoryPoint[]): HistorySeriesKey[] {
+  return (['atk', 'hp', 'skill'] as HistorySeriesKey[]).filter(key => {
+    const values = points.map(p => p[key]).filter((v): v is number => v !== null);
+    return new Set(values).size > 1;
+  });
+}
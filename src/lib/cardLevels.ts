@@ -0,0 +1,163 @@
+/**
+ * Per-level card values for the card detail page's level / LB viewer.
+ *
+ * The index only carries LB0 and MLB snapshots (slv_lb0 / slv_mlb etc.). This
+ * computes the same numbers at any card level, limit break and level bonus, so
+ * readers can see what LB2 vs LB3 actually buys:
+ *
+ * - ATK / HP: calcAtkAtLevel (linear base → max, extrapolated past max_level)
+ * - Skill value: slv1 + (skillLevel - 1) × slvup, where skill level follows the
+ *   effective level (same as damage-calc; not capped at `ml`)
+ * - Proc chance and delayed effect: the per-level HIT<…> / EFFECT<…> terms of the skill's `de`
+ * - In-battle LB multiplier: the exceed roll, Random(0, 5% × LB) on each hit
+ */
+
+import {
+  calcAtkAtLevel,
+  getEffectiveLevel,
+  LB_EXCEED_AVERAGE,
+  LB_EXCEED_MAX,
+  MAX_LB,
+} from './damage-calc';
+import type { Skill } from '../types/card';
+import { MLB_MAX_LEVELS, substituteSkillTemplate } from './lb';
+import { parseValue, parseProbability, parseDelay } from './formatters';
+import { MAX_LEVEL_BONUS } from './collection';
+
+// --- Types ---
+
+export interface LevelViewerStats {
+  rarity: number;
+  max_level: number;
+  base_atk: number;
+  max_atk: number;
+  base_hp: number;
+  max_hp: number;
+}
+
+/** Skill scaling fields from cards.json plus the `ie` / `de` strings from skills.json. */
+export interface LevelViewerSkill {
+  description: string;
+  slv1?: number;
+  slvup?: number;
+  ml?: number;
+  ie?: string;
+  de?: string;
+}
+
+/** A card's skill as the viewer needs it; `skillData` is its skills.json entry. */
+export function toLevelViewerSkill(skill: Skill, skillData?: { ie?: string; de?: string } | null): LevelViewerSkill {
+  return {
+    description: skill.description,
+    slv1: skill.slv1 ?? skill.parsed?.slv1,
+    slvup: skill.slvup ?? skill.parsed?.slvup,
+    ml: skill.ml ?? skill.parsed?.ml,
+    ie: skillData?.ie,
+    de: skillData?.de,
+  };
+}
+
+export interface LevelSettings {
+  /** Card level before level bonus; clamped to the LB's level cap. */
+  level: number;
+  limitBreak: number;
+  /** Extra levels from team abilities (LEVEL effects). */
+  levelBonus: number;
+}
+
+export interface CardLevelValues {
+  limitBreak: number;
+  levelCap: number;
+  effectiveLevel: number;
+  atk: number;
+  hp: number;
+  skillValue: string | null;
+  probability: string | null;
+  delay: string | null;
+  /** Skill description with this level's values substituted. */
+  description: string | null;
+  /** Listed max skill level; informational, the game does not cap at it. */
+  skillMaxLevel: number | null;
+  /** Average and maximum exceed multiplier on each hit. */
+  exceedAverage: number;
+  exceedMax: number;
+}
+
+// --- Levels ---
+
+/** Highest card level reachable at a limit break (max_level + 5 per LB, never past MLB). */
+export function getLevelCap(stats: Pick<LevelViewerStats, 'rarity' | 'max_level'>, limitBreak: number): number {
+  const cap = getEffectiveLevel(stats.max_level, limitBreak, 0);
+  return Math.min(cap, MLB_MAX_LEVELS[stats.rarity] ?? cap);
+}
+
+/** Clamp settings into range: LB 0–MAX_LB, level 1–cap, bonus 0–MAX_LEVEL_BONUS. */
+export function clampLevelSettings(
+  stats: Pick<LevelViewerStats, 'rarity' | 'max_level'>,
+  settings: LevelSettings
+): LevelSettings {
+  const clamp = (n: number, min: number, max: number) => Math.min(Math.max(Math.round(n) || 0, min), max);
+  const limitBreak = clamp(settings.limitBreak, 0, MAX_LB);
+  return {
+    limitBreak,
+    level: clamp(settings.level, 1, getLevelCap(stats, limitBreak)),
+    levelBonus: clamp(settings.levelBonus, 0, MAX_LEVEL_BONUS),
+  };
+}
+
+// --- Values ---
+
+/**
+ * Skill value at a skill level. Prefers slv1/slvup; falls back to the ATK<…> /
+ * HEAL<…> immediate effect from skills.json when those are missing.
+ */
+export function getSkillValueAtLevel(skill: LevelViewerSkill, skillLevel: number): string | null {
+  if (typeof skill.slv1 === 'number' && skill.slv1 > 0) {
+    return Math.round(skill.slv1 + (skillLevel - 1) * (skill.slvup ?? 0)).toLocaleString();
+  }
+  return skill.ie ? parseValue(skill.ie, skillLevel) : null;
+}
+
+/** All viewer values for one combination of level, LB and level bonus. */
+export function computeCardLevelValues(
+  stats: LevelViewerStats,
+  skill: LevelViewerSkill | null,
+  settings: LevelSettings
+): CardLevelValues {
+  const { level, limitBreak, levelBonus } = clampLevelSettings(stats, settings);
+  const effectiveLevel = level + levelBonus;
+
+  // calcAtkAtLevel is the generic linear stat curve, so it serves HP too
+  const atk = Math.round(calcAtkAtLevel(stats.base_atk, stats.max_atk, stats.max_level, effectiveLevel));
+  const hp = Math.round(calcAtkAtLevel(stats.base_hp, stats.max_hp, stats.max_level, effectiveLevel));
+
+  const skillValue = skill ? getSkillValueAtLevel(skill, effectiveLevel) : null;
+  const probability = skill?.de ? parseProbability(skill.de, effectiveLevel) : null;
+  const delay = skill?.de ? parseDelay(skill.de, effectiveLevel) : null;
+
+  return {
+    limitBreak,
+    levelCap: getLevelCap(stats, limitBreak),
+    effectiveLevel,
+    atk,
+    hp,
+    skillValue,
+    probability,
+    delay,
+    description: skill ? substituteSkillTemplate(skill.description, { value: skillValue, probability, delay1: delay }) : null,
+    skillMaxLevel: skill?.ml ?? null,
+    exceedAverage: LB_EXCEED_AVERAGE[limitBreak] ?? 1,
+    exceedMax: LB_EXCEED_MAX[limitBreak] ?? 1,
+  };
+}
+
+/** Values at the level cap of every LB (0–MAX_LB), for side-by-side LB steps. */
+export function computeLimitBreakSteps(
+  stats: LevelViewerStats,
+  skill: LevelViewerSkill | null,
+  levelBonus: number
+): CardLevelValues[] {
+  return Array.from({ length: MAX_LB + 1 }, (_, limitBreak) =>
+    computeCardLevelValues(stats, skill, { level: getLevelCap(stats, limitBreak), limitBreak, levelBonus })
+  );
+}
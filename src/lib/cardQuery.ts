@@ -0,0 +1,224 @@
+/**
+ * Structured query syntax for the card table's search box.
+ *
+ *   attr:divina type:ranged atk>5000 skill:"Wave Start" -source:gacha
+ *
+ * - `field:value` filters, with comma lists for OR (`attr:divina,anima`)
+ * - `field>N`, `>=`, `<`, `<=`, `=` for numeric stats (`5k` = 5000)
+ * - a leading `-` negates a filter
+ * - `"quoted values"` may contain spaces
+ * - everything else is free text, handed to Fuse as before
+ *
+ * Filters AND together. Fixed vocabularies (attribute, type, source, bond) are checked
+ * against ALLOWED_FILTER_VALUES in ./security, and tag values go through the same
+ * sanitizer as the ?skill= / ?ability= URL params, so a bookmarked query can never
+ * carry more than the dropdowns could. Invalid filters are dropped and reported in
+ * `errors` rather than silently matching nothing.
+ *
+ * Words with an unknown prefix ("Re:Zero") stay in the free text.
+ */
+
+import type { Card } from '../types/card';
+import { getCardStat, type CardStatField } from './statRanges';
+import {
+  ALLOWED_FILTER_VALUES,
+  matchAllowedValue,
+  sanitizeSearchQuery,
+  sanitizeTagValue,
+} from './security';
+
+// --- Types ---
+
+export type QueryTermField = 'attr' | 'type' | 'source' | 'bond' | 'skill' | 'ability' | 'is';
+export type QueryNumericField = CardStatField;
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type CardQueryClause =
+  | { kind: 'term'; field: QueryTermField; values: string[]; negated: boolean }
+  | { kind: 'numeric'; field: QueryNumericField; operator: QueryOperator; values: number[]; negated: boolean };
+
+export interface ParsedCardQuery {
+  /** Free text left over for fuzzy search, whitespace-normalised. */
+  text: string;
+  clauses: CardQueryClause[];
+  errors: string[];
+}
+
+// --- Fields ---
+
+const FIELD_ALIASES: Record<string, QueryTermField | QueryNumericField> = {
+  attr: 'attr',
+  attribute: 'attr',
+  type: 'type',
+  source: 'source',
+  bond: 'bond',
+  skill: 'skill',
+  ability: 'ability',
+  is: 'is',
+  rarity: 'rarity',
+  atk: 'atk',
+  hp: 'hp',
+  speed: 'speed',
+  spd: 'speed',
+  crit: 'crit',
+  cost: 'cost',
+};
+
+const NUMERIC_FIELDS = new Set<string>(['rarity', 'atk', 'hp', 'speed', 'crit', 'cost']);
+
+/** `is:` flags, mirroring the Available / Hide NPCs checkboxes. */
+const IS_FLAGS = ['available', 'playable'] as const;
+
+const TERM_ALLOW_LISTS: Partial<Record<QueryTermField, readonly string[]>> = {
+  attr: ALLOWED_FILTER_VALUES.attributes,
+  type: ALLOWED_FILTER_VALUES.types,
+  source: ALLOWED_FILTER_VALUES.sources,
+  bond: ALLOWED_FILTER_VALUES.bonds,
+  is: IS_FLAGS,
+};
+
+const TOKEN_PATTERN = /^(-?)([a-zA-Z]+)(>=|<=|:|=|>|<)(.*)$/;
+const NUMBER_PATTERN = /^(\d+(?:\.\d+)?)(k?)$/i;
+
+// --- Parsing ---
+
+/** Split on whitespace, keeping double-quoted runs together (quotes are kept). */
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const ch of input) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (/\s/.test(ch) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+const unquote = (value: string) => value.replace(/"/g, '');
+
+function parseNumber(value: string): number | null {
+  const match = value.trim().match(NUMBER_PATTERN);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2] ? 1000 : 1);
+}
+
+/**
+ * Parse a search box string into filters and leftover fuzzy text.
+ * The input is run through sanitizeSearchQuery first, same as the ?q= param.
+ */
+export function parseCardQuery(input: string): ParsedCardQuery {
+  const clauses: CardQueryClause[] = [];
+  const errors: string[] = [];
+  const text: string[] = [];
+
+  for (const token of tokenize(sanitizeSearchQuery(input))) {
+    const match = token.match(TOKEN_PATTERN);
+    const field = match ? FIELD_ALIASES[match[2].toLowerCase()] : undefined;
+    if (!match || !field) {
+      text.push(unquote(token));
+      continue;
+    }
+
+    const [, minus, name, op, rawValue] = match;
+    const negated = minus === '-';
+    const parts = unquote(rawValue).split(',').map(v => v.trim()).filter(Boolean);
+    if (parts.length === 0) {
+      errors.push(`Missing value for ${name}`);
+      continue;
+    }
+
+    if (NUMERIC_FIELDS.has(field)) {
+      const operator: QueryOperator = op === ':' ? '=' : (op as QueryOperator);
+      const values = parts.map(parseNumber);
+      if (values.some(v => v === null)) {
+        errors.push(`${name} needs a number, got "${unquote(rawValue)}"`);
+        continue;
+      }
+      if (operator !== '=' && values.length > 1) {
+        errors.push(`${name}${op} takes a single number`);
+        continue;
+      }
+      clauses.push({ kind: 'numeric', field: field as QueryNumericField, operator, values: values as number[], negated });
+      continue;
+    }
+
+    if (op !== ':' && op !== '=') {
+      errors.push(`${name} cannot be compared with ${op}`);
+      continue;
+    }
+
+    const termField = field as QueryTermField;
+    const allowList = TERM_ALLOW_LISTS[termField];
+    const values: string[] = [];
+    for (const part of parts) {
+      const value = allowList ? matchAllowedValue(part, allowList) : sanitizeTagValue(part);
+      if (value === null) errors.push(`Unknown ${name} "${part}"`);
+      else values.push(value);
+    }
+    if (values.length > 0) clauses.push({ kind: 'term', field: termField, values, negated });
+  }
+
+  return { text: text.join(' ').trim(), clauses, errors };
+}
+
+// --- Matching ---
+
+function compare(actual: number, operator: QueryOperator, expected: number): boolean {
+  switch (operator) {
+    case '=': return actual === expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+const hasTag = (tags: string[] | undefined, value: string) =>
+  (tags || []).some(tag => tag.toLowerCase() === value.toLowerCase());
+
+/** Same semantics as the matching column filterFn in cardTableColumns. */
+function matchesTerm(card: Card, field: QueryTermField, value: string): boolean {
+  switch (field) {
+    case 'attr':
+      return card.stats.attribute_name === value;
+    case 'type':
+      return card.stats.type_name === value;
+    case 'source':
+      return (card.acquisition?.sources || []).some(s => s === value);
+    case 'bond':
+      if (value === 'gives_special') return card.gives_special_bond === true;
+      if (value === 'receives_special') return card.receives_special_bond === true;
+      return (card.bonds || []).some(bond => bond.type === value);
+    case 'skill':
+      return hasTag(card.skill?.tags, value);
+    case 'ability':
+      return (card.abilities || []).some(ability => hasTag(ability.tags, value));
+    case 'is':
+      return value === 'available'
+        ? card.acquisition?.currently_available === true
+        : card.playable === true;
+  }
+}
+
+function matchesClause(card: Card, clause: CardQueryClause, isMLB: boolean): boolean {
+  if (clause.kind === 'numeric') {
+    // ATK/HP follow the table's LB0/MLB toggle so `atk>5000` matches the numbers on screen
+    const actual = getCardStat(card, clause.field, isMLB);
+    return clause.values.some(v => compare(actual, clause.operator, v));
+  }
+  return clause.values.some(v => matchesTerm(card, clause.field, v));
+}
+
+/**
+ * True when the card satisfies every clause. Values within a clause are OR'd;
+ * a negated clause excludes cards that would have matched.
+ */
+export function matchesCardQuery(card: Card, clauses: CardQueryClause[], isMLB = true): boolean {
+  return clauses.every(clause => matchesClause(card, clause, isMLB) !== clause.negated);
+}
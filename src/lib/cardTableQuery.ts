@@ -0,0 +1,322 @@
+/**
+ * Card table search, filtering and sorting, as one pure function over the card list.
+ *
+ * The card table runs this in a Web Worker (./cardTableQuery.worker.ts, driven by
+ * hooks/useCardTableQuery) so typing in the search box never waits on Fuse or a
+ * 1,700-card filter pass. The worker also loads and parses the card index itself, so
+ * the page never holds the full list: it gets a summary (count, filter options, slider
+ * bounds) per list, and per query the ordered card IDs plus any rows it hasn't been
+ * sent yet. Where workers aren't available the hook runs the same functions on the
+ * main thread.
+ */
+
+import Fuse from 'fuse.js';
+import type { AcquisitionSource, Card, CardTableRow } from '../types/card';
+import { FUSE_OPTIONS } from './cardSearch';
+import { parseCardQuery, matchesCardQuery } from './cardQuery';
+import { getCardFilterOptions, type FilterOptions } from './cardFilterOptions';
+import { getCardsData, getCardsSkeleton, type CardLocale } from './cards';
+import { eventCardIdsMatchingQuery, selectedEventCardIds, type EventEntry } from './eventFilter';
+import { RANGE_STATS, getStatBounds, isRangeActive, matchesStatRanges, type RangeStat, type StatRanges } from './statRanges';
+import { computeMlbStats } from './lb';
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/** 'skeleton' while only cards_skeleton.json is in (rows past page 1 are display-only) */
+export type CardTableStage = 'skeleton' | 'full';
+
+/**
+ * Load the table's cards for `locale`: the skeleton first (~100ms) if it arrives,
+ * then the full index (~300ms), both fetched in parallel. Rejects only if the full
+ * index can't be had.
+ *
+ * Note: skills.json is NOT needed - skill descriptions in cards_index.json are
+ * pre-calculated at build time with {value}, {probability}, {delay1} substituted.
+ */
+export async function loadCardTableCards(
+  locale: CardLocale,
+  onCards: (cards: Card[], stage: CardTableStage) => void
+): Promise<void> {
+  const skeletonPromise = getCardsSkeleton({ locale });
+  const fullPromise = getCardsData({ locale });
+
+  const skeleton = await skeletonPromise;
+  if (skeleton) onCards(Object.values(skeleton.cards) as Card[], 'skeleton');
+
+  const full = await fullPromise;
+  onCards(Object.values(full.cards), 'full');
+}
+
+// =============================================================================
+// Summary
+// =============================================================================
+
+export type StatBounds = Record<RangeStat, { min: number; max: number }>;
+
+/** What the table shows about the card list as a whole */
+export interface CardTableSummary {
+  total: number;
+  filterOptions: FilterOptions;
+  /** Slider extents per LB, so the ATK/HP sliders span the values on screen */
+  statBounds: { lb0: StatBounds; mlb: StatBounds };
+}
+
+export function summarizeCardTable(cards: Card[]): CardTableSummary {
+  const boundsAt = (isMLB: boolean): StatBounds => {
+    const bounds = {} as StatBounds;
+    for (const { stat } of RANGE_STATS) bounds[stat] = getStatBounds(cards, stat, isMLB);
+    return bounds;
+  };
+  return {
+    total: cards.length,
+    filterOptions: getCardFilterOptions(cards),
+    statBounds: { lb0: boundsAt(false), mlb: boundsAt(true) },
+  };
+}
+
+/** Drop the fields the table never shows, before a row is posted back to the page */
+export function toCardTableRow(card: Card): CardTableRow {
+  const { description: _description, synergies: _synergies, meta: _meta, history: _history, ...row } = card;
+  return row;
+}
+
+// =============================================================================
+// Query
+// =============================================================================
+
+export interface CardTableSort {
+  /** Column ID from cardTableColumns */
+  id: string;
+  desc: boolean;
+}
+
+/** Everything that decides which cards the table shows, and in what order. Plain data, so it can be posted to a worker. */
+export interface CardTableQuery {
+  /** Raw search box text: structured clauses (attr:divina atk>5000) plus fuzzy text */
+  search: string;
+  isMLB: boolean;
+  attributes: string[];
+  types: string[];
+  rarities: number[];
+  /** Bond types, plus 'gives_special' / 'receives_special' */
+  bonds: string[];
+  /** Every selected tag must be on the skill */
+  skillTags: string[];
+  /** Every selected tag must be on one ability */
+  abilityTags: string[];
+  /** Any selected source matches */
+  sources: string[];
+  /** Event names; cards from any of them match */
+  events: string[];
+  statRanges: StatRanges;
+  /** Best matching effect magnitude per card ID while the ability effect filter is on, else null */
+  effectMagnitudes: Record<string, number> | null;
+  /** Owned card IDs while the owned-only filter is on, else null */
+  ownedIds: string[] | null;
+  availableOnly: boolean;
+  playableOnly: boolean;
+  bugsOnly: boolean;
+  sort: CardTableSort | null;
+}
+
+export const DEFAULT_CARD_TABLE_QUERY: CardTableQuery = {
+  search: '',
+  isMLB: true,
+  attributes: [],
+  types: [],
+  rarities: [],
+  bonds: [],
+  skillTags: [],
+  abilityTags: [],
+  sources: [],
+  events: [],
+  statRanges: {},
+  effectMagnitudes: null,
+  ownedIds: null,
+  availableOnly: false,
+  playableOnly: true,
+  bugsOnly: false,
+  sort: null,
+};
+
+// =============================================================================
+// Index
+// =============================================================================
+
+export interface CardTableIndex {
+  cards: Card[];
+  events: EventEntry[];
+  fuse: Fuse<Card> | null;
+}
+
+/**
+ * Wrap the card list for querying. The Fuse index is built up front when `eager`
+ * (the worker has time to spare), otherwise on the first text search.
+ */
+export function createCardTableIndex(cards: Card[], events: EventEntry[] = [], eager = false): CardTableIndex {
+  return { cards, events, fuse: eager && cards.length > 0 ? new Fuse(cards, FUSE_OPTIONS) : null };
+}
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/** The dropdown and toggle filters (formerly TanStack column filters) */
+export function matchesTableFilters(card: Card, query: CardTableQuery): boolean {
+  if (query.attributes.length > 0 && !query.attributes.includes(card.stats.attribute_name)) return false;
+  if (query.types.length > 0 && !query.types.includes(card.stats.type_name)) return false;
+  if (query.rarities.length > 0 && !query.rarities.includes(card.stats.rarity)) return false;
+
+  if (query.sources.length > 0) {
+    const cardSources = card.acquisition?.sources || [];
+    if (!query.sources.some(f => cardSources.includes(f as AcquisitionSource))) return false;
+  }
+
+  if (query.bonds.length > 0) {
+    const matchesBond = query.bonds.some(f => {
+      if (f === 'gives_special') return card.gives_special_bond === true;
+      if (f === 'receives_special') return card.receives_special_bond === true;
+      return (card.bonds || []).some(bond => bond.type === f);
+    });
+    if (!matchesBond) return false;
+  }
+
+  if (query.skillTags.length > 0) {
+    const tags = card.skill?.tags || [];
+    if (!query.skillTags.every(f => tags.includes(f))) return false;
+  }
+
+  if (query.abilityTags.length > 0) {
+    const matchesAbility = (card.abilities || []).some(ability => {
+      const tags = ability.tags || [];
+      return query.abilityTags.every(f => tags.includes(f));
+    });
+    if (!matchesAbility) return false;
+  }
+
+  if (query.playableOnly && card.playable !== true) return false;
+  if (query.availableOnly && card.acquisition?.currently_available !== true) return false;
+  return true;
+}
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+/** The value a column sorts by, matching its accessor in cardTableColumns */
+export function getCardSortValue(
+  card: Card,
+  columnId: string,
+  isMLB: boolean,
+  effectMagnitudes: Record<string, number> | null = null
+): string | number | null | undefined {
+  switch (columnId) {
+    case 'id': return card.id;
+    case 'name': return card.name;
+    case 'attribute': return card.stats.attribute_name;
+    case 'type': return card.stats.type_name;
+    case 'rarity': return card.stats.rarity;
+    case 'sources': return (card.acquisition?.sources || []).join(', ');
+    case 'bonds': return card.bonds?.[0]?.type || '';
+    case 'skill': return card.skill?.description || '';
+    case 'ability1': return card.abilities?.[0]?.description || '';
+    case 'ability2': return card.abilities?.[1]?.description || '';
+    // Cards without a match sort last
+    case 'effect': return effectMagnitudes?.[card.id] ?? -1;
+    case 'max_atk': return isMLB ? computeMlbStats(card.stats)?.mlb_atk ?? card.stats.max_atk : card.stats.max_atk;
+    case 'max_hp': return isMLB ? computeMlbStats(card.stats)?.mlb_hp ?? card.stats.max_hp : card.stats.max_hp;
+    case 'speed': return card.stats.speed;
+    default: return undefined;
+  }
+}
+
+type SortValue = ReturnType<typeof getCardSortValue>;
+
+/** Numbers numerically, strings naturally ("2" before "10") ignoring case; missing values last either way */
+function compareSortValues(a: SortValue, b: SortValue, desc: boolean): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+  return desc ? -order : order;
+}
+
+function sortCards(cards: Card[], query: CardTableQuery): Card[] {
+  const { sort } = query;
+  if (!sort) return cards;
+  // Precompute so ATK/HP aren't recalculated on every comparison; ties keep their current order
+  const values = new Map(cards.map(card => [card.id, getCardSortValue(card, sort.id, query.isMLB, query.effectMagnitudes)]));
+  return [...cards].sort((a, b) => compareSortValues(values.get(a.id), values.get(b.id), sort.desc));
+}
+
+// =============================================================================
+// Run
+// =============================================================================
+
+/**
+ * Card IDs the table should show, in display order.
+ *
+ * Without a sort, text searches keep Fuse's relevance order, followed by cards from
+ * events whose name matches; otherwise the index order.
+ */
+export function runCardTableQuery(index: CardTableIndex, query: CardTableQuery): string[] {
+  const { cards, events } = index;
+  const parsed = parseCardQuery(query.search);
+  const eventCardIds = query.events.length > 0 ? selectedEventCardIds(events, query.events) : null;
+  const owned = query.ownedIds ? new Set(query.ownedIds) : null;
+  const hasStatRanges = RANGE_STATS.some(({ stat }) => isRangeActive(query.statRanges[stat]));
+
+  const matches = (card: Card): boolean =>
+    (parsed.clauses.length === 0 || matchesCardQuery(card, parsed.clauses, query.isMLB)) &&
+    (!query.bugsOnly || card.has_bugs === true) &&
+    (!eventCardIds || eventCardIds.has(card.id)) &&
+    (!hasStatRanges || matchesStatRanges(card, query.statRanges, query.isMLB)) &&
+    (!query.effectMagnitudes || card.id in query.effectMagnitudes) &&
+    (!owned || owned.has(card.id)) &&
+    matchesTableFilters(card, query);
+
+  let ordered: Card[];
+  if (parsed.text && cards.length > 0) {
+    if (!index.fuse) index.fuse = new Fuse(cards, FUSE_OPTIONS);
+    ordered = index.fuse.search(parsed.text).map(result => result.item);
+
+    // Also surface cards from events whose NAME matches the query ("anniversary",
+    // "halloween"). Event names are not in the card index, so Fuse cannot see them.
+    // Appended rather than merged by score: a card literally named X ranks above cards
+    // that merely came from an event called X.
+    const eventMatches = eventCardIdsMatchingQuery(events, parsed.text);
+    if (eventMatches.size > 0) {
+      const alreadyFound = new Set(ordered.map(c => c.id));
+      ordered = ordered.concat(cards.filter(c => eventMatches.has(c.id) && !alreadyFound.has(c.id)));
+    }
+  } else {
+    ordered = cards;
+  }
+
+  return sortCards(ordered.filter(matches), query).map(card => card.id);
+}
+
+// =============================================================================
+// Worker protocol
+// =============================================================================
+
+export type CardTableWorkerRequest =
+  /** Fetch the locale's cards in the worker. The loader's build-time globals come along, since the worker has no window. */
+  | { type: 'load'; loadId: number; locale: CardLocale; dataVersion?: string; dataPaths?: Window['OTOGIDB_DATA_PATHS'] }
+  /** Use these cards instead of loading (SSR-provided) */
+  | { type: 'cards'; loadId: number; cards: Card[] }
+  | { type: 'events'; events: EventEntry[] }
+  | { type: 'query'; id: number; query: CardTableQuery };
+
+export type CardTableWorkerResponse =
+  /** A new card list is in; the last query is re-run against it */
+  | { type: 'cards'; loadId: number; generation: number; stage: CardTableStage; summary: CardTableSummary }
+  | { type: 'loadError'; loadId: number; message: string }
+  /** `rows` holds only the cards not yet sent for this `generation` (card list) */
+  | { type: 'result'; id: number; generation: number; cardIds: string[]; rows: CardTableRow[] }
+  | { type: 'error'; id: number; message: string };
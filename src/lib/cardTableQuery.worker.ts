@@ -0,0 +1,88 @@
+/**
+ * Web Worker entry for the card table query (see ./cardTableQuery.ts).
+ *
+ * Loads and holds the card list and its Fuse index between messages. Messages are
+ * handled in order, so a query always runs against the cards and events posted before
+ * it; a new card list re-runs the last query. Each card's row is sent once per list,
+ * with the first result that shows it.
+ */
+
+import type { Card } from '../types/card';
+import {
+  createCardTableIndex,
+  loadCardTableCards,
+  runCardTableQuery,
+  summarizeCardTable,
+  toCardTableRow,
+  type CardTableIndex,
+  type CardTableQuery,
+  type CardTableStage,
+  type CardTableWorkerRequest,
+  type CardTableWorkerResponse,
+} from './cardTableQuery';
+
+let index: CardTableIndex = createCardTableIndex([]);
+let cardsById = new Map<string, Card>();
+/** Bumped per card list; the page keeps one row cache per generation */
+let generation = 0;
+let sentIds = new Set<string>();
+/** Latest load request; cards from older ones are dropped */
+let loadId = 0;
+let lastQuery: { id: number; query: CardTableQuery } | null = null;
+
+function respond(response: CardTableWorkerResponse): void {
+  self.postMessage(response);
+}
+
+function runQuery(id: number, query: CardTableQuery): void {
+  lastQuery = { id, query };
+  try {
+    const cardIds = runCardTableQuery(index, query);
+    const unsent = cardIds.filter(cardId => !sentIds.has(cardId));
+    const rows = unsent.map(cardId => toCardTableRow(cardsById.get(cardId)!));
+    for (const cardId of unsent) sentIds.add(cardId);
+    respond({ type: 'result', id, generation, cardIds, rows });
+  } catch (error) {
+    respond({ type: 'error', id, message: String(error) });
+  }
+}
+
+function setCards(forLoad: number, cards: Card[], stage: CardTableStage): void {
+  // Build Fuse now: this thread can afford it, and the first keystroke then doesn't
+  index = createCardTableIndex(cards, index.events, true);
+  cardsById = new Map(cards.map(card => [card.id, card]));
+  generation++;
+  sentIds = new Set();
+  respond({ type: 'cards', loadId: forLoad, generation, stage, summary: summarizeCardTable(cards) });
+  if (lastQuery) runQuery(lastQuery.id, lastQuery.query);
+}
+
+self.onmessage = (event: MessageEvent<CardTableWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'load': {
+      const forLoad = (loadId = message.loadId);
+      // lib/cards and lib/cache read these off globalThis; the page has them on window
+      self.OTOGIDB_DATA_VERSION = message.dataVersion;
+      self.OTOGIDB_DATA_PATHS = message.dataPaths;
+      loadCardTableCards(message.locale, (cards, stage) => {
+        if (forLoad === loadId) setCards(forLoad, cards, stage);
+      }).catch((error: unknown) => {
+        if (forLoad === loadId) {
+          respond({ type: 'loadError', loadId: forLoad, message: error instanceof Error ? error.message : 'Failed to load cards' });
+        }
+      });
+      break;
+    }
+    case 'cards':
+      loadId = message.loadId;
+      setCards(message.loadId, message.cards, 'full');
+      break;
+    case 'events':
+      index = { ...index, events: message.events };
+      break;
+    case 'query':
+      runQuery(message.id, message.query);
+      break;
+  }
+};
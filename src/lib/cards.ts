@@ -1,6 +1,6 @@
-import type { CardsData, Card, SkeletonCardsData } from '../types/card';
-import { fetchWithCache, DB_NAME, DB_VERSION, STORE_NAME } from './cache';
-import { tryDeltaUpdate, getCurrentVersion } from './delta';
+import type { CardsData, Card, CardSkeleton, CardTableRow, SkeletonCardsData } from '../types/card';
+import { fetchWithCache, getStaleCached, quarantineCached, storeCached } from './cache';
+import { tryDeltaUpdate, getCurrentVersion, isDeltaSyncInServiceWorker } from './delta';
 import { fetchAndMergeAvailability } from './availability';
 import { logger } from './logger';
 
@@ -48,12 +48,13 @@ const CACHE_MAX_AGE = 6 * 60 * 60 * 1000;
 
 /**
  * Get the data path for a given locale.
- * Uses hashed paths from window.OTOGIDB_DATA_PATHS when available for optimal caching.
+ * Uses hashed paths from OTOGIDB_DATA_PATHS when available for optimal caching.
  */
 function getDataPath(filename: string, locale: CardLocale = 'en'): string {
-  // Check for hashed path from build-time manifest
-  if (typeof window !== 'undefined' && window.OTOGIDB_DATA_PATHS) {
-    const localePaths = window.OTOGIDB_DATA_PATHS[locale];
+  // Check for hashed path from build-time manifest (globalThis, so workers see it too)
+  const { OTOGIDB_DATA_PATHS } = globalThis as Partial<Pick<Window, 'OTOGIDB_DATA_PATHS'>>;
+  if (OTOGIDB_DATA_PATHS) {
+    const localePaths = OTOGIDB_DATA_PATHS[locale];
     if (localePaths) {
       if (filename === 'cards_index.json') {
         // Use hashed path for optimal caching (1 month immutable)
@@ -99,6 +100,14 @@ export async function getCardsSkeleton(
   }
 }
 
+/**
+ * True for a display-only skeleton entry (IDs past 50): its skill, abilities,
+ * bonds and sources only arrive with the full index.
+ */
+export function isSkeletonEntry(card: Card | CardSkeleton | CardTableRow): boolean {
+  return card.acquisition === undefined;
+}
+
 /**
  * Load minimal cards index (for table display - faster loading)
  * Uses IndexedDB caching with delta updates for efficient incremental updates.
@@ -137,8 +146,9 @@ async function fetchCardsData(options: { forceRefresh?: boolean; locale?: CardLo
   let cardsData: CardsData | null = null;
   const dataPath = getDataPath('cards_index.json', locale);
 
-  // If not force refresh, try delta update from IndexedDB cache
-  if (!options.forceRefresh) {
+  // If not force refresh, try delta update from IndexedDB cache (unless the
+  // service worker already applies deltas)
+  if (!options.forceRefresh && !isDeltaSyncInServiceWorker()) {
     const deltaResult = await tryDeltaUpdateFlow(locale);
     if (deltaResult.data) {
       cardsData = deltaResult.data;
@@ -222,14 +232,24 @@ async function tryDeltaUpdateFlow(locale: CardLocale): Promise<DeltaUpdateResult
     }
 
     // Try to apply delta from cached version to target version
-    const updatedData = await tryDeltaUpdate(cachedData, targetVersion);
+    let integrityFailure: string | null = null;
+    const updatedData = await tryDeltaUpdate(cachedData, targetVersion, {
+      onIntegrityFailure: (reason) => { integrityFailure = reason; },
+    });
 
     if (updatedData && updatedData !== cachedData) {
-      // Delta was successfully applied
+      // Delta was successfully applied; keep it (hashed) so the next load starts from it
       if (import.meta.env.DEV) console.log('[Delta] Delta applied successfully');
+      await storeCached(dataPath, updatedData);
       return { data: updatedData, source: 'delta' };
     }
 
+    // The cached copy didn't patch cleanly: don't keep serving it
+    if (integrityFailure) {
+      await quarantineCached(dataPath, `delta integrity check failed: ${integrityFailure}`);
+      return { data: null, source: 'none' };
+    }
+
     // Delta not available or failed, but we have cached data
     if (cachedData) {
       if (import.meta.env.DEV) console.log('[Delta] Using cached data (delta not available)');
@@ -245,42 +265,12 @@ async function tryDeltaUpdateFlow(locale: CardLocale): Promise<DeltaUpdateResult
 
 /**
  * Try to get stale cached data as a last resort when network fails.
- * This ignores cache expiry and version checks.
+ * This ignores cache expiry and version checks (a corrupted entry is still
+ * rejected).
  */
 async function tryGetStaleCachedData(url: string): Promise<CardsData | null> {
   try {
-    return new Promise((resolve) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => resolve(null);
-      request.onblocked = () => resolve(null);
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
-        }
-      };
-      request.onsuccess = () => {
-        const db = request.result;
-        try {
-          const transaction = db.transaction(STORE_NAME, 'readonly');
-          const store = transaction.objectStore(STORE_NAME);
-          const getRequest = store.get(url);
-
-          getRequest.onerror = () => resolve(null);
-          getRequest.onsuccess = () => {
-            const entry = getRequest.result;
-            if (entry && entry.data) {
-              resolve(entry.data as CardsData);
-            } else {
-              resolve(null);
-            }
-          };
-        } catch {
-          resolve(null);
-        }
-      };
-    });
+    return await getStaleCached<CardsData>(url);
   } catch {
     return null;
   }
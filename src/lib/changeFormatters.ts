@@ -5,7 +5,7 @@
 
 import type { Skill, Ability, Bond, TowerDrop } from '../types/card';
 
-interface CardChange {
+export interface CardChange {
   category: string;
   field: string;
   field_label?: string;
@@ -15,14 +15,14 @@ interface CardChange {
 }
 
 // Enum mappings for stat values
-const ATTRIBUTES: Record<number, string> = {
+export const ATTRIBUTES: Record<number, string> = {
   1: 'Divina',
   2: 'Phantasma',
   3: 'Anima',
   4: 'Neutral',
 };
 
-const TYPES: Record<number, string> = {
+export const TYPES: Record<number, string> = {
   0: 'Utility',
   1: 'Melee',
   2: 'Ranged',
@@ -90,6 +90,28 @@ export function formatChangeDisplay(change: CardChange): string {
   return change.display;
 }
 
+function formatRawValue(value: unknown): string {
+  if (typeof value === 'string') return value.length > 40 ? 'Updated' : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return 'Updated';
+}
+
+/**
+ * Build a display string in the pipeline's format ("Max ATK: 7500 → 8600 (+1100)")
+ * for changes that arrive without one (card changelogs, merged patch notes).
+ */
+export function formatRawChangeDisplay(label: string, oldVal: unknown, newVal: unknown): string {
+  if (oldVal === null || oldVal === undefined) return `${label}: Added (${formatRawValue(newVal)})`;
+  if (newVal === null || newVal === undefined) return `${label}: Removed`;
+  if (typeof oldVal === 'number' && typeof newVal === 'number') {
+    const diff = newVal - oldVal;
+    return `${label}: ${oldVal} → ${newVal} (${diff > 0 ? '+' : ''}${diff})`;
+  }
+  const oldText = formatRawValue(oldVal);
+  const newText = formatRawValue(newVal);
+  return oldText === 'Updated' || newText === 'Updated' ? `${label}: Updated` : `${label}: ${oldText} → ${newText}`;
+}
+
 function formatSkillChange(oldVal: unknown, newVal: unknown): string {
   if (oldVal === null && isSkillObject(newVal)) {
     const tags = newVal.tags?.length ? ` (${newVal.tags.join(', ')})` : '';
@@ -0,0 +1,159 @@
+/**
+ * Personal card collection ("box") tracker
+ * Persists owned card IDs with their limit break and level bonus in IndexedDB.
+ *
+ * Kept in its own database next to `otogidb-cache` so that clearing the data
+ * cache never wipes user-entered collection state.
+ */
+
+export const COLLECTION_DB_NAME = 'otogidb-collection';
+export const COLLECTION_DB_VERSION = 1;
+export const COLLECTION_STORE_NAME = 'owned-cards';
+
+/** Window event fired after any collection write, so other islands can reload */
+export const COLLECTION_CHANGE_EVENT = 'otogidb-collection-change';
+
+export const MAX_LIMIT_BREAK = 4;
+export const MAX_LEVEL_BONUS = 30;
+
+export interface OwnedCard {
+  cardId: string;
+  limitBreak: number;  // 0-4
+  levelBonus: number;  // 0-30
+  updatedAt: number;
+}
+
+// ============================================================================
+// Pure helpers
+// ============================================================================
+
+function clampInt(value: unknown, max: number, fallback: number): number {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(max, Math.round(n)));
+}
+
+/**
+ * Coerce a partial entry into a valid OwnedCard.
+ * New entries default to MLB with no level bonus, matching the calculator defaults.
+ */
+export function normalizeOwnedCard(
+  input: Partial<OwnedCard> & { cardId: string },
+  now: number = Date.now()
+): OwnedCard {
+  return {
+    cardId: String(input.cardId),
+    limitBreak: clampInt(input.limitBreak, MAX_LIMIT_BREAK, MAX_LIMIT_BREAK),
+    levelBonus: clampInt(input.levelBonus, MAX_LEVEL_BONUS, 0),
+    updatedAt: input.updatedAt ?? now,
+  };
+}
+
+/**
+ * Index collection entries by card ID
+ */
+export function toOwnedMap(entries: OwnedCard[]): Map<string, OwnedCard> {
+  return new Map(entries.map(entry => [entry.cardId, entry]));
+}
+
+// ============================================================================
+// IndexedDB access
+// ============================================================================
+
+/**
+ * Open IndexedDB connection
+ */
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(COLLECTION_DB_NAME, COLLECTION_DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(COLLECTION_STORE_NAME)) {
+        db.createObjectStore(COLLECTION_STORE_NAME, { keyPath: 'cardId' });
+      }
+    };
+  });
+}
+
+/**
+ * Run a single request against the owned-cards store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(COLLECTION_STORE_NAME, mode);
+    const request = run(transaction.objectStore(COLLECTION_STORE_NAME));
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result as T);
+  });
+}
+
+function notifyChange(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(COLLECTION_CHANGE_EVENT));
+  }
+}
+
+/**
+ * Get every owned card. Returns an empty list when IndexedDB is unavailable.
+ */
+export async function getOwnedCards(): Promise<OwnedCard[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  try {
+    const entries = await withStore<OwnedCard[]>('readonly', store => store.getAll());
+    return (entries || []).map(entry => normalizeOwnedCard(entry));
+  } catch (error) {
+    console.warn('[Collection] IndexedDB operation failed', { error: String(error) });
+    return [];
+  }
+}
+
+/**
+ * Add a card to the collection or update its LB / level bonus
+ */
+export async function setOwnedCard(
+  entry: Partial<OwnedCard> & { cardId: string }
+): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  const normalized = normalizeOwnedCard({ ...entry, updatedAt: Date.now() });
+  try {
+    await withStore('readwrite', store => store.put(normalized));
+    notifyChange();
+  } catch (error) {
+    console.warn('[Collection] IndexedDB operation failed', { key: entry.cardId, error: String(error) });
+  }
+}
+
+/**
+ * Remove a card from the collection
+ */
+export async function removeOwnedCard(cardId: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await withStore('readwrite', store => store.delete(cardId));
+    notifyChange();
+  } catch (error) {
+    console.warn('[Collection] IndexedDB operation failed', { key: cardId, error: String(error) });
+  }
+}
+
+/**
+ * Remove every card from the collection
+ */
+export async function clearCollection(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await withStore('readwrite', store => store.clear());
+    notifyChange();
+  } catch (error) {
+    console.warn('[Collection] IndexedDB operation failed', { error: String(error) });
+  }
+}
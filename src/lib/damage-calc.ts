@@ -164,6 +164,10 @@ export interface DamageCalcResult {
 
   // For comparison
   rawMultiplier: number; // Total damage multiplier from buffs
+
+  // Monte Carlo distributions (only when calculateDamage is given MonteCarloOptions)
+  normalDistribution?: DamageDistribution; // Sum of `normalHits` sampled normal attacks
+  skillDistribution?: DamageDistribution; // Sum of `skillHits` sampled skill casts
 }
 
 /**
@@ -189,10 +193,187 @@ export function getEffectiveLevel(maxLevel: number, limitBreak: number, levelBon
   return maxLevel + lbLevels + levelBonus;
 }
 
+// ============================================================================
+// Monte Carlo Distribution
+// ============================================================================
+
+export const MONTE_CARLO_DEFAULT_SAMPLES = 2000;
+export const MONTE_CARLO_DEFAULT_BINS = 20;
+
+export interface MonteCarloOptions {
+  samples?: number; // Simulated outcomes (default MONTE_CARLO_DEFAULT_SAMPLES)
+  seed?: number; // Same seed + same build = same distribution (default 1)
+  normalHits?: number; // Normal attacks summed per outcome (default 1)
+  skillHits?: number; // Skill casts summed per outcome (default 1)
+  durationSeconds?: number; // If set, normal hits = floor(duration / attackInterval) instead of normalHits
+  bins?: number; // Histogram bins (default MONTE_CARLO_DEFAULT_BINS)
+}
+
+export interface HistogramBin {
+  min: number; // Inclusive lower bound
+  max: number; // Upper bound (inclusive for the last bin)
+  count: number;
+}
+
+export interface DamageDistribution {
+  samples: number;
+  mean: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  histogram: HistogramBin[];
+  sorted: number[]; // Every sampled total, ascending (see probabilityOfReaching)
+}
+
+/**
+ * One kind of hit as the game rolls it.
+ * `base` is the pre-exceed, pre-crit damage; exceed and crit are rolled per hit.
+ */
+export interface HitProfile {
+  base: number;
+  critRate: number;
+  critMult: number;
+  exceedRange: number; // Max exceed bonus as a fraction (LB × 5%, e.g. 0.2 at LB4)
+  cap: number;
+  hits: number; // Hits summed per outcome
+}
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1).
+ * Math.random() can't be seeded, and results must be stable between renders.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Exceed roll range for a limit break level: Random(0, 5% × LB)
+ */
+export function getExceedRange(limitBreak: number): number {
+  return (LB_EXCEED_MAX[limitBreak] ?? 1.0) - 1.0;
+}
+
+/**
+ * Roll `profile.hits` hits and return their summed damage.
+ * Each hit rolls its own exceed bonus and crit, then is rounded and capped.
+ */
+export function rollHits(profile: HitProfile, random: () => number): number {
+  if (profile.base <= 0 || profile.hits <= 0) return 0;
+  let total = 0;
+  for (let h = 0; h < profile.hits; h++) {
+    const exceedMult = 1 + random() * profile.exceedRange;
+    const critMult = random() < profile.critRate ? profile.critMult : 1;
+    total += Math.min(Math.round(profile.base * exceedMult * critMult), profile.cap);
+  }
+  return total;
+}
+
+/**
+ * Percentile of an ascending array (nearest-rank)
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil(p * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
+
+/**
+ * Summarize sampled totals into percentiles and a histogram
+ */
+export function summarizeDistribution(
+  totals: number[],
+  bins: number = MONTE_CARLO_DEFAULT_BINS
+): DamageDistribution {
+  const sorted = [...totals].sort((a, b) => a - b);
+  const samples = sorted.length;
+  const min = samples > 0 ? sorted[0] : 0;
+  const max = samples > 0 ? sorted[samples - 1] : 0;
+  const mean = samples > 0 ? Math.round(sorted.reduce((sum, v) => sum + v, 0) / samples) : 0;
+
+  // Single bin when every sample is identical (no crit chance, LB0)
+  const binCount = max > min ? Math.max(1, Math.floor(bins)) : 1;
+  const binWidth = (max - min) / binCount;
+  const histogram: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    min: Math.round(min + i * binWidth),
+    max: Math.round(i === binCount - 1 ? max : min + (i + 1) * binWidth),
+    count: 0,
+  }));
+  for (const value of sorted) {
+    const bin = binWidth > 0 ? Math.min(Math.floor((value - min) / binWidth), binCount - 1) : 0;
+    if (histogram[bin]) histogram[bin].count++;
+  }
+
+  return {
+    samples,
+    mean,
+    min,
+    max,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    histogram,
+    sorted,
+  };
+}
+
+/**
+ * Fraction of sampled outcomes that reach `target` damage (0-1)
+ */
+export function probabilityOfReaching(distribution: DamageDistribution, target: number): number {
+  const { sorted } = distribution;
+  if (sorted.length === 0) return 0;
+  // Binary search for the first sample >= target
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return (sorted.length - lo) / sorted.length;
+}
+
+/**
+ * Normal attacks that land in a fight: the first lands one interval in
+ */
+export function getNormalHitCount(options: MonteCarloOptions, attackInterval: number): number {
+  if (options.durationSeconds !== undefined) {
+    return attackInterval > 0 ? Math.floor(options.durationSeconds / attackInterval) : 0;
+  }
+  return options.normalHits ?? 1;
+}
+
+/**
+ * Sample each profile independently and summarize per profile
+ */
+function sampleProfiles(profiles: HitProfile[], options: MonteCarloOptions): DamageDistribution[] {
+  const samples = Math.max(1, Math.floor(options.samples ?? MONTE_CARLO_DEFAULT_SAMPLES));
+  const random = createSeededRandom(options.seed ?? 1);
+  const totals = profiles.map(() => new Array<number>(samples));
+  for (let s = 0; s < samples; s++) {
+    profiles.forEach((profile, i) => {
+      totals[i][s] = rollHits(profile, random);
+    });
+  }
+  return totals.map(t => summarizeDistribution(t, options.bins));
+}
+
 /**
  * Main damage calculation function
+ *
+ * Pass `monteCarlo` to also sample crit and exceed rolls per hit; the result
+ * then carries normalDistribution / skillDistribution alongside the averages.
  */
-export function calculateDamage(input: DamageCalcInput): DamageCalcResult {
+export function calculateDamage(input: DamageCalcInput, monteCarlo?: MonteCarloOptions): DamageCalcResult {
   // Calculate effective level
   const effectiveLevel = getEffectiveLevel(input.maxLevel, input.limitBreak, input.levelBonus);
 
@@ -308,6 +489,31 @@ export function calculateDamage(input: DamageCalcInput): DamageCalcResult {
   // Total multiplier for display
   const rawMultiplier = dmgMult * enemyVulnerability * expectedCritMult;
 
+  // Monte Carlo: roll exceed per hit instead of using the LB_EXCEED_AVERAGE multiplier
+  let normalDistribution: DamageDistribution | undefined;
+  let skillDistribution: DamageDistribution | undefined;
+  if (monteCarlo) {
+    const exceedRange = getExceedRange(input.limitBreak);
+    [normalDistribution, skillDistribution] = sampleProfiles([
+      {
+        base: normalBase / exceedMult,
+        critRate: effectiveCritRate,
+        critMult: effectiveCritMult,
+        exceedRange,
+        cap: DAMAGE_CAPS.normal,
+        hits: getNormalHitCount(monteCarlo, attackInterval),
+      },
+      {
+        base: skillBase / exceedMult,
+        critRate: skillCritRate,
+        critMult: skillCritMult,
+        exceedRange,
+        cap: DAMAGE_CAPS.skill,
+        hits: monteCarlo.skillHits ?? 1,
+      },
+    ], monteCarlo);
+  }
+
   return {
     effectiveLevel,
     effectiveAtk,
@@ -339,6 +545,9 @@ export function calculateDamage(input: DamageCalcInput): DamageCalcResult {
 
     normalDps,
     rawMultiplier,
+
+    normalDistribution,
+    skillDistribution,
   };
 }
 
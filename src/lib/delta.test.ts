@@ -2,7 +2,7 @@
  * Unit tests for delta.ts — chain walking and multi-hop update logic.
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { findDeltaChain, tryDeltaUpdate } from './delta';
+import { findDeltaChain, isDeltaSyncInServiceWorker, tryDeltaUpdate } from './delta';
 import type { CardsData } from '../types/card';
 
 // ---------------------------------------------------------------------------
@@ -290,6 +290,42 @@ describe('tryDeltaUpdate', () => {
     expect(vi.mocked(global.fetch)).toHaveBeenNthCalledWith(2, '/data/delta/hash1_to_hash2.json', expect.any(Object));
   });
 
+  it('reports an integrity failure when the card count no longer matches', async () => {
+    const v1Data = makeCardsData('v1', 'hash1');
+    const manifest = {
+      data_hash: 'hash2', version: 'v2', generated_at: '2026-01-01T00:00:00', files: {},
+      delta: {
+        current_version: 'hash2', oldest_supported_version: null,
+        available_deltas: [
+          { from_version: 'hash1', to_version: 'hash2', file: '/data/delta/h1_to_h2.json', size_bytes: 50, operations: 2 },
+        ],
+      },
+    };
+    const delta = {
+      from_version: 'hash1', to_version: 'hash2', generated_at: '2026-01-01T00:00:00',
+      patch: [
+        { op: 'replace', path: '/data_hash', value: 'hash2' },
+        { op: 'replace', path: '/total_cards', value: 2 }, // the matching /cards/2 add is missing
+      ],
+      stats: { total_operations: 2, add_operations: 0, remove_operations: 0, replace_operations: 2 },
+    };
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => manifest } as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => delta } as any);
+
+    const onIntegrityFailure = vi.fn();
+    const result = await tryDeltaUpdate(v1Data, 'hash2', { onIntegrityFailure });
+    expect(result).toBeNull();
+    expect(onIntegrityFailure).toHaveBeenCalledWith('card count mismatch');
+  });
+
+  it('does not report an integrity failure when there is no delta path', async () => {
+    global.fetch = vi.fn().mockRejectedValue(new Error('network error'));
+    const onIntegrityFailure = vi.fn();
+    expect(await tryDeltaUpdate(makeCardsData('v1', 'hash1'), 'hash2', { onIntegrityFailure })).toBeNull();
+    expect(onIntegrityFailure).not.toHaveBeenCalled();
+  });
+
   it('returns null when cachedData has no version info', async () => {
     const noVersionData = {
       version: undefined,
@@ -303,3 +339,22 @@ describe('tryDeltaUpdate', () => {
     expect(vi.mocked(global.fetch)).not.toHaveBeenCalled();
   });
 });
+
+// ---------------------------------------------------------------------------
+// isDeltaSyncInServiceWorker
+// ---------------------------------------------------------------------------
+
+describe('isDeltaSyncInServiceWorker', () => {
+  it('is false without a controlling service worker', () => {
+    expect(isDeltaSyncInServiceWorker()).toBe(false);
+    vi.stubGlobal('navigator', { serviceWorker: { controller: null } });
+    expect(isDeltaSyncInServiceWorker()).toBe(false);
+    vi.unstubAllGlobals();
+  });
+
+  it('is true when a service worker controls the page', () => {
+    vi.stubGlobal('navigator', { serviceWorker: { controller: {} } });
+    expect(isDeltaSyncInServiceWorker()).toBe(true);
+    vi.unstubAllGlobals();
+  });
+});
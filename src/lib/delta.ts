@@ -196,11 +196,15 @@ export function findDeltaChain(
  *
  * @param cachedData - Current cached cards index
  * @param targetVersion - Target version we want to reach
+ * @param options.onIntegrityFailure - Called when a hop fails to apply or the
+ *   result fails the integrity check, i.e. the cached copy itself is suspect
+ *   (as opposed to no delta path or a network error)
  * @returns Updated data if delta found and applied, null otherwise
  */
 export async function tryDeltaUpdate(
   cachedData: CardsData,
-  targetVersion: string
+  targetVersion: string,
+  options: { onIntegrityFailure?: (reason: string) => void } = {}
 ): Promise<CardsData | null> {
   const currentVersion = cachedData.data_hash ?? cachedData.version;
 
@@ -255,6 +259,7 @@ export async function tryDeltaUpdate(
     const patched = applyDeltaPatch(workingData, delta);
     if (!patched) {
       logger.error('Delta', 'Failed to apply hop, falling back', { from: hop.from_version, to: hop.to_version });
+      options.onIntegrityFailure?.('patch did not apply');
       return null;
     }
     workingData = patched;
@@ -262,9 +267,10 @@ export async function tryDeltaUpdate(
 
   console.log(`[Delta] ✓ Updated to version ${targetVersion} via ${chain.length}-hop chain`);
 
-  // Integrity check: the applied chain must produce the expected data_hash.
-  // Every delta includes an op that sets /data_hash to to_version — if the
-  // result doesn't match, something went wrong (partial apply, corrupt cache, etc).
+  // Chain check: every delta includes an op that sets /data_hash to its
+  // to_version, so this only confirms the chain ran through to the last hop
+  // (e.g. no hop missing its version op). It says nothing about the cards
+  // themselves — data_hash is an opaque ID, not a digest of the content.
   const finalHash = workingData.data_hash ?? workingData.version;
   if (finalHash !== targetVersion) {
     logger.error('Delta', 'Integrity check failed: hash mismatch after chain', {
@@ -272,9 +278,23 @@ export async function tryDeltaUpdate(
       actual: finalHash,
       hops: chain.length,
     });
+    options.onIntegrityFailure?.('data_hash mismatch');
     return null; // Force full fetch
   }
 
+  // Deltas also replace /total_cards when the count changes, so a dropped or
+  // duplicated card op leaves the two out of step
+  const cardCount = Object.keys(workingData.cards ?? {}).length;
+  if (typeof workingData.total_cards === 'number' && workingData.total_cards !== cardCount) {
+    logger.error('Delta', 'Integrity check failed: card count mismatch after chain', {
+      expected: workingData.total_cards,
+      actual: cardCount,
+      hops: chain.length,
+    });
+    options.onIntegrityFailure?.('card count mismatch');
+    return null;
+  }
+
   return workingData;
 }
 
@@ -290,6 +310,15 @@ export function calculateSavings(fullSize: number, deltaSize: number): number {
   return Math.round((1 - deltaSize / fullSize) * 100);
 }
 
+/**
+ * Whether a service worker controls this page. public/sw.js then keeps the
+ * English index patched itself (in the background, and when a page asks for
+ * an index it doesn't have), so the page can skip its own delta pass.
+ */
+export function isDeltaSyncInServiceWorker(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+}
+
 /**
  * Get the current version from the unified manifest.
  *
@@ -45,6 +45,20 @@ export function formatScore(score: number): string {
   return score.toLocaleString();
 }
 
+const SCORE_SUFFIXES: Record<string, number> = { k: 1_000, m: 1_000_000, b: 1_000_000_000 };
+
+/**
+ * Parse a score typed by a player: plain digits (commas allowed) or a number
+ * with a K/M/B suffix as produced by formatScore ("1.5B", "300m").
+ * Returns null for anything else.
+ */
+export function parseScoreInput(text: string): number | null {
+  const match = text.trim().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*([kmb])?$/i);
+  if (!match) return null;
+  const multiplier = match[2] ? SCORE_SUFFIXES[match[2].toLowerCase()] : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
 // --- Tier construction ---
 
 /**
@@ -115,55 +129,6 @@ export function linearRegression(
   return { slope, intercept };
 }
 
-// --- Trend data construction ---
-
-export function buildTrendData(
-  chartData: Record<string, string | number>[],
-  tiers: Tier[],
-  activeTiers: Set<string>,
-): Record<string, number | undefined>[] {
-  return chartData.map((row, idx) => {
-    const trendRow: Record<string, number | undefined> = {};
-    for (const tier of tiers) {
-      if (!activeTiers.has(tier.key)) continue;
-      const points = chartData
-        .map((r, i) => ({ x: i, y: r[tier.key] as number }))
-        .filter(p => p.y != null && !isNaN(p.y));
-      const reg = linearRegression(points);
-      if (reg) trendRow[`trend_${tier.key}`] = reg.slope * idx + reg.intercept;
-    }
-    return trendRow;
-  });
-}
-
-// --- Next-event predictions ---
-
-/**
- * Extrapolate the trend line one step beyond the last data point to predict
- * the cutoff score for the next event. Returns null for a tier if there are
- * fewer than 2 data points or if the predicted value is non-positive.
- */
-export function buildNextEventPredictions(
-  chartData: Record<string, string | number>[],
-  tiers: Tier[],
-): Record<string, number | null> {
-  const nextIdx = chartData.length;
-  const predictions: Record<string, number | null> = {};
-  for (const tier of tiers) {
-    const points = chartData
-      .map((r, i) => ({ x: i, y: r[tier.key] as number }))
-      .filter(p => p.y != null && !isNaN(p.y));
-    const reg = linearRegression(points);
-    if (reg) {
-      const value = Math.round(reg.slope * nextIdx + reg.intercept);
-      predictions[tier.key] = value > 0 ? value : null;
-    } else {
-      predictions[tier.key] = null;
-    }
-  }
-  return predictions;
-}
-
 // --- Next-event prediction ranges ---
 
 export interface PredictionRange {
@@ -176,54 +141,375 @@ export interface PredictionRange {
   n: number;
 }
 
+// --- Score target planning ---
+
+/**
+ * Standard normal cumulative distribution function.
+ * Abramowitz & Stegun 7.1.26 erf approximation (max error ~1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export const PLANNER_CONFIDENCE_LEVELS = [0.5, 0.8, 0.95];
+
+// z-scores for PLANNER_CONFIDENCE_LEVELS
+const CONFIDENCE_Z: Record<number, number> = { 0.5: 0, 0.8: 0.8416, 0.95: 1.6449 };
+
+export interface ScoreTargetLevel {
+  confidence: number;      // Chance the final score clears the actual cutoff
+  target: number;          // Final score needed
+  requiredDaily: number;   // Daily score needed from now on
+}
+
+export interface ScoreTargetPlan {
+  predicted: number;       // Predicted cutoff for the tier
+  stdDev: number | null;   // Residual std dev (null for 2-point linear projections)
+  remaining: number;       // Score still needed to reach the predicted cutoff
+  requiredDaily: number;   // Daily score to reach the predicted cutoff
+  projected: number;       // Final score at the planned daily pace
+  probability: number | null;  // Chance the projected score clears the cutoff
+  levels: ScoreTargetLevel[];  // Required daily score per confidence level
+}
+
+/**
+ * Work out the daily score needed to reach a tier's predicted cutoff.
+ *
+ * The actual cutoff is modelled as normally distributed around the prediction
+ * with the trend line's residual std dev, so the probability of making the
+ * tier at a given pace is Φ((projected − predicted) / σ). Without a range
+ * (only a 2-point projection) there is no σ and no probability.
+ *
+ * @param dailyScore - Planned daily score; defaults to the required pace
+ */
+export function planScoreTarget(
+  range: PredictionRange | null,
+  linear: number | null,
+  currentScore: number,
+  daysRemaining: number,
+  dailyScore?: number,
+): ScoreTargetPlan | null {
+  const predicted = range?.predicted ?? linear;
+  if (predicted == null) return null;
+
+  const days = Math.max(1, daysRemaining);
+  const stdDev = range && range.stdDev > 0 ? range.stdDev : null;
+  const neededFor = (target: number) => Math.max(0, target - currentScore);
+
+  const remaining = neededFor(predicted);
+  const requiredDaily = Math.ceil(remaining / days);
+  const projected = currentScore + (dailyScore ?? requiredDaily) * days;
+  const probability = stdDev != null
+    ? normalCdf((projected - predicted) / stdDev)
+    : null;
+
+  const levels = stdDev != null
+    ? PLANNER_CONFIDENCE_LEVELS.map(confidence => {
+      const target = Math.round(predicted + CONFIDENCE_Z[confidence] * stdDev);
+      return { confidence, target, requiredDaily: Math.ceil(neededFor(target) / days) };
+    })
+    : [];
+
+  return { predicted, stdDev, remaining, requiredDaily, projected, probability, levels };
+}
+
+export interface PastEventComparison {
+  event_id: string;
+  event_name: string;
+  start_date: string;
+  cutoff: number;
+  reached: boolean;        // Would the projected score have made the tier?
+}
+
+/**
+ * Compare a projected final score with a tier's cutoff in past events of the
+ * same type (most recent first). Events without that tier are skipped.
+ */
+export function compareWithPastEvents(
+  events: EventCutoff[],
+  period: string,
+  tier: Tier,
+  projectedScore: number,
+): PastEventComparison[] {
+  return events
+    .flatMap(event => {
+      const cutoff = event.periods[period]?.cutoffs.find(
+        c => c.rank_min === tier.rank_min && c.rank_max === tier.rank_max,
+      );
+      if (!cutoff) return [];
+      return [{
+        event_id: event.event_id,
+        event_name: event.event_name,
+        start_date: event.start_date,
+        cutoff: cutoff.cutoff_score,
+        reached: projectedScore >= cutoff.cutoff_score,
+      }];
+    })
+    .sort((a, b) => b.start_date.localeCompare(a.start_date));
+}
+
+// --- Prediction models ---
+
+/**
+ * One historical cutoff for a tier: x is the event's position in the chart
+ * (0 = oldest), participation is null when unknown.
+ */
+export interface CutoffPoint {
+  x: number;
+  y: number;
+  participation: number | null;
+}
+
+/** A fitted model: predicted cutoff at a position, or null if it cannot say. */
+export type FittedCutoffModel = (x: number, participation: number | null) => number | null;
+
+export type CutoffModelId = 'linear' | 'recency' | 'log' | 'participation' | 'recent_mean';
+
+export interface CutoffModel {
+  id: CutoffModelId;
+  label: string;
+  description: string;
+  /** Free parameters, used for the residual degrees of freedom. */
+  params: number;
+  fit(points: CutoffPoint[]): FittedCutoffModel | null;
+}
+
+/** Half-life (in events) of the recency weighting. */
+export const RECENCY_HALF_LIFE = 2;
+
+/** Events averaged by the recent-mean baseline. */
+export const RECENT_MEAN_WINDOW = 3;
+
+/**
+ * Weighted least squares line. Returns null with fewer than 2 points or when
+ * the weighted x variance is zero.
+ */
+export function weightedLinearRegression(
+  points: { x: number; y: number; w: number }[],
+): { slope: number; intercept: number } | null {
+  if (points.length < 2) return null;
+  const sumW = points.reduce((s, p) => s + p.w, 0);
+  if (sumW <= 0) return null;
+  const meanX = points.reduce((s, p) => s + p.w * p.x, 0) / sumW;
+  const meanY = points.reduce((s, p) => s + p.w * p.y, 0) / sumW;
+  const sxx = points.reduce((s, p) => s + p.w * (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce((s, p) => s + p.w * (p.x - meanX) * (p.y - meanY), 0);
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+const lastParticipation = (points: CutoffPoint[]): number | null =>
+  [...points].reverse().find(p => p.participation != null)?.participation ?? null;
+
+/**
+ * Available cutoff models. Each chart holds a single event_type, so every
+ * model is fitted per type.
+ */
+export const CUTOFF_MODELS: CutoffModel[] = [
+  {
+    id: 'linear',
+    label: 'Linear',
+    description: 'Straight line through every past event',
+    params: 2,
+    fit(points) {
+      const reg = linearRegression(points);
+      return reg ? x => reg.slope * x + reg.intercept : null;
+    },
+  },
+  {
+    id: 'recency',
+    label: 'Recent-weighted',
+    description: `Straight line where each event counts half as much as one ${RECENCY_HALF_LIFE} events newer`,
+    params: 2,
+    fit(points) {
+      const lastX = Math.max(...points.map(p => p.x));
+      const reg = weightedLinearRegression(
+        points.map(p => ({ ...p, w: 0.5 ** ((lastX - p.x) / RECENCY_HALF_LIFE) })),
+      );
+      return reg ? x => reg.slope * x + reg.intercept : null;
+    },
+  },
+  {
+    id: 'log',
+    label: 'Log-scale',
+    description: 'Straight line on log(score): steady percentage growth instead of steady absolute growth',
+    params: 2,
+    fit(points) {
+      const positive = points.filter(p => p.y > 0);
+      const reg = linearRegression(positive.map(p => ({ x: p.x, y: Math.log(p.y) })));
+      return reg ? x => Math.exp(reg.slope * x + reg.intercept) : null;
+    },
+  },
+  {
+    id: 'participation',
+    label: 'Per participant',
+    description: 'Straight line on score ÷ participants, scaled by the latest known participation',
+    params: 2,
+    fit(points) {
+      const known = points.filter(p => p.participation != null && p.participation > 0);
+      const reg = linearRegression(known.map(p => ({ x: p.x, y: p.y / p.participation! })));
+      const fallback = lastParticipation(known);
+      if (!reg || fallback == null) return null;
+      return (x, participation) => (reg.slope * x + reg.intercept) * (participation ?? fallback);
+    },
+  },
+  {
+    id: 'recent_mean',
+    label: `Last ${RECENT_MEAN_WINDOW} average`,
+    description: `Average of the last ${RECENT_MEAN_WINDOW} events, no trend`,
+    params: 1,
+    fit(points) {
+      if (points.length < 2) return null;
+      const recent = [...points].sort((a, b) => a.x - b.x).slice(-RECENT_MEAN_WINDOW);
+      const mean = recent.reduce((s, p) => s + p.y, 0) / recent.length;
+      return () => mean;
+    },
+  },
+];
+
+export function getCutoffModel(id: CutoffModelId): CutoffModel {
+  return CUTOFF_MODELS.find(m => m.id === id) ?? CUTOFF_MODELS[0];
+}
+
+/**
+ * Collect a tier's historical points from chart rows. `participation` is
+ * aligned with the rows (one entry per event).
+ */
+export function getTierPoints(
+  chartData: Record<string, string | number>[],
+  tierKey: string,
+  participation: (number | null)[] = [],
+): CutoffPoint[] {
+  return chartData
+    .map((r, i) => ({ x: i, y: r[tierKey] as number, participation: participation[i] ?? null }))
+    .filter(p => p.y != null && !isNaN(p.y));
+}
+
 /**
- * Extrapolate the trend line one step ahead and express uncertainty as ±1
- * standard deviation of the residuals from that trend line (using n−2 degrees
- * of freedom, which is the standard error for a simple linear regression).
+ * Next-event predictions for every tier with the chosen model.
  *
- * Returns null for a tier when there are fewer than 3 data points (need at
- * least n−2 = 1 degree of freedom) or if the predicted value is non-positive.
+ * `points` extrapolates the model one event past the last data point (null when
+ * it can't be fitted or predicts a non-positive score). `ranges` adds ±1 standard
+ * deviation of the residuals from the fit, using n − params degrees of freedom
+ * (for the linear model, the standard error of a simple regression); it needs at
+ * least one degree of freedom.
  */
-export function buildNextEventPredictionRanges(
+export function buildModelPredictions(
   chartData: Record<string, string | number>[],
   tiers: Tier[],
-): Record<string, PredictionRange | null> {
+  model: CutoffModel,
+  participation: (number | null)[] = [],
+): { points: Record<string, number | null>; ranges: Record<string, PredictionRange | null> } {
   const nextIdx = chartData.length;
+  const points: Record<string, number | null> = {};
   const ranges: Record<string, PredictionRange | null> = {};
 
   for (const tier of tiers) {
-    const points = chartData
-      .map((r, i) => ({ x: i, y: r[tier.key] as number }))
-      .filter(p => p.y != null && !isNaN(p.y));
-
-    const reg = linearRegression(points);
-    if (!reg || points.length < 3) {
-      ranges[tier.key] = null;
-      continue;
-    }
+    const history = getTierPoints(chartData, tier.key, participation);
+    const fitted = model.fit(history);
+    const raw = fitted?.(nextIdx, null);
+    const predicted = raw != null && isFinite(raw) ? Math.round(raw) : null;
+    points[tier.key] = predicted != null && predicted > 0 ? predicted : null;
 
-    const predicted = Math.round(reg.slope * nextIdx + reg.intercept);
-    if (predicted <= 0) {
+    const n = history.length;
+    if (!fitted || points[tier.key] == null || n - model.params < 1) {
       ranges[tier.key] = null;
       continue;
     }
-
-    // Residual standard deviation (n−2 degrees of freedom for linear regression)
-    const n = points.length;
-    const sumSqResiduals = points.reduce((sum, p) => {
-      const fitted = reg.slope * p.x + reg.intercept;
-      return sum + (p.y - fitted) ** 2;
-    }, 0);
-    const stdDev = Math.sqrt(sumSqResiduals / (n - 2));
-
+    const sumSq = history.reduce((sum, p) => sum + (p.y - (fitted(p.x, p.participation) ?? p.y)) ** 2, 0);
+    const stdDev = Math.sqrt(sumSq / (n - model.params));
+    const value = points[tier.key]!;
     ranges[tier.key] = {
-      predicted,
-      low: Math.max(1, Math.round(predicted - stdDev)),
-      high: Math.round(predicted + stdDev),
+      predicted: value,
+      low: Math.max(1, Math.round(value - stdDev)),
+      high: Math.round(value + stdDev),
       stdDev: Math.round(stdDev),
       n,
     };
   }
 
-  return ranges;
+  return { points, ranges };
+}
+
+/**
+ * Trend line rows for the chosen model: one `trend_<tier>` value per chart row
+ * for each active tier that can be fitted.
+ */
+export function buildModelTrendData(
+  chartData: Record<string, string | number>[],
+  tiers: Tier[],
+  activeTiers: Set<string>,
+  model: CutoffModel,
+  participation: (number | null)[] = [],
+): Record<string, number | undefined>[] {
+  const fits = new Map<string, FittedCutoffModel>();
+  for (const tier of tiers) {
+    if (!activeTiers.has(tier.key)) continue;
+    const fitted = model.fit(getTierPoints(chartData, tier.key, participation));
+    if (fitted) fits.set(tier.key, fitted);
+  }
+
+  return chartData.map((_, idx) => {
+    const row: Record<string, number | undefined> = {};
+    for (const [key, fitted] of fits) {
+      const value = fitted(idx, participation[idx] ?? null);
+      if (value != null && isFinite(value)) row[`trend_${key}`] = value;
+    }
+    return row;
+  });
+}
+
+// --- Backtesting ---
+
+export interface BacktestResult {
+  /** Mean absolute percentage error of one-step-ahead predictions. */
+  mape: number;
+  /** Number of predictions scored. */
+  count: number;
+}
+
+/**
+ * Walk-forward backtest: for every event after the first two, fit the model
+ * on the events before it and score the prediction against what happened.
+ * The event's own participation is not used (it is unknown beforehand).
+ * Returns the relative error of each scored prediction.
+ */
+export function backtestModel(points: CutoffPoint[], model: CutoffModel): number[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const errors: number[] = [];
+  for (let k = 2; k < sorted.length; k++) {
+    const actual = sorted[k];
+    if (actual.y <= 0) continue;
+    const predicted = model.fit(sorted.slice(0, k))?.(actual.x, null);
+    if (predicted == null || !isFinite(predicted)) continue;
+    errors.push(Math.abs(predicted - actual.y) / actual.y);
+  }
+  return errors;
+}
+
+/**
+ * Backtest every model across all tiers of a chart, pooling the errors.
+ * Models with nothing to score are null.
+ */
+export function backtestModels(
+  chartData: Record<string, string | number>[],
+  tiers: Tier[],
+  participation: (number | null)[] = [],
+  models: CutoffModel[] = CUTOFF_MODELS,
+): Record<CutoffModelId, BacktestResult | null> {
+  const results = {} as Record<CutoffModelId, BacktestResult | null>;
+  for (const model of models) {
+    const errors = tiers.flatMap(tier =>
+      backtestModel(getTierPoints(chartData, tier.key, participation), model),
+    );
+    results[model.id] = errors.length
+      ? { mape: errors.reduce((s, e) => s + e, 0) / errors.length, count: errors.length }
+      : null;
+  }
+  return results;
 }
@@ -1,5 +1,8 @@
 import type { Card } from '../types/card';
 
+/** The card fields image URLs are built from, so table rows and full cards both work */
+type CardImageFields = Pick<Card, 'asset_id' | 'image_urls'>;
+
 // Cloudinary base URL for constructing image URLs from asset_id
 const CLOUDINARY_BASE = 'https://res.cloudinary.com/dn3j8sqcc/image/upload';
 
@@ -56,7 +59,7 @@ function constructCloudinaryUrl(assetId: string, variant: ImageVariant): string
  *
  * Returns null if the image doesn't exist, allowing callers to use placeholders.
  */
-export function getImageUrl(card: Card, variant: ImageVariant): string | null {
+export function getImageUrl(card: CardImageFields, variant: ImageVariant): string | null {
   // Try image_urls first (Cloudinary URLs from pipeline)
   const existingUrl = card.image_urls?.[variant];
   if (existingUrl) return existingUrl;
@@ -73,7 +76,7 @@ export function getImageUrl(card: Card, variant: ImageVariant): string | null {
  * Get optimized Cloudinary URL with transformations
  */
 export function getOptimizedImageUrl(
-  card: Card,
+  card: CardImageFields,
   variant: ImageVariant,
   options: {
     width?: number;
@@ -136,7 +139,7 @@ const STANDARD_TRANSFORMS = {
  * Get thumbnail URL for card table (search results) - 48px
  * Uses HD optimized and scaled down, falls back to android
  */
-export function getThumbnailUrl(card: Card): string | null {
+export function getThumbnailUrl(card: CardImageFields): string | null {
   // Try HD first (highest quality, Cloudinary will resize and cache)
   const hdUrl = getImageUrl(card, 'hd');
   if (hdUrl && isCloudinaryUrl(hdUrl)) {
@@ -156,7 +159,7 @@ export function getThumbnailUrl(card: Card): string | null {
  * Get medium size image for popups - 144px
  * Uses HD optimized, falls back to android
  */
-export function getPopupImageUrl(card: Card): string | null {
+export function getPopupImageUrl(card: CardImageFields): string | null {
   // Try HD first with resize
   const hdUrl = getImageUrl(card, 'hd');
   if (hdUrl && isCloudinaryUrl(hdUrl)) {
@@ -175,7 +178,7 @@ export function getPopupImageUrl(card: Card): string | null {
 /**
  * Get HD image for detail pages - original size with optimization
  */
-export function getHDImageUrl(card: Card): string | null {
+export function getHDImageUrl(card: CardImageFields): string | null {
   const hdUrl = getImageUrl(card, 'hd');
   if (hdUrl && isCloudinaryUrl(hdUrl)) {
     return hdUrl.replace('/upload/', `/upload/${STANDARD_TRANSFORMS.hd}/`);
@@ -186,7 +189,7 @@ export function getHDImageUrl(card: Card): string | null {
 /**
  * Get HD image with placeholder fallback for detail pages
  */
-export function getHDImageUrlWithFallback(card: Card): string {
+export function getHDImageUrlWithFallback(card: CardImageFields): string {
   const hdUrl = getHDImageUrl(card);
   if (hdUrl) return hdUrl;
   return getPlaceholderHD();
@@ -235,7 +238,7 @@ export const PLACEHOLDER_IMAGE = getPlaceholderHD();
  *
  * 120px (2x) for retina displays - HD source is high-res so resize looks crisp.
  */
-export function getCircleThumbnailFromHD(card: Card): string | null {
+export function getCircleThumbnailFromHD(card: CardImageFields): string | null {
   // Get the HD image URL
   const hdUrl = getImageUrl(card, 'hd');
   if (!hdUrl) return null;
@@ -255,7 +258,7 @@ export function getCircleThumbnailFromHD(card: Card): string | null {
  * Android: served at original size (~200px) - browser downscaling looks sharper than upscaling
  * HD fallback: 120px circle (2x for retina) - high-res source so resize is crisp
  */
-export function getAndroidImageWithFallback(card: Card): string {
+export function getAndroidImageWithFallback(card: CardImageFields): string {
   // First try to get actual android image
   const androidUrl = getImageUrl(card, 'android');
   if (androidUrl) {
@@ -0,0 +1,239 @@
+/**
+ * Patch notes filtering and merging for the updates page.
+ *
+ * The page renders every version statically. Filters (category, attribute, rarity,
+ * text) run client-side against that markup using the matchers here, and the
+ * "since version" view fetches the newer patch_notes_*.json files and merges them
+ * into one change set: per card and field, the oldest `old` and the newest `new`,
+ * with changes that cancel out dropped.
+ */
+
+import { ATTRIBUTES, TYPES, formatRawChangeDisplay } from './changeFormatters';
+
+// --- Types ---
+
+export interface PatchChange {
+  category: string;
+  category_label: string;
+  field: string;
+  field_label: string;
+  old: unknown;
+  new: unknown;
+  display: string;
+}
+
+export interface PatchNewCard {
+  id: string;
+  name: string;
+  rarity: number;
+  attribute: string;
+  type: string;
+  image_url: string | null;
+}
+
+export interface PatchModifiedCard {
+  id: string;
+  name: string;
+  rarity: number;
+  image_url: string | null;
+  changes: PatchChange[];
+}
+
+export interface PatchNotes {
+  version: string;
+  version_date: string;
+  previous_version: string | null;
+  generated_at?: string;
+  summary: {
+    new_cards: number;
+    modified_cards: number;
+  };
+  new_cards: PatchNewCard[];
+  modified_cards: PatchModifiedCard[];
+}
+
+export interface PatchVersion {
+  version: string;
+  date: string | null;
+}
+
+export interface UpdatesFilter {
+  /** UPDATE_CATEGORIES ids; empty matches all. */
+  categories: string[];
+  attributes: string[];
+  rarities: number[];
+  search: string;
+}
+
+/** What the filter needs to know about the card an update row belongs to. */
+export interface UpdateCardFacets {
+  name: string;
+  attribute: string | null;
+  rarity: number;
+}
+
+export interface MergedPatchNotes {
+  /** Merged versions, oldest first. */
+  versions: string[];
+  new_cards: PatchNewCard[];
+  modified_cards: PatchModifiedCard[];
+}
+
+// --- Constants ---
+
+/** Category id for new-card rows; the rest are the pipeline's change categories. */
+export const NEW_CARD_CATEGORY = 'new';
+
+export const UPDATE_CATEGORIES: { id: string; label: string }[] = [
+  { id: NEW_CARD_CATEGORY, label: 'New cards' },
+  { id: 'stats', label: 'Stats' },
+  { id: 'skill', label: 'Skill' },
+  { id: 'ability', label: 'Ability' },
+  { id: 'bond', label: 'Bond' },
+  { id: 'synergy', label: 'Synergy' },
+  { id: 'image', label: 'Image' },
+  { id: 'acquisition', label: 'Acquisition' },
+  { id: 'info', label: 'Info' },
+];
+
+/** Chip colors per category ([background, text]); unknown categories are grey. */
+const CATEGORY_COLORS: Record<string, [string, string]> = {
+  new: ['rgba(34, 197, 94, 0.15)', 'rgb(34, 197, 94)'],
+  stats: ['rgba(234, 179, 8, 0.15)', 'rgb(234, 179, 8)'],
+  skill: ['rgba(168, 85, 247, 0.15)', 'rgb(168, 85, 247)'],
+  ability: ['rgba(59, 130, 246, 0.15)', 'rgb(59, 130, 246)'],
+  acquisition: ['rgba(34, 197, 94, 0.15)', 'rgb(34, 197, 94)'],
+  bond: ['rgba(236, 72, 153, 0.15)', 'rgb(236, 72, 153)'],
+  synergy: ['rgba(6, 182, 212, 0.15)', 'rgb(6, 182, 212)'],
+  meta: ['rgba(249, 115, 22, 0.15)', 'rgb(249, 115, 22)'],
+};
+const DEFAULT_CATEGORY_COLOR: [string, string] = ['rgba(107, 114, 128, 0.15)', 'rgb(156, 163, 175)'];
+
+export function getCategoryColors(category: string): { background: string; color: string } {
+  const [background, color] = CATEGORY_COLORS[category] ?? DEFAULT_CATEGORY_COLOR;
+  return { background, color };
+}
+
+export const EMPTY_UPDATES_FILTER: UpdatesFilter = {
+  categories: [],
+  attributes: [],
+  rarities: [],
+  search: '',
+};
+
+// --- Matching ---
+
+export function isUpdatesFilterEmpty(filter: UpdatesFilter): boolean {
+  return filter.categories.length === 0 &&
+    filter.attributes.length === 0 &&
+    filter.rarities.length === 0 &&
+    filter.search.trim() === '';
+}
+
+/** Attribute and rarity check for the card a row belongs to. */
+export function matchesUpdateCard(card: UpdateCardFacets, filter: UpdatesFilter): boolean {
+  if (filter.attributes.length > 0 && (!card.attribute || !filter.attributes.includes(card.attribute))) return false;
+  if (filter.rarities.length > 0 && !filter.rarities.includes(card.rarity)) return false;
+  return true;
+}
+
+/** Searchable text for a new-card row, which has no change display of its own. */
+export function getNewCardText(card: Pick<PatchNewCard, 'name' | 'attribute' | 'type'>): string {
+  return [card.name, card.attribute, card.type].filter(Boolean).join(' ');
+}
+
+/**
+ * Category and text check for one change. Text matches the card name or the
+ * change's display text, case-insensitively.
+ */
+export function matchesUpdateChange(
+  change: { category: string; text: string },
+  cardName: string,
+  filter: UpdatesFilter
+): boolean {
+  if (filter.categories.length > 0 && !filter.categories.includes(change.category)) return false;
+  const query = filter.search.trim().toLowerCase();
+  if (!query) return true;
+  return cardName.toLowerCase().includes(query) || change.text.toLowerCase().includes(query);
+}
+
+// --- Merging ---
+
+/** Versions dated after `sinceVersion`, oldest first. Undated versions sort last. */
+export function getVersionsSince(versions: PatchVersion[], sinceVersion: string): PatchVersion[] {
+  const since = versions.find(v => v.version === sinceVersion);
+  if (!since?.date) return [];
+  return versions
+    .filter(v => v.version !== sinceVersion && (v.date === null || v.date > since.date!))
+    .sort((a, b) => {
+      if (a.date === null || b.date === null) return (a.date === null ? 1 : 0) - (b.date === null ? 1 : 0);
+      return a.date.localeCompare(b.date);
+    });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Apply a later edit to a card added inside the range: the entry takes the card's
+ * current name, rarity and image, and any attribute or type change.
+ */
+function applyToNewCard(card: PatchNewCard, edit: PatchModifiedCard): PatchNewCard {
+  const updated: PatchNewCard = { ...card, name: edit.name, rarity: edit.rarity, image_url: edit.image_url ?? card.image_url };
+  for (const change of edit.changes) {
+    if (typeof change.new !== 'number') continue;
+    if (change.field === 'stats.attribute') updated.attribute = ATTRIBUTES[change.new] ?? updated.attribute;
+    if (change.field === 'stats.type') updated.type = TYPES[change.new] ?? updated.type;
+  }
+  return updated;
+}
+
+/**
+ * Merge consecutive patch notes (oldest first) into one change set.
+ *
+ * - Cards added inside the range are listed as new, updated by their later edits
+ *   (see applyToNewCard) rather than also listed as modified
+ * - Repeated edits to a field keep the first `old` and the last `new`
+ * - Fields that end where they started are dropped, and cards left with no changes
+ */
+export function mergePatchNotes(notes: PatchNotes[]): MergedPatchNotes {
+  const newCards = new Map<string, PatchNewCard>();
+  const modified = new Map<string, { card: PatchModifiedCard; changes: Map<string, PatchChange> }>();
+
+  for (const patch of notes) {
+    for (const card of patch.new_cards) {
+      newCards.set(card.id, card);
+    }
+    for (const card of patch.modified_cards) {
+      const added = newCards.get(card.id);
+      if (added) {
+        newCards.set(card.id, applyToNewCard(added, card));
+        continue;
+      }
+      const entry = modified.get(card.id) ?? { card, changes: new Map<string, PatchChange>() };
+      entry.card = card;
+      for (const change of card.changes) {
+        const earlier = entry.changes.get(change.field);
+        // The pipeline's display string describes one step, so rebuild it for merged steps
+        entry.changes.set(change.field, earlier
+          ? { ...change, old: earlier.old, display: formatRawChangeDisplay(change.field_label, earlier.old, change.new) }
+          : change);
+      }
+      modified.set(card.id, entry);
+    }
+  }
+
+  const modifiedCards: PatchModifiedCard[] = [];
+  for (const { card, changes } of modified.values()) {
+    const merged = [...changes.values()].filter(change => !sameValue(change.old, change.new));
+    if (merged.length > 0) modifiedCards.push({ ...card, changes: merged });
+  }
+
+  return {
+    versions: notes.map(n => n.version),
+    new_cards: [...newCards.values()],
+    modified_cards: modifiedCards,
+  };
+}
+
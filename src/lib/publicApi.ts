@@ -0,0 +1,464 @@
+/**
+ * Public read-only API (v1)
+ *
+ * The files under /data are shaped for the site's own loaders and change
+ * whenever the table needs them to. The /api/v1/* files are built from them
+ * here, at build time, as the stable surface for bots and other third-party
+ * tools. Each response carries `api_version` and the path of the JSON Schema
+ * that describes it.
+ *
+ * Compatibility rule for v1: fields may be added (with a schema update), but
+ * never renamed, removed or retyped. Anything else ships as /api/v2.
+ */
+
+import type { CardSkeleton } from '../types/card';
+import { computeMlbStats, substituteSkillTemplate } from './lb';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const API_VERSION = 'v1';
+export const API_BASE_PATH = `/api/${API_VERSION}`;
+
+export const API_SCHEMA_NAMES = ['card', 'skills', 'events', 'calendar'] as const;
+export type ApiSchemaName = (typeof API_SCHEMA_NAMES)[number];
+
+const SITE_URL = 'https://otogidb.com';
+
+export function getApiSchemaPath(name: ApiSchemaName): string {
+  return `${API_BASE_PATH}/schemas/${name}.json`;
+}
+
+// =============================================================================
+// Source data (as synced into public/data)
+// =============================================================================
+
+export interface IndexSource {
+  version: string;
+  cards: Record<string, CardSkeleton>;
+}
+
+export interface EventSource {
+  name: string;
+  date?: string;
+  cards: string[];
+}
+
+interface CalendarCardRef {
+  id: string;
+}
+
+export interface CalendarSource {
+  generated_at: string;
+  events?: Array<{
+    type: string;
+    event_id: string;
+    name?: string;
+    start: string;
+    end: string;
+    boss_card?: CalendarCardRef;
+  }>;
+  banners?: Array<{
+    banner_id: string;
+    start: string;
+    end: string;
+    cards: CalendarCardRef[];
+    pity_step?: number;
+  }>;
+  exchanges?: Array<{
+    type: string;
+    exchange_id: string;
+    start?: string;
+    end?: string;
+    currency: string;
+    price: number;
+    price_add?: number;
+    limit: number;
+    card?: CalendarCardRef;
+  }>;
+  daily_dungeons?: Array<{
+    dungeon_id: string;
+    name?: string;
+    weekdays: number[];
+    time_start: string;
+    time_end: string;
+    energy_cost: number;
+    drop_cards?: CalendarCardRef[];
+  }>;
+}
+
+// =============================================================================
+// Response types
+// =============================================================================
+
+interface ApiEnvelope {
+  api_version: typeof API_VERSION;
+  /** Data sync version the response was built from */
+  data_version: string;
+  schema: string;
+}
+
+export interface ApiSkill {
+  name: string;
+  description_lb0: string;
+  description_mlb: string;
+  tags: string[];
+}
+
+export interface ApiCard {
+  id: string;
+  name: string | null;
+  url: string;
+  playable: boolean;
+  attribute: string;
+  type: string;
+  rarity: number;
+  cost: number;
+  max_level: number | null;
+  speed: number;
+  crit_percent: number;
+  stats: {
+    base_atk: number | null;
+    base_hp: number | null;
+    max_atk: number;
+    max_hp: number;
+    mlb_atk: number | null;
+    mlb_hp: number | null;
+  };
+  skill: ApiSkill | null;
+  abilities: Array<{ name: string; description: string; tags: string[]; unlock_level: number | null }>;
+  bond_types: string[];
+  sources: string[];
+  image_url: string | null;
+  thumbnail_url: string | null;
+}
+
+export interface ApiCardResponse extends ApiEnvelope {
+  card: ApiCard;
+}
+
+export interface ApiSkillsResponse extends ApiEnvelope {
+  skills: Array<ApiSkill & { card_id: string; card_name: string | null }>;
+}
+
+export interface ApiEventsResponse extends ApiEnvelope {
+  events: Array<{ name: string; date: string | null; card_ids: string[] }>;
+}
+
+export interface ApiCalendarResponse extends ApiEnvelope {
+  generated_at: string;
+  conquests: Array<{ event_id: string; name: string | null; start: string; end: string; boss_card_id: string | null }>;
+  banners: Array<{ banner_id: string; start: string; end: string; card_ids: string[]; pity_step: number | null }>;
+  exchanges: Array<{
+    exchange_id: string;
+    permanent: boolean;
+    start: string | null;
+    end: string | null;
+    currency: string;
+    price: number;
+    price_add: number | null;
+    limit: number;
+    card_id: string | null;
+  }>;
+  daily_dungeons: Array<{
+    dungeon_id: string;
+    name: string | null;
+    weekdays: number[];
+    time_start: string;
+    time_end: string;
+    energy_cost: number;
+    drop_card_ids: string[];
+  }>;
+}
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+function envelope(name: ApiSchemaName, dataVersion: string): ApiEnvelope {
+  return { api_version: API_VERSION, data_version: dataVersion, schema: getApiSchemaPath(name) };
+}
+
+function byNumericId(a: string, b: string): number {
+  return Number(a) - Number(b);
+}
+
+function toApiSkill(skill: NonNullable<CardSkeleton['skill']>): ApiSkill {
+  return {
+    name: skill.name,
+    description_lb0: substituteSkillTemplate(skill.description, {
+      value: skill.slv_lb0, probability: skill.prob_lb0, delay1: skill.delay_lb0,
+    }),
+    description_mlb: substituteSkillTemplate(skill.description, {
+      value: skill.slv_mlb, probability: skill.prob_mlb, delay1: skill.delay_mlb,
+    }),
+    tags: skill.tags ?? [],
+  };
+}
+
+export function toApiCard(card: CardSkeleton): ApiCard {
+  const mlb = computeMlbStats(card.stats);
+  return {
+    id: card.id,
+    name: card.name,
+    url: `${SITE_URL}/en/cards/${card.id}`,
+    playable: card.playable,
+    attribute: card.stats.attribute_name,
+    type: card.stats.type_name,
+    rarity: card.stats.rarity,
+    cost: card.stats.cost,
+    max_level: card.stats.max_level ?? null,
+    speed: card.stats.speed,
+    crit_percent: card.stats.crit / 100,
+    stats: {
+      base_atk: card.stats.base_atk ?? null,
+      base_hp: card.stats.base_hp ?? null,
+      max_atk: card.stats.max_atk,
+      max_hp: card.stats.max_hp,
+      mlb_atk: mlb?.mlb_atk ?? null,
+      mlb_hp: mlb?.mlb_hp ?? null,
+    },
+    skill: card.skill ? toApiSkill(card.skill) : null,
+    abilities: (card.abilities ?? []).map(ability => ({
+      name: ability.name,
+      description: ability.description,
+      tags: ability.tags ?? [],
+      unlock_level: ability.unlock_level ?? null,
+    })),
+    bond_types: (card.bonds ?? []).map(bond => bond.type),
+    sources: card.acquisition?.sources ?? [],
+    image_url: card.image_urls.hd,
+    thumbnail_url: card.image_urls.android,
+  };
+}
+
+export function buildCardResponse(card: CardSkeleton, dataVersion: string): ApiCardResponse {
+  return { ...envelope('card', dataVersion), card: toApiCard(card) };
+}
+
+/** Skills of playable cards, by card ID */
+export function buildSkillsResponse(index: IndexSource): ApiSkillsResponse {
+  const skills = Object.values(index.cards)
+    .filter(card => card.playable && card.skill)
+    .sort((a, b) => byNumericId(a.id, b.id))
+    .map(card => ({ card_id: card.id, card_name: card.name, ...toApiSkill(card.skill!) }));
+  return { ...envelope('skills', index.version), skills };
+}
+
+/** Events newest first, as in events.json */
+export function buildEventsResponse(events: EventSource[], dataVersion: string): ApiEventsResponse {
+  return {
+    ...envelope('events', dataVersion),
+    events: events.map(event => ({ name: event.name, date: event.date || null, card_ids: event.cards })),
+  };
+}
+
+export function buildCalendarResponse(calendar: CalendarSource, dataVersion: string): ApiCalendarResponse {
+  return {
+    ...envelope('calendar', dataVersion),
+    generated_at: calendar.generated_at,
+    conquests: (calendar.events ?? []).map(event => ({
+      event_id: event.event_id,
+      name: event.name ?? null,
+      start: event.start,
+      end: event.end,
+      boss_card_id: event.boss_card?.id ?? null,
+    })),
+    banners: (calendar.banners ?? []).map(banner => ({
+      banner_id: banner.banner_id,
+      start: banner.start,
+      end: banner.end,
+      card_ids: banner.cards.map(card => card.id),
+      pity_step: banner.pity_step ?? null,
+    })),
+    exchanges: (calendar.exchanges ?? []).map(exchange => ({
+      exchange_id: exchange.exchange_id,
+      permanent: exchange.type === 'permanent_exchange',
+      start: exchange.start ?? null,
+      end: exchange.end ?? null,
+      currency: exchange.currency,
+      price: exchange.price,
+      price_add: exchange.price_add ?? null,
+      limit: exchange.limit,
+      card_id: exchange.card?.id ?? null,
+    })),
+    daily_dungeons: (calendar.daily_dungeons ?? []).map(dungeon => ({
+      dungeon_id: dungeon.dungeon_id,
+      name: dungeon.name ?? null,
+      weekdays: dungeon.weekdays,
+      time_start: dungeon.time_start,
+      time_end: dungeon.time_end,
+      energy_cost: dungeon.energy_cost,
+      drop_card_ids: (dungeon.drop_cards ?? []).map(card => card.id),
+    })),
+  };
+}
+
+// =============================================================================
+// JSON Schemas
+// =============================================================================
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/** The subset of JSON Schema (2020-12) used by the API schemas */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  const?: string;
+}
+
+const str: JsonSchema = { type: 'string' };
+const int: JsonSchema = { type: 'integer' };
+const num: JsonSchema = { type: 'number' };
+const bool: JsonSchema = { type: 'boolean' };
+const strList: JsonSchema = { type: 'array', items: str };
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { ...schema, type: [schema.type as JsonSchemaType, 'null'] };
+}
+
+/** Closed object with every property required; nullable fields are still present */
+function obj(properties: Record<string, JsonSchema>): JsonSchema {
+  return { type: 'object', properties, required: Object.keys(properties), additionalProperties: false };
+}
+
+function list(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+function responseSchema(name: ApiSchemaName, title: string, properties: Record<string, JsonSchema>): JsonSchema {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `${SITE_URL}${getApiSchemaPath(name)}`,
+    title,
+    ...obj({
+      api_version: { type: 'string', const: API_VERSION },
+      data_version: str,
+      schema: { type: 'string', const: getApiSchemaPath(name) },
+      ...properties,
+    }),
+  };
+}
+
+const skillProperties = {
+  name: str,
+  description_lb0: str,
+  description_mlb: str,
+  tags: strList,
+};
+
+export const API_SCHEMAS: Record<ApiSchemaName, JsonSchema> = {
+  card: responseSchema('card', 'OtogiDB card', {
+    card: obj({
+      id: str,
+      name: nullable(str),
+      url: str,
+      playable: bool,
+      attribute: str,
+      type: str,
+      rarity: int,
+      cost: int,
+      max_level: nullable(int),
+      speed: int,
+      crit_percent: num,
+      stats: obj({
+        base_atk: nullable(int),
+        base_hp: nullable(int),
+        max_atk: int,
+        max_hp: int,
+        mlb_atk: nullable(int),
+        mlb_hp: nullable(int),
+      }),
+      skill: nullable(obj(skillProperties)),
+      abilities: list(obj({ name: str, description: str, tags: strList, unlock_level: nullable(int) })),
+      bond_types: strList,
+      sources: strList,
+      image_url: nullable(str),
+      thumbnail_url: nullable(str),
+    }),
+  }),
+  skills: responseSchema('skills', 'OtogiDB card skills', {
+    skills: list(obj({ card_id: str, card_name: nullable(str), ...skillProperties })),
+  }),
+  events: responseSchema('events', 'OtogiDB events', {
+    events: list(obj({ name: str, date: nullable(str), card_ids: strList })),
+  }),
+  calendar: responseSchema('calendar', 'OtogiDB calendar', {
+    generated_at: str,
+    conquests: list(obj({ event_id: str, name: nullable(str), start: str, end: str, boss_card_id: nullable(str) })),
+    banners: list(obj({ banner_id: str, start: str, end: str, card_ids: strList, pity_step: nullable(int) })),
+    exchanges: list(obj({
+      exchange_id: str,
+      permanent: bool,
+      start: nullable(str),
+      end: nullable(str),
+      currency: str,
+      price: num,
+      price_add: nullable(num),
+      limit: int,
+      card_id: nullable(str),
+    })),
+    daily_dungeons: list(obj({
+      dungeon_id: str,
+      name: nullable(str),
+      weekdays: list(int),
+      time_start: str,
+      time_end: str,
+      energy_cost: int,
+      drop_card_ids: strList,
+    })),
+  }),
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Validate a value against one of the API schemas.
+ * Returns a list of "path: problem" strings; empty when valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) return [`${path}: expected ${allowed.join(' | ')}, got ${actual}`];
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${path}: expected "${schema.const}"`];
+  }
+
+  const errors: string[] = [];
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+  } else if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}: missing ${key}`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected ${key}`);
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,31 @@
+/**
+ * Build-time loader for the public API endpoints (src/pages/api/v1).
+ * Reads the synced files from public/data once per build.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { CalendarSource, EventSource, IndexSource } from './publicApi';
+
+export interface ApiSource {
+  index: IndexSource;
+  events: EventSource[];
+  calendar: CalendarSource;
+}
+
+let cached: ApiSource | null = null;
+
+function readDataFile<T>(name: string): T {
+  return JSON.parse(readFileSync(join(process.cwd(), 'public', 'data', name), 'utf-8')) as T;
+}
+
+export function loadApiSource(): ApiSource {
+  if (!cached) {
+    cached = {
+      index: readDataFile<IndexSource>('cards_index.json'),
+      events: readDataFile<EventSource[]>('events.json'),
+      calendar: readDataFile<CalendarSource>('calendar.json'),
+    };
+  }
+  return cached;
+}
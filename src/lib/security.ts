@@ -18,15 +18,16 @@ export const ALLOWED_FILTER_VALUES = {
   rarities: [1, 2, 3, 4, 5],
   sources: ['gacha', 'exchange', 'auction', 'event', 'daily'],
   bonds: ['Divina', 'Phantasma', 'Anima', 'Neutral', 'Melee', 'Ranged', 'Healer', 'Assist', 'Attack', 'Skill', 'HP', 'Speed', 'Crit', 'gives_special', 'receives_special'],
-  sortColumns: ['id', 'name', 'rarity', 'attribute', 'type', 'max_atk', 'max_hp', 'speed', 'crit', 'cost'],
+  sortColumns: ['id', 'name', 'rarity', 'attribute', 'type', 'max_atk', 'max_hp', 'speed', 'crit', 'cost', 'effect'],
   sortDirections: ['asc', 'desc'],
   booleans: ['0', '1'],
 } as const;
 
 /**
  * Maximum length for text input (search queries)
+ * Sized for structured queries like `attr:divina type:ranged atk>5000 skill:"Wave Start"`
  */
-export const MAX_SEARCH_LENGTH = 100;
+export const MAX_SEARCH_LENGTH = 200;
 
 /**
  * Maximum length for individual filter values
@@ -125,6 +126,53 @@ export function parseAndValidateNumberParam(
   return validateNumberArray(values, allowedValues);
 }
 
+/**
+ * Largest value accepted for a stat range bound (well above any card's ATK/HP)
+ */
+export const MAX_STAT_RANGE_VALUE = 1_000_000;
+
+/**
+ * Parse and validate a "min-max" range URL param ("5000-9000", "5000-", "-9000").
+ * Bounds must be non-negative integers up to MAX_STAT_RANGE_VALUE; a reversed
+ * range is swapped. Returns null when nothing valid is left.
+ */
+export function parseAndValidateRangeParam(
+  param: string | null
+): { min: number | null; max: number | null } | null {
+  if (!param) return null;
+  const match = param.trim().slice(0, MAX_FILTER_VALUE_LENGTH).match(/^(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const toBound = (text: string) => {
+    if (!text) return null;
+    const value = parseInt(text, 10);
+    return value <= MAX_STAT_RANGE_VALUE ? value : null;
+  };
+  let min = toBound(match[1]);
+  let max = toBound(match[2]);
+  if (min === null && max === null) return null;
+  if (min !== null && max !== null && min > max) [min, max] = [max, min];
+  return { min, max };
+}
+
+/**
+ * Sanitize a dynamic tag value (skill/ability tags come from data, so there is
+ * no fixed allow-list). Returns null unless it is plain letters, digits and spaces.
+ */
+export function sanitizeTagValue(value: string): string | null {
+  const trimmed = value.trim().slice(0, MAX_FILTER_VALUE_LENGTH);
+  return trimmed && /^[a-zA-Z0-9\s]+$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Match a user-typed value against an allow-list, ignoring case.
+ * Returns the canonical allowed value, or null if it is not allowed.
+ */
+export function matchAllowedValue(value: string, allowedValues: readonly string[]): string | null {
+  const needle = value.trim().slice(0, MAX_FILTER_VALUE_LENGTH).toLowerCase();
+  return allowedValues.find(v => v.toLowerCase() === needle) ?? null;
+}
+
 // ============================================================================
 // HTML Sanitization
 // ============================================================================
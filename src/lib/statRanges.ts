@@ -0,0 +1,114 @@
+/**
+ * Numeric stat range filters for the card table.
+ *
+ * ATK and HP follow the table's LB0/MLB toggle: with MLB on, a range is checked
+ * against the extrapolated MLB stat from computeMlbStats, the same number the
+ * ATK/HP columns show. Speed, crit and cost do not change with limit breaks.
+ *
+ * Applied in CardTable's filteredData memo rather than as TanStack column filters:
+ * crit and cost have no column, and ATK/HP depend on the LB toggle.
+ */
+
+import type { Card } from '../types/card';
+import { computeMlbStats } from './lb';
+
+// --- Types ---
+
+export type CardStatField = 'rarity' | 'atk' | 'hp' | 'speed' | 'crit' | 'cost';
+export type RangeStat = Exclude<CardStatField, 'rarity'>;
+
+/** Inclusive bounds; null means open on that side. */
+export interface StatRange {
+  min: number | null;
+  max: number | null;
+}
+
+export type StatRanges = Partial<Record<RangeStat, StatRange>>;
+
+export interface RangeStatMeta {
+  stat: RangeStat;
+  label: string;
+  /** URL parameter name. */
+  param: string;
+  /** Slider step. */
+  step: number;
+}
+
+// --- Constants ---
+
+export const RANGE_STATS: RangeStatMeta[] = [
+  { stat: 'atk', label: 'ATK', param: 'atk', step: 100 },
+  { stat: 'hp', label: 'HP', param: 'hp', step: 100 },
+  { stat: 'speed', label: 'Speed', param: 'spd', step: 1 },
+  { stat: 'crit', label: 'Crit', param: 'crit', step: 1 },
+  { stat: 'cost', label: 'Cost', param: 'cost', step: 1 },
+];
+
+// --- Stat values ---
+
+/**
+ * A card stat as shown in the table. ATK/HP use MLB values when `isMLB` is set.
+ */
+export function getCardStat(card: Pick<Card, 'stats'>, field: CardStatField, isMLB: boolean): number {
+  const { stats } = card;
+  switch (field) {
+    case 'atk':
+      return isMLB ? (computeMlbStats(stats)?.mlb_atk ?? stats.max_atk) : stats.max_atk;
+    case 'hp':
+      return isMLB ? (computeMlbStats(stats)?.mlb_hp ?? stats.max_hp) : stats.max_hp;
+    case 'rarity':
+      return stats.rarity;
+    case 'speed':
+      return stats.speed;
+    case 'crit':
+      return stats.crit;
+    case 'cost':
+      return stats.cost;
+  }
+}
+
+/**
+ * Lowest and highest value of a stat across cards, for slider extents.
+ * Returns { min: 0, max: 0 } for an empty list.
+ */
+export function getStatBounds(cards: Card[], stat: RangeStat, isMLB: boolean): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const card of cards) {
+    const value = getCardStat(card, stat, isMLB);
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min <= max ? { min, max } : { min: 0, max: 0 };
+}
+
+// --- Matching ---
+
+/** True when a range restricts anything. */
+export function isRangeActive(range: StatRange | undefined): range is StatRange {
+  return !!range && (range.min !== null || range.max !== null);
+}
+
+/** True when the card falls inside every active range. */
+export function matchesStatRanges(card: Card, ranges: StatRanges, isMLB: boolean): boolean {
+  for (const { stat } of RANGE_STATS) {
+    const range = ranges[stat];
+    if (!isRangeActive(range)) continue;
+    const value = getCardStat(card, stat, isMLB);
+    if (range.min !== null && value < range.min) return false;
+    if (range.max !== null && value > range.max) return false;
+  }
+  return true;
+}
+
+// --- URL params ---
+
+/**
+ * Format a range as a URL param value: "5000-9000", "5000-" or "-9000".
+ * Returns null for an inactive range.
+ */
+export function formatRangeParam(range: StatRange | undefined): string | null {
+  if (!isRangeActive(range)) return null;
+  return `${range.min ?? ''}-${range.max ?? ''}`;
+}
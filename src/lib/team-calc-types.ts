@@ -4,6 +4,7 @@
  */
 
 import type { Card } from '../types/card';
+import type { DamageDistribution } from './damage-calc';
 
 // ============================================================================
 // Bond Types
@@ -215,6 +216,8 @@ export interface DamageBreakdown {
   effectiveCritRate: number;   // capped
   effectiveCritDmg: number;    // 2.0 × (1 + bonus) — full crit multiplier
   expectedCritMult: number;    // 1 + critRate * (critDmg - 1)
+  skillCritRate: number;       // capped, includes skill-triggered crit bonuses
+  skillCritDmg: number;        // full crit multiplier for skill hits
 
   // Pre-cap results
   normalBaseRaw: number;       // before Math.round and cap
@@ -247,6 +250,10 @@ export interface MemberDamageResult {
   skillDamageCapped: boolean;
 
   breakdown?: DamageBreakdown;    // Detailed multiplier chain for debug display
+
+  // Monte Carlo distributions (only when calculateTeamDamage is given MonteCarloOptions)
+  normalDistribution?: DamageDistribution;
+  skillDistribution?: DamageDistribution;
 }
 
 // ============================================================================
@@ -486,6 +493,7 @@ export type TeamAction =
   | { type: 'SET_ABILITY_TARGETS'; abilityId: string; targets: number[] }
   | { type: 'SET_RANDOM_TARGET_MODE'; mode: RandomTargetMode }
   | { type: 'CLEAR_MEMBER'; memberIndex: number }
+  | { type: 'APPLY_LINEUP'; slots: LineupSlot[] }
   | { type: 'CLEAR_ALL' }
   | { type: 'SET_LOADING'; isLoading: boolean }
   | { type: 'SET_ERROR'; error: string | null }
@@ -579,6 +587,9 @@ export interface TeamCalculationResult {
   // Aggregate totals (main team only)
   totalNormalDpsExpected: number;
   totalSkillDamageExpected: number;
+
+  // Monte Carlo distribution of the whole main team's damage (normal + skill)
+  damageDistribution?: DamageDistribution;
 }
 
 // ============================================================================
@@ -674,3 +685,155 @@ export interface FightCalculationResult {
   totalDurationUsed: number;
   remainingDuration: number;
 }
+
+/**
+ * Storage format for fight calculator
+ */
+export interface StoredFightState {
+  fightDuration: number;
+  snapshots: FightSnapshot[];
+}
+
+// ============================================================================
+// Battle Simulation Types
+// ============================================================================
+
+/**
+ * Simulation step in seconds. Attacks, casts and buff expiry are resolved at
+ * this granularity, then bucketed into a per-second timeline.
+ */
+export const SIM_TICK_SECONDS = 0.1;
+
+/**
+ * Default seconds between skill casts for members with a skill.
+ * The card data has no cooldown field (`delay_lb0`/`delay_mlb` are the
+ * {delay1} delayed-effect values, not cast timing), so this is user-tunable.
+ */
+export const DEFAULT_SKILL_INTERVAL_SECONDS = 20;
+
+/**
+ * Inputs for a time-stepped battle simulation
+ */
+export interface BattleSimulationConfig {
+  durationSeconds: number;
+  waveCount: number;              // Total waves; the last one is the Final Wave
+  waveDurationSeconds: number;    // Length of each non-final wave (final wave runs to the end)
+  skillIntervals: number[];       // Per main-team slot: seconds between casts (0 = never cast)
+  abilityTargetOverrides?: Record<string, number[]>;
+  randomTargetMode?: RandomTargetMode;
+  bossStatuses?: BossStatusWindow[];  // Status effects the enemy puts on the team (world boss)
+}
+
+/**
+ * Kinds of enemy-applied status that change the team's damage output
+ * - disable: no attacks or casts (stun, freeze, petrify, paralysis)
+ * - silence: attacks continue, casts wait until it ends
+ * - slow: attack speed change (-0.5 = half as many attacks)
+ * - critRate / critDmg: additive change to crit rate / full crit multiplier
+ */
+export type BossStatusKind = 'disable' | 'silence' | 'slow' | 'critRate' | 'critDmg';
+
+export interface BossStatusWindow {
+  memberIndex: number;
+  start: number;                  // Seconds into the fight
+  end: number;
+  kind: BossStatusKind;
+  value: number;                  // Unused for disable/silence
+  source: string;                 // Display label, e.g. "Kinoe S1: Stun (5s)"
+}
+
+export interface BattleSkillCast {
+  memberIndex: number;
+  time: number;                   // Seconds into the fight
+  damage: number;                 // Expected damage of the cast (0 for buff/heal skills)
+  buffEndsAt: number | null;      // null if the skill has no lasting buff/debuff
+}
+
+export interface BattleTimelinePoint {
+  second: number;
+  wave: number;                   // 1-based wave number at the start of this second
+  normalDamage: number;
+  skillDamage: number;
+  totalDamage: number;
+  cumulativeDamage: number;
+  memberDamage: number[];         // Per main-team slot (normal + skill)
+  activeBuffs: number[];          // Member indices whose skill buff is up at the start of this second
+}
+
+export interface BattleMemberTotals {
+  memberIndex: number;
+  normalDamage: number;
+  skillDamage: number;
+  totalDamage: number;
+  attacks: number;
+  casts: number;
+  buffUptime: number;             // Fraction of the fight (0-1) this member's skill buff was up
+  disabledTime: number;           // Seconds spent unable to act (boss stuns etc.)
+}
+
+export interface BattleSimulationResult {
+  timeline: BattleTimelinePoint[];
+  casts: BattleSkillCast[];
+  memberTotals: BattleMemberTotals[];
+  totalDamage: number;
+  averageDps: number;
+}
+
+// ============================================================================
+// Team Optimizer Types
+// ============================================================================
+
+/**
+ * One slot of a lineup: just the card choices, no build settings
+ */
+export interface LineupSlot {
+  cardId: string | null;
+  assistCardId: string | null;
+}
+
+/** Limit break and level bonus a card is evaluated at */
+export interface MemberBuild {
+  limitBreak: number;
+  levelBonus: number;
+}
+
+export interface TeamOptimizerConfig {
+  enemy: EnemyState;
+  cards: Card[];                  // Full card pool (main and assist cards)
+  ownedCardIds?: string[];        // If set, only these cards are considered
+  lockedSlots?: Record<number, LineupSlot>;  // Slot index → fixed card/assist (left untouched)
+  topN?: number;                  // Teams to return (default 5)
+  limitBreak?: number;            // LB assumed for placed cards (default 4 = MLB)
+  memberBuilds?: Record<string, MemberBuild>;  // Card ID → LB / level bonus to use instead (owned cards, locked slots)
+  scoreSeconds?: number;          // Score = normal DPS × seconds + one cast of every skill (default 60)
+  candidatesPerGroup?: number;    // Main-team shortlist size per attribute group (default 10)
+  randomTargetMode?: RandomTargetMode;
+}
+
+export interface OptimizedTeam {
+  slots: LineupSlot[];            // TOTAL_SLOTS entries (main 0-4, reserve 5-6)
+  score: number;
+  totalNormalDps: number;
+  totalSkillDamage: number;
+}
+
+// ============================================================================
+// Team Preset Types
+// ============================================================================
+
+/**
+ * A named, saved team with its own enemy settings and fight snapshots
+ */
+export interface TeamPreset {
+  id: string;
+  name: string;
+  team: StoredTeamState;
+  fight?: StoredFightState;
+  updatedAt: number;
+}
+
+export interface StoredPresetState {
+  version: 1;
+  activePresetId: string;         // Preset mirrored by the live calculator state
+  presets: TeamPreset[];          // Display order
+}
@@ -42,8 +42,17 @@ import {
   LB_EXCEED_AVERAGE,
   LB_EXCEED_MIN,
   LB_EXCEED_MAX,
+  MONTE_CARLO_DEFAULT_SAMPLES,
   calcAtkAtLevel,
   expectedCappedDamage,
+  createSeededRandom,
+  getExceedRange,
+  getNormalHitCount,
+  rollHits,
+  summarizeDistribution,
+  type DamageDistribution,
+  type HitProfile,
+  type MonteCarloOptions,
 } from './damage-calc';
 
 // ============================================================================
@@ -1204,6 +1213,8 @@ export function calculatePhase4FinalDamage(
         effectiveCritRate,
         effectiveCritDmg,
         expectedCritMult,
+        skillCritRate: skillEffectiveCritRate,
+        skillCritDmg: skillEffectiveCritDmg,
         normalBaseRaw: normalBase,
         skillBaseRaw: skillBase,
       };
@@ -1278,12 +1289,14 @@ function createEmptyComputedStats(): ComputedMemberStats {
  * @param enemy - Enemy state
  * @param abilityTargetOverrides - User overrides for specific abilities
  * @param randomTargetMode - How to handle random/N-target abilities (default: 'best')
+ * @param monteCarlo - If set, also sample per-hit crit/exceed rolls into damage distributions
  */
 export function calculateTeamDamage(
   members: TeamMemberState[],
   enemy: EnemyState,
   abilityTargetOverrides?: Record<string, number[]>,
-  randomTargetMode: RandomTargetMode = 'best'
+  randomTargetMode: RandomTargetMode = 'best',
+  monteCarlo?: MonteCarloOptions
 ): TeamCalculationResult {
   // Phase 1: Base stats
   const phase1Results = calculatePhase1BaseStats(members);
@@ -1417,6 +1430,10 @@ export function calculateTeamDamage(
   const rawDefense = enemy.baseDefense - totalEnemyDefenseDebuff;
   const effectiveEnemyDefense = Math.max(0, Math.min(rawDefense, STAT_CAPS.shieldMax));
 
+  const damageDistribution = monteCarlo
+    ? sampleTeamDamageDistribution(phase4Results, members, monteCarlo)
+    : undefined;
+
   return {
     members: phase4Results,
     teamContext,
@@ -1429,9 +1446,76 @@ export function calculateTeamDamage(
     defenseDebuffTotal: totalEnemyDefenseDebuff,
     enemyDebuffContributions: phase3Results.flatMap(r => r.enemyDebuffContributions),
     raceBonus,
+    damageDistribution,
   };
 }
 
+/**
+ * Monte Carlo pass over Phase 4 results.
+ *
+ * Every normal attack and skill cast rolls its own crit and Random(0, 5% × LB)
+ * exceed bonus. Members are rolled within the same outcome so the team total
+ * is a true sample, not a sum of per-member percentiles. Attaches per-member
+ * distributions to each damageResult and returns the team distribution.
+ */
+function sampleTeamDamageDistribution(
+  results: Phase4Result[],
+  members: TeamMemberState[],
+  options: MonteCarloOptions
+): DamageDistribution {
+  const samples = Math.max(1, Math.floor(options.samples ?? MONTE_CARLO_DEFAULT_SAMPLES));
+  const random = createSeededRandom(options.seed ?? 1);
+
+  const rolled: Array<{ index: number; normal: HitProfile; skill: HitProfile }> = [];
+  for (let i = 0; i < MAIN_TEAM_SIZE; i++) {
+    const breakdown = results[i].damageResult?.breakdown;
+    if (!breakdown) continue; // Empty slot, or healer with healersDontAttack
+
+    const exceedRange = getExceedRange(members[i].limitBreak);
+    rolled.push({
+      index: i,
+      normal: {
+        base: breakdown.normalBaseRaw / breakdown.exceedMult,
+        critRate: breakdown.effectiveCritRate,
+        critMult: breakdown.effectiveCritDmg,
+        exceedRange,
+        cap: DAMAGE_CAPS.normal,
+        hits: getNormalHitCount(options, breakdown.attackInterval),
+      },
+      skill: {
+        base: breakdown.skillBaseRaw / breakdown.exceedMult,
+        critRate: breakdown.skillCritRate,
+        critMult: breakdown.skillCritDmg,
+        exceedRange,
+        cap: DAMAGE_CAPS.skill,
+        hits: options.skillHits ?? 1,
+      },
+    });
+  }
+
+  const normalTotals = rolled.map(() => new Array<number>(samples));
+  const skillTotals = rolled.map(() => new Array<number>(samples));
+  const teamTotals = new Array<number>(samples).fill(0);
+
+  for (let s = 0; s < samples; s++) {
+    rolled.forEach((entry, k) => {
+      const normal = rollHits(entry.normal, random);
+      const skill = rollHits(entry.skill, random);
+      normalTotals[k][s] = normal;
+      skillTotals[k][s] = skill;
+      teamTotals[s] += normal + skill;
+    });
+  }
+
+  rolled.forEach((entry, k) => {
+    const damageResult = results[entry.index].damageResult!;
+    damageResult.normalDistribution = summarizeDistribution(normalTotals[k], options.bins);
+    damageResult.skillDistribution = summarizeDistribution(skillTotals[k], options.bins);
+  });
+
+  return summarizeDistribution(teamTotals, options.bins);
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -0,0 +1,208 @@
+/**
+ * Team Diff
+ * Per-member, per-stat comparison of two team calculations
+ *
+ * Used by the calculator's "pin baseline" view: the pinned result is frozen and
+ * every later calculation is diffed against it, so swapping a card or bond
+ * shows exactly which stats moved and which abilities caused it.
+ */
+
+import type {
+  TeamCalculationResult,
+  Phase4Result,
+  Phase3AbilityContribution,
+  StatBreakdown,
+} from './team-calc-types';
+import { MAIN_TEAM_SIZE } from './team-calc-types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiffStat = 'atk' | 'critRate' | 'critDmg' | 'skillDmg' | 'dps' | 'skillDamage';
+
+export type DiffSource = 'base' | 'bond' | 'assist' | 'abilities';
+
+export interface StatDelta {
+  stat: DiffStat;
+  baseline: number;
+  live: number;
+  delta: number;                  // live - baseline
+  relative: number | null;        // delta / baseline (null when baseline is 0)
+  sources: Partial<Record<DiffSource, number>>;  // Non-zero breakdown deltas
+}
+
+export interface AbilityDelta {
+  abilityId: string;
+  abilityName: string;
+  sourceMemberIndex: number;
+  isFromAssist: boolean;
+  stat: string;
+  baseline: number;
+  live: number;
+  delta: number;
+}
+
+export interface MemberDiff {
+  memberIndex: number;
+  stats: StatDelta[];
+  abilities: AbilityDelta[];      // Ability effects gained, lost or changed
+  changed: boolean;
+}
+
+export interface TeamDiff {
+  members: MemberDiff[];          // Main team only
+  totals: StatDelta[];            // Team DPS and skill damage
+}
+
+export const DIFF_STATS: DiffStat[] = ['atk', 'critRate', 'critDmg', 'skillDmg', 'dps', 'skillDamage'];
+
+// Differences smaller than this are treated as rounding noise
+const EPSILON = 1e-9;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function statValue(member: Phase4Result, stat: DiffStat): number {
+  const stats = member.computedStats;
+  switch (stat) {
+    case 'atk': return stats.displayAtk;
+    case 'critRate': return stats.effectiveCritRate;
+    case 'critDmg': return stats.effectiveCritDmg;
+    case 'skillDmg': return stats.skillDmgBonus;
+    case 'dps': return member.damageResult?.normalDps ?? 0;
+    case 'skillDamage': return member.damageResult?.skillDamageExpected ?? 0;
+  }
+}
+
+/**
+ * Breakdown sources for a stat; damage outputs have no breakdown
+ */
+function statSources(breakdown: StatBreakdown, stat: DiffStat): Partial<Record<DiffSource, number>> {
+  switch (stat) {
+    case 'atk':
+    case 'critRate':
+    case 'critDmg': {
+      const source = breakdown[stat];
+      return { base: source.base, bond: source.bond, assist: source.assist, abilities: source.abilities };
+    }
+    case 'skillDmg': {
+      const source = breakdown.skillDmg;
+      return { bond: source.bond, assist: source.assist, abilities: source.abilities };
+    }
+    default:
+      return {};
+  }
+}
+
+function makeDelta(
+  stat: DiffStat,
+  baseline: number,
+  live: number,
+  sources: Partial<Record<DiffSource, number>> = {}
+): StatDelta {
+  const delta = live - baseline;
+  return {
+    stat,
+    baseline,
+    live,
+    delta: Math.abs(delta) < EPSILON ? 0 : delta,
+    relative: baseline !== 0 ? delta / baseline : null,
+    sources,
+  };
+}
+
+/**
+ * Sum ability effects per ability, source slot and stat
+ */
+function flattenContributions(contributions: Phase3AbilityContribution[]): Map<string, AbilityDelta> {
+  const map = new Map<string, AbilityDelta>();
+  for (const c of contributions) {
+    for (const effect of c.effects) {
+      const key = `${c.abilityId}|${c.sourceMemberIndex}|${effect.stat}`;
+      const entry = map.get(key) ?? {
+        abilityId: c.abilityId,
+        abilityName: c.abilityName,
+        sourceMemberIndex: c.sourceMemberIndex,
+        isFromAssist: c.isFromAssist,
+        stat: effect.stat,
+        baseline: 0,
+        live: 0,
+        delta: 0,
+      };
+      entry.live += effect.value;
+      map.set(key, entry);
+    }
+  }
+  return map;
+}
+
+function diffAbilities(
+  baseline: Phase3AbilityContribution[],
+  live: Phase3AbilityContribution[]
+): AbilityDelta[] {
+  const merged = flattenContributions(live);
+  for (const [key, entry] of flattenContributions(baseline)) {
+    const existing = merged.get(key);
+    if (existing) {
+      existing.baseline = entry.live;
+    } else {
+      merged.set(key, { ...entry, baseline: entry.live, live: 0 });
+    }
+  }
+
+  const result: AbilityDelta[] = [];
+  for (const entry of merged.values()) {
+    const delta = entry.live - entry.baseline;
+    if (Math.abs(delta) >= EPSILON) result.push({ ...entry, delta });
+  }
+  return result.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Compare one member slot. Source deltas only list breakdown parts that moved.
+ */
+export function diffMember(baseline: Phase4Result, live: Phase4Result): MemberDiff {
+  const stats = DIFF_STATS.map(stat => {
+    const baseSources = statSources(baseline.computedStats.breakdown, stat);
+    const liveSources = statSources(live.computedStats.breakdown, stat);
+    const sources: Partial<Record<DiffSource, number>> = {};
+    for (const key of Object.keys(liveSources) as DiffSource[]) {
+      const delta = (liveSources[key] ?? 0) - (baseSources[key] ?? 0);
+      if (Math.abs(delta) >= EPSILON) sources[key] = delta;
+    }
+    return makeDelta(stat, statValue(baseline, stat), statValue(live, stat), sources);
+  });
+  const abilities = diffAbilities(baseline.abilityContributions, live.abilityContributions);
+
+  return {
+    memberIndex: live.memberIndex,
+    stats,
+    abilities,
+    changed: abilities.length > 0 || stats.some(s => s.delta !== 0),
+  };
+}
+
+/**
+ * Compare the main team of a pinned baseline against the live calculation
+ */
+export function diffTeamResults(baseline: TeamCalculationResult, live: TeamCalculationResult): TeamDiff {
+  const count = Math.min(MAIN_TEAM_SIZE, baseline.members.length, live.members.length);
+  const members: MemberDiff[] = [];
+  for (let i = 0; i < count; i++) {
+    members.push(diffMember(baseline.members[i], live.members[i]));
+  }
+
+  return {
+    members,
+    totals: [
+      makeDelta('dps', baseline.totalNormalDpsExpected, live.totalNormalDpsExpected),
+      makeDelta('skillDamage', baseline.totalSkillDamageExpected, live.totalSkillDamageExpected),
+    ],
+  };
+}
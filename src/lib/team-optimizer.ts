@@ -0,0 +1,392 @@
+/**
+ * Team Optimizer
+ * Searches the card pool for the highest-damage 5 + 2 lineup against an enemy.
+ *
+ * An exhaustive search is out of reach (hundreds of cards, 5 main slots, 2
+ * reserves, 5 assists), so this runs a pruned search scored by
+ * calculateTeamDamage():
+ *
+ * 1. Rank every main-team candidate by its marginal score next to the locked
+ *    slots and the current best damage dealers (so support cards whose value
+ *    is abilities, not their own hits, still rank).
+ * 2. Build shortlists per attribute group (Divina / Phantasma / Anima / mixed),
+ *    widened with each card's `synergies` and ability `synergy_partners` so
+ *    partner bonuses aren't pruned away.
+ * 3. Enumerate every main-team combination within each shortlist, then try
+ *    each member as leader (slot 0 drives entry_leader abilities).
+ * 4. Greedily fill reserves and assists from candidates ranked against the
+ *    best team found.
+ *
+ * Skills are evaluated inactive: skill buffs depend on timing (see battle-sim),
+ * so the score is normal DPS × scoreSeconds plus one cast of every damage skill.
+ */
+
+import type { Card } from '../types/card';
+import {
+  type TeamMemberState,
+  type TeamCalculationResult,
+  type TeamOptimizerConfig,
+  type OptimizedTeam,
+  type LineupSlot,
+  type MemberBuild,
+  MAIN_TEAM_SIZE,
+  TOTAL_SLOTS,
+  DEFAULT_BOND_SLOT,
+} from './team-calc-types';
+import { calculateTeamDamage, isAssistCard } from './team-calc';
+
+const DEFAULT_TOP_N = 5;
+const DEFAULT_LIMIT_BREAK = 4;
+const DEFAULT_SCORE_SECONDS = 60;
+const DEFAULT_CANDIDATES_PER_GROUP = 10;
+
+// Extra partner cards a shortlist may grow by through synergy expansion
+const MAX_SYNERGY_ADDITIONS = 4;
+// Candidates kept per team for the greedy reserve / assist passes
+const RESERVE_CANDIDATES = 6;
+const ASSIST_CANDIDATES = 6;
+
+const ATTRIBUTE_GROUPS = ['Divina', 'Phantasma', 'Anima'] as const;
+
+interface SlotChoice {
+  card: Card | null;
+  assist: Card | null;
+}
+
+interface ScoredLineup {
+  slots: SlotChoice[];
+  result: TeamCalculationResult;
+  score: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createMember(choice: SlotChoice, index: number, build: MemberBuild): TeamMemberState {
+  return {
+    cardId: choice.card?.id ?? null,
+    card: choice.card,
+    assistCardId: choice.assist?.id ?? null,
+    assistCard: choice.assist,
+    limitBreak: build.limitBreak,
+    levelBonus: build.levelBonus,
+    bond1: DEFAULT_BOND_SLOT,
+    bond2: DEFAULT_BOND_SLOT,
+    bond3: choice.assist ? 'none' : DEFAULT_BOND_SLOT,
+    bondType: 'none',
+    skillActive: false,
+    isReserve: index >= MAIN_TEAM_SIZE,
+    computedStats: null,
+    damageResult: null,
+    abilityContributions: [],
+    skillEffect: null,
+  };
+}
+
+/**
+ * Card IDs a card wants alongside it (card-level synergies + ability partners)
+ */
+export function getSynergyPartnerIds(card: Card): string[] {
+  const ids = new Set(card.synergies ?? []);
+  for (const ability of card.abilities ?? []) {
+    for (const id of ability.synergy_partners ?? []) ids.add(id);
+  }
+  ids.delete(card.id);
+  return [...ids];
+}
+
+/**
+ * All k-element combinations of items (order preserved)
+ */
+function combinations<T>(items: T[], k: number): T[][] {
+  const out: T[][] = [];
+  const pick: T[] = [];
+  const walk = (start: number) => {
+    if (pick.length === k) {
+      out.push([...pick]);
+      return;
+    }
+    for (let i = start; i <= items.length - (k - pick.length); i++) {
+      pick.push(items[i]);
+      walk(i + 1);
+      pick.pop();
+    }
+  };
+  if (k >= 0 && k <= items.length) walk(0);
+  return out;
+}
+
+function lineupKey(slots: SlotChoice[]): string {
+  return slots.map(s => `${s.card?.id ?? '-'}+${s.assist?.id ?? '-'}`).join('|');
+}
+
+function usedIds(slots: SlotChoice[]): Set<string> {
+  const ids = new Set<string>();
+  for (const s of slots) {
+    if (s.card) ids.add(s.card.id);
+    if (s.assist) ids.add(s.assist.id);
+  }
+  return ids;
+}
+
+// ============================================================================
+// Optimizer
+// ============================================================================
+
+/**
+ * Find the top N lineups for an enemy.
+ * Returns an empty list if the pool can't fill a single open main slot.
+ */
+export function optimizeTeam(config: TeamOptimizerConfig): OptimizedTeam[] {
+  const topN = Math.max(1, config.topN ?? DEFAULT_TOP_N);
+  const defaultBuild: MemberBuild = { limitBreak: config.limitBreak ?? DEFAULT_LIMIT_BREAK, levelBonus: 0 };
+  const builds = config.memberBuilds ?? {};
+  const scoreSeconds = config.scoreSeconds ?? DEFAULT_SCORE_SECONDS;
+  const perGroup = Math.max(1, config.candidatesPerGroup ?? DEFAULT_CANDIDATES_PER_GROUP);
+  const randomTargetMode = config.randomTargetMode ?? 'best';
+  const locked = config.lockedSlots ?? {};
+
+  const byId = new Map(config.cards.map(card => [card.id, card]));
+  const owned = config.ownedCardIds ? new Set(config.ownedCardIds) : null;
+
+  // Locked slots keep their cards; those cards leave the pool
+  const baseSlots: SlotChoice[] = Array.from({ length: TOTAL_SLOTS }, (_, i) => {
+    const lock = locked[i];
+    return lock
+      ? { card: lock.cardId ? byId.get(lock.cardId) ?? null : null, assist: lock.assistCardId ? byId.get(lock.assistCardId) ?? null : null }
+      : { card: null, assist: null };
+  });
+  const lockedIds = usedIds(baseSlots);
+
+  const available = config.cards.filter(card =>
+    card.playable !== false && (!owned || owned.has(card.id)) && !lockedIds.has(card.id)
+  );
+  const mainPool = available.filter(card => !isAssistCard(card));
+  const assistPool = available.filter(card => isAssistCard(card));
+
+  const openMain = Array.from({ length: MAIN_TEAM_SIZE }, (_, i) => i).filter(i => !locked[i]);
+  const openReserve = Array.from({ length: TOTAL_SLOTS - MAIN_TEAM_SIZE }, (_, i) => i + MAIN_TEAM_SIZE).filter(i => !locked[i]);
+
+  const evaluate = (slots: SlotChoice[]): ScoredLineup => {
+    const members = slots.map((choice, i) =>
+      createMember(choice, i, (choice.card && builds[choice.card.id]) || defaultBuild)
+    );
+    const result = calculateTeamDamage(members, config.enemy, undefined, randomTargetMode);
+    return { slots, result, score: result.totalNormalDpsExpected * scoreSeconds + result.totalSkillDamageExpected };
+  };
+
+  const withCard = (slots: SlotChoice[], index: number, card: Card): SlotChoice[] =>
+    slots.map((s, i) => (i === index ? { card, assist: s.assist } : s));
+
+  // --------------------------------------------------------------------------
+  // 1. Rank main-team candidates
+  // --------------------------------------------------------------------------
+
+  let lineups: ScoredLineup[];
+
+  if (openMain.length === 0) {
+    lineups = [evaluate(baseSlots)];
+  } else {
+    if (mainPool.length < openMain.length) return [];
+
+    // Pass 1: marginal score next to the locked slots only
+    const firstOpen = openMain[0];
+    const lockedScore = evaluate(baseSlots).score;
+    const soloGain = new Map<string, number>();
+    for (const card of mainPool) {
+      soloGain.set(card.id, evaluate(withCard(baseSlots, firstOpen, card)).score - lockedScore);
+    }
+    const bySolo = [...mainPool].sort((a, b) => soloGain.get(b.id)! - soloGain.get(a.id)!);
+
+    // Pass 2: marginal score next to the top damage dealers, so supports rank too
+    const reference = bySolo.slice(0, openMain.length - 1);
+    let referenceSlots = baseSlots;
+    reference.forEach((card, k) => {
+      referenceSlots = withCard(referenceSlots, openMain[k], card);
+    });
+    const referenceScore = evaluate(referenceSlots).score;
+    const lastOpen = openMain[openMain.length - 1];
+    const rank = new Map<string, number>();
+    reference.forEach((card, k) => rank.set(card.id, Number.MAX_SAFE_INTEGER - k));
+    for (const card of mainPool) {
+      if (rank.has(card.id)) continue;
+      rank.set(card.id, evaluate(withCard(referenceSlots, lastOpen, card)).score - referenceScore);
+    }
+    const ranked = [...mainPool].sort((a, b) => rank.get(b.id)! - rank.get(a.id)!);
+
+    // ------------------------------------------------------------------------
+    // 2. Shortlists per attribute group, widened by synergy partners
+    // ------------------------------------------------------------------------
+
+    const mainById = new Map(mainPool.map(card => [card.id, card]));
+    const expand = (shortlist: Card[]): Card[] => {
+      const ids = new Set(shortlist.map(card => card.id));
+      const additions: Card[] = [];
+      for (const card of shortlist) {
+        for (const partnerId of getSynergyPartnerIds(card)) {
+          const partner = mainById.get(partnerId);
+          if (partner && !ids.has(partnerId) && additions.length < MAX_SYNERGY_ADDITIONS) {
+            ids.add(partnerId);
+            additions.push(partner);
+          }
+        }
+      }
+      return [...shortlist, ...additions];
+    };
+
+    const groups: Card[][] = [
+      ...ATTRIBUTE_GROUPS.map(attr => ranked.filter(card => card.stats.attribute_name === attr).slice(0, perGroup)),
+      ranked.slice(0, perGroup),
+    ]
+      .map(expand)
+      .filter(group => group.length >= openMain.length);
+
+    // ------------------------------------------------------------------------
+    // 3. Enumerate main teams, then choose the leader
+    // ------------------------------------------------------------------------
+
+    // Only the best topN × 2 are kept — thousands of combinations are scored
+    const keepCount = topN * 2;
+    const seen = new Set<string>();
+    const keep: ScoredLineup[] = [];
+    for (const group of groups) {
+      for (const combo of combinations(group, openMain.length)) {
+        const key = combo.map(card => card.id).sort().join(',');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        // Highest-ranked first, so the leader defaults to the strongest pick
+        const ordered = [...combo].sort((a, b) => rank.get(b.id)! - rank.get(a.id)!);
+        let slots = baseSlots;
+        ordered.forEach((card, k) => {
+          slots = withCard(slots, openMain[k], card);
+        });
+        const scored = evaluate(slots);
+        if (keep.length < keepCount || scored.score > keep[keep.length - 1].score) {
+          keep.push(scored);
+          keep.sort((a, b) => b.score - a.score);
+          if (keep.length > keepCount) keep.pop();
+        }
+      }
+    }
+
+    lineups = keep.map(lineup => {
+      if (locked[0]) return lineup;
+      let best = lineup;
+      for (const index of openMain.slice(1)) {
+        const swapped = lineup.slots.map((s, i) => {
+          if (i === 0) return lineup.slots[index];
+          if (i === index) return lineup.slots[0];
+          return s;
+        });
+        const candidate = evaluate(swapped);
+        if (candidate.score > best.score) best = candidate;
+      }
+      return best;
+    });
+    lineups.sort((a, b) => b.score - a.score);
+    lineups = lineups.slice(0, topN);
+  }
+
+  // --------------------------------------------------------------------------
+  // 4. Reserves and assists (greedy, ranked against the best team)
+  // --------------------------------------------------------------------------
+
+  const best = lineups[0];
+
+  if (openReserve.length > 0) {
+    const taken = usedIds(best.slots);
+    const reserveRank = mainPool
+      .filter(card => !taken.has(card.id))
+      .map(card => ({ card, gain: evaluate(withCard(best.slots, openReserve[0], card)).score - best.score }))
+      .filter(entry => entry.gain > 0)
+      .sort((a, b) => b.gain - a.gain)
+      .slice(0, RESERVE_CANDIDATES + MAIN_TEAM_SIZE) // Headroom for cards other teams already use
+      .map(entry => entry.card);
+
+    lineups = lineups.map(lineup => {
+      const inTeam = usedIds(lineup.slots);
+      const candidates = reserveRank.filter(card => !inTeam.has(card.id)).slice(0, RESERVE_CANDIDATES);
+      let bestLineup = lineup;
+      const picks = Math.min(openReserve.length, candidates.length);
+      for (let n = 1; n <= picks; n++) {
+        for (const combo of combinations(candidates, n)) {
+          let slots = lineup.slots;
+          combo.forEach((card, k) => {
+            slots = withCard(slots, openReserve[k], card);
+          });
+          const candidate = evaluate(slots);
+          if (candidate.score > bestLineup.score) bestLineup = candidate;
+        }
+      }
+      return bestLineup;
+    });
+  }
+
+  const openAssistSlots = openMain.filter(i => !baseSlots[i].assist);
+  if (openAssistSlots.length > 0 && assistPool.length > 0) {
+    // Rank each assist by its best gain on any open main slot of the best team
+    const assistRank = assistPool
+      .map(assist => {
+        let gain = 0;
+        for (const index of openAssistSlots) {
+          const slots = best.slots.map((s, i) => (i === index ? { card: s.card, assist } : s));
+          gain = Math.max(gain, evaluate(slots).score - best.score);
+        }
+        return { assist, gain };
+      })
+      .filter(entry => entry.gain > 0)
+      .sort((a, b) => b.gain - a.gain)
+      .slice(0, ASSIST_CANDIDATES)
+      .map(entry => entry.assist);
+
+    lineups = lineups.map(lineup => {
+      let current = lineup;
+      // Biggest hitters pick first
+      const order = [...openAssistSlots].sort((a, b) =>
+        (current.result.members[b].damageResult?.normalDps ?? 0) - (current.result.members[a].damageResult?.normalDps ?? 0)
+      );
+      for (const index of order) {
+        if (!current.slots[index].card) continue;
+        const inTeam = usedIds(current.slots);
+        let pick = current;
+        for (const assist of assistRank) {
+          if (inTeam.has(assist.id)) continue;
+          const slots = current.slots.map((s, i) => (i === index ? { card: s.card, assist } : s));
+          const candidate = evaluate(slots);
+          if (candidate.score > pick.score) pick = candidate;
+        }
+        current = pick;
+      }
+      return current;
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Final ranking
+  // --------------------------------------------------------------------------
+
+  const unique = new Map<string, ScoredLineup>();
+  for (const lineup of lineups) unique.set(lineupKey(lineup.slots), lineup);
+
+  return [...unique.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topN)
+    .map(lineup => ({
+      slots: lineup.slots.map((s): LineupSlot => ({ cardId: s.card?.id ?? null, assistCardId: s.assist?.id ?? null })),
+      score: Math.round(lineup.score),
+      totalNormalDps: lineup.result.totalNormalDpsExpected,
+      totalSkillDamage: lineup.result.totalSkillDamageExpected,
+    }));
+}
+
+// ============================================================================
+// Worker protocol
+// ============================================================================
+
+export type TeamOptimizerWorkerRequest = { type: 'run'; id: number; config: TeamOptimizerConfig };
+
+export type TeamOptimizerWorkerResponse =
+  | { type: 'result'; id: number; teams: OptimizedTeam[] }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,25 @@
+/**
+ * Web Worker entry for the team optimizer (see ./team-optimizer.ts).
+ *
+ * A search runs thousands of team calculations; here it doesn't block the page.
+ * Cancelling terminates the worker, so nothing is kept between runs.
+ */
+
+import {
+  optimizeTeam,
+  type TeamOptimizerWorkerRequest,
+  type TeamOptimizerWorkerResponse,
+} from './team-optimizer';
+
+function respond(response: TeamOptimizerWorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<TeamOptimizerWorkerRequest>) => {
+  const message = event.data;
+  try {
+    respond({ type: 'result', id: message.id, teams: optimizeTeam(message.config) });
+  } catch (error) {
+    respond({ type: 'error', id: message.id, message: String(error) });
+  }
+};
@@ -0,0 +1,221 @@
+/**
+ * Team Presets
+ * Named team slots for the calculator (tower, world boss, story, ...)
+ *
+ * The live calculator state always belongs to the active preset: it is written
+ * back into the list when the user switches away, so the stored copy of the
+ * active preset may lag behind what is on screen. A shared team link therefore
+ * never loads into the live state directly; it opens as a preset of its own
+ * (openSharedPreset). All list operations here are pure and return a new
+ * StoredPresetState.
+ */
+
+import type {
+  StoredPresetState,
+  StoredTeamState,
+  StoredFightState,
+  TeamPreset,
+} from './team-calc-types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PRESETS_STORAGE_KEY = 'otogidb-team-presets';
+export const MAX_PRESETS = 20;
+export const MAX_PRESET_NAME_LENGTH = 40;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createPresetId(): string {
+  return `preset_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function cleanName(name: string): string {
+  return name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+}
+
+/**
+ * Pick a name not already used, appending " 2", " 3", ... if needed
+ */
+export function uniquePresetName(state: StoredPresetState, base: string): string {
+  const taken = new Set(state.presets.map(p => p.name));
+  const name = cleanName(base) || 'Team';
+  if (!taken.has(name)) return name;
+  for (let n = 2; ; n++) {
+    const candidate = `${name} ${n}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+export function getActivePreset(state: StoredPresetState): TeamPreset | undefined {
+  return state.presets.find(p => p.id === state.activePresetId);
+}
+
+// ============================================================================
+// List Operations
+// ============================================================================
+
+/**
+ * Start a preset list with a single preset holding the current team
+ */
+export function createInitialPresets(team: StoredTeamState, fight?: StoredFightState, name = 'Team 1'): StoredPresetState {
+  const preset: TeamPreset = { id: createPresetId(), name, team, fight, updatedAt: Date.now() };
+  return { version: 1, activePresetId: preset.id, presets: [preset] };
+}
+
+/**
+ * Append a new preset and make it active. No-op at MAX_PRESETS.
+ */
+export function addPreset(
+  state: StoredPresetState,
+  name: string,
+  team: StoredTeamState,
+  fight?: StoredFightState
+): StoredPresetState {
+  if (state.presets.length >= MAX_PRESETS) return state;
+  const preset: TeamPreset = {
+    id: createPresetId(),
+    name: uniquePresetName(state, name),
+    team,
+    fight,
+    updatedAt: Date.now(),
+  };
+  return { ...state, activePresetId: preset.id, presets: [...state.presets, preset] };
+}
+
+/**
+ * Copy a preset directly after the original and make the copy active
+ */
+export function duplicatePreset(state: StoredPresetState, id: string): StoredPresetState {
+  const index = state.presets.findIndex(p => p.id === id);
+  if (index === -1 || state.presets.length >= MAX_PRESETS) return state;
+
+  const source = state.presets[index];
+  const copy: TeamPreset = {
+    ...structuredClone(source),
+    id: createPresetId(),
+    name: uniquePresetName(state, `${source.name} copy`),
+    updatedAt: Date.now(),
+  };
+  const presets = [...state.presets];
+  presets.splice(index + 1, 0, copy);
+  return { ...state, activePresetId: copy.id, presets };
+}
+
+export function renamePreset(state: StoredPresetState, id: string, name: string): StoredPresetState {
+  const cleaned = cleanName(name);
+  if (!cleaned) return state;
+  return {
+    ...state,
+    presets: state.presets.map(p => (p.id === id ? { ...p, name: cleaned } : p)),
+  };
+}
+
+/**
+ * Remove a preset. The last preset cannot be deleted; deleting the active
+ * preset activates its neighbour.
+ */
+export function deletePreset(state: StoredPresetState, id: string): StoredPresetState {
+  const index = state.presets.findIndex(p => p.id === id);
+  if (index === -1 || state.presets.length <= 1) return state;
+
+  const presets = state.presets.filter(p => p.id !== id);
+  const activePresetId = state.activePresetId === id
+    ? presets[Math.min(index, presets.length - 1)].id
+    : state.activePresetId;
+  return { ...state, activePresetId, presets };
+}
+
+/**
+ * Move a preset one place left (-1) or right (+1)
+ */
+export function movePreset(state: StoredPresetState, id: string, direction: -1 | 1): StoredPresetState {
+  const index = state.presets.findIndex(p => p.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= state.presets.length) return state;
+
+  const presets = [...state.presets];
+  [presets[index], presets[target]] = [presets[target], presets[index]];
+  return { ...state, presets };
+}
+
+/**
+ * Store the given team and fight into a preset
+ */
+export function savePresetContent(
+  state: StoredPresetState,
+  id: string,
+  team: StoredTeamState,
+  fight?: StoredFightState
+): StoredPresetState {
+  return {
+    ...state,
+    presets: state.presets.map(p => (p.id === id ? { ...p, team, fight, updatedAt: Date.now() } : p)),
+  };
+}
+
+/**
+ * Open a shared team as a new active preset. The live content is first saved
+ * into the preset it belongs to, so that preset keeps any unsaved edits and is
+ * not overwritten by the shared team. Null at MAX_PRESETS.
+ */
+export function openSharedPreset(
+  state: StoredPresetState,
+  live: { team: StoredTeamState; fight?: StoredFightState },
+  shared: { team: StoredTeamState; fight?: StoredFightState },
+  name = 'Shared team'
+): StoredPresetState | null {
+  if (state.presets.length >= MAX_PRESETS) return null;
+  const saved = savePresetContent(state, state.activePresetId, live.team, live.fight);
+  return addPreset(saved, name, shared.team, shared.fight);
+}
+
+export function setActivePreset(state: StoredPresetState, id: string): StoredPresetState {
+  if (!state.presets.some(p => p.id === id)) return state;
+  return { ...state, activePresetId: id };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Check the shape of stored presets; anything unexpected is discarded
+ */
+export function parseStoredPresets(json: string | null): StoredPresetState | null {
+  if (!json) return null;
+  try {
+    const data = JSON.parse(json);
+    if (data?.version !== 1 || !Array.isArray(data.presets) || data.presets.length === 0) return null;
+    const valid = data.presets.every((p: Partial<TeamPreset>) =>
+      typeof p.id === 'string' && typeof p.name === 'string' && Array.isArray(p.team?.members)
+    );
+    if (!valid) return null;
+    const state = data as StoredPresetState;
+    return state.presets.some(p => p.id === state.activePresetId)
+      ? state
+      : { ...state, activePresetId: state.presets[0].id };
+  } catch {
+    return null;
+  }
+}
+
+export function loadPresets(): StoredPresetState | null {
+  try {
+    return parseStoredPresets(localStorage.getItem(PRESETS_STORAGE_KEY));
+  } catch (e) {
+    console.warn('Failed to load team presets:', e);
+    return null;
+  }
+}
+
+export function savePresets(state: StoredPresetState): void {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.warn('Failed to save team presets:', e);
+  }
+}
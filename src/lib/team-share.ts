@@ -0,0 +1,358 @@
+/**
+ * Shareable team links
+ *
+ * Encodes a StoredTeamState (plus optional fight snapshots) into a compact,
+ * URL-safe string for `/calculator?t=...`. The payload is a positional JSON
+ * array — no property names, bonds and attributes as indices — wrapped in
+ * base64url, so links survive chat clients that mangle pretty-printed JSON.
+ *
+ * Layout (version 1):
+ *   [version, members, enemy, abilityTargetOverrides, fight]
+ *   member:  0 (empty) | [cardId, assistCardId, lb, levelBonus, bond1, bond2, bond3, skillActive]
+ *   enemy:   [shield‰, defense‰, finalWave, waveCount, attribute, ignoreShieldCap, healersDontAttack]
+ *   fight:   0 | [fightDuration, snapshots]
+ *   snapshot: [name, isBase, durationSeconds, totalDps, totalDpsMin, totalDpsMax, members]
+ *   snapshot member: [memberIndex, cardName, dps, dpsMin, dpsMax, skillDamage, skillDamageMin, skillDamageMax, skillCasts]
+ *
+ * Decoding validates every field and returns null for anything malformed;
+ * a shared link is untrusted input.
+ */
+
+import {
+  TOTAL_SLOTS,
+  DEFAULT_BOND_SLOT,
+  type BondSlotType,
+  type EnemyAttribute,
+  type StoredTeamState,
+  type StoredMemberState,
+  type StoredFightState,
+  type FightSnapshot,
+  type FightSnapshotMember,
+} from './team-calc-types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TEAM_SHARE_VERSION = 1;
+export const TEAM_SHARE_PARAM = 't';
+
+/** Longest code accepted when decoding; far above any real team */
+export const MAX_TEAM_SHARE_LENGTH = 16_000;
+
+const MAX_SNAPSHOTS = 20;
+
+// Index order is part of the wire format — append only
+const BOND_CODES: BondSlotType[] = ['none', 'atk5', 'atk7', 'skill5', 'skill7'];
+const ATTRIBUTE_CODES: EnemyAttribute[] = ['None', 'Divina', 'Phantasma', 'Anima'];
+
+const CARD_ID_PATTERN = /^\d{1,10}$/;
+const ABILITY_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export interface SharedTeam {
+  team: StoredTeamState;
+  fight?: StoredFightState;
+}
+
+// ============================================================================
+// Base64url
+// ============================================================================
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const flag = (value: boolean | undefined) => (value ? 1 : 0);
+const bondCode = (bond: BondSlotType | undefined) => Math.max(0, BOND_CODES.indexOf(bond ?? DEFAULT_BOND_SLOT));
+
+function encodeMember(member: StoredMemberState | undefined): unknown {
+  if (!member || (!member.cardId && !member.assistCardId)) return 0;
+  return [
+    member.cardId ?? '',
+    member.assistCardId ?? '',
+    member.limitBreak,
+    member.levelBonus,
+    bondCode(member.bond1),
+    bondCode(member.bond2),
+    bondCode(member.bond3),
+    flag(member.skillActive),
+  ];
+}
+
+function encodeSnapshot(snapshot: FightSnapshot): unknown {
+  return [
+    snapshot.name,
+    flag(snapshot.isBase),
+    snapshot.durationSeconds,
+    Math.round(snapshot.totalDps),
+    Math.round(snapshot.totalDpsMin),
+    Math.round(snapshot.totalDpsMax),
+    snapshot.members.map(m => [
+      m.memberIndex,
+      m.cardName ?? '',
+      Math.round(m.dps),
+      Math.round(m.dpsMin),
+      Math.round(m.dpsMax),
+      Math.round(m.skillDamage),
+      Math.round(m.skillDamageMin),
+      Math.round(m.skillDamageMax),
+      m.skillCasts,
+    ]),
+  ];
+}
+
+/**
+ * Encode a team (and optionally its fight snapshots) as a URL-safe share code
+ */
+export function encodeTeamShare(team: StoredTeamState, fight?: StoredFightState): string {
+  const enemy = team.enemy;
+  const payload = [
+    TEAM_SHARE_VERSION,
+    Array.from({ length: TOTAL_SLOTS }, (_, i) => encodeMember(team.members[i])),
+    [
+      Math.round(enemy.baseShield * 1000),
+      Math.round((enemy.baseDefense ?? 0) * 1000),
+      flag(enemy.isFinalWave),
+      enemy.waveCount,
+      Math.max(0, ATTRIBUTE_CODES.indexOf(enemy.attribute ?? 'None')),
+      flag(enemy.ignoreShieldCap),
+      flag(enemy.healersDontAttack),
+    ],
+    team.abilityTargetOverrides && Object.keys(team.abilityTargetOverrides).length > 0
+      ? team.abilityTargetOverrides
+      : 0,
+    fight && fight.snapshots.length > 0
+      ? [fight.fightDuration, fight.snapshots.slice(0, MAX_SNAPSHOTS).map(encodeSnapshot)]
+      : 0,
+  ];
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Build a full share URL for the given page location
+ */
+export function buildTeamShareUrl(baseUrl: string, code: string): string {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(TEAM_SHARE_PARAM, code);
+  return url.toString();
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+function intInRange(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return null;
+  return value >= min && value <= max ? value : null;
+}
+
+function finiteNonNegative(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function optionalCardId(value: unknown): string | null | undefined {
+  if (value === '') return null;
+  return typeof value === 'string' && CARD_ID_PATTERN.test(value) ? value : undefined;
+}
+
+function decodeMember(raw: unknown): StoredMemberState | null {
+  if (raw === 0) {
+    return {
+      cardId: null,
+      assistCardId: null,
+      limitBreak: 4,
+      levelBonus: 0,
+      bond1: DEFAULT_BOND_SLOT,
+      bond2: DEFAULT_BOND_SLOT,
+      bond3: DEFAULT_BOND_SLOT,
+      bondType: 'atk15',
+      skillActive: false,
+    };
+  }
+  if (!Array.isArray(raw) || raw.length !== 8) return null;
+
+  const cardId = optionalCardId(raw[0]);
+  const assistCardId = optionalCardId(raw[1]);
+  const limitBreak = intInRange(raw[2], 0, 4);
+  const levelBonus = intInRange(raw[3], 0, 30);
+  const bonds = [raw[4], raw[5], raw[6]].map(code => {
+    const index = intInRange(code, 0, BOND_CODES.length - 1);
+    return index === null ? null : BOND_CODES[index];
+  });
+  const skillActive = intInRange(raw[7], 0, 1);
+
+  if (cardId === undefined || assistCardId === undefined || limitBreak === null ||
+      levelBonus === null || bonds.includes(null) || skillActive === null) {
+    return null;
+  }
+
+  return {
+    cardId,
+    assistCardId,
+    limitBreak,
+    levelBonus,
+    bond1: bonds[0]!,
+    bond2: bonds[1]!,
+    // Assists occupy the third bond slot
+    bond3: assistCardId ? 'none' : bonds[2]!,
+    bondType: 'atk15',  // Legacy
+    skillActive: skillActive === 1,
+  };
+}
+
+function decodeEnemy(raw: unknown): StoredTeamState['enemy'] | null {
+  if (!Array.isArray(raw) || raw.length !== 7) return null;
+
+  const shield = intInRange(raw[0], -1000, 1000);
+  const defense = intInRange(raw[1], 0, 1000);
+  const finalWave = intInRange(raw[2], 0, 1);
+  const waveCount = intInRange(raw[3], 1, 10);
+  const attribute = intInRange(raw[4], 0, ATTRIBUTE_CODES.length - 1);
+  const ignoreShieldCap = intInRange(raw[5], 0, 1);
+  const healersDontAttack = intInRange(raw[6], 0, 1);
+
+  if (shield === null || defense === null || finalWave === null || waveCount === null ||
+      attribute === null || ignoreShieldCap === null || healersDontAttack === null) {
+    return null;
+  }
+
+  return {
+    baseShield: shield / 1000,
+    baseDefense: defense / 1000,
+    isFinalWave: finalWave === 1,
+    waveCount,
+    attribute: ATTRIBUTE_CODES[attribute],
+    ignoreShieldCap: ignoreShieldCap === 1,
+    healersDontAttack: healersDontAttack === 1,
+  };
+}
+
+function decodeOverrides(raw: unknown): Record<string, number[]> | null {
+  if (raw === 0) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const overrides: Record<string, number[]> = {};
+  for (const [abilityId, targets] of Object.entries(raw)) {
+    if (!ABILITY_ID_PATTERN.test(abilityId) || !Array.isArray(targets)) return null;
+    if (!targets.every(t => intInRange(t, 0, TOTAL_SLOTS - 1) !== null)) return null;
+    overrides[abilityId] = targets as number[];
+  }
+  return overrides;
+}
+
+function decodeSnapshotMember(raw: unknown): FightSnapshotMember | null {
+  if (!Array.isArray(raw) || raw.length !== 9) return null;
+
+  const memberIndex = intInRange(raw[0], 0, TOTAL_SLOTS - 1);
+  const cardName = typeof raw[1] === 'string' ? raw[1].slice(0, 100) : null;
+  const values = raw.slice(2, 8).map(finiteNonNegative);
+  const skillCasts = intInRange(raw[8], 0, 999);
+
+  if (memberIndex === null || cardName === null || values.includes(null) || skillCasts === null) {
+    return null;
+  }
+  const [dps, dpsMin, dpsMax, skillDamage, skillDamageMin, skillDamageMax] = values as number[];
+
+  return {
+    memberIndex,
+    cardName: cardName || null,
+    dps,
+    dpsMin,
+    dpsMax,
+    hasDamageSkill: skillDamage > 0,
+    skillDamage,
+    skillDamageMin,
+    skillDamageMax,
+    skillCasts,
+  };
+}
+
+function decodeSnapshot(raw: unknown, index: number): FightSnapshot | null {
+  if (!Array.isArray(raw) || raw.length !== 7) return null;
+
+  const name = typeof raw[0] === 'string' ? raw[0].slice(0, 100) : null;
+  const isBase = intInRange(raw[1], 0, 1);
+  const durationSeconds = intInRange(raw[2], 0, 86_400);
+  const totals = raw.slice(3, 6).map(finiteNonNegative);
+  const members = Array.isArray(raw[6]) ? raw[6].map(decodeSnapshotMember) : null;
+
+  if (name === null || isBase === null || durationSeconds === null || totals.includes(null) ||
+      !members || members.includes(null)) {
+    return null;
+  }
+
+  return {
+    id: `snap_shared_${index}`,
+    name,
+    members: members as FightSnapshotMember[],
+    totalDps: totals[0]!,
+    totalDpsMin: totals[1]!,
+    totalDpsMax: totals[2]!,
+    durationSeconds,
+    isBase: isBase === 1,
+  };
+}
+
+function decodeFight(raw: unknown): StoredFightState | undefined | null {
+  if (raw === 0) return undefined;
+  if (!Array.isArray(raw) || raw.length !== 2 || !Array.isArray(raw[1])) return null;
+
+  const fightDuration = intInRange(raw[0], 1, 86_400);
+  if (fightDuration === null || raw[1].length > MAX_SNAPSHOTS) return null;
+
+  const snapshots = raw[1].map(decodeSnapshot);
+  if (snapshots.includes(null)) return null;
+
+  return { fightDuration, snapshots: snapshots as FightSnapshot[] };
+}
+
+/**
+ * Decode a share code. Returns null if the code is malformed, from an
+ * unknown version, or contains out-of-range values.
+ */
+export function decodeTeamShare(code: string | null | undefined): SharedTeam | null {
+  if (!code || code.length > MAX_TEAM_SHARE_LENGTH || !/^[\w-]+$/.test(code)) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(code));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(payload) || payload.length !== 5 || payload[0] !== TEAM_SHARE_VERSION) return null;
+  if (!Array.isArray(payload[1]) || payload[1].length !== TOTAL_SLOTS) return null;
+
+  const members = payload[1].map(decodeMember);
+  const enemy = decodeEnemy(payload[2]);
+  const abilityTargetOverrides = decodeOverrides(payload[3]);
+  const fight = decodeFight(payload[4]);
+
+  if (members.includes(null) || !enemy || !abilityTargetOverrides || fight === null) return null;
+
+  return {
+    team: {
+      members: members as StoredMemberState[],
+      enemy,
+      activeTabIndex: 0,
+      abilityTargetOverrides,
+    },
+    fight,
+  };
+}
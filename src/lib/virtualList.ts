@@ -0,0 +1,131 @@
+/**
+ * Windowed rendering for long lists (the card table and mobile card grid).
+ *
+ * Only rows near the viewport are mounted; spacers above and below stand in for
+ * the rest so the scrollbar still reflects the whole list. Rows are measured once
+ * rendered and keyed by card ID, so heights survive re-sorting and filtering;
+ * rows not yet seen use an estimate.
+ *
+ * Also holds the scroll anchor saved for back navigation: the row at the top of the
+ * viewport rather than a pixel offset, since the list is rebuilt (and its unmeasured
+ * rows estimated) on every page load.
+ */
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+export interface VisibleRange {
+  /** First rendered row */
+  start: number;
+  /** One past the last rendered row */
+  end: number;
+}
+
+/**
+ * Top offset of every row plus the total height as the last entry
+ * (`offsets[i]` is where row i starts, `offsets[keys.length]` the list height).
+ */
+export function computeRowOffsets(
+  keys: readonly string[],
+  heights: ReadonlyMap<string, number>,
+  estimatedHeight: number
+): number[] {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (heights.get(keys[i]) ?? estimatedHeight);
+  }
+  return offsets;
+}
+
+/** Index of the row containing `position` (clamped to the list) */
+export function findRowAt(offsets: readonly number[], position: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Rows overlapping [top, bottom) — positions relative to the start of the list —
+ * widened by `overscan` rows on each side so fast scrolling doesn't show blanks.
+ */
+export function findVisibleRange(
+  offsets: readonly number[],
+  top: number,
+  bottom: number,
+  overscan: number
+): VisibleRange {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const first = findRowAt(offsets, top);
+  const last = findRowAt(offsets, Math.max(top, bottom - 1));
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan),
+  };
+}
+
+/** Spacer heights for the rows outside `range` */
+export function getRangePadding(offsets: readonly number[], range: VisibleRange): { top: number; bottom: number } {
+  const total = offsets[offsets.length - 1] ?? 0;
+  return {
+    top: offsets[range.start] ?? 0,
+    bottom: Math.max(0, total - (offsets[range.end] ?? total)),
+  };
+}
+
+// =============================================================================
+// Scroll restoration
+// =============================================================================
+
+export interface ScrollAnchor {
+  /** Key of the row at the top of the viewport */
+  rowKey: string;
+  /** How far the viewport top was past that row's top, in px */
+  rowOffset: number;
+  /** Window scroll position, for lists inside their own scroll container */
+  windowY: number;
+}
+
+const SCROLL_ANCHOR_PREFIX = 'otogidb-scroll:';
+
+function isScrollAnchor(value: unknown): value is ScrollAnchor {
+  if (typeof value !== 'object' || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.rowKey === 'string' && typeof v.rowOffset === 'number' && typeof v.windowY === 'number';
+}
+
+/** Remember where a list was scrolled to, per list and page URL (sessionStorage, so per tab) */
+export function saveScrollAnchor(key: string, anchor: ScrollAnchor): void {
+  try {
+    sessionStorage.setItem(SCROLL_ANCHOR_PREFIX + key, JSON.stringify(anchor));
+  } catch {
+    // Storage full or disabled; restoring is best-effort
+  }
+}
+
+export function loadScrollAnchor(key: string): ScrollAnchor | null {
+  try {
+    const raw = sessionStorage.getItem(SCROLL_ANCHOR_PREFIX + key);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return isScrollAnchor(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** True when this page load came from the back/forward buttons, the only time a saved position applies */
+export function isBackForwardNavigation(): boolean {
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByType !== 'function') return false;
+  const [entry] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+  return entry?.type === 'back_forward';
+}
@@ -0,0 +1,365 @@
+/**
+ * Card watchlist
+ * Follows chosen cards between visits and queues a digest of what changed.
+ *
+ * Each watched card keeps a snapshot of the values worth being told about:
+ * stats and skill value from the cards index (kept current by the delta
+ * patches in getCardsData), auction stock and featured banners from the R2
+ * availability file, and whether an exchange lists it. A check compares the
+ * stored snapshot with current data, appends an event per difference and
+ * stores the new snapshot. Events stay queued until the reader dismisses them.
+ *
+ * Stored in localStorage: the digest banner reads it on every page, and a
+ * synchronous read lets it skip all data loading when nothing is watched.
+ */
+
+import type { Card } from '../types/card';
+import { getCardsData } from './cards';
+import {
+  computeClientSideAvailability,
+  fetchAvailabilityData,
+  fetchAvailabilityManifest,
+  type CardAvailability,
+} from './availability';
+import { formatRawChangeDisplay } from './changeFormatters';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const WATCHLIST_STORAGE_KEY = 'otogidb-watchlist';
+
+/** Window event fired after any watchlist write, so other islands can reload */
+export const WATCHLIST_CHANGE_EVENT = 'otogidb-watchlist-change';
+
+export const MAX_WATCHED_CARDS = 200;
+export const MAX_WATCH_EVENTS = 100;
+
+/** Minimum time between automatic checks; availability updates once a day. */
+export const WATCH_CHECK_INTERVAL = 30 * 60 * 1000;
+
+/** Stat fields compared between snapshots, with patch-notes labels */
+const WATCH_STATS = {
+  base_atk: 'Base ATK',
+  max_atk: 'Max ATK',
+  base_hp: 'Base HP',
+  max_hp: 'Max HP',
+  speed: 'Speed',
+  crit: 'Crit',
+  cost: 'Cost',
+} as const;
+
+type WatchStatKey = keyof typeof WATCH_STATS;
+
+/** Same wording as the card page's auction badge */
+export const AUCTION_STOCK_LABELS: Record<AuctionStock, string> = {
+  high: 'Commonly Available',
+  medium: 'Available',
+  low: 'Rarely Listed',
+  unavailable: 'Not Listed',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AuctionStock = 'high' | 'medium' | 'low' | 'unavailable';
+
+export interface WatchSnapshot {
+  dataVersion: string;
+  stats: Record<WatchStatKey, number | null>;
+  /** Skill value at MLB, as shown in the card table */
+  skillValue: string | null;
+  /** Null when availability data could not be loaded */
+  auctionStock: AuctionStock | null;
+  /** Current featured banner keys; null when availability data could not be loaded */
+  featuredBanners: string[] | null;
+  inExchange: boolean;
+}
+
+export interface WatchedCard {
+  cardId: string;
+  addedAt: number;
+  /** Null until the first check after the card was added */
+  snapshot: WatchSnapshot | null;
+}
+
+export type WatchEventKind = 'stats' | 'auction' | 'banner' | 'exchange';
+
+export interface WatchEvent {
+  cardId: string;
+  cardName: string;
+  kind: WatchEventKind;
+  text: string;
+  detectedAt: number;
+  dataVersion: string;
+}
+
+export interface WatchlistState {
+  cards: WatchedCard[];
+  /** Undismissed events, newest first */
+  events: WatchEvent[];
+  lastCheckedAt: number | null;
+}
+
+export interface WatchCheckInput {
+  version: string;
+  cards: Record<string, Card>;
+  /** Availability per card id, or null when the file could not be loaded */
+  availability: Record<string, CardAvailability> | null;
+}
+
+export const EMPTY_WATCHLIST: WatchlistState = { cards: [], events: [], lastCheckedAt: null };
+
+// ============================================================================
+// Pure helpers
+// ============================================================================
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Capture the watched values of a card.
+ * `availability` is the card's R2 entry, null when the file has no entry for
+ * it (not listed anywhere), or undefined when the file could not be loaded.
+ */
+export function buildWatchSnapshot(
+  card: Card,
+  availability: CardAvailability | null | undefined,
+  dataVersion: string
+): WatchSnapshot {
+  const stats = {} as Record<WatchStatKey, number | null>;
+  for (const key of Object.keys(WATCH_STATS) as WatchStatKey[]) {
+    stats[key] = asNumber(card.stats?.[key]);
+  }
+
+  let auctionStock: AuctionStock | null = null;
+  let featuredBanners: string[] | null = null;
+  if (availability !== undefined) {
+    auctionStock = availability ? computeClientSideAvailability(availability).auctionStockLevel : 'unavailable';
+    featuredBanners = [...(availability?.gacha?.featured_banners ?? [])].sort();
+  }
+
+  return {
+    dataVersion,
+    stats,
+    skillValue: card.skill?.slv_mlb ?? null,
+    auctionStock,
+    featuredBanners,
+    inExchange: (card.acquisition?.sources ?? []).includes('exchange'),
+  };
+}
+
+/** "start_end" banner key → end date, for the digest text */
+function bannerEndDate(key: string): string | null {
+  const end = key.split('_')[1];
+  return end ? end.slice(0, 10) : null;
+}
+
+/**
+ * Describe what changed between two snapshots of one card.
+ * Availability that is unknown on either side is not compared.
+ */
+export function diffWatchSnapshots(
+  prev: WatchSnapshot,
+  next: WatchSnapshot
+): { kind: WatchEventKind; text: string }[] {
+  const changes: { kind: WatchEventKind; text: string }[] = [];
+
+  for (const [key, label] of Object.entries(WATCH_STATS) as [WatchStatKey, string][]) {
+    if (prev.stats[key] !== next.stats[key] && prev.stats[key] !== null && next.stats[key] !== null) {
+      changes.push({ kind: 'stats', text: formatRawChangeDisplay(label, prev.stats[key], next.stats[key]) });
+    }
+  }
+  if (prev.skillValue !== next.skillValue && prev.skillValue !== null && next.skillValue !== null) {
+    changes.push({ kind: 'stats', text: formatRawChangeDisplay('Skill (MLB)', prev.skillValue, next.skillValue) });
+  }
+
+  if (prev.auctionStock === 'unavailable' && next.auctionStock && next.auctionStock !== 'unavailable') {
+    changes.push({ kind: 'auction', text: `Listed in auction: ${AUCTION_STOCK_LABELS[next.auctionStock]}` });
+  }
+
+  if (prev.featuredBanners && next.featuredBanners) {
+    for (const banner of next.featuredBanners) {
+      if (prev.featuredBanners.includes(banner)) continue;
+      const end = bannerEndDate(banner);
+      changes.push({ kind: 'banner', text: end ? `Featured on a gacha banner until ${end}` : 'Featured on a gacha banner' });
+    }
+  }
+
+  if (!prev.inExchange && next.inExchange) {
+    changes.push({ kind: 'exchange', text: 'Added to an exchange' });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare every watched card with current data.
+ * Returns the new state: fresh snapshots, new events ahead of queued ones.
+ * Cards missing from the data keep their old snapshot.
+ */
+export function applyWatchCheck(state: WatchlistState, input: WatchCheckInput, now: number = Date.now()): WatchlistState {
+  const newEvents: WatchEvent[] = [];
+
+  const cards = state.cards.map(watched => {
+    const card = input.cards[watched.cardId];
+    if (!card) return watched;
+
+    const availability = input.availability ? (input.availability[watched.cardId] ?? null) : undefined;
+    const next = buildWatchSnapshot(card, availability, input.version);
+    const prev = watched.snapshot;
+    if (prev) {
+      // Keep the last known availability through a failed R2 fetch
+      next.auctionStock ??= prev.auctionStock;
+      next.featuredBanners ??= prev.featuredBanners;
+      for (const change of diffWatchSnapshots(prev, next)) {
+        newEvents.push({
+          cardId: watched.cardId,
+          cardName: card.name ?? `#${watched.cardId}`,
+          ...change,
+          detectedAt: now,
+          dataVersion: input.version,
+        });
+      }
+    }
+    return { ...watched, snapshot: next };
+  });
+
+  return {
+    cards,
+    events: [...newEvents, ...state.events].slice(0, MAX_WATCH_EVENTS),
+    lastCheckedAt: now,
+  };
+}
+
+/**
+ * Group queued events by card for the digest, most recently changed card first
+ */
+export function groupWatchEvents(events: WatchEvent[]): { cardId: string; cardName: string; events: WatchEvent[] }[] {
+  const groups = new Map<string, { cardId: string; cardName: string; events: WatchEvent[] }>();
+  for (const event of events) {
+    const group = groups.get(event.cardId) ?? { cardId: event.cardId, cardName: event.cardName, events: [] };
+    group.events.push(event);
+    groups.set(event.cardId, group);
+  }
+  return [...groups.values()];
+}
+
+/** Due when the interval has passed or a card has no baseline yet */
+export function isWatchCheckDue(state: WatchlistState, now: number = Date.now()): boolean {
+  if (state.cards.length === 0) return false;
+  if (state.cards.some(card => !card.snapshot)) return true;
+  return state.lastCheckedAt === null || now - state.lastCheckedAt >= WATCH_CHECK_INTERVAL;
+}
+
+export function addWatchedCard(state: WatchlistState, cardId: string, now: number = Date.now()): WatchlistState {
+  if (state.cards.some(card => card.cardId === cardId) || state.cards.length >= MAX_WATCHED_CARDS) return state;
+  return { ...state, cards: [...state.cards, { cardId, addedAt: now, snapshot: null }] };
+}
+
+export function removeWatchedCard(state: WatchlistState, cardId: string): WatchlistState {
+  return {
+    ...state,
+    cards: state.cards.filter(card => card.cardId !== cardId),
+    events: state.events.filter(event => event.cardId !== cardId),
+  };
+}
+
+/**
+ * Coerce stored JSON into a valid state, dropping anything malformed
+ */
+export function normalizeWatchlist(input: unknown): WatchlistState {
+  if (!input || typeof input !== 'object') return EMPTY_WATCHLIST;
+  const raw = input as Partial<WatchlistState>;
+  const cards = Array.isArray(raw.cards)
+    ? raw.cards
+      .filter(card => card && typeof card.cardId === 'string')
+      .slice(0, MAX_WATCHED_CARDS)
+      .map(card => ({
+        cardId: card.cardId,
+        addedAt: typeof card.addedAt === 'number' ? card.addedAt : 0,
+        snapshot: card.snapshot && typeof card.snapshot === 'object' ? card.snapshot : null,
+      }))
+    : [];
+  const events = Array.isArray(raw.events)
+    ? raw.events.filter(event => event && typeof event.cardId === 'string' && typeof event.text === 'string').slice(0, MAX_WATCH_EVENTS)
+    : [];
+  return {
+    cards,
+    events,
+    lastCheckedAt: typeof raw.lastCheckedAt === 'number' ? raw.lastCheckedAt : null,
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function notifyChange(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(WATCHLIST_CHANGE_EVENT));
+  }
+}
+
+/**
+ * Read the watchlist. Returns an empty list when localStorage is unavailable.
+ */
+export function loadWatchlist(): WatchlistState {
+  if (typeof localStorage === 'undefined') return EMPTY_WATCHLIST;
+  try {
+    const stored = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+    return stored ? normalizeWatchlist(JSON.parse(stored)) : EMPTY_WATCHLIST;
+  } catch (error) {
+    console.warn('[Watchlist] Failed to read watchlist', { error: String(error) });
+    return EMPTY_WATCHLIST;
+  }
+}
+
+export function saveWatchlist(state: WatchlistState): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(state));
+    notifyChange();
+  } catch (error) {
+    console.warn('[Watchlist] Failed to save watchlist', { error: String(error) });
+  }
+}
+
+export function watchCard(cardId: string): void {
+  saveWatchlist(addWatchedCard(loadWatchlist(), cardId));
+}
+
+export function unwatchCard(cardId: string): void {
+  saveWatchlist(removeWatchedCard(loadWatchlist(), cardId));
+}
+
+/** Mark every queued event as seen */
+export function dismissWatchEvents(): void {
+  saveWatchlist({ ...loadWatchlist(), events: [] });
+}
+
+/**
+ * Compare watched cards with the current cards index and availability.
+ * Skips the network entirely when nothing is watched or a check ran recently,
+ * unless `force` is set.
+ */
+export async function checkWatchlist(options: { force?: boolean } = {}): Promise<WatchlistState> {
+  const state = loadWatchlist();
+  if (state.cards.length === 0) return state;
+  if (!options.force && !isWatchCheckDue(state)) return state;
+
+  const cardsData = await getCardsData();
+  const manifest = await fetchAvailabilityManifest();
+  const availabilityData = manifest ? await fetchAvailabilityData(manifest.current_version) : null;
+
+  // Re-read so a watch/unwatch made while loading is not overwritten
+  const next = applyWatchCheck(loadWatchlist(), {
+    version: cardsData.data_hash ?? cardsData.version,
+    cards: cardsData.cards,
+    availability: availabilityData?.cards ?? null,
+  });
+  saveWatchlist(next);
+  return next;
+}
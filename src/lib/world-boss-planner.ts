@@ -0,0 +1,237 @@
+/**
+ * World Boss Planner
+ * Turns parsed world boss data into calculator inputs
+ *
+ * - The boss level's defense becomes EnemyState.baseDefense (shield cap off)
+ * - The chosen skill rotation is looped over the fight and each cast's
+ *   effects (from parseEffect) become BossStatusWindows on the members it
+ *   targets, which the battle simulator applies tick by tick
+ *
+ * Assumptions (the raw data does not say more):
+ * - Defense is on a 1/10000 scale, so the highest boss defense (500) is a 5%
+ *   damage reduction
+ * - Rotations repeat from the start once the last listed cast has happened
+ * - Status effects always land (HIT is shown as accuracy, not a land chance)
+ * - Random targets ("count<N>" with no selector) are spread round-robin over
+ *   the occupied slots, so every member takes its share over a long fight
+ */
+
+import type {
+  EnemyState,
+  TeamMemberState,
+  BossStatusWindow,
+  BossStatusKind,
+} from './team-calc-types';
+import { MAIN_TEAM_SIZE } from './team-calc-types';
+import { BASE_CRIT_MULT } from './damage-calc';
+import type {
+  WorldBoss,
+  ParsedBossLevel,
+  ParsedBossSkill,
+  ParsedEffect,
+  ParsedTarget,
+  SkillRotationEntry,
+} from '../types/worldBoss';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BOSS_DEFENSE_SCALE = 10000;
+
+export type BossRotationKind = 'normal' | 'kill';
+
+// Effects that stop a member from attacking or casting
+const DISABLE_EFFECTS = new Set(['stun', 'frozen', 'stone', 'numb']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BossCastEvent {
+  time: number;
+  skill: ParsedBossSkill;
+  targets: number[];              // Main-team slots hit (empty for self buffs)
+}
+
+export interface BossPlan {
+  enemy: EnemyState;
+  casts: BossCastEvent[];
+  statuses: BossStatusWindow[];
+}
+
+// ============================================================================
+// Enemy State
+// ============================================================================
+
+/**
+ * Enemy settings for a boss level: its defense, no shield cap, single wave
+ */
+export function getBossEnemyState(level: ParsedBossLevel, base: EnemyState): EnemyState {
+  return {
+    ...base,
+    baseDefense: level.defense / BOSS_DEFENSE_SCALE,
+    ignoreShieldCap: true,
+    isFinalWave: true,
+    waveCount: 1,
+  };
+}
+
+// ============================================================================
+// Rotation
+// ============================================================================
+
+/**
+ * Repeat a rotation until the fight ends. One loop lasts as long as its last
+ * listed cast time.
+ */
+export function expandRotation(rotation: SkillRotationEntry[], durationSeconds: number): SkillRotationEntry[] {
+  const period = rotation.reduce((max, entry) => Math.max(max, entry.time), 0);
+  if (period <= 0) return [];
+
+  const result: SkillRotationEntry[] = [];
+  for (let offset = 0; offset < durationSeconds; offset += period) {
+    for (const entry of rotation) {
+      const time = offset + entry.time;
+      if (time < durationSeconds) result.push({ time, skillId: entry.skillId });
+    }
+  }
+  return result.sort((a, b) => a.time - b.time);
+}
+
+// ============================================================================
+// Targeting
+// ============================================================================
+
+/**
+ * Pick the main-team slots a boss skill hits.
+ *
+ * @param cursor - Round-robin position for random targets; advanced in place
+ */
+export function resolveBossTargets(
+  target: ParsedTarget,
+  rawTs: string,
+  members: TeamMemberState[],
+  cursor: { value: number }
+): number[] {
+  if (target.type !== 'enemies') return [];
+
+  const occupied = members
+    .slice(0, MAIN_TEAM_SIZE)
+    .flatMap((m, i) => (m.card ? [i] : []));
+  if (occupied.length === 0) return [];
+
+  const count = Math.min(target.count ?? occupied.length, occupied.length);
+  const byStat = (stat: (m: TeamMemberState) => number, descending: boolean) =>
+    [...occupied].sort((a, b) => (descending ? -1 : 1) * (stat(members[a]) - stat(members[b])));
+
+  let ordered: number[];
+  switch (target.selector) {
+    case 'front':
+      ordered = occupied;
+      break;
+    case 'highest ATK':
+      ordered = byStat(m => m.computedStats?.displayAtk ?? 0, true);
+      break;
+    case 'lowest HP':
+      ordered = byStat(m => m.card?.stats.max_hp ?? 0, false);
+      break;
+    case 'by type priority': {
+      const priority = rawTs.match(/prof<([\d,]+)>/)?.[1].split(',').map(Number) ?? [];
+      const rank = (i: number) => {
+        const index = priority.indexOf(members[i].card?.stats.type ?? 0);
+        return index === -1 ? priority.length : index;
+      };
+      ordered = [...occupied].sort((a, b) => rank(a) - rank(b));
+      break;
+    }
+    default: {
+      if (count >= occupied.length) return occupied;
+      const start = cursor.value % occupied.length;
+      cursor.value += count;
+      ordered = [...occupied.slice(start), ...occupied.slice(0, start)];
+    }
+  }
+  return ordered.slice(0, count).sort((a, b) => a - b);
+}
+
+// ============================================================================
+// Status Windows
+// ============================================================================
+
+function parseSeconds(text: string | undefined): number {
+  const value = parseFloat(text ?? '');
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function parsePercent(text: string): number {
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value / 100 : 0;
+}
+
+/**
+ * Map one parsed effect to a status kind and value, or null if it does not
+ * change the team's damage (DoTs, defense, boss self-buffs, ...)
+ */
+export function effectToStatus(effect: ParsedEffect): { kind: BossStatusKind; value: number; duration: number } | null {
+  if (DISABLE_EFFECTS.has(effect.type)) {
+    return { kind: 'disable', value: 0, duration: parseSeconds(effect.value) };
+  }
+  switch (effect.type) {
+    case 'silence':
+      return { kind: 'silence', value: 0, duration: parseSeconds(effect.value) };
+    case 'spd':
+      return { kind: 'slow', value: parsePercent(effect.value), duration: parseSeconds(effect.duration) };
+    case 'chit':
+      return { kind: 'critRate', value: parsePercent(effect.value), duration: parseSeconds(effect.duration) };
+    case 'chit_atk':
+      // Crit DMG% is a bonus on the base 2x multiplier
+      return { kind: 'critDmg', value: parsePercent(effect.value) * BASE_CRIT_MULT, duration: parseSeconds(effect.duration) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the boss's cast timeline and the status windows it puts on the team
+ */
+export function planBossFight(
+  boss: WorldBoss,
+  level: ParsedBossLevel,
+  rotationKind: BossRotationKind,
+  members: TeamMemberState[],
+  baseEnemy: EnemyState,
+  durationSeconds: number
+): BossPlan {
+  const rotation = rotationKind === 'kill' ? level.killRotation : level.normalRotation;
+  const skillsById = new Map(boss.skills.map(skill => [skill.id, skill]));
+  const cursor = { value: 0 };
+
+  const casts: BossCastEvent[] = [];
+  const statuses: BossStatusWindow[] = [];
+
+  for (const entry of expandRotation(rotation, durationSeconds)) {
+    const skill = skillsById.get(entry.skillId);
+    if (!skill) continue;
+
+    const targets = resolveBossTargets(skill.target, skill.rawTs, members, cursor);
+    casts.push({ time: entry.time, skill, targets });
+
+    for (const effect of skill.effects) {
+      const status = effectToStatus(effect);
+      if (!status || status.duration <= 0) continue;
+      for (const memberIndex of targets) {
+        statuses.push({
+          memberIndex,
+          start: entry.time,
+          end: Math.min(entry.time + status.duration, durationSeconds),
+          kind: status.kind,
+          value: status.value,
+          source: `${boss.name} S${skill.id}: ${effect.description}`,
+        });
+      }
+    }
+  }
+
+  return { enemy: getBossEnemyState(level, baseEnemy), casts, statuses };
+}
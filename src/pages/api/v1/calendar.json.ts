@@ -0,0 +1,7 @@
+import { buildCalendarResponse } from '../../../lib/publicApi';
+import { loadApiSource } from '../../../lib/publicApiSource';
+
+export function GET() {
+  const { index, calendar } = loadApiSource();
+  return Response.json(buildCalendarResponse(calendar, index.version));
+}
@@ -0,0 +1,15 @@
+import type { APIContext } from 'astro';
+import { buildCardResponse } from '../../../../lib/publicApi';
+import { loadApiSource } from '../../../../lib/publicApiSource';
+
+export function getStaticPaths() {
+  const { index } = loadApiSource();
+  return Object.values(index.cards).map(card => ({
+    params: { id: card.id },
+    props: { response: buildCardResponse(card, index.version) },
+  }));
+}
+
+export function GET({ props }: APIContext) {
+  return Response.json(props.response);
+}
@@ -0,0 +1,7 @@
+import { buildEventsResponse } from '../../../lib/publicApi';
+import { loadApiSource } from '../../../lib/publicApiSource';
+
+export function GET() {
+  const { index, events } = loadApiSource();
+  return Response.json(buildEventsResponse(events, index.version));
+}
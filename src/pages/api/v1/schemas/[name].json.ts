@@ -0,0 +1,10 @@
+import type { APIContext } from 'astro';
+import { API_SCHEMA_NAMES, API_SCHEMAS, type ApiSchemaName } from '../../../../lib/publicApi';
+
+export function getStaticPaths() {
+  return API_SCHEMA_NAMES.map(name => ({ params: { name } }));
+}
+
+export function GET({ params }: APIContext) {
+  return Response.json(API_SCHEMAS[params.name as ApiSchemaName]);
+}
@@ -0,0 +1,6 @@
+import { buildSkillsResponse } from '../../../lib/publicApi';
+import { loadApiSource } from '../../../lib/publicApiSource';
+
+export function GET() {
+  return Response.json(buildSkillsResponse(loadApiSource().index));
+}
@@ -0,0 +1,14 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * The rfc6902 UMD build for the service worker (public/sw.js loads it with
+ * importScripts to apply delta patches). Served from the installed package at
+ * build time so the worker and src/lib/delta.ts patch with the same version.
+ */
+export function GET() {
+  const script = readFileSync(join(process.cwd(), 'node_modules', 'rfc6902', 'dist', 'rfc6902.min.js'), 'utf-8');
+  return new Response(script, {
+    headers: { 'Content-Type': 'application/javascript; charset=utf-8' },
+  });
+}
@@ -270,6 +270,9 @@ export interface Card {
   receives_special_bond?: boolean;
 }
 
+/** A card as the card table renders and exports it: everything but the detail-page fields */
+export type CardTableRow = Omit<Card, 'description' | 'synergies' | 'meta' | 'history'>;
+
 export interface CardsData {
   version: string;
   data_hash?: string;  // Content identity hash for delta versioning